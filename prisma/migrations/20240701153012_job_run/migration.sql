@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "JobRunStatus" AS ENUM ('Running', 'Succeeded', 'Failed', 'Canceled');
+
+-- CreateTable
+CREATE TABLE "JobRun" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "pod" TEXT,
+    "status" "JobRunStatus" NOT NULL DEFAULT 'Running',
+    "attempt" INTEGER NOT NULL DEFAULT 1,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+    "duration" INTEGER,
+    "result" JSONB,
+    "error" JSONB,
+    "triggeredBy" INTEGER,
+
+    CONSTRAINT "JobRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JobRun_name_startedAt_idx" ON "JobRun"("name", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "JobRun_startedAt_idx" ON "JobRun"("startedAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Import" ADD COLUMN     "updatedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Import_parentId_idx" ON "Import"("parentId");
@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "RateLimitIdentityType" AS ENUM ('User', 'ApiKey', 'Ip');
+
+-- CreateTable
+CREATE TABLE "RateLimitOverride" (
+    "id" SERIAL NOT NULL,
+    "policy" TEXT NOT NULL,
+    "identityType" "RateLimitIdentityType" NOT NULL,
+    "identifier" TEXT NOT NULL,
+    "limit" INTEGER,
+    "reason" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" INTEGER NOT NULL,
+
+    CONSTRAINT "RateLimitOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RateLimitOverride_policy_identityType_identifier_key" ON "RateLimitOverride"("policy", "identityType", "identifier");
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "SearchDocument" (
+    "index" TEXT NOT NULL,
+    "id" TEXT NOT NULL,
+    "document" JSONB NOT NULL,
+    "searchVector" tsvector,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SearchDocument_pkey" PRIMARY KEY ("index","id")
+);
+
+-- CreateIndex
+CREATE INDEX "SearchDocument_searchVector_idx" ON "SearchDocument" USING GIN ("searchVector");
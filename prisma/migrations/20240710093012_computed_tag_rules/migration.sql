@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "ComputedTagRule" (
+    "id" SERIAL NOT NULL,
+    "tag" CITEXT NOT NULL,
+    "expression" TEXT NOT NULL,
+    "sources" "TagSource"[],
+    "minConfidence" INTEGER NOT NULL DEFAULT 0,
+    "temp" BOOLEAN NOT NULL DEFAULT false,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdById" INTEGER,
+
+    CONSTRAINT "ComputedTagRule_pkey" PRIMARY KEY ("id")
+);
+
+-- Seed with the rules that were previously hardcoded
+INSERT INTO "ComputedTagRule" ("tag", "expression", "sources", "temp", "priority", "updatedAt")
+VALUES
+  ('nudity', 'nude OR completely nude OR penis OR pussy OR cleft of venus OR vagina OR testicles OR (bottomless AND ass) OR female pubic hair OR male pubic hair OR (colored skin AND clothes lift) OR anus', '{WD14}', false, 10, now()),
+  ('male', 'male focus OR 1boy OR 2boys OR 3boys OR 4boys OR 5boys OR 6+boys OR multiple boys', '{WD14}', false, 20, now()),
+  ('graphic male nudity', 'nudity AND male', '{WD14}', false, 30, now()),
+  ('female', 'female focus OR 1girl OR 2girls OR 3girls OR 4girls OR 5girls OR 6+girls OR multiple girls', '{WD14}', false, 40, now()),
+  ('child', 'male child OR female child', '{}', false, 50, now()),
+  ('graphic female nudity', 'nudity AND female', '{WD14}', false, 60, now()),
+  ('adult toys', 'dildo OR sex toy', '{WD14}', false, 70, now()),
+  ('partial nudity', 'NOT nudity AND (topless OR (nipples AND female) OR (covered nipples AND see-through AND female) OR underboob OR sideboob OR areola slip OR pelvic curtain OR topless male OR (no bra AND (wet clothes OR see-through) AND female) OR (naked towel AND wet) OR (see-through AND no panties) OR pubic hair OR (exposed buttocks or anus AND from behind))', '{WD14}', false, 80, now()),
+  ('sexual activity', 'sex OR group sex OR clothed sex OR tentacle sex OR (restrained AND tentacles AND blush) OR gangbang OR handjob OR double handjob OR footjob OR breast sucking OR anal OR vaginal OR paizuri OR fellatio OR cunnilingus OR oralsex machine OR cum on body OR cum on breasts OR cum in mouth OR cum on tongue OR cum on clothes OR cum OR female masturbation OR masturbation OR fingering OR ejaculation OR (erection AND NOT erection under clothes) OR male mastuerbation OR ((kiss OR french kiss) AND (nudity OR partial nudity)) OR breast grab OR female ejaculation OR pussy juice', '{WD14}', false, 90, now()),
+  ('underwear', 'panties OR bra OR lingerie OR leotard OR bikini OR swimsuit OR underwear only OR fundoshi OR bikini armor OR panties under pantyhose OR pasties OR sports bra OR (covered navel AND leotard)', '{WD14}', true, 100, now()),
+  ('female swimwear or underwear', 'underwear AND female', '{WD14}', false, 110, now()),
+  ('male swimwear or underwear', 'underwear AND male', '{WD14}', false, 120, now()),
+  ('barechested male', 'topless male OR bare pectorals OR (pectorals AND nipples)', '{WD14}', false, 130, now()),
+  ('revealing clothes', 'NOT nudity AND NOT partial nudity AND NOT underwear AND ((skin tight AND navel) OR miniskirt OR ((cleavage OR covered nipples) AND (large breasts OR huge breasts OR large_breasts OR huge_breasts)) OR (navel AND midriff) OR (navel AND thighs) OR (midriff AND thighs) OR short shorts OR (tight pants AND (looking back OR from behind)) OR (no bra AND (open clothes OR covered nipples) AND female) OR pantylines OR cameltoe OR bulge)', '{WD14}', false, 140, now()),
+  ('sexual situations', 'NOT sexual activity AND (undressing OR (downblouse AND tongue out) OR ass focus OR pee OR peeing OR (boob grab OR breast grab) OR face to breasts OR ball gag OR bdsm OR ass grab OR breast press OR grabbing own breast OR oral invitation OR erection under clothes OR (lying AND on back AND legs up))', '{WD14}', false, 150, now()),
+  ('underwear', 'NOT dress AND NOT nudity AND NOT illustrated explicit nudity AND NOT partial nudity AND NOT sexual activity AND NOT graphic female nudity AND NOT graphic male nudity AND (swimwear OR lingerie OR bikini)', '{Rekognition}', true, 160, now()),
+  ('female swimwear or underwear', 'female AND underwear', '{Rekognition}', false, 170, now()),
+  ('male swimwear or underwear', 'male AND underwear', '{Rekognition}', false, 180, now()),
+  ('partial nudity', 'NOT nudity AND exposed buttocks or anus AND from behind', '{WD14,Rekognition}', false, 190, now());
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "PromptModerationRuleType" AS ENUM ('Block', 'Allow');
+
+-- CreateEnum
+CREATE TYPE "PromptModerationStage" AS ENUM ('Blocklist', 'External');
+
+-- CreateTable
+CREATE TABLE "PromptModerationRule" (
+    "id" SERIAL NOT NULL,
+    "type" "PromptModerationRuleType" NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "isRegex" BOOLEAN NOT NULL DEFAULT false,
+    "replacement" TEXT,
+    "category" TEXT,
+    "note" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdById" INTEGER,
+
+    CONSTRAINT "PromptModerationRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PromptModerationLog" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER,
+    "prompt" TEXT NOT NULL,
+    "stage" "PromptModerationStage" NOT NULL,
+    "categories" TEXT[],
+    "ruleId" INTEGER,
+    "falsePositive" BOOLEAN,
+    "reviewedById" INTEGER,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromptModerationLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PromptModerationLog_createdAt_idx" ON "PromptModerationLog"("createdAt");
+
+-- Seed with the false positive triggers that were previously hardcoded
+INSERT INTO "PromptModerationRule" ("type", "pattern", "isRegex", "replacement", "updatedAt")
+VALUES
+  ('Allow', '\b\d*girl\b', true, 'woman', now()),
+  ('Allow', '\b\d*boy\b', true, 'man', now()),
+  ('Allow', '\b\d*girls\b', true, 'women', now()),
+  ('Allow', '\b\d*boys\b', true, 'men', now()),
+  ('Allow', 'school uniform', false, 'uniform', now());
@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "RedeemableCode" ADD COLUMN "batchId" INTEGER,
+ADD COLUMN "maxUses" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "uses" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "RedeemableCodeBatch" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "RedeemableCodeType" NOT NULL,
+    "unitValue" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "maxUsesPerCode" INTEGER NOT NULL DEFAULT 1,
+    "singleUsePerUser" BOOLEAN NOT NULL DEFAULT true,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" INTEGER,
+
+    CONSTRAINT "RedeemableCodeBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RedeemableCodeRedemption" (
+    "code" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "batchId" INTEGER,
+    "transactionId" TEXT,
+    "redeemedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RedeemableCodeRedemption_pkey" PRIMARY KEY ("code","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "RedeemableCode_batchId_idx" ON "RedeemableCode"("batchId");
+
+-- CreateIndex
+CREATE INDEX "RedeemableCodeRedemption_batchId_userId_idx" ON "RedeemableCodeRedemption"("batchId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "RedeemableCode" ADD CONSTRAINT "RedeemableCode_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "RedeemableCodeBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RedeemableCodeRedemption" ADD CONSTRAINT "RedeemableCodeRedemption_code_fkey" FOREIGN KEY ("code") REFERENCES "RedeemableCode"("code") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Record the redemptions of existing codes
+UPDATE "RedeemableCode" SET "uses" = 1 WHERE "redeemedAt" IS NOT NULL;
+
+INSERT INTO "RedeemableCodeRedemption" ("code", "userId", "transactionId", "redeemedAt")
+SELECT "code", "userId", "transactionId", "redeemedAt"
+FROM "RedeemableCode"
+WHERE "redeemedAt" IS NOT NULL AND "userId" IS NOT NULL;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "DonationGoalUnlock" AS ENUM ('EarlyAccess');
+
+-- AlterTable
+ALTER TABLE "DonationGoal" ADD COLUMN "expiresAt" TIMESTAMP(3),
+ADD COLUMN "completedAt" TIMESTAMP(3),
+ADD COLUMN "refundedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Donation" ADD COLUMN "refundedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "DonationGoalMilestone" (
+    "id" SERIAL NOT NULL,
+    "donationGoalId" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "unlock" "DonationGoalUnlock",
+    "reachedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DonationGoalMilestone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DonationGoalMilestone_donationGoalId_amount_key" ON "DonationGoalMilestone"("donationGoalId", "amount");
+
+-- AddForeignKey
+ALTER TABLE "DonationGoalMilestone" ADD CONSTRAINT "DonationGoalMilestone_donationGoalId_fkey" FOREIGN KEY ("donationGoalId") REFERENCES "DonationGoal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Mark goals that have already been reached
+UPDATE "DonationGoal" dg
+SET "completedAt" = now()
+WHERE (SELECT SUM(d.amount) FROM "Donation" d WHERE d."donationGoalId" = dg.id) >= dg."goalAmount";
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "EntityCollaboratorRole" AS ENUM ('Viewer', 'Editor', 'Publisher');
+
+-- AlterTable
+ALTER TABLE "EntityCollaborator" ADD COLUMN "role" "EntityCollaboratorRole" NOT NULL DEFAULT 'Viewer';
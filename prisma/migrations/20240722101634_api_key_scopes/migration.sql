@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "KeyScope" ADD VALUE 'ModelsWrite';
+ALTER TYPE "KeyScope" ADD VALUE 'ImagesWrite';
+ALTER TYPE "KeyScope" ADD VALUE 'VaultRead';
+ALTER TYPE "KeyScope" ADD VALUE 'BuzzSpend';
+ALTER TYPE "KeyScope" ADD VALUE 'GenerationSubmit';
+
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN     "allowedIps" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "lastUsedAt" TIMESTAMP(3),
+ADD COLUMN     "requestCount" INTEGER NOT NULL DEFAULT 0;
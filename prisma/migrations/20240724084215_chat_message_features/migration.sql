@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ChatMessageReaction" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "messageId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "reaction" "ReviewReactions" NOT NULL,
+
+    CONSTRAINT "ChatMessageReaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ChatMessageAttachment" (
+    "id" SERIAL NOT NULL,
+    "messageId" INTEGER NOT NULL,
+    "imageId" INTEGER,
+    "modelVersionId" INTEGER,
+
+    CONSTRAINT "ChatMessageAttachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatMessageReaction_messageId_userId_reaction_key" ON "ChatMessageReaction"("messageId", "userId", "reaction");
+
+-- CreateIndex
+CREATE INDEX "ChatMessageAttachment_messageId_idx" ON "ChatMessageAttachment" USING HASH ("messageId");
+
+-- AddForeignKey
+ALTER TABLE "ChatMessageReaction" ADD CONSTRAINT "ChatMessageReaction_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "ChatMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatMessageReaction" ADD CONSTRAINT "ChatMessageReaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatMessageAttachment" ADD CONSTRAINT "ChatMessageAttachment_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "ChatMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatMessageAttachment" ADD CONSTRAINT "ChatMessageAttachment_imageId_fkey" FOREIGN KEY ("imageId") REFERENCES "Image"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatMessageAttachment" ADD CONSTRAINT "ChatMessageAttachment_modelVersionId_fkey" FOREIGN KEY ("modelVersionId") REFERENCES "ModelVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Full-text index for chat history search
+CREATE INDEX "ChatMessage_content_search_idx" ON "ChatMessage" USING GIN (to_tsvector('english', "content"));
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ChatMemberRole" AS ENUM ('Admin', 'Member');
+
+-- AlterTable
+ALTER TABLE "ChatMember" ADD COLUMN "role" "ChatMemberRole" NOT NULL DEFAULT 'Member',
+ADD COLUMN "mutedUntil" TIMESTAMP(3);
+
+-- Owners administer their chats
+UPDATE "ChatMember" SET "role" = 'Admin' WHERE "isOwner";
+
+-- CreateTable
+CREATE TABLE "ChatInvite" (
+    "id" TEXT NOT NULL,
+    "chatId" INTEGER NOT NULL,
+    "createdById" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "maxUses" INTEGER,
+    "uses" INTEGER NOT NULL DEFAULT 0,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ChatInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChatInvite_chatId_idx" ON "ChatInvite" USING HASH ("chatId");
+
+-- AddForeignKey
+ALTER TABLE "ChatInvite" ADD CONSTRAINT "ChatInvite_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "Chat"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatInvite" ADD CONSTRAINT "ChatInvite_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
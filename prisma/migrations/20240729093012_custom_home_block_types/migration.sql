@@ -0,0 +1,4 @@
+-- AlterEnum
+ALTER TYPE "HomeBlockType" ADD VALUE 'ModelQuery';
+ALTER TYPE "HomeBlockType" ADD VALUE 'FollowedCreators';
+ALTER TYPE "HomeBlockType" ADD VALUE 'TagSpotlight';
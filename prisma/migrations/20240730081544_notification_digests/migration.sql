@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "NotificationFrequency" AS ENUM ('Instant', 'Daily', 'Weekly');
+
+-- CreateTable
+CREATE TABLE "UserNotificationFrequency" (
+    "userId" INTEGER NOT NULL,
+    "category" TEXT NOT NULL,
+    "frequency" "NotificationFrequency" NOT NULL,
+
+    CONSTRAINT "UserNotificationFrequency_pkey" PRIMARY KEY ("userId","category")
+);
+
+-- CreateIndex
+CREATE INDEX "UserNotificationFrequency_frequency_idx" ON "UserNotificationFrequency"("frequency");
+
+-- AddForeignKey
+ALTER TABLE "UserNotificationFrequency" ADD CONSTRAINT "UserNotificationFrequency_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
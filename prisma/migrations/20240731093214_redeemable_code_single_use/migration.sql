@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "RedeemableCodeRedemption" ADD COLUMN "singleUse" BOOLEAN NOT NULL DEFAULT false;
+
+-- Flag the first redemption per user of single use batches (earlier races may have left duplicates)
+UPDATE "RedeemableCodeRedemption" r
+SET "singleUse" = true
+FROM (
+  SELECT DISTINCT ON (r."batchId", r."userId") r.code, r."userId"
+  FROM "RedeemableCodeRedemption" r
+  JOIN "RedeemableCodeBatch" b ON b.id = r."batchId"
+  WHERE b."singleUsePerUser"
+  ORDER BY r."batchId", r."userId", r."redeemedAt"
+) f
+WHERE f.code = r.code AND f."userId" = r."userId";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RedeemableCodeRedemption_batchId_userId_singleUse_key" ON "RedeemableCodeRedemption"("batchId", "userId") WHERE "singleUse";
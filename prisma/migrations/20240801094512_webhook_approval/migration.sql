@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Webhook" ADD COLUMN     "approvedAt" TIMESTAMP(3);
+
+-- Webhooks that have been active were approved under the previous rules
+UPDATE "Webhook" SET "approvedAt" = "createdAt" WHERE "active" OR "disabledAt" IS NOT NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "UserNotificationFrequency" ADD COLUMN     "lastSentAt" TIMESTAMP(3);
@@ -9,24 +9,36 @@ import {
   Box,
   CopyButton,
   ActionIcon,
+  Checkbox,
 } from '@mantine/core';
 import { KeyScope } from '@prisma/client';
 import { IconClipboard } from '@tabler/icons-react';
 import { TypeOf } from 'zod';
-import { Form, InputText, useForm } from '~/libs/form';
+import { Form, InputCheckboxGroup, InputMultiSelect, InputText, useForm } from '~/libs/form';
 import { addApiKeyInputSchema } from '~/server/schema/api-key.schema';
 import { showErrorNotification } from '~/utils/notifications';
 import { trpc } from '~/utils/trpc';
 
 const schema = addApiKeyInputSchema;
 
+const scopeOptions = [
+  { value: KeyScope.Read, label: 'Read - all of your data' },
+  { value: KeyScope.Write, label: 'Write - any action on your behalf' },
+  { value: KeyScope.ModelsWrite, label: 'models:write - create models and upload files' },
+  { value: KeyScope.ImagesWrite, label: 'images:write - create posts and upload images' },
+  { value: KeyScope.VaultRead, label: 'vault:read - read your vault' },
+  { value: KeyScope.BuzzSpend, label: 'buzz:spend - tip, donate and purchase with Buzz' },
+  { value: KeyScope.GenerationSubmit, label: 'generation:submit - submit generation requests' },
+];
+
 export function ApiKeyModal({ ...props }: Props) {
   const form = useForm({
     schema,
     mode: 'onChange',
     shouldUnregister: false,
-    defaultValues: { name: '', scope: [KeyScope.Read, KeyScope.Write] },
+    defaultValues: { name: '', scope: [KeyScope.Read, KeyScope.Write], allowedIps: [] },
   });
+  const allowedIps = form.watch('allowedIps') ?? [];
   const queryUtils = trpc.useContext();
 
   const {
@@ -91,6 +103,23 @@ export function ApiKeyModal({ ...props }: Props) {
         <Form form={form} onSubmit={handleSaveApiKey}>
           <Stack>
             <InputText name="name" label="Name" placeholder="Your API Key name" withAsterisk />
+            <InputCheckboxGroup name="scope" label="Scopes" orientation="vertical" spacing="xs">
+              {scopeOptions.map(({ value, label }) => (
+                <Checkbox key={value} value={value} label={label} />
+              ))}
+            </InputCheckboxGroup>
+            <InputMultiSelect
+              name="allowedIps"
+              label="Allowed IPs"
+              description="Only accept requests from these IP addresses or CIDR ranges. Leave empty to allow any."
+              placeholder="e.g.: 203.0.113.0/24"
+              data={allowedIps}
+              getCreateLabel={(query) => `+ Add ${query}`}
+              creatable
+              searchable
+              clearable
+              parsePaste
+            />
             <Group position="apart">
               <Button variant="default" disabled={mutating} onClick={handleClose}>
                 Cancel
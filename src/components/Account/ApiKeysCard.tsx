@@ -15,9 +15,12 @@ import {
   ActionIcon,
   Center,
   Paper,
+  Badge,
+  Tooltip,
 } from '@mantine/core';
-import { IconPlus, IconCopy, IconTrash } from '@tabler/icons-react';
+import { IconPlus, IconTrash, IconWorld } from '@tabler/icons-react';
 import { formatDate } from '~/utils/date-helpers';
+import { abbreviateNumber } from '~/utils/number-helpers';
 import { ApiKeyModal } from '~/components/Account/ApiKeyModal';
 
 export function ApiKeysCard() {
@@ -71,7 +74,10 @@ export function ApiKeysCard() {
               <thead>
                 <tr>
                   <th>Name</th>
+                  <th>Scopes</th>
                   <th>Created at</th>
+                  <th>Last used</th>
+                  <th>Requests</th>
                   <th />
                 </tr>
               </thead>
@@ -81,9 +87,25 @@ export function ApiKeysCard() {
                     <td>
                       <Group spacing={4}>
                         <Text>{apiKey.name}</Text>
+                        {apiKey.allowedIps.length > 0 && (
+                          <Tooltip label={apiKey.allowedIps.join(', ')} withinPortal>
+                            <IconWorld size={16} />
+                          </Tooltip>
+                        )}
+                      </Group>
+                    </td>
+                    <td>
+                      <Group spacing={4}>
+                        {apiKey.scope.map((scope) => (
+                          <Badge key={scope} size="xs">
+                            {scope}
+                          </Badge>
+                        ))}
                       </Group>
                     </td>
                     <td>{formatDate(apiKey.createdAt)}</td>
+                    <td>{apiKey.lastUsedAt ? formatDate(apiKey.lastUsedAt) : 'Never'}</td>
+                    <td>{abbreviateNumber(apiKey.requestCount)}</td>
                     <td>
                       <Group position="right">
                         <ActionIcon color="red" onClick={() => handleDeleteApiKey(apiKey.id)}>
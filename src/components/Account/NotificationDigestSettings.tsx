@@ -0,0 +1,77 @@
+import { Group, Select, Stack, Text } from '@mantine/core';
+import { NotificationFrequency } from '@prisma/client';
+import { useCurrentUser } from '~/hooks/useCurrentUser';
+import {
+  DigestNotificationCategory,
+  digestNotificationCategories,
+} from '~/server/schema/notification.schema';
+import { showErrorNotification, showSuccessNotification } from '~/utils/notifications';
+import { trpc } from '~/utils/trpc';
+
+const frequencyOptions = [
+  { value: NotificationFrequency.Instant, label: 'Instant (in-app)' },
+  { value: NotificationFrequency.Daily, label: 'Daily email digest' },
+  { value: NotificationFrequency.Weekly, label: 'Weekly email digest' },
+];
+
+export function NotificationDigestSettings() {
+  const currentUser = useCurrentUser();
+  const queryUtils = trpc.useContext();
+  const { data: frequencies = [], isLoading } = trpc.notification.getFrequencies.useQuery(
+    undefined,
+    { enabled: !!currentUser }
+  );
+
+  const { mutate } = trpc.notification.setFrequency.useMutation({
+    async onMutate({ category, frequency }) {
+      await queryUtils.notification.getFrequencies.cancel();
+
+      const prev = queryUtils.notification.getFrequencies.getData();
+      queryUtils.notification.getFrequencies.setData(undefined, (old = []) => [
+        ...old.filter((x) => x.category !== category),
+        { category, frequency },
+      ]);
+
+      return { prev };
+    },
+    onSuccess() {
+      showSuccessNotification({ message: 'User profile updated' });
+    },
+    onError(error, _variables, context) {
+      queryUtils.notification.getFrequencies.setData(undefined, context?.prev);
+      showErrorNotification({
+        title: 'Failed to update notification frequency',
+        error: new Error(error.message),
+      });
+    },
+  });
+
+  if (!currentUser) return null;
+
+  return (
+    <Stack spacing="xs">
+      <Text size="sm" color="dimmed">
+        Choose how often you want to hear about each kind of activity. Digests are sent to{' '}
+        {currentUser.email ?? 'your email'} and only include notifications you haven&apos;t read.
+      </Text>
+      {Object.entries(digestNotificationCategories).map(([category, label]) => (
+        <Group key={category} position="apart" noWrap>
+          <Text weight={500}>{label}</Text>
+          <Select
+            size="xs"
+            data={frequencyOptions}
+            value={
+              frequencies.find((x) => x.category === category)?.frequency ??
+              NotificationFrequency.Instant
+            }
+            disabled={isLoading}
+            onChange={(value: NotificationFrequency | null) => {
+              if (!value) return;
+              mutate({ category: category as DigestNotificationCategory, frequency: value });
+            }}
+          />
+        </Group>
+      ))}
+    </Stack>
+  );
+}
@@ -2,6 +2,7 @@ import { Card, Divider, Stack, Switch, Title, Group, Text, Checkbox } from '@man
 import { IconBellOff } from '@tabler/icons-react';
 import React from 'react';
 import { NewsletterToggle } from '~/components/Account/NewsletterToggle';
+import { NotificationDigestSettings } from '~/components/Account/NotificationDigestSettings';
 import { useNotificationSettings } from '~/components/Notifications/notifications.utils';
 import { SkeletonSwitch } from '~/components/SkeletonSwitch/SkeletonSwitch';
 import {
@@ -127,6 +128,7 @@ export function NotificationsCard() {
           )}
         </Card>
         <Divider label="Email Notifications" />
+        <NotificationDigestSettings />
         <NewsletterToggle />
       </Stack>
     </Card>
@@ -1,6 +1,6 @@
 import { ActionIcon, Group, Menu, Text, Tooltip } from '@mantine/core';
 import { openConfirmModal } from '@mantine/modals';
-import { ChatMemberStatus } from '@prisma/client';
+import { ChatMemberRole, ChatMemberStatus } from '@prisma/client';
 import {
   IconArrowsJoin2,
   IconBell,
@@ -8,6 +8,7 @@ import {
   IconDoorExit,
   IconFlag,
   IconSettings,
+  IconUsersGroup,
   IconX,
 } from '@tabler/icons-react';
 import produce from 'immer';
@@ -21,7 +22,13 @@ import { showErrorNotification } from '~/utils/notifications';
 import { trpc } from '~/utils/trpc';
 import { isDefined } from '~/utils/type-guards';
 
-export const ChatActions = ({ chatObj }: { chatObj?: ChatListMessage }) => {
+export const ChatActions = ({
+  chatObj,
+  onManage,
+}: {
+  chatObj?: ChatListMessage;
+  onManage?: () => void;
+}) => {
   const { setState } = useChatContext();
   const currentUser = useCurrentUser();
   const queryUtils = trpc.useUtils();
@@ -32,6 +39,8 @@ export const ChatActions = ({ chatObj }: { chatObj?: ChatListMessage }) => {
     (cm) => cm.userId !== currentUser?.id && cm.isOwner === true && cm.user.isModerator === true
   );
   const cantLeave = modSender?.status === ChatMemberStatus.Joined && !myMember?.user.isModerator;
+  const canManage =
+    myMember?.status === ChatMemberStatus.Joined && myMember.role === ChatMemberRole.Admin;
 
   const { mutate: modifyMembership } = trpc.chat.modifyUser.useMutation({
     onSuccess(data, req) {
@@ -128,6 +137,11 @@ export const ChatActions = ({ chatObj }: { chatObj?: ChatListMessage }) => {
               {/*{isOwner && <Menu.Item icon={<IconUserPlus size={18} />}>Add users</Menu.Item>}*/}
               {/*{isOwner && <Menu.Item icon={<IconUserX size={18} />}>Ban users</Menu.Item>}*/}
               {/*<Menu.Label>Chat Actions</Menu.Label>*/}
+              {canManage && !!onManage && (
+                <Menu.Item icon={<IconUsersGroup size={18} />} onClick={onManage}>
+                  Manage chat
+                </Menu.Item>
+              )}
               {myMember?.status === ChatMemberStatus.Joined && (
                 <Menu.Item
                   icon={myMember?.isMuted ? <IconBell size={18} /> : <IconBellOff size={18} />}
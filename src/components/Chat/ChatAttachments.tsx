@@ -0,0 +1,111 @@
+import { Anchor, Badge, Box, Card, createStyles, Group, Stack, Text } from '@mantine/core';
+import { NextLink } from '@mantine/next';
+import { EdgeMedia } from '~/components/EdgeMedia/EdgeMedia';
+import { MediaHash } from '~/components/ImageHash/ImageHash';
+import { ImageGuard2 } from '~/components/ImageGuard/ImageGuard2';
+import { ChatAllMessages } from '~/types/router';
+import { getDisplayName } from '~/utils/string-helpers';
+
+type ChatAttachment = ChatAllMessages[number]['attachments'][number];
+
+const cardWidth = 160;
+
+const useStyles = createStyles((theme) => ({
+  card: {
+    width: cardWidth,
+    padding: 0,
+    overflow: 'hidden',
+    backgroundColor: theme.colorScheme === 'dark' ? theme.colors.dark[6] : theme.colors.gray[0],
+  },
+  media: {
+    position: 'relative',
+    width: cardWidth,
+    height: cardWidth,
+    overflow: 'hidden',
+    img: { objectFit: 'cover', width: '100%', height: '100%' },
+  },
+}));
+
+export function ChatAttachments({
+  attachments,
+  isMe,
+}: {
+  attachments: ChatAttachment[];
+  isMe: boolean;
+}) {
+  if (!attachments.length) return null;
+
+  return (
+    <Group spacing="xs" position={isMe ? 'right' : 'left'}>
+      {attachments.map((attachment) =>
+        attachment.image ? (
+          <ImageAttachmentCard key={attachment.id} image={attachment.image} />
+        ) : attachment.modelVersion ? (
+          <ModelVersionAttachmentCard key={attachment.id} modelVersion={attachment.modelVersion} />
+        ) : null
+      )}
+    </Group>
+  );
+}
+
+function ImageAttachmentCard({ image }: { image: NonNullable<ChatAttachment['image']> }) {
+  const { classes } = useStyles();
+
+  return (
+    <Card withBorder className={classes.card}>
+      <ImageGuard2 image={image}>
+        {(safe) => (
+          <Box className={classes.media}>
+            <ImageGuard2.BlurToggle className="absolute left-2 top-2 z-10" />
+            <Anchor component={NextLink} href={`/images/${image.id}`}>
+              {safe ? (
+                <EdgeMedia
+                  src={image.url}
+                  name={image.name ?? image.id.toString()}
+                  alt={image.name ?? undefined}
+                  type={image.type}
+                  width={cardWidth * 2}
+                />
+              ) : (
+                <MediaHash {...image} />
+              )}
+            </Anchor>
+          </Box>
+        )}
+      </ImageGuard2>
+    </Card>
+  );
+}
+
+function ModelVersionAttachmentCard({
+  modelVersion,
+}: {
+  modelVersion: NonNullable<ChatAttachment['modelVersion']>;
+}) {
+  const { classes } = useStyles();
+  const { model } = modelVersion;
+
+  return (
+    <Card
+      withBorder
+      className={classes.card}
+      component={NextLink}
+      href={`/models/${model.id}?modelVersionId=${modelVersion.id}`}
+    >
+      <Stack spacing={4} p="xs">
+        <Group spacing={4}>
+          <Badge size="xs">{getDisplayName(model.type)}</Badge>
+          <Badge size="xs" color="gray">
+            {modelVersion.baseModel}
+          </Badge>
+        </Group>
+        <Text size="sm" weight={500} lineClamp={2}>
+          {model.name}
+        </Text>
+        <Text size="xs" color="dimmed" lineClamp={1}>
+          {modelVersion.name}
+        </Text>
+      </Stack>
+    </Card>
+  );
+}
@@ -20,6 +20,7 @@ import {
   TextInput,
   Tooltip,
 } from '@mantine/core';
+import { useDebouncedValue } from '@mantine/hooks';
 import { ChatMemberStatus } from '@prisma/client';
 import {
   IconCirclePlus,
@@ -43,6 +44,7 @@ import { UserAvatar } from '~/components/UserAvatar/UserAvatar';
 import { useCurrentUser } from '~/hooks/useCurrentUser';
 import { useIsMobile } from '~/hooks/useIsMobile';
 import { ChatListMessage } from '~/types/router';
+import { formatDate } from '~/utils/date-helpers';
 import { showErrorNotification } from '~/utils/notifications';
 import { trpc } from '~/utils/trpc';
 
@@ -80,6 +82,7 @@ export function ChatList() {
   const { classes, cx } = chatListStyles();
   const queryUtils = trpc.useUtils();
   const [searchInput, setSearchInput] = useState<string>('');
+  const [debouncedSearch] = useDebouncedValue(searchInput.trim(), 300);
   const [activeTab, setActiveTab] = useState<StatusValues>('Active');
   const [filteredData, setFilteredData] = useState<ChatListMessage[]>([]);
   const { connected } = useSignalContext();
@@ -90,6 +93,10 @@ export function ChatList() {
   const muteSounds = userSettings?.muteSounds ?? false;
 
   const { data, isLoading } = trpc.chat.getAllByUser.useQuery();
+  const { data: searchResults, isFetching: searchLoading } = trpc.chat.searchMessages.useQuery(
+    { query: debouncedSearch },
+    { enabled: debouncedSearch.length >= 2, keepPreviousData: true }
+  );
   const chatCounts = queryUtils.chat.getUnreadCount.getData();
 
   const pendingCount = !!data
@@ -191,8 +198,6 @@ export function ChatList() {
       if (statusMap[tStatus] === activeTab) return d;
     });
 
-    // TODO we could probably search all messages, but that involves another round trip to grab ALL messages for all chats
-    //      or at least a new endpoint for searching
     const tabFiltered =
       searchInput.length > 0
         ? tabData.filter((d) => {
@@ -276,7 +281,7 @@ export function ChatList() {
       <Box p="sm" pt={0}>
         <TextInput
           icon={<IconSearch size={16} />}
-          placeholder="Filter by user"
+          placeholder="Filter by user or search messages"
           value={searchInput}
           onChange={(event) => setSearchInput(event.currentTarget.value.toLowerCase())}
           rightSection={
@@ -421,6 +426,52 @@ export function ChatList() {
             </AnimatePresence>
           </Stack>
         )}
+        {debouncedSearch.length >= 2 && (
+          <>
+            <Divider label="Messages" labelPosition="center" />
+            {searchLoading && !searchResults ? (
+              <Center p="sm">
+                <Loader size="sm" />
+              </Center>
+            ) : !searchResults?.items.length ? (
+              <Text p="sm" size="sm" align="center" color="dimmed">
+                No messages found.
+              </Text>
+            ) : (
+              <Stack p="xs" spacing={4}>
+                {searchResults.items.map((msg) => {
+                  const tChat = data?.find((d) => d.id === msg.chatId);
+                  const sender = tChat?.chatMembers.find((cm) => cm.userId === msg.userId)?.user;
+
+                  return (
+                    <Stack
+                      key={msg.id}
+                      spacing={0}
+                      className={cx(classes.selectChat, {
+                        [classes.selectedChat]: msg.chatId === state.existingChatId,
+                      })}
+                      onClick={() => {
+                        setState((prev) => ({ ...prev, existingChatId: msg.chatId }));
+                      }}
+                    >
+                      <Group position="apart" noWrap>
+                        <Text size="xs" weight={500}>
+                          {msg.userId === currentUser?.id ? 'You' : sender?.username}
+                        </Text>
+                        <Text size="xs" color="dimmed">
+                          {formatDate(msg.createdAt)}
+                        </Text>
+                      </Group>
+                      <Highlight size="xs" lineClamp={2} highlight={debouncedSearch.split(/\s+/)}>
+                        {msg.content}
+                      </Highlight>
+                    </Stack>
+                  );
+                })}
+              </Stack>
+            )}
+          </>
+        )}
       </Box>
     </Stack>
   );
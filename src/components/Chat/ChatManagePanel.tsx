@@ -0,0 +1,372 @@
+import {
+  ActionIcon,
+  Badge,
+  Box,
+  Button,
+  CopyButton,
+  Divider,
+  Group,
+  Loader,
+  Menu,
+  NumberInput,
+  Select,
+  Stack,
+  Text,
+  Title,
+  Tooltip,
+} from '@mantine/core';
+import { openConfirmModal } from '@mantine/modals';
+import { ChatMemberRole, ChatMemberStatus } from '@prisma/client';
+import {
+  IconCheck,
+  IconChevronLeft,
+  IconClipboard,
+  IconCrown,
+  IconDotsVertical,
+  IconMicrophone,
+  IconMicrophoneOff,
+  IconShield,
+  IconShieldOff,
+  IconTrash,
+  IconUserX,
+} from '@tabler/icons-react';
+import dayjs from 'dayjs';
+import produce from 'immer';
+import { useState } from 'react';
+import { useUpdateChatMember } from '~/components/Chat/ChatSignals';
+import { QuickSearchDropdown } from '~/components/Search/QuickSearchDropdown';
+import { SearchIndexDataMap } from '~/components/Search/search.utils2';
+import { UserAvatar } from '~/components/UserAvatar/UserAvatar';
+import { env } from '~/env/client.mjs';
+import { useCurrentUser } from '~/hooks/useCurrentUser';
+import { ChatListMessage } from '~/types/router';
+import { formatDate } from '~/utils/date-helpers';
+import { showErrorNotification } from '~/utils/notifications';
+import { trpc } from '~/utils/trpc';
+
+type ChatMember = ChatListMessage['chatMembers'][number];
+
+const muteDurations = [
+  { label: '1 hour', hours: 1 },
+  { label: '24 hours', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+];
+
+const inviteExpirations = [
+  { label: '1 hour', value: '1' },
+  { label: '24 hours', value: '24' },
+  { label: '7 days', value: '168' },
+];
+
+export function ChatManagePanel({ chat, onClose }: { chat: ChatListMessage; onClose: () => void }) {
+  const currentUser = useCurrentUser();
+  const queryUtils = trpc.useUtils();
+  const updateMember = useUpdateChatMember();
+
+  const myMember = chat.chatMembers.find((cm) => cm.userId === currentUser?.id);
+  const isOwner = myMember?.isOwner === true;
+  const members = chat.chatMembers.filter(
+    (cm) => cm.status === ChatMemberStatus.Joined || cm.status === ChatMemberStatus.Invited
+  );
+
+  const onError = (title: string) => (error: { message: string }) =>
+    showErrorNotification({ title, error: new Error(error.message), autoClose: false });
+
+  const { mutate: setRole } = trpc.chat.setMemberRole.useMutation({
+    onSuccess: (member) => updateMember({ chatId: chat.id, member }),
+    onError: onError('Failed to update member role.'),
+  });
+  const { mutate: muteMember } = trpc.chat.muteMember.useMutation({
+    onSuccess: (member) => updateMember({ chatId: chat.id, member }),
+    onError: onError('Failed to mute member.'),
+  });
+  const { mutate: modifyMembership } = trpc.chat.modifyUser.useMutation({
+    onSuccess(data) {
+      queryUtils.chat.getAllByUser.setData(
+        undefined,
+        produce((old) => {
+          if (!old) return old;
+
+          const tChat = old.find((c) => c.id === chat.id);
+          const tMember = tChat?.chatMembers?.find((cm) => cm.id === data.id);
+          if (!tMember) return old;
+
+          tMember.status = data.status;
+          tMember.role = ChatMemberRole.Member;
+        })
+      );
+    },
+    onError: onError('Failed to remove member.'),
+  });
+  const { mutate: addUsers, isLoading: addingUsers } = trpc.chat.addUsers.useMutation({
+    onSuccess(data) {
+      queryUtils.chat.getAllByUser.setData(undefined, (old) => {
+        if (!old) return old;
+        return old.map((c) => (c.id === data.id ? { ...data, createdAt: c.createdAt } : c));
+      });
+    },
+    onError: onError('Failed to add users.'),
+  });
+
+  const canManage = (member: ChatMember) =>
+    !!myMember &&
+    myMember.role === ChatMemberRole.Admin &&
+    member.id !== myMember.id &&
+    !member.isOwner &&
+    (member.role !== ChatMemberRole.Admin || isOwner);
+
+  const kickModal = (member: ChatMember) =>
+    openConfirmModal({
+      title: `Remove ${member.user.username} from this chat?`,
+      children: <Text size="sm">They will no longer be able to read or send messages.</Text>,
+      centered: true,
+      labels: { confirm: 'Remove', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: () =>
+        modifyMembership({ chatMemberId: member.id, status: ChatMemberStatus.Kicked }),
+    });
+
+  return (
+    <Stack p="sm" spacing="md" sx={{ flexGrow: 1, overflowY: 'auto' }}>
+      <Group spacing="xs">
+        <ActionIcon onClick={onClose}>
+          <IconChevronLeft />
+        </ActionIcon>
+        <Title order={5}>Manage chat</Title>
+      </Group>
+
+      <Stack spacing="xs">
+        <Text weight={500}>Members</Text>
+        {members.map((member) => {
+          const isMuted = !!member.mutedUntil && member.mutedUntil > new Date();
+
+          return (
+            <Group key={member.id} position="apart" noWrap>
+              <UserAvatar
+                user={member.user}
+                size="xs"
+                withUsername
+                linkToProfile
+                badge={
+                  <Group spacing={4} ml={4} noWrap>
+                    {member.isOwner ? (
+                      <Box title="Creator" display="flex">
+                        <IconCrown size={16} fill="currentColor" />
+                      </Box>
+                    ) : member.role === ChatMemberRole.Admin ? (
+                      <Box title="Admin" display="flex">
+                        <IconShield size={16} />
+                      </Box>
+                    ) : undefined}
+                    {member.status === ChatMemberStatus.Invited && (
+                      <Badge size="xs" color="gray">
+                        Invited
+                      </Badge>
+                    )}
+                    {isMuted && (
+                      <Tooltip
+                        label={`Muted until ${formatDate(member.mutedUntil, 'MMM D, h:mma')}`}
+                      >
+                        <Badge size="xs" color="orange">
+                          Muted
+                        </Badge>
+                      </Tooltip>
+                    )}
+                  </Group>
+                }
+              />
+              {canManage(member) && (
+                <Menu withArrow position="bottom-end">
+                  <Menu.Target>
+                    <ActionIcon size="sm">
+                      <IconDotsVertical size={16} />
+                    </ActionIcon>
+                  </Menu.Target>
+                  <Menu.Dropdown>
+                    {isOwner && member.status === ChatMemberStatus.Joined && (
+                      <Menu.Item
+                        icon={
+                          member.role === ChatMemberRole.Admin ? (
+                            <IconShieldOff size={18} />
+                          ) : (
+                            <IconShield size={18} />
+                          )
+                        }
+                        onClick={() =>
+                          setRole({
+                            chatMemberId: member.id,
+                            role:
+                              member.role === ChatMemberRole.Admin
+                                ? ChatMemberRole.Member
+                                : ChatMemberRole.Admin,
+                          })
+                        }
+                      >
+                        {member.role === ChatMemberRole.Admin ? 'Remove admin' : 'Make admin'}
+                      </Menu.Item>
+                    )}
+                    {isMuted ? (
+                      <Menu.Item
+                        icon={<IconMicrophone size={18} />}
+                        onClick={() => muteMember({ chatMemberId: member.id, mutedUntil: null })}
+                      >
+                        Unmute
+                      </Menu.Item>
+                    ) : (
+                      muteDurations.map(({ label, hours }) => (
+                        <Menu.Item
+                          key={hours}
+                          icon={<IconMicrophoneOff size={18} />}
+                          onClick={() =>
+                            muteMember({
+                              chatMemberId: member.id,
+                              mutedUntil: dayjs().add(hours, 'hour').toDate(),
+                            })
+                          }
+                        >
+                          Mute for {label}
+                        </Menu.Item>
+                      ))
+                    )}
+                    <Menu.Item
+                      icon={<IconUserX size={18} />}
+                      color="red"
+                      onClick={() => kickModal(member)}
+                    >
+                      Remove from chat
+                    </Menu.Item>
+                  </Menu.Dropdown>
+                </Menu>
+              )}
+            </Group>
+          );
+        })}
+        <Box sx={{ position: 'relative' }}>
+          <QuickSearchDropdown
+            disableInitialSearch
+            supportedIndexes={['users']}
+            onItemSelected={(_entity, item) =>
+              addUsers({
+                chatId: chat.id,
+                userIds: [(item as SearchIndexDataMap['users'][number]).id],
+              })
+            }
+            dropdownItemLimit={25}
+            showIndexSelect={false}
+            startingIndex="users"
+            placeholder={addingUsers ? 'Adding user...' : 'Add users'}
+            filters={chat.chatMembers
+              .filter(
+                (cm) =>
+                  cm.status === ChatMemberStatus.Joined || cm.status === ChatMemberStatus.Invited
+              )
+              .map((cm) => `AND NOT id=${cm.userId}`)
+              .join(' ')
+              .slice(4)}
+          />
+        </Box>
+      </Stack>
+
+      <Divider />
+      <ChatInvites chatId={chat.id} />
+    </Stack>
+  );
+}
+
+function ChatInvites({ chatId }: { chatId: number }) {
+  const queryUtils = trpc.useUtils();
+  const [expiresInHours, setExpiresInHours] = useState('24');
+  const [maxUses, setMaxUses] = useState<number | undefined>();
+
+  const { data: invites = [], isLoading } = trpc.chat.getInvites.useQuery({ chatId });
+
+  const { mutate: createInvite, isLoading: creating } = trpc.chat.createInvite.useMutation({
+    async onSuccess() {
+      setMaxUses(undefined);
+      await queryUtils.chat.getInvites.invalidate({ chatId });
+    },
+    onError(error) {
+      showErrorNotification({
+        title: 'Failed to create invite.',
+        error: new Error(error.message),
+      });
+    },
+  });
+  const { mutate: revokeInvite } = trpc.chat.revokeInvite.useMutation({
+    async onSuccess() {
+      await queryUtils.chat.getInvites.invalidate({ chatId });
+    },
+    onError(error) {
+      showErrorNotification({
+        title: 'Failed to revoke invite.',
+        error: new Error(error.message),
+      });
+    },
+  });
+
+  return (
+    <Stack spacing="xs">
+      <Text weight={500}>Invite links</Text>
+      {isLoading ? (
+        <Loader size="sm" />
+      ) : !invites.length ? (
+        <Text size="sm" color="dimmed">
+          No active invite links
+        </Text>
+      ) : (
+        invites.map((invite) => (
+          <Group key={invite.id} position="apart" noWrap>
+            <Stack spacing={0}>
+              <Text size="sm">Expires {formatDate(invite.expiresAt, 'MMM D, h:mma')}</Text>
+              <Text size="xs" color="dimmed">
+                {invite.uses}
+                {invite.maxUses ? ` / ${invite.maxUses}` : ''} uses
+              </Text>
+            </Stack>
+            <Group spacing={4} noWrap>
+              <CopyButton value={`${env.NEXT_PUBLIC_BASE_URL}/chat/invite/${invite.id}`}>
+                {({ copied, copy }) => (
+                  <Tooltip label="Copy invite link">
+                    <ActionIcon onClick={copy}>
+                      {copied ? <IconCheck size={18} /> : <IconClipboard size={18} />}
+                    </ActionIcon>
+                  </Tooltip>
+                )}
+              </CopyButton>
+              <Tooltip label="Revoke invite">
+                <ActionIcon color="red" onClick={() => revokeInvite({ id: invite.id })}>
+                  <IconTrash size={18} />
+                </ActionIcon>
+              </Tooltip>
+            </Group>
+          </Group>
+        ))
+      )}
+      <Group spacing="xs" align="flex-end" noWrap>
+        <Select
+          size="xs"
+          label="Expires after"
+          data={inviteExpirations}
+          value={expiresInHours}
+          onChange={(value) => setExpiresInHours(value ?? '24')}
+        />
+        <NumberInput
+          size="xs"
+          label="Max uses"
+          placeholder="Unlimited"
+          min={1}
+          max={100}
+          value={maxUses}
+          onChange={setMaxUses}
+        />
+        <Button
+          size="xs"
+          loading={creating}
+          onClick={() => createInvite({ chatId, expiresInHours: Number(expiresInHours), maxUses })}
+        >
+          Create
+        </Button>
+      </Group>
+    </Stack>
+  );
+}
@@ -6,7 +6,7 @@ import { useSignalConnection } from '~/components/Signals/SignalsProvider';
 import { useCurrentUser } from '~/hooks/useCurrentUser';
 import { useFeatureFlags } from '~/providers/FeatureFlagsProvider';
 import { SignalMessages } from '~/server/common/enums';
-import { ChatAllMessages, ChatCreateChat } from '~/types/router';
+import { ChatAllMessages, ChatCreateChat, ChatListMessage } from '~/types/router';
 import { trpc } from '~/utils/trpc';
 
 const messageSound = '/sounds/message2.mp3'; // message
@@ -87,6 +87,93 @@ export const useChatNewMessageSignal = () => {
   useSignalConnection(SignalMessages.ChatNewMessage, onUpdate);
 };
 
+export const useUpdateChatMessage = () => {
+  const queryUtils = trpc.useUtils();
+
+  return useCallback(
+    (updated: ChatAllMessages[number]) => {
+      queryUtils.chat.getInfiniteMessages.setInfiniteData(
+        { chatId: updated.chatId },
+        produce((old) => {
+          if (!old) return old;
+
+          for (const page of old.pages) {
+            const index = page.items.findIndex((item) => item.id === updated.id);
+            if (index === -1) continue;
+            // signal payloads don't cast dates automatically
+            page.items[index] = {
+              ...updated,
+              createdAt: new Date(updated.createdAt),
+              editedAt: updated.editedAt ? new Date(updated.editedAt) : null,
+              deletedAt: updated.deletedAt ? new Date(updated.deletedAt) : null,
+            };
+            return;
+          }
+        })
+      );
+    },
+    [queryUtils]
+  );
+};
+
+export const useChatUpdateMessageSignal = () => {
+  const features = useFeatureFlags();
+  const updateMessage = useUpdateChatMessage();
+
+  const onUpdate = useCallback(
+    (updated: ChatAllMessages[number]) => {
+      if (!features.chat) return;
+      updateMessage(updated);
+    },
+    [features.chat, updateMessage]
+  );
+
+  useSignalConnection(SignalMessages.ChatUpdateMessage, onUpdate);
+};
+
+export const useUpdateChatMember = () => {
+  const queryUtils = trpc.useUtils();
+
+  return useCallback(
+    ({ chatId, member }: { chatId: number; member: ChatListMessage['chatMembers'][number] }) => {
+      queryUtils.chat.getAllByUser.setData(
+        undefined,
+        produce((old) => {
+          if (!old) return old;
+
+          const thisChat = old.find((c) => c.id === chatId);
+          if (!thisChat) return old;
+
+          const updated = {
+            ...member,
+            createdAt: new Date(member.createdAt),
+            mutedUntil: member.mutedUntil ? new Date(member.mutedUntil) : null,
+          };
+          const index = thisChat.chatMembers.findIndex((cm) => cm.id === member.id);
+          if (index === -1) thisChat.chatMembers.push(updated);
+          else thisChat.chatMembers[index] = updated;
+        })
+      );
+    },
+    [queryUtils]
+  );
+};
+
+export const useChatMemberUpdateSignal = () => {
+  const features = useFeatureFlags();
+  const updateMember = useUpdateChatMember();
+
+  const onUpdate = useCallback(
+    (data: { chatId: number; member: ChatListMessage['chatMembers'][number] }) => {
+      if (!features.chat) return;
+      updateMember(data);
+    },
+    [features.chat, updateMember]
+  );
+
+  useSignalConnection(SignalMessages.ChatMemberUpdate, onUpdate);
+};
+
 export const useChatNewRoomSignal = () => {
   const queryUtils = trpc.useUtils();
   const currentUser = useCurrentUser();
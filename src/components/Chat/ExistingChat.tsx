@@ -11,18 +11,21 @@ import {
   Image,
   Loader,
   Menu,
+  Popover,
   Spoiler,
   Stack,
   StackProps,
   Text,
   Textarea,
+  TextInput,
   Title,
   Tooltip,
   useMantineTheme,
 } from '@mantine/core';
 import { useDebouncedValue } from '@mantine/hooks';
+import { openConfirmModal } from '@mantine/modals';
 import { NextLink } from '@mantine/next';
-import { ChatMemberStatus, ChatMessageType } from '@prisma/client';
+import { ChatMemberRole, ChatMemberStatus, ChatMessageType, ReviewReactions } from '@prisma/client';
 import {
   IconArrowBack,
   IconChevronDown,
@@ -33,7 +36,11 @@ import {
   IconCircleX,
   IconCrown,
   IconDotsVertical,
+  IconPaperclip,
+  IconPhoto,
   IconSend,
+  IconShield,
+  IconTrash,
   IconX,
 } from '@tabler/icons-react';
 import { AnimatePresence, motion } from 'framer-motion';
@@ -45,8 +52,11 @@ import Link from 'next/link';
 import React, { ReactElement, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { ChatActions } from '~/components/Chat/ChatActions';
+import { ChatAttachments } from '~/components/Chat/ChatAttachments';
+import { ChatManagePanel } from '~/components/Chat/ChatManagePanel';
 import { useChatContext } from '~/components/Chat/ChatProvider';
-import { getLinkHref, linkifyOptions } from '~/components/Chat/util';
+import { useUpdateChatMessage } from '~/components/Chat/ChatSignals';
+import { getLinkHref, linkifyOptions, parseAttachmentLink } from '~/components/Chat/util';
 import { EdgeMedia } from '~/components/EdgeMedia/EdgeMedia';
 import { InViewLoader } from '~/components/InView/InViewLoader';
 import { useSignalContext } from '~/components/Signals/SignalsProvider';
@@ -56,7 +66,7 @@ import { useCurrentUser } from '~/hooks/useCurrentUser';
 import { useIsMobile } from '~/hooks/useIsMobile';
 import { constants } from '~/server/common/constants';
 import { SignalMessages } from '~/server/common/enums';
-import { isTypingOutput } from '~/server/schema/chat.schema';
+import { isTypingOutput, maxAttachmentsPerMessage } from '~/server/schema/chat.schema';
 import { ChatAllMessages } from '~/types/router';
 import { formatDate } from '~/utils/date-helpers';
 import { showErrorNotification } from '~/utils/notifications';
@@ -67,6 +77,10 @@ type TypingStatus = {
   [key: string]: boolean;
 };
 
+type PendingAttachment = { imageId?: number; modelVersionId?: number };
+
+const reactionEntries = Object.entries(constants.availableReactions) as [ReviewReactions, string][];
+
 const PStack = createPolymorphicComponent<'div', StackProps>(Stack);
 
 const useStyles = createStyles((theme) => ({
@@ -93,6 +107,10 @@ const useStyles = createStyles((theme) => ({
   otherMessage: {
     backgroundColor: theme.colorScheme === 'dark' ? theme.colors.dark[3] : theme.colors.gray[2],
   },
+  deletedMessage: {
+    fontStyle: 'italic',
+    opacity: 0.6,
+  },
   highlightRow: {
     '&:hover': {
       '> button': {
@@ -132,6 +150,7 @@ export function ExistingChat() {
   const [typingText, setTypingText] = useState<string | null>(null);
   const [isJoining, setIsJoining] = useState(false);
   const [replyId, setReplyId] = useState<number | undefined>(undefined);
+  const [managing, setManaging] = useState(false);
 
   // TODO there is a bug here. upon rejoining, you won't get a signal for the messages in the timespan between leaving and rejoining
   const { data, fetchNextPage, isLoading, isRefetching, hasNextPage } =
@@ -305,6 +324,7 @@ export function ExistingChat() {
     setTypingStatus({});
     setTypingText(null);
     setReplyId(undefined);
+    setManaging(false);
   }, [state.existingChatId]);
 
   function getTypingStatus(newEntry: { [p: string]: boolean }) {
@@ -418,6 +438,10 @@ export function ExistingChat() {
                           <Box title="Creator" display="flex">
                             <IconCrown size={16} fill="currentColor" />
                           </Box>
+                        ) : cm.role === ChatMemberRole.Admin ? (
+                          <Box title="Admin" display="flex">
+                            <IconShield size={16} />
+                          </Box>
                         ) : undefined}
                         <Box
                           title={
@@ -444,7 +468,7 @@ export function ExistingChat() {
               ))}
             </Group>
           )}
-          <ChatActions chatObj={thisChat} />
+          <ChatActions chatObj={thisChat} onManage={() => setManaging(true)} />
         </Group>
       </Spoiler>
       <Divider mt="sm" />
@@ -452,6 +476,8 @@ export function ExistingChat() {
         <Center h="100%">
           <Loader />
         </Center>
+      ) : managing && !!thisChat && myMember.role === ChatMemberRole.Admin ? (
+        <ChatManagePanel chat={thisChat} onClose={() => setManaging(false)} />
       ) : myMember.status === ChatMemberStatus.Joined ||
         myMember.status === ChatMemberStatus.Left ||
         myMember.status === ChatMemberStatus.Kicked ? (
@@ -503,6 +529,7 @@ export function ExistingChat() {
               )}
               <ChatInputBox
                 isModSender={!!modSender}
+                mutedUntil={myMember.mutedUntil}
                 replyId={replyId}
                 setReplyId={setReplyId}
                 getTypingStatus={getTypingStatus}
@@ -569,6 +596,7 @@ export function ExistingChat() {
 
 function ChatInputBox({
   isModSender,
+  mutedUntil,
   replyId,
   setReplyId,
   getTypingStatus,
@@ -576,6 +604,7 @@ function ChatInputBox({
   setTypingText,
 }: {
   isModSender: boolean;
+  mutedUntil: Date | null;
   replyId: number | undefined;
   setReplyId: React.Dispatch<React.SetStateAction<number | undefined>>;
   getTypingStatus: (newEntry: { [p: string]: boolean }) => {
@@ -596,8 +625,13 @@ function ChatInputBox({
   const [isSending, setIsSending] = useState(false);
   const [chatMsg, setChatMsg] = useState<string>('');
   const [debouncedChatMsg] = useDebouncedValue(chatMsg, 2000);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [attachmentLink, setAttachmentLink] = useState('');
+  const [attachmentOpened, setAttachmentOpened] = useState(false);
 
-  const isMuted = currentUser?.muted && !isModSender;
+  const isRestricted = currentUser?.muted && !isModSender;
+  const isMutedInChat = !!mutedUntil && mutedUntil > new Date();
+  const isMuted = isRestricted || isMutedInChat;
 
   const { mutateAsync: doIsTyping } = trpc.chat.isTyping.useMutation();
   // const doIsTyping = async (x) => {};
@@ -625,6 +659,7 @@ function ChatInputBox({
     onSuccess(data) {
       setIsSending(false);
       setChatMsg('');
+      setAttachments([]);
       setReplyId(undefined);
 
       if (!currentUser) return;
@@ -701,7 +736,7 @@ function ChatInputBox({
 
     // TODO can probably handle this earlier to disable from sending blank messages
     const strippedMessage = chatMsg.trim();
-    if (!strippedMessage.length) {
+    if (!strippedMessage.length && !attachments.length) {
       setChatMsg('');
       return;
     }
@@ -711,9 +746,29 @@ function ChatInputBox({
       chatId: state.existingChatId!,
       content: strippedMessage,
       referenceMessageId: replyId,
+      imageIds: attachments.map((a) => a.imageId).filter(isDefined),
+      modelVersionIds: attachments.map((a) => a.modelVersionId).filter(isDefined),
     });
   };
 
+  const addAttachment = () => {
+    const attachment = parseAttachmentLink(attachmentLink);
+    if (!attachment) {
+      showErrorNotification({
+        title: 'Unable to attach link.',
+        error: new Error('Paste a link to an image or a model version'),
+      });
+      return;
+    }
+
+    const exists = attachments.some(
+      (a) => a.imageId === attachment.imageId && a.modelVersionId === attachment.modelVersionId
+    );
+    if (!exists) setAttachments((prev) => [...prev, attachment]);
+    setAttachmentLink('');
+    setAttachmentOpened(false);
+  };
+
   useEffect(() => {
     if (!currentUser || isMuted) return;
 
@@ -727,39 +782,106 @@ function ChatInputBox({
 
   useEffect(() => {
     setChatMsg('');
+    setAttachments([]);
   }, [state.existingChatId]);
 
   return (
-    <Group spacing={0}>
-      <Textarea
-        sx={{ flexGrow: 1 }}
-        disabled={isMuted}
-        placeholder={isMuted ? 'Your account has been restricted' : 'Send message'}
-        autosize
-        minRows={1}
-        maxRows={4}
-        value={chatMsg}
-        onChange={(event) => handleChatTyping(event.currentTarget.value)}
-        onKeyDown={(e) => {
-          if (e.key === 'Enter') {
-            if (!e.shiftKey) {
-              e.preventDefault();
-              sendMessage();
-            }
+    <Stack spacing={0}>
+      {attachments.length > 0 && (
+        <Group p="xs" spacing="xs">
+          {attachments.map((attachment, index) => (
+            <Button
+              key={index}
+              size="xs"
+              compact
+              variant="light"
+              color="gray"
+              leftIcon={<IconPhoto size={14} />}
+              rightIcon={<IconX size={14} />}
+              onClick={() => setAttachments((prev) => prev.filter((_, i) => i !== index))}
+            >
+              {attachment.imageId
+                ? `Image #${attachment.imageId}`
+                : `Model version #${attachment.modelVersionId}`}
+            </Button>
+          ))}
+        </Group>
+      )}
+      <Group spacing={0}>
+        <Popover
+          opened={attachmentOpened}
+          onChange={setAttachmentOpened}
+          position="top-start"
+          withArrow
+        >
+          <Popover.Target>
+            <ActionIcon
+              h="100%"
+              w={40}
+              disabled={isMuted || attachments.length >= maxAttachmentsPerMessage}
+              onClick={() => setAttachmentOpened((o) => !o)}
+              sx={{ borderRadius: 0 }}
+            >
+              <IconPaperclip size={18} />
+            </ActionIcon>
+          </Popover.Target>
+          <Popover.Dropdown>
+            <Group spacing="xs" noWrap>
+              <TextInput
+                size="xs"
+                placeholder="Paste an image or model version link"
+                value={attachmentLink}
+                onChange={(event) => setAttachmentLink(event.currentTarget.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addAttachment();
+                  }
+                }}
+                w={280}
+              />
+              <Button size="xs" onClick={addAttachment} disabled={!attachmentLink.trim().length}>
+                Attach
+              </Button>
+            </Group>
+          </Popover.Dropdown>
+        </Popover>
+        <Textarea
+          sx={{ flexGrow: 1 }}
+          disabled={isMuted}
+          placeholder={
+            isRestricted
+              ? 'Your account has been restricted'
+              : isMutedInChat
+              ? 'You have been muted in this chat'
+              : 'Send message'
           }
-        }}
-        classNames={{ input: classes.chatInput }} // should test this border more with active highlighting
-      />
-      <ActionIcon
-        h="100%"
-        w={60}
-        onClick={sendMessage}
-        disabled={isSending || !chatMsg.length || isMuted}
-        sx={{ borderRadius: 0 }}
-      >
-        {isSending ? <Loader /> : <IconSend />}
-      </ActionIcon>
-    </Group>
+          autosize
+          minRows={1}
+          maxRows={4}
+          value={chatMsg}
+          onChange={(event) => handleChatTyping(event.currentTarget.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              if (!e.shiftKey) {
+                e.preventDefault();
+                sendMessage();
+              }
+            }
+          }}
+          classNames={{ input: classes.chatInput }} // should test this border more with active highlighting
+        />
+        <ActionIcon
+          h="100%"
+          w={60}
+          onClick={sendMessage}
+          disabled={isSending || (!chatMsg.length && !attachments.length) || isMuted}
+          sx={{ borderRadius: 0 }}
+        >
+          {isSending ? <Loader /> : <IconSend />}
+        </ActionIcon>
+      </Group>
+    </Stack>
   );
 }
 
@@ -844,6 +966,39 @@ function DisplayMessages({
   const { data: allChatData } = trpc.chat.getAllByUser.useQuery();
   const tChat = allChatData?.find((chat) => chat.id === state.existingChatId);
 
+  const updateMessage = useUpdateChatMessage();
+  const { mutate: deleteMessage } = trpc.chat.deleteMessage.useMutation({
+    onSuccess(data) {
+      if (data) updateMessage(data);
+    },
+    onError(error) {
+      showErrorNotification({
+        title: 'Failed to delete message.',
+        error: new Error(error.message),
+      });
+    },
+  });
+  const { mutate: toggleReaction } = trpc.chat.toggleReaction.useMutation({
+    onSuccess: updateMessage,
+    onError(error) {
+      showErrorNotification({
+        title: 'Failed to react to message.',
+        error: new Error(error.message),
+      });
+    },
+  });
+
+  const handleDelete = (messageId: number) => {
+    openConfirmModal({
+      title: 'Delete this message?',
+      children: <Text size="sm">Other members will see that a message was deleted.</Text>,
+      centered: true,
+      labels: { confirm: 'Delete', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: () => deleteMessage({ messageId }),
+    });
+  };
+
   // TODO we should be checking first if this exists in `chats`
   //      then, grab the content
   //      then, grab the user info from chatMembers (but what if its not there?)
@@ -876,6 +1031,7 @@ function DisplayMessages({
             : undefined;
 
         const isSystemChat = c.userId === -1;
+        const isDeleted = !!c.deletedAt;
 
         return (
           <PStack
@@ -944,6 +1100,8 @@ function DisplayMessages({
                         <em>Could not load message.</em>
                       ) : tReplyData.isLoading ? (
                         <em>Loading content...</em>
+                      ) : tReplyData.data?.deletedAt ? (
+                        <em>Message deleted.</em>
                       ) : (
                         tReplyData.data?.content ?? <em>Could not load message.</em>
                       )}
@@ -955,21 +1113,43 @@ function DisplayMessages({
                   className={classes.highlightRow}
                   sx={{ flexDirection: !isMe ? 'row-reverse' : undefined }}
                 >
-                  <Menu withArrow position={isMe ? 'left-start' : 'right-start'}>
-                    <Menu.Target>
-                      <ActionIcon sx={{ alignSelf: 'flex-start', display: 'none' }}>
-                        <IconDotsVertical />
-                      </ActionIcon>
-                    </Menu.Target>
-                    <Menu.Dropdown>
-                      <Menu.Item
-                        icon={<IconArrowBack size={14} />}
-                        onClick={() => setReplyId(c.id)}
-                      >
-                        Reply
-                      </Menu.Item>
-                    </Menu.Dropdown>
-                  </Menu>
+                  {!isDeleted && (
+                    <Menu withArrow position={isMe ? 'left-start' : 'right-start'}>
+                      <Menu.Target>
+                        <ActionIcon sx={{ alignSelf: 'flex-start', display: 'none' }}>
+                          <IconDotsVertical />
+                        </ActionIcon>
+                      </Menu.Target>
+                      <Menu.Dropdown>
+                        <Group spacing={2} px={4} noWrap>
+                          {reactionEntries.map(([reaction, emoji]) => (
+                            <ActionIcon
+                              key={reaction}
+                              onClick={() => toggleReaction({ messageId: c.id, reaction })}
+                            >
+                              {emoji}
+                            </ActionIcon>
+                          ))}
+                        </Group>
+                        <Menu.Divider />
+                        <Menu.Item
+                          icon={<IconArrowBack size={14} />}
+                          onClick={() => setReplyId(c.id)}
+                        >
+                          Reply
+                        </Menu.Item>
+                        {(isMe || currentUser?.isModerator) && (
+                          <Menu.Item
+                            color="red"
+                            icon={<IconTrash size={14} />}
+                            onClick={() => handleDelete(c.id)}
+                          >
+                            Delete
+                          </Menu.Item>
+                        )}
+                      </Menu.Dropdown>
+                    </Menu>
+                  )}
                   <Tooltip
                     label={
                       !shouldShowInfo
@@ -982,16 +1162,52 @@ function DisplayMessages({
                     position={isMe ? 'top-end' : 'top-start'}
                     withArrow
                   >
-                    <div
-                      className={cx(classes.chatMessage, {
-                        [classes.otherMessage]: !isMe,
-                        [classes.myMessage]: isMe,
-                      })}
-                    >
-                      <Linkify options={linkifyOptions}>{c.content}</Linkify>
-                    </div>
+                    {isDeleted ? (
+                      <div
+                        className={cx(classes.chatMessage, classes.deletedMessage, {
+                          [classes.otherMessage]: !isMe,
+                          [classes.myMessage]: isMe,
+                        })}
+                      >
+                        This message was deleted
+                      </div>
+                    ) : c.content.length > 0 ? (
+                      <div
+                        className={cx(classes.chatMessage, {
+                          [classes.otherMessage]: !isMe,
+                          [classes.myMessage]: isMe,
+                        })}
+                      >
+                        <Linkify options={linkifyOptions}>{c.content}</Linkify>
+                      </div>
+                    ) : (
+                      <div />
+                    )}
                   </Tooltip>
                 </Group>
+                <ChatAttachments attachments={c.attachments} isMe={isMe} />
+                {c.reactions.length > 0 && (
+                  <Group spacing={4} position={isMe ? 'right' : 'left'} mt={-8}>
+                    {reactionEntries.map(([reaction, emoji]) => {
+                      const reacted = c.reactions.filter((r) => r.reaction === reaction);
+                      if (!reacted.length) return null;
+                      const isMine = reacted.some((r) => r.userId === currentUser?.id);
+
+                      return (
+                        <Button
+                          key={reaction}
+                          size="xs"
+                          compact
+                          variant={isMine ? 'light' : 'subtle'}
+                          color={isMine ? 'blue' : 'gray'}
+                          onClick={() => toggleReaction({ messageId: c.id, reaction })}
+                        >
+                          {emoji} {reacted.length}
+                        </Button>
+                      );
+                    })}
+                  </Group>
+                )}
               </>
             )}
           </PStack>
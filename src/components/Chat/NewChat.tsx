@@ -23,6 +23,9 @@ export function NewChat() {
   });
 
   const userSettings = queryUtils.chat.getUserSettings.getData();
+  const { data: limits } = trpc.chat.getLimits.useQuery();
+  // the creator counts towards the limit
+  const maxSelectedUsers = (limits?.maxMembers ?? 10) - 1;
   // TODO this is not perfect, it won't set local storage on another device if you've already accepted
   const acked = reviewed || (userSettings?.acknowledged ?? false);
 
@@ -143,11 +146,10 @@ export function NewChat() {
           supportedIndexes={['users']}
           onItemSelected={(_entity, item) => {
             const newUsers = [...state.selectedUsers, item as SearchIndexDataMap['users'][number]];
-            // TODO make this a constant
-            if (newUsers.length > 9) {
+            if (newUsers.length > maxSelectedUsers) {
               showErrorNotification({
                 title: 'Maximum users reached',
-                error: { message: 'You can select up to 9 users' },
+                error: { message: `You can select up to ${maxSelectedUsers} users` },
                 autoClose: false,
               });
               return;
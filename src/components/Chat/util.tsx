@@ -20,6 +20,24 @@ export const getLinkHref = (href: string | undefined) => {
   return newHref;
 };
 
+/**
+ * Resolve a pasted image or model version link into a chat attachment
+ */
+export const parseAttachmentLink = (value: string) => {
+  const link = value.trim();
+
+  const airMatch = link.match(constants.chat.airRegex);
+  if (airMatch && airMatch.groups) return { modelVersionId: Number(airMatch.groups.mvId) };
+
+  if (!link.startsWith('/') && !constants.chat.civRegex.test(link)) return;
+
+  const imageMatch = link.match(/\/images\/(\d+)/);
+  if (imageMatch) return { imageId: Number(imageMatch[1]) };
+
+  const modelVersionMatch = link.match(/\/models\/\d+.*[?&]modelVersionId=(\d+)/);
+  if (modelVersionMatch) return { modelVersionId: Number(modelVersionMatch[1]) };
+};
+
 const renderLink: OptFn<(ir: IntermediateRepresentation) => ReactElement | undefined> = ({
   attributes,
   content,
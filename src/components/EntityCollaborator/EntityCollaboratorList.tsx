@@ -1,5 +1,5 @@
-import { Center, Group, Loader, Stack, Button, Text } from '@mantine/core';
-import { EntityCollaboratorStatus, EntityType } from '@prisma/client';
+import { Badge, Center, Group, Loader, Stack, Button, Text, Select } from '@mantine/core';
+import { EntityCollaboratorRole, EntityCollaboratorStatus, EntityType } from '@prisma/client';
 import { CreatorCardV2, CreatorCardPropsV2 } from '~/components/CreatorCard/CreatorCard';
 import {
   useGetEntityCollaborators,
@@ -7,6 +7,12 @@ import {
 } from '~/components/EntityCollaborator/entityCollaborator.util';
 import { useCurrentUser } from '~/hooks/useCurrentUser';
 
+const roleOptions = [
+  { value: EntityCollaboratorRole.Viewer, label: 'Viewer - credited only' },
+  { value: EntityCollaboratorRole.Editor, label: 'Editor - can edit and upload' },
+  { value: EntityCollaboratorRole.Publisher, label: 'Publisher - can edit, upload and publish' },
+];
+
 export const EntityCollaboratorList = ({
   entityId,
   entityType,
@@ -27,6 +33,8 @@ export const EntityCollaboratorList = ({
   const {
     removeEntityCollaborator,
     removingEntityCollaborator,
+    updateEntityCollaboratorRole,
+    updatingEntityCollaboratorRole,
     actionEntityCollaborator,
     actioningEntityCollaborator,
   } = useEntityCollaboratorsMutate();
@@ -57,6 +65,31 @@ export const EntityCollaboratorList = ({
               </Text>
             )}
             <CreatorCardV2 user={collaborator.user} withActions={false} {...creatorCardProps} />
+            {isOwnerOrMod ? (
+              <Select
+                label="Role"
+                data={roleOptions}
+                value={collaborator.role}
+                onChange={(role: EntityCollaboratorRole) => {
+                  if (!role || role === collaborator.role) return;
+                  updateEntityCollaboratorRole({
+                    entityId,
+                    entityType,
+                    targetUserId: collaborator.user.id,
+                    role,
+                  });
+                }}
+                disabled={updatingEntityCollaboratorRole}
+                size="xs"
+                mt="xs"
+              />
+            ) : (
+              collaborator.role !== EntityCollaboratorRole.Viewer && (
+                <Group mt={4}>
+                  <Badge size="sm">{collaborator.role}</Badge>
+                </Group>
+              )
+            )}
             {showInvitionActions && (
               <Button.Group w="100%">
                 <Button
@@ -2,6 +2,7 @@ import {
   ActionEntityCollaboratorInviteInput,
   GetEntityCollaboratorsInput,
   RemoveEntityCollaboratorInput,
+  UpdateEntityCollaboratorRoleInput,
   UpsertEntityCollaboratorInput,
 } from '~/server/schema/entity-collaborator.schema';
 import { showErrorNotification } from '~/utils/notifications';
@@ -66,6 +67,18 @@ export const useEntityCollaboratorsMutate = () => {
     },
   });
 
+  const updateEntityCollaboratorRoleMutation = trpc.entityCollaborator.updateRole.useMutation({
+    onSuccess(_, input) {
+      queryUtils.entityCollaborator.get.invalidate({
+        entityId: input.entityId,
+        entityType: input.entityType,
+      });
+    },
+    onError(error) {
+      onError(error, 'Failed to update collaborator role.');
+    },
+  });
+
   const actionEntityCollaboratorMutation = trpc.entityCollaborator.action.useMutation({
     onSuccess(_, input) {
       queryUtils.entityCollaborator.get.invalidate({
@@ -86,6 +99,10 @@ export const useEntityCollaboratorsMutate = () => {
     return removeEntityCollaboratorMutation.mutateAsync(input);
   };
 
+  const handleUpdateEntityCollaboratorRole = (input: UpdateEntityCollaboratorRoleInput) => {
+    return updateEntityCollaboratorRoleMutation.mutateAsync(input);
+  };
+
   const handleActionRemoveEntityCollaborator = (input: ActionEntityCollaboratorInviteInput) => {
     return actionEntityCollaboratorMutation.mutateAsync(input);
   };
@@ -95,6 +112,8 @@ export const useEntityCollaboratorsMutate = () => {
     upsertingEntityCollaborator: upsertEntityCollaboratorMutation.isLoading,
     removeEntityCollaborator: handleRemoveEntityCollaborator,
     removingEntityCollaborator: removeEntityCollaboratorMutation.isLoading,
+    updateEntityCollaboratorRole: handleUpdateEntityCollaboratorRole,
+    updatingEntityCollaboratorRole: updateEntityCollaboratorRoleMutation.isLoading,
     actionEntityCollaborator: handleActionRemoveEntityCollaborator,
     actioningEntityCollaborator: actionEntityCollaboratorMutation.isLoading,
   };
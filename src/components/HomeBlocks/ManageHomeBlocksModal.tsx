@@ -9,7 +9,11 @@ import {
 import { createContextModal } from '~/components/Modals/utils/createContextModal';
 import { trpc } from '~/utils/trpc';
 import { HomeBlockGetAll } from '~/types/router';
-import { HomeBlockMetaSchema } from '~/server/schema/home-block.schema';
+import {
+  HomeBlockMetaSchema,
+  ModelQueryBlockSchema,
+  UpsertCustomHomeBlockInput,
+} from '~/server/schema/home-block.schema';
 import {
   Accordion,
   ActionIcon,
@@ -20,9 +24,16 @@ import {
   createStyles,
   Group,
   Loader,
+  MultiSelect,
+  Select,
   Stack,
   Text,
+  TextInput,
 } from '@mantine/core';
+import { HomeBlockType, MetricTimeframe, ModelType } from '@prisma/client';
+import { constants } from '~/server/common/constants';
+import { ModelSort } from '~/server/common/enums';
+import { getDisplayName } from '~/utils/string-helpers';
 import { IconGripVertical, IconInfoCircle, IconPlus, IconTrash } from '@tabler/icons-react';
 import { CSS } from '@dnd-kit/utilities';
 import { showErrorNotification, showSuccessNotification } from '~/utils/notifications';
@@ -196,6 +207,12 @@ function ManageHomeBlocks({ onClose }: Props) {
             )}
           </Accordion.Panel>
         </Accordion.Item>
+        <Accordion.Item value="custom-home-blocks">
+          <Accordion.Control>Create a Home Block</Accordion.Control>
+          <Accordion.Panel>
+            <CustomHomeBlockForm />
+          </Accordion.Panel>
+        </Accordion.Item>
       </Accordion>
 
       <Stack spacing={8}>
@@ -318,3 +335,142 @@ function SystemHomeBlock({
     </Card>
   );
 }
+
+const customHomeBlockTypes = [
+  { value: HomeBlockType.ModelQuery, label: 'Top models' },
+  { value: HomeBlockType.FollowedCreators, label: 'New from creators I follow' },
+  { value: HomeBlockType.TagSpotlight, label: 'Tag spotlight' },
+];
+type CustomHomeBlockType = UpsertCustomHomeBlockInput['type'];
+
+const periodOptions = Object.values(MetricTimeframe).map((value) => ({
+  value,
+  label: getDisplayName(value),
+}));
+
+function CustomHomeBlockForm() {
+  const utils = trpc.useContext();
+  const [type, setType] = useState<CustomHomeBlockType>(HomeBlockType.ModelQuery);
+  const [title, setTitle] = useState('');
+  const [tag, setTag] = useState('');
+  const [period, setPeriod] = useState<MetricTimeframe>(MetricTimeframe.Week);
+  const [sort, setSort] = useState<ModelSort>(ModelSort.HighestRated);
+  const [types, setTypes] = useState<ModelType[]>([]);
+  const [baseModels, setBaseModels] = useState<ModelQueryBlockSchema['baseModels']>([]);
+
+  const { mutate, isLoading } = trpc.homeBlock.upsertCustomHomeBlock.useMutation({
+    async onSuccess() {
+      showSuccessNotification({
+        title: 'Home block created',
+        message: 'It has been added to your home page',
+      });
+      setTitle('');
+      setTag('');
+      await utils.homeBlock.getHomeBlocks.invalidate();
+    },
+    onError(error) {
+      showErrorNotification({
+        title: 'Unable to create home block',
+        error: new Error(error.message),
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    const trimmedTag = tag.trim();
+    switch (type) {
+      case HomeBlockType.ModelQuery:
+        return mutate({
+          type,
+          title,
+          modelQuery: {
+            types: types.length ? types : undefined,
+            baseModels: baseModels?.length ? baseModels : undefined,
+            tag: trimmedTag || undefined,
+            period,
+            sort,
+            limit: 14,
+          },
+        });
+      case HomeBlockType.FollowedCreators:
+        return mutate({ type, title, followedCreators: { limit: 14 } });
+      case HomeBlockType.TagSpotlight:
+        return mutate({ type, title, tagSpotlight: { tag: trimmedTag, period, limit: 14 } });
+    }
+  };
+
+  const canCreate =
+    !!title.trim().length && (type !== HomeBlockType.TagSpotlight || !!tag.trim().length);
+
+  return (
+    <Stack spacing="xs">
+      <Select
+        label="Type"
+        data={customHomeBlockTypes}
+        value={type}
+        onChange={(value) => value && setType(value as CustomHomeBlockType)}
+      />
+      <TextInput
+        label="Title"
+        placeholder="My home block"
+        value={title}
+        maxLength={100}
+        onChange={(e) => setTitle(e.currentTarget.value)}
+      />
+      {type === HomeBlockType.ModelQuery && (
+        <>
+          <MultiSelect
+            label="Model types"
+            placeholder="All types"
+            data={Object.values(ModelType).map((value) => ({
+              value,
+              label: getDisplayName(value),
+            }))}
+            value={types}
+            onChange={(value) => setTypes(value as ModelType[])}
+            clearable
+          />
+          <MultiSelect
+            label="Base models"
+            placeholder="All base models"
+            data={[...constants.baseModels]}
+            value={baseModels}
+            onChange={(value) => setBaseModels(value as ModelQueryBlockSchema['baseModels'])}
+            searchable
+            clearable
+          />
+        </>
+      )}
+      {type !== HomeBlockType.FollowedCreators && (
+        <>
+          <TextInput
+            label="Tag"
+            placeholder={type === HomeBlockType.TagSpotlight ? 'anime' : 'Any tag'}
+            value={tag}
+            onChange={(e) => setTag(e.currentTarget.value)}
+            required={type === HomeBlockType.TagSpotlight}
+          />
+          <Group grow>
+            <Select
+              label="Period"
+              data={periodOptions}
+              value={period}
+              onChange={(value) => value && setPeriod(value as MetricTimeframe)}
+            />
+            {type === HomeBlockType.ModelQuery && (
+              <Select
+                label="Sort"
+                data={Object.values(ModelSort)}
+                value={sort}
+                onChange={(value) => value && setSort(value as ModelSort)}
+              />
+            )}
+          </Group>
+        </>
+      )}
+      <Button mt="xs" loading={isLoading} disabled={!canCreate} onClick={handleCreate}>
+        Create
+      </Button>
+    </Stack>
+  );
+}
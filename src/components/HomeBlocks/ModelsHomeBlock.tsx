@@ -0,0 +1,86 @@
+import { AspectRatio, Group, Skeleton, Stack, Text } from '@mantine/core';
+import { HomeBlockType } from '@prisma/client';
+import { useMemo } from 'react';
+import { ModelCard } from '~/components/Cards/ModelCard';
+import { useApplyHiddenPreferences } from '~/components/HiddenPreferences/useApplyHiddenPreferences';
+import { HomeBlockHeaderMeta } from '~/components/HomeBlocks/components/HomeBlockHeaderMeta';
+import { useHomeBlockGridStyles } from '~/components/HomeBlocks/HomeBlock.Styles';
+import { HomeBlockWrapper } from '~/components/HomeBlocks/HomeBlockWrapper';
+import { HomeBlockMetaSchema } from '~/server/schema/home-block.schema';
+import { abbreviateNumber } from '~/utils/number-helpers';
+import { trpc } from '~/utils/trpc';
+
+const ITEMS_PER_ROW = 7;
+const ROWS = 2;
+
+/**
+ * Renders the model based home blocks: saved model queries, followed creators and tag spotlights
+ */
+export const ModelsHomeBlock = ({ showAds, ...props }: Props) => {
+  return (
+    <HomeBlockWrapper py={32} showAds={showAds}>
+      <ModelsHomeBlockContent {...props} />
+    </HomeBlockWrapper>
+  );
+};
+
+const ModelsHomeBlockContent = ({ homeBlockId, metadata }: Props) => {
+  const { data: homeBlock, isLoading } = trpc.homeBlock.getHomeBlock.useQuery(
+    { id: homeBlockId },
+    { trpc: { context: { skipBatch: true } } }
+  );
+
+  const { loadingPreferences, items: filtered } = useApplyHiddenPreferences({
+    type: 'models',
+    data: homeBlock?.models,
+  });
+  const items = useMemo(() => filtered.slice(0, ITEMS_PER_ROW * ROWS), [filtered]);
+
+  const { classes } = useHomeBlockGridStyles({ count: items.length, rows: ROWS });
+  const { tag } = homeBlock ?? {};
+
+  // Personal blocks have nothing to show when logged out
+  if (!isLoading && !homeBlock) return null;
+
+  return (
+    <Stack spacing={0}>
+      <HomeBlockHeaderMeta metadata={metadata} />
+      {tag && (
+        <Group spacing="lg" mb="md">
+          <Text size="sm" color="dimmed">
+            {abbreviateNumber(tag.modelCount)} models
+          </Text>
+          <Text size="sm" color="dimmed">
+            {abbreviateNumber(tag.imageCount)} images
+          </Text>
+          <Text size="sm" color="dimmed">
+            {abbreviateNumber(tag.followerCount)} followers
+          </Text>
+        </Group>
+      )}
+      {isLoading || loadingPreferences ? (
+        <div className={classes.grid}>
+          {Array.from({ length: ITEMS_PER_ROW * ROWS }).map((_, index) => (
+            <AspectRatio ratio={7 / 9} key={index}>
+              <Skeleton width="100%" />
+            </AspectRatio>
+          ))}
+        </div>
+      ) : !items.length ? (
+        <Text color="dimmed">
+          {homeBlock?.type === HomeBlockType.FollowedCreators
+            ? 'Follow some creators to see their latest models here.'
+            : 'No models match this block yet.'}
+        </Text>
+      ) : (
+        <div className={classes.grid}>
+          {items.map((item) => (
+            <ModelCard key={item.id} data={item} forceInView />
+          ))}
+        </div>
+      )}
+    </Stack>
+  );
+};
+
+type Props = { homeBlockId: number; metadata: HomeBlockMetaSchema; showAds?: boolean };
@@ -15,6 +15,9 @@ import { isDefined } from '~/utils/type-guards';
 import { constants } from '~/server/common/constants';
 import JSZip from 'jszip';
 import { fetchBlob } from '~/utils/file-utils';
+import { addComfyMetadataToImage } from '~/utils/metadata';
+import { setComfyPromptSeed } from '~/utils/metadata/comfy.metadata';
+import { NormalizedGeneratedImage } from '~/server/services/orchestrator';
 import { uniqBy } from 'lodash-es';
 import { useState } from 'react';
 import pLimit from 'p-limit';
@@ -141,6 +144,7 @@ export const useGeneratedImageActions = () => {
     onSuccess: () => deselect(),
   });
   const createPostMutation = trpc.post.create.useMutation();
+  const queryUtils = trpc.useUtils();
   // const updateWorkflows = useUpdateTextToImageWorkflows({ onSuccess: () => deselect() });
 
   function getSelectedImages() {
@@ -195,6 +199,16 @@ export const useGeneratedImageActions = () => {
     }
   };
 
+  // Downloads keep the comfy graph so they can be dropped back into ComfyUI
+  async function addComfyMetadata(blob: Blob, image: NormalizedGeneratedImage) {
+    const { workflowId, stepName, seed } = image;
+    const prompt = await queryUtils.orchestrator.getStepComfyPrompt.fetch({ workflowId, stepName });
+    if (!prompt) return blob;
+
+    const comfyPrompt = seed ? setComfyPromptSeed(prompt, seed) : prompt;
+    return await addComfyMetadataToImage(blob, { comfy: { prompt: comfyPrompt } });
+  }
+
   async function downloadSelected() {
     setZipping(true);
     const selectedImages = getSelectedImages();
@@ -205,8 +219,10 @@ export const useGeneratedImageActions = () => {
           if (!image.url) return;
           const blob = await fetchBlob(image.url);
           if (!blob) return;
-          const file = new File([blob], image.id);
-          zip.file(`${image.id}.jpg`, file);
+          const withMetadata = await addComfyMetadata(blob, image).catch(() => blob);
+          const extension = withMetadata.type === 'image/png' ? 'png' : 'jpg';
+          const file = new File([withMetadata], image.id);
+          zip.file(`${image.id}.${extension}`, file);
         })
       )
     );
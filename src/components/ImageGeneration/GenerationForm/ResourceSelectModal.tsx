@@ -17,7 +17,6 @@ import {
   Title,
 } from '@mantine/core';
 import { ContextModalProps, openContextModal } from '@mantine/modals';
-import { instantMeiliSearch } from '@meilisearch/instant-meilisearch';
 import { ModelType } from '@prisma/client';
 import {
   IconCloudOff,
@@ -54,6 +53,7 @@ import { searchIndexMap } from '~/components/Search/search.types';
 import { SearchIndexDataMap, useInfiniteHitsTransformed } from '~/components/Search/search.utils2';
 import { useSearchLayoutStyles } from '~/components/Search/SearchLayout';
 import { env } from '~/env/client.mjs';
+import { createSearchClient } from '~/components/Search/search.client';
 import { useCurrentUser } from '~/hooks/useCurrentUser';
 import { useInView } from '~/hooks/useInView';
 import { useIsMobile } from '~/hooks/useIsMobile';
@@ -590,11 +590,7 @@ function ResourceSelectCard({
   );
 }
 
-const meilisearch = instantMeiliSearch(
-  env.NEXT_PUBLIC_SEARCH_HOST as string,
-  env.NEXT_PUBLIC_SEARCH_CLIENT_KEY,
-  { primaryKey: 'id', keepZeroFacets: true }
-);
+const meilisearch = createSearchClient({ keepZeroFacets: true });
 
 const searchClient: InstantSearchProps['searchClient'] = {
   ...meilisearch,
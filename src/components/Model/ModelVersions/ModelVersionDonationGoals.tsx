@@ -10,6 +10,7 @@ import {
   Button,
 } from '@mantine/core';
 import { Currency } from '@prisma/client';
+import { IconCircleCheck, IconCircleDashed } from '@tabler/icons-react';
 import { useState } from 'react';
 import { BuzzTransactionButton } from '~/components/Buzz/BuzzTransactionButton';
 import { ContentClamp } from '~/components/ContentClamp/ContentClamp';
@@ -21,6 +22,7 @@ import { useCurrentUser } from '~/hooks/useCurrentUser';
 import { NumberInputWrapper } from '~/libs/form/components/NumberInputWrapper';
 import { useFeatureFlags } from '~/providers/FeatureFlagsProvider';
 import { ModelVersionDonationGoal } from '~/types/router';
+import { formatDate } from '~/utils/date-helpers';
 import { showSuccessNotification } from '~/utils/notifications';
 
 const useStyles = createStyles((theme) => ({
@@ -36,7 +38,8 @@ const DonationGoalItem = ({ donationGoal }: { donationGoal: ModelVersionDonation
   const currentUser = useCurrentUser();
   const { donate, donating } = useMutateDonationGoal();
 
-  const canDonate = donationGoal.userId !== currentUser?.id && donationGoal.active;
+  const expired = !!donationGoal.expiresAt && new Date(donationGoal.expiresAt) <= new Date();
+  const canDonate = donationGoal.userId !== currentUser?.id && donationGoal.active && !expired;
 
   const onDonate = async () => {
     if (donating) {
@@ -97,6 +100,33 @@ const DonationGoalItem = ({ donationGoal }: { donationGoal: ModelVersionDonation
           striped
           animate
         />
+        {donationGoal.expiresAt && !donationGoal.completedAt && (
+          <Text size="xs" color="dimmed">
+            {expired
+              ? 'This goal expired before being reached, donations are being refunded.'
+              : `Donations are refunded if this goal isn't reached by ${formatDate(
+                  donationGoal.expiresAt
+                )}.`}
+          </Text>
+        )}
+        {donationGoal.milestones.length > 0 && (
+          <Stack spacing={4}>
+            {donationGoal.milestones.map((milestone) => (
+              <Group key={milestone.id} spacing={4} noWrap>
+                {milestone.reachedAt ? (
+                  <IconCircleCheck size={16} color="green" />
+                ) : (
+                  <IconCircleDashed size={16} />
+                )}
+                <Text size="xs" sx={{ flex: 1 }}>
+                  {milestone.title}
+                </Text>
+                <CurrencyIcon currency={Currency.BUZZ} size={14} />
+                <Text size="xs">{milestone.amount}</Text>
+              </Group>
+            ))}
+          </Stack>
+        )}
 
         {canDonate && (
           <Stack spacing="xs" mt="xs">
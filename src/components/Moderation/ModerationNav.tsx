@@ -16,7 +16,12 @@ export function ModerationNav() {
         { label: 'Generation', href: '/moderator/generation' },
         { label: 'Withdrawal Requests', href: '/moderator/buzz-withdrawal-requests' },
         { label: 'Rewards', href: '/moderator/rewards' },
+        { label: 'Redeemable Codes', href: '/moderator/redeemable-codes' },
         { label: 'Auditor', href: '/moderator/auditor' },
+        { label: 'Job Runs', href: '/moderator/jobs' },
+        { label: 'Rate Limits', href: '/moderator/rate-limits' },
+        { label: 'Tag Rules', href: '/moderator/tag-rules' },
+        { label: 'Prompt Moderation', href: '/moderator/prompt-moderation' },
         { label: 'Rater', href: '/research/rater' },
         { label: 'Sanity Images', href: '/moderator/research/rater-sanity' },
         { label: 'Metadata Tester', href: '/testing/metadata-test' },
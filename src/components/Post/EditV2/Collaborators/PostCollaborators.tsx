@@ -32,7 +32,8 @@ export const PostCollaboratorSelection = ({ post }: { post: PostDetailEditable }
         Invite your teammates or collaborators to be shown on this post and get credit for it. If
         they accept the invite, it will be shown on their profile in addition to yours. Tipped Buzz
         will be split equally. A maximum of {constants.entityCollaborators.maxCollaborators}{' '}
-        collaborators can be invited.
+        collaborators can be invited. Collaborators are only credited by default, change their role
+        to let them edit or publish this post.
       </Text>
       <QuickSearchDropdown
         disableInitialSearch
@@ -1,6 +1,5 @@
 import { AutocompleteProps, createStyles, Group, Select, Stack, Text } from '@mantine/core';
 import { useDebouncedValue } from '@mantine/hooks';
-import { instantMeiliSearch } from '@meilisearch/instant-meilisearch';
 import { IconChevronDown } from '@tabler/icons-react';
 import React, { useEffect, useMemo, useState } from 'react';
 import { Configure, InstantSearch, useSearchBox } from 'react-instantsearch';
@@ -23,20 +22,15 @@ import {
 import { SearchIndexDataMap, useHitsTransformed } from '~/components/Search/search.utils2';
 import { TimeoutLoader } from '~/components/Search/TimeoutLoader';
 import { IndexToLabel } from '~/components/Search/useSearchState';
-import { env } from '~/env/client.mjs';
 import { useFeatureFlags } from '~/providers/FeatureFlagsProvider';
 import { IMAGES_SEARCH_INDEX } from '~/server/common/constants';
 import { ShowcaseItemSchema } from '~/server/schema/user-profile.schema';
 import { containerQuery } from '~/utils/mantine-css-helpers';
 import { paired } from '~/utils/type-guards';
-import { searchClient } from '~/components/Search/search.client';
+import { createSearchClient, searchClient } from '~/components/Search/search.client';
 import { BrowsingLevelFilter } from './CustomSearchComponents';
 
-const meilisearch = instantMeiliSearch(
-  env.NEXT_PUBLIC_SEARCH_HOST as string,
-  env.NEXT_PUBLIC_SEARCH_CLIENT_KEY,
-  { primaryKey: 'id' }
-);
+const meilisearch = createSearchClient();
 
 // TODO: These styles were taken from the original SearchBar component. We should probably migrate that searchbar to use this component.
 const useStyles = createStyles((theme) => ({
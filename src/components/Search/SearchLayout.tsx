@@ -22,8 +22,7 @@ import {
 import { AppLayout } from '~/components/AppLayout/AppLayout';
 import { IconChevronsLeft } from '@tabler/icons-react';
 import { routing } from '~/components/Search/useSearchState';
-import { instantMeiliSearch } from '@meilisearch/instant-meilisearch';
-import { env } from '~/env/client.mjs';
+import { createSearchClient } from '~/components/Search/search.client';
 import { SearchIndex } from '~/components/Search/parsers/base';
 import { Configure, InstantSearch, InstantSearchProps } from 'react-instantsearch';
 import { CustomSearchBox } from '~/components/Search/CustomSearchComponents';
@@ -41,11 +40,7 @@ import { useLocalStorage } from '@mantine/hooks';
 
 const SIDEBAR_SIZE = 377;
 
-const meilisearch = instantMeiliSearch(
-  env.NEXT_PUBLIC_SEARCH_HOST as string,
-  env.NEXT_PUBLIC_SEARCH_CLIENT_KEY,
-  { primaryKey: 'id', keepZeroFacets: true }
-);
+const meilisearch = createSearchClient({ keepZeroFacets: true });
 
 const searchClient: InstantSearchProps['searchClient'] = {
   ...meilisearch,
@@ -1,12 +1,48 @@
 import { instantMeiliSearch } from '@meilisearch/instant-meilisearch';
+import type { SearchForFacetValuesResponse, SearchResponses } from 'instantsearch.js';
 import { InstantSearchProps } from 'react-instantsearch';
 import { env } from '~/env/client.mjs';
 
-const meilisearch = instantMeiliSearch(
-  env.NEXT_PUBLIC_SEARCH_HOST as string,
-  env.NEXT_PUBLIC_SEARCH_CLIENT_KEY,
-  { primaryKey: 'id', keepZeroFacets: true }
-);
+type SearchClient = InstantSearchProps['searchClient'];
+type SearchRequests = Parameters<SearchClient['search']>[0];
+type FacetValuesRequests = Parameters<NonNullable<SearchClient['searchForFacetValues']>>[0];
+
+async function fetchSearch<TResponse>(
+  type: 'search' | 'facetValues',
+  requests: SearchRequests | FacetValuesRequests
+) {
+  const response = await fetch('/api/search', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type, requests }),
+  });
+  if (!response.ok) throw new Error(await response.text());
+
+  return (await response.json()) as TResponse;
+}
+
+// Searches through the api, which queries the search backend configured on the server
+const apiSearchClient: SearchClient = {
+  search: <TObject>(requests: SearchRequests) =>
+    fetchSearch<SearchResponses<TObject>>('search', requests),
+  searchForFacetValues: async (requests) =>
+    (await fetchSearch<{ results: SearchForFacetValuesResponse[] }>('facetValues', requests))
+      .results,
+};
+
+export function createSearchClient(
+  options?: Parameters<typeof instantMeiliSearch>[2]
+): InstantSearchProps['searchClient'] {
+  if (env.NEXT_PUBLIC_SEARCH_BACKEND !== 'meilisearch') return apiSearchClient;
+
+  return instantMeiliSearch(
+    env.NEXT_PUBLIC_SEARCH_HOST as string,
+    env.NEXT_PUBLIC_SEARCH_CLIENT_KEY,
+    { primaryKey: 'id', ...options }
+  );
+}
+
+const meilisearch = createSearchClient({ keepZeroFacets: true });
 
 export const searchClient: InstantSearchProps['searchClient'] = {
   ...meilisearch,
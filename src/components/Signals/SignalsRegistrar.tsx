@@ -1,6 +1,11 @@
 import { ImageIngestionStatus } from '@prisma/client';
 import { useBuzzSignalUpdate } from '~/components/Buzz/useBuzz';
-import { useChatNewMessageSignal, useChatNewRoomSignal } from '~/components/Chat/ChatSignals';
+import {
+  useChatMemberUpdateSignal,
+  useChatNewMessageSignal,
+  useChatNewRoomSignal,
+  useChatUpdateMessageSignal,
+} from '~/components/Chat/ChatSignals';
 import { useTextToImageSignalUpdate } from '~/components/ImageGeneration/utils/generationRequestHooks';
 import { useNotificationSignal } from '~/components/Notifications/notifications.utils';
 import { useSignalConnection } from '~/components/Signals/SignalsProvider';
@@ -23,6 +28,8 @@ export function SignalsRegistrar() {
 
   useChatNewMessageSignal();
   useChatNewRoomSignal();
+  useChatUpdateMessageSignal();
+  useChatMemberUpdateSignal();
 
   useSignalConnection(
     SignalMessages.ImageIngestionStatus,
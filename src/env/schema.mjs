@@ -74,6 +74,8 @@ export const serverSchema = z.object({
   WEBHOOK_TOKEN: z.string(),
   SCANNING_ENDPOINT: z.string(),
   SCANNING_TOKEN: z.string(),
+  // Header set by our proxy with the client address, eg. `cf-connecting-ip`
+  TRUSTED_IP_HEADER: z.string().optional(),
   UNAUTHENTICATED_DOWNLOAD: zc.booleanString,
   UNAUTHENTICATED_LIST_NSFW: zc.booleanString,
   SHOW_SFW_IN_NSFW: zc.booleanString,
@@ -87,6 +89,7 @@ export const serverSchema = z.object({
   IMAGE_SCANNING_CALLBACK: z.string().optional(),
   IMAGE_SCANNING_MODEL: z.string().optional(),
   IMAGE_SCANNING_RETRY_DELAY: z.coerce.number().default(5),
+  IMAGE_SCANNING_MAX_IN_FLIGHT: z.coerce.number().default(10000),
   DELIVERY_WORKER_ENDPOINT: z.string().optional(),
   DELIVERY_WORKER_TOKEN: z.string().optional(),
   PLAYFAB_TITLE_ID: z.string().optional(),
@@ -163,6 +166,7 @@ export const serverSchema = z.object({
   UPLOAD_PROHIBITED_EXTENSIONS: commaDelimitedStringArray().optional(),
   POST_INTENT_DETAILS_HOSTS: z.preprocess(stringToArray, z.array(z.string().url()).optional()),
   CHOPPED_TOKEN: z.string().optional(),
+  GITHUB_IMPORT_TOKEN: z.string().optional(),
 });
 
 /**
@@ -184,6 +188,7 @@ export const clientSchema = z.object({
   NEXT_PUBLIC_PICFINDER_API_KEY: z.string().optional(),
   NEXT_PUBLIC_SEARCH_HOST: z.string().url().optional(),
   NEXT_PUBLIC_SEARCH_CLIENT_KEY: z.string().optional(),
+  NEXT_PUBLIC_SEARCH_BACKEND: z.enum(['meilisearch', 'postgres']).default('meilisearch'),
   NEXT_PUBLIC_POSTHOG_KEY: z.string().optional(),
   NEXT_PUBLIC_POSTHOG_HOST: z.string().optional(),
   NEXT_PUBLIC_SIGNALS_ENDPOINT: z.string().optional(),
@@ -222,6 +227,10 @@ export const clientEnv = {
   NEXT_PUBLIC_PICFINDER_API_KEY: process.env.NEXT_PUBLIC_PICFINDER_API_KEY,
   NEXT_PUBLIC_SEARCH_HOST: process.env.NEXT_PUBLIC_SEARCH_HOST,
   NEXT_PUBLIC_SEARCH_CLIENT_KEY: process.env.NEXT_PUBLIC_SEARCH_CLIENT_KEY,
+  NEXT_PUBLIC_SEARCH_BACKEND:
+    /** @type {z.infer<typeof clientSchema>['NEXT_PUBLIC_SEARCH_BACKEND']} */ (
+      process.env.NEXT_PUBLIC_SEARCH_BACKEND
+    ),
   NEXT_PUBLIC_POSTHOG_KEY: process.env.NEXT_PUBLIC_POSTHOG_KEY,
   NEXT_PUBLIC_POSTHOG_HOST: process.env.NEXT_PUBLIC_POSTHOG_HOST,
   NEXT_PUBLIC_SIGNALS_ENDPOINT: process.env.NEXT_PUBLIC_SIGNALS_ENDPOINT,
@@ -1,3 +1,4 @@
+import { KeyScope } from '@prisma/client';
 import { NextApiRequest, NextApiResponse } from 'next';
 import { SessionUser } from 'next-auth';
 import requestIp from 'request-ip';
@@ -116,5 +117,6 @@ export default AuthedEndpoint(
       }
     }
   },
-  ['GET']
+  ['GET'],
+  KeyScope.VaultRead
 );
@@ -1,7 +1,9 @@
+import { KeyScope } from '@prisma/client';
 import { NextApiRequest, NextApiResponse } from 'next';
 import { getServerAuthSession } from '~/server/utils/get-server-auth-session';
 import { getCustomPutUrl } from '~/utils/s3-utils';
 import { env } from '~/env/server.mjs';
+import { isApiKeyRequestAllowed } from '~/server/utils/api-key-helpers';
 import { randomUUID } from 'crypto';
 
 export default async function imageUpload(req: NextApiRequest, res: NextApiResponse) {
@@ -11,6 +13,16 @@ export default async function imageUpload(req: NextApiRequest, res: NextApiRespo
     res.status(401).json({ error: 'Unauthorized' });
     return;
   }
+  if (
+    !isApiKeyRequestAllowed({
+      apiKey: session.apiKey,
+      scope: KeyScope.ImagesWrite,
+      isWrite: true,
+    })
+  ) {
+    res.status(403).json({ error: 'Missing API key scope' });
+    return;
+  }
 
   const imageKey = randomUUID();
   const result = await getCustomPutUrl(env.S3_IMAGE_UPLOAD_BUCKET, imageKey);
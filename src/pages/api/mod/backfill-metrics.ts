@@ -0,0 +1,70 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+import { inJobContext } from '~/server/jobs/job';
+import * as metrics from '~/server/metrics';
+import { ModEndpoint } from '~/server/utils/endpoint-helpers';
+import { commaDelimitedNumberArray, numericString, stringDate } from '~/utils/zod-helpers';
+
+const metricProcessors = Object.fromEntries(
+  Object.values(metrics).map((processor) => [processor.name.toLowerCase(), processor])
+);
+
+const schema = z
+  .object({
+    metric: z.string().refine((metric) => metric.toLowerCase() in metricProcessors, {
+      message: `Metric must be one of: ${Object.keys(metricProcessors).join(', ')}`,
+    }),
+    startDate: stringDate(),
+    endDate: stringDate(),
+    ids: commaDelimitedNumberArray().optional(),
+    batchSize: numericString(z.number().int().min(1).max(10000)).optional(),
+    windowMinutes: numericString(
+      z
+        .number()
+        .int()
+        .min(1)
+        .max(7 * 24 * 60)
+    ).optional(),
+  })
+  .refine(({ startDate, ids }) => !!startDate || !!ids?.length, {
+    message: 'Either startDate or ids must be provided',
+  })
+  .refine(({ startDate, endDate }) => !startDate || !endDate || startDate < endDate, {
+    message: 'startDate must be before endDate',
+  });
+
+/**
+ * Recomputes a metric processor for everything with activity between `startDate` and `endDate` (defaults to now)
+ * and/or specific entity ids. Dates are processed in windows of `windowMinutes`.
+ * Progress is written as a line of NDJSON after each window or batch, closing the request cancels the backfill.
+ */
+export default ModEndpoint(async function backfillMetrics(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const input = schema.safeParse(req.query);
+  if (!input.success) return res.status(400).json({ error: input.error.message });
+
+  const { metric, ...options } = input.data;
+  const processor = metricProcessors[metric.toLowerCase()];
+
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(200);
+
+  const start = Date.now();
+  try {
+    await inJobContext(res, async (jobContext) => {
+      await processor.backfill(options, jobContext, (progress) => {
+        res.write(JSON.stringify({ metric: processor.name, ...progress }) + '\n');
+      });
+    });
+    res.write(JSON.stringify({ status: 'ok', duration: Date.now() - start }) + '\n');
+  } catch (e) {
+    // Headers are already sent, so surface the failure as the final line
+    const error = e as Error;
+    res.write(JSON.stringify({ status: 'error', message: error.message }) + '\n');
+  }
+
+  res.end();
+});
@@ -4,7 +4,8 @@ import { z } from 'zod';
 import { ModEndpoint } from '~/server/utils/endpoint-helpers';
 import { Prisma, TagSource } from '@prisma/client';
 import { chunk } from 'lodash-es';
-import { getComputedTags } from '~/server/utils/tag-rules';
+import { getComputedTagRules } from '~/server/services/system-cache';
+import { ComputedTagInput, getComputedTags } from '~/server/utils/tag-rules';
 
 const importSchema = z.object({
   imageIds: z.string().transform((s) => s.split(',').map(Number)),
@@ -14,9 +15,12 @@ const importSchema = z.object({
 export default ModEndpoint(
   async function computeTags(req: NextApiRequest, res: NextApiResponse) {
     const { imageIds, wait } = importSchema.parse(req.query);
-    const imageTags = await dbWrite.$queryRaw<{ tag: string; imageId: number }[]>`
+    const imageTags = await dbWrite.$queryRaw<
+      { tag: string; confidence: number | null; imageId: number }[]
+    >`
       SELECT
         t.name "tag",
+        toi.confidence,
         toi."imageId"
       FROM "TagsOnImage" toi
       JOIN "Tag" t ON toi."tagId" = t.id
@@ -25,15 +29,16 @@ export default ModEndpoint(
 
     if (!wait) res.status(200).json({ images: imageIds.length });
 
-    const images: Record<number, string[]> = {};
-    for (const { tag, imageId } of imageTags) {
+    const images: Record<number, ComputedTagInput[]> = {};
+    for (const { imageId, ...tag } of imageTags) {
       if (!images[imageId]) images[imageId] = [];
       images[imageId].push(tag);
     }
 
+    const computedTagRules = await getComputedTagRules();
     const toAdd: { imageId: number; tag: string }[] = [];
     for (const [imageId, tags] of Object.entries(images)) {
-      const computedTags = getComputedTags(tags, TagSource.WD14);
+      const computedTags = getComputedTags(tags, TagSource.WD14, computedTagRules);
       toAdd.push(...computedTags.map((tag) => ({ imageId: Number(imageId), tag })));
     }
 
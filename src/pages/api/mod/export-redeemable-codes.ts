@@ -0,0 +1,35 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+import { getRedeemableCodeBatchCodes } from '~/server/services/redeemableCode.service';
+import { ModEndpoint } from '~/server/utils/endpoint-helpers';
+import { numericString } from '~/utils/zod-helpers';
+
+const schema = z.object({ batchId: numericString(z.number().int()) });
+
+function toCsvValue(value: unknown) {
+  const str = value instanceof Date ? value.toISOString() : String(value ?? '');
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * Exports the codes of a redeemable code batch as CSV for distribution partners.
+ */
+export default ModEndpoint(async function exportRedeemableCodes(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const input = schema.safeParse(req.query);
+  if (!input.success) return res.status(400).json({ error: input.error.message });
+
+  const batch = await getRedeemableCodeBatchCodes(input.data).catch(() => null);
+  if (!batch) return res.status(404).json({ error: 'Batch not found' });
+
+  const columns = ['code', 'type', 'unitValue', 'maxUses', 'uses', 'expiresAt'] as const;
+  const rows = batch.codes.map((code) => columns.map((column) => toCsvValue(code[column])));
+  const csv = [columns.join(','), ...rows.map((row) => row.join(','))].join('\n');
+
+  const filename = `${batch.name.replace(/[^\w-]+/g, '-')}-${batch.id}.csv`;
+  res.setHeader('Content-Type', 'text/csv');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.status(200).send(csv);
+});
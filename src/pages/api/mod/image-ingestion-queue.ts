@@ -0,0 +1,11 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getImageIngestionQueueStats } from '~/server/jobs/image-ingestion';
+import { ModEndpoint } from '~/server/utils/endpoint-helpers';
+
+export default ModEndpoint(async function imageIngestionQueue(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const stats = await getImageIngestionQueueStats();
+  res.status(200).json(stats);
+});
@@ -3,7 +3,7 @@ import { dbWrite } from '~/server/db/client';
 import { z } from 'zod';
 import { ModEndpoint } from '~/server/utils/endpoint-helpers';
 import { ARTICLES_SEARCH_INDEX } from '../../../../server/common/constants';
-import { updateDocs } from '../../../../server/meilisearch/client';
+import { searchBackend } from '~/server/search-backend';
 import { withRetries } from '../../../../server/utils/errorHandling';
 import { userWithCosmeticsSelect } from '../../../../server/selectors/user.selector';
 
@@ -51,7 +51,7 @@ const updateUser = (idOffset: number) =>
       return -1;
     }
 
-    await updateDocs({
+    await searchBackend.updateDocuments({
       indexName: INDEX_ID,
       documents: updateIndexReadyRecords,
       batchSize: BATCH_SIZE,
@@ -3,7 +3,7 @@ import { dbRead, dbWrite } from '~/server/db/client';
 import { z } from 'zod';
 import { ModEndpoint } from '~/server/utils/endpoint-helpers';
 import { IMAGES_SEARCH_INDEX } from '../../../../server/common/constants';
-import { updateDocs } from '../../../../server/meilisearch/client';
+import { searchBackend } from '~/server/search-backend';
 import { CosmeticSource, CosmeticType, ImageIngestionStatus, Prisma } from '@prisma/client';
 import { isDefined } from '../../../../utils/type-guards';
 import { withRetries } from '../../../../server/utils/errorHandling';
@@ -139,7 +139,7 @@ const updateUserDetails = (idOffset: number) =>
       return -1;
     }
 
-    await updateDocs({
+    await searchBackend.updateDocuments({
       indexName: INDEX_ID,
       documents: updateIndexReadyRecords,
       batchSize: BATCH_SIZE,
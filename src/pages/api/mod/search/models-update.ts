@@ -5,7 +5,7 @@ import { dbWrite } from '~/server/db/client';
 import { getUnavailableResources } from '~/server/services/generation/generation.service';
 import { ModEndpoint } from '~/server/utils/endpoint-helpers';
 import { MODELS_SEARCH_INDEX } from '../../../../server/common/constants';
-import { updateDocs } from '../../../../server/meilisearch/client';
+import { searchBackend } from '~/server/search-backend';
 import { getModelVersionsForSearchIndex } from '../../../../server/selectors/modelVersion.selector';
 import { userWithCosmeticsSelect } from '../../../../server/selectors/user.selector';
 import { withRetries } from '../../../../server/utils/errorHandling';
@@ -83,7 +83,7 @@ const updateGenerationCoverage = (idOffset: number) =>
       return -1;
     }
 
-    await updateDocs({
+    await searchBackend.updateDocuments({
       indexName: INDEX_ID,
       documents: updateIndexReadyRecords,
       batchSize: BATCH_SIZE,
@@ -126,7 +126,7 @@ const updateUser = (idOffset: number) =>
       return -1;
     }
 
-    await updateDocs({
+    await searchBackend.updateDocuments({
       indexName: INDEX_ID,
       documents: updateIndexReadyRecords,
       batchSize: BATCH_SIZE,
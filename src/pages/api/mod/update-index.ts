@@ -15,7 +15,12 @@ import {
   usersSearchIndex,
 } from '~/server/search-index';
 import { ModEndpoint } from '~/server/utils/endpoint-helpers';
-import { commaDelimitedNumberArray } from '~/utils/zod-helpers';
+import {
+  booleanString,
+  commaDelimitedNumberArray,
+  numericString,
+  stringDate,
+} from '~/utils/zod-helpers';
 
 export const schema = z.object({
   updateIds: commaDelimitedNumberArray().optional(),
@@ -26,13 +31,43 @@ export const schema = z.object({
     IMAGES_SEARCH_INDEX,
     ARTICLES_SEARCH_INDEX,
   ]),
+  // Used to reindex every document matching the filter when no ids are provided
+  tagId: numericString().optional(),
+  userId: numericString().optional(),
+  updatedFrom: stringDate(),
+  updatedTo: stringDate(),
+  dryRun: booleanString().optional(),
+  sampleSize: numericString(z.number().int().min(0).max(100)).optional(),
 });
+
+const searchIndexes = {
+  [USERS_SEARCH_INDEX]: usersSearchIndex,
+  [MODELS_SEARCH_INDEX]: modelsSearchIndex,
+  [IMAGES_SEARCH_INDEX]: imagesSearchIndex,
+  [ARTICLES_SEARCH_INDEX]: articlesSearchIndex,
+};
+
 export default ModEndpoint(async function updateIndexSync(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
   try {
     const input = schema.parse(req.query);
+    const { tagId, userId, updatedFrom, updatedTo } = input;
+    const filter = { tagId, userId, updatedFrom, updatedTo };
+    const hasFilter = Object.values(filter).some((x) => x !== undefined);
+
+    if (!input.updateIds?.length && !input.deleteIds?.length && hasFilter) {
+      const searchIndex = searchIndexes[input.index];
+      let result: unknown;
+      await inJobContext(res, async (jobContext) => {
+        result = input.dryRun
+          ? await searchIndex.dryRun(filter, jobContext, input.sampleSize)
+          : await searchIndex.updateByFilter(filter, jobContext);
+      });
+
+      return res.status(200).send({ status: 'ok', dryRun: !!input.dryRun, result });
+    }
 
     const data = [
       ...(input.updateIds ?? []).map((id) => ({ id, action: SearchIndexUpdateQueueAction.Update })),
@@ -40,26 +75,11 @@ export default ModEndpoint(async function updateIndexSync(
     ];
 
     if (!data.length) {
-      throw new Error('No ids provided');
+      throw new Error('No ids or filter provided');
     }
 
     await inJobContext(res, async (jobContext) => {
-      switch (input.index) {
-        case USERS_SEARCH_INDEX:
-          await usersSearchIndex.updateSync(data, jobContext);
-          break;
-        case MODELS_SEARCH_INDEX:
-          await modelsSearchIndex.updateSync(data, jobContext);
-          break;
-        case IMAGES_SEARCH_INDEX:
-          await imagesSearchIndex.updateSync(data, jobContext);
-          break;
-        case ARTICLES_SEARCH_INDEX:
-          await articlesSearchIndex.updateSync(data, jobContext);
-          break;
-        default:
-          break;
-      }
+      await searchIndexes[input.index].updateSync(data, jobContext);
     });
 
     res.status(200).send({ status: 'ok' });
@@ -0,0 +1,36 @@
+import { TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { instantSearchSchema } from '~/server/schema/search.schema';
+import { SearchFilterError } from '~/server/search-backend/filter';
+import { instantSearch, searchForFacetValues } from '~/server/services/search.service';
+import { PublicEndpoint } from '~/server/utils/endpoint-helpers';
+
+/**
+ * InstantSearch compatible search, used by the client when `NEXT_PUBLIC_SEARCH_BACKEND` isn't meilisearch.
+ */
+export default PublicEndpoint(
+  async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const input = instantSearchSchema.safeParse(req.body);
+    if (!input.success) return res.status(400).json({ error: input.error.message });
+
+    const { type, requests } = input.data;
+    try {
+      const results =
+        type === 'facetValues'
+          ? await searchForFacetValues(requests)
+          : await instantSearch(requests);
+
+      res.status(200).json({ results });
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        res.status(getHTTPStatusCodeFromError(error)).json({ error: error.message });
+      } else if (error instanceof SearchFilterError) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ message: 'An unexpected error occurred', error });
+      }
+    }
+  },
+  ['POST']
+);
@@ -6,6 +6,7 @@ import { filenamize, generateToken } from '~/utils/string-helpers';
 import { getMultipartPutUrl } from '~/utils/s3-utils';
 import { logToDb } from '~/utils/logging';
 import { env } from '~/env/server.mjs';
+import { isApiKeyRequestAllowed, uploadApiKeyScopes } from '~/server/utils/api-key-helpers';
 
 const upload = async (req: NextApiRequest, res: NextApiResponse) => {
   const session = await getServerAuthSession({ req, res });
@@ -21,6 +22,11 @@ const upload = async (req: NextApiRequest, res: NextApiResponse) => {
   let { type } = req.body;
   if (!type || !Object.values(UploadType).includes(type)) type = UploadType.Default;
 
+  const apiKeyScope = uploadApiKeyScopes[type as UploadType];
+  if (!isApiKeyRequestAllowed({ apiKey: session.apiKey, scope: apiKeyScope, isWrite: true })) {
+    return res.status(403).json({ error: 'Missing API key scope' });
+  }
+
   if (env.UPLOAD_PROHIBITED_EXTENSIONS?.includes(ext)) {
     return res.status(400).json({ error: 'File type not allowed' });
   }
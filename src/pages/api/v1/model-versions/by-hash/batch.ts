@@ -0,0 +1,87 @@
+import { chunk } from 'lodash-es';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { logToAxiom } from '~/server/logging/client';
+import { getFilesByHashesSchema } from '~/server/schema/model-file.schema';
+import { FileByHash, getFilesByHashes } from '~/server/services/model-file.service';
+import { PublicEndpoint } from '~/server/utils/endpoint-helpers';
+
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '2mb' },
+    responseLimit: false,
+  },
+};
+
+const BATCH_SIZE = 500;
+
+const toMatch = (file: FileByHash) => ({
+  hashType: file.hashType,
+  file: { id: file.fileId, name: file.fileName, type: file.fileType, sizeKB: file.sizeKB },
+  modelVersion: {
+    id: file.modelVersionId,
+    name: file.modelVersionName,
+    baseModel: file.baseModel,
+  },
+  model: { id: file.modelId, name: file.modelName, type: file.modelType },
+});
+
+/**
+ * Resolves many hashes at once, writing a line of NDJSON per requested hash as each batch completes.
+ * Hashes that don't match a published file are returned with `found: false`.
+ */
+export default PublicEndpoint(
+  async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const results = getFilesByHashesSchema.safeParse(req.body);
+    if (!results.success)
+      return res.status(400).json({
+        error: `Request must include an array of hashes. ${results.error.message}`,
+      });
+
+    const { hashTypes } = results.data;
+    const hashes = [...new Set(results.data.hashes)];
+
+    let aborted = false;
+    res.on('close', () => {
+      aborted = true;
+    });
+
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200);
+
+    try {
+      for (const batch of chunk(hashes, BATCH_SIZE)) {
+        if (aborted) break;
+
+        const files = await getFilesByHashes({ hashes: batch, hashTypes });
+        const filesByHash: Record<string, FileByHash[]> = {};
+        for (const file of files) {
+          filesByHash[file.hash] ??= [];
+          filesByHash[file.hash].push(file);
+        }
+
+        const lines = batch.map((hash) => {
+          const matches = (filesByHash[hash] ?? []).map(toMatch);
+          return JSON.stringify({ hash, found: matches.length > 0, matches });
+        });
+        res.write(lines.join('\n') + '\n');
+      }
+    } catch (e) {
+      const error = e as Error;
+      logToAxiom({
+        name: 'model-versions-by-hash-batch',
+        type: 'error',
+        message: error.message,
+        stack: error.stack,
+        hashCount: hashes.length,
+      }).catch();
+      // Headers are already sent, so surface the failure as the final line
+      res.write(
+        JSON.stringify({ error: 'An unexpected error occurred', code: 'INTERNAL_SERVER_ERROR' })
+      );
+    }
+
+    res.end();
+  },
+  ['POST']
+);
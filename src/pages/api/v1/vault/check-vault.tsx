@@ -1,3 +1,4 @@
+import { KeyScope } from '@prisma/client';
 import { NextApiRequest, NextApiResponse } from 'next';
 import { SessionUser } from 'next-auth';
 import { z } from 'zod';
@@ -40,5 +41,6 @@ export default AuthedEndpoint(
       return res.status(500).json({ message: 'An unexpected error occurred', error });
     }
   },
-  ['GET']
+  ['GET'],
+  KeyScope.VaultRead
 );
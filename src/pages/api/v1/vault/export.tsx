@@ -0,0 +1,45 @@
+import { KeyScope } from '@prisma/client';
+import { ModelType } from '@prisma/client';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { SessionUser } from 'next-auth';
+import { z } from 'zod';
+import { isProd } from '~/env/other';
+import { getVaultManifestSchema } from '~/server/schema/vault.schema';
+import { getVaultManifest } from '~/server/services/vault.service';
+import { AuthedEndpoint } from '~/server/utils/endpoint-helpers';
+import {
+  commaDelimitedNumberArray,
+  commaDelimitedStringArray,
+  stringToArray,
+} from '~/utils/zod-helpers';
+
+// Query params arrive as strings, so loosen the array and date filters
+const schema = getVaultManifestSchema.extend({
+  types: z.preprocess(stringToArray, z.array(z.nativeEnum(ModelType))).optional(),
+  categories: commaDelimitedStringArray().optional(),
+  baseModels: commaDelimitedStringArray().optional(),
+  modelVersionIds: commaDelimitedNumberArray().optional(),
+  dateCreatedFrom: z.coerce.date().optional(),
+  dateCreatedTo: z.coerce.date().optional(),
+  dateAddedFrom: z.coerce.date().optional(),
+  dateAddedTo: z.coerce.date().optional(),
+});
+
+export default AuthedEndpoint(
+  async function handler(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+    const results = schema.safeParse(req.query);
+    if (!results.success) return res.status(400).json({ error: results.error.flatten() });
+
+    try {
+      const baseUrl = isProd ? `https://${req.headers.host}` : 'http://localhost:3000';
+      const manifest = await getVaultManifest({ ...results.data, userId: user.id, baseUrl });
+
+      res.setHeader('Content-Disposition', `attachment; filename="vault-manifest.json"`);
+      return res.json(manifest);
+    } catch (error) {
+      return res.status(500).json({ message: 'An unexpected error occurred', error });
+    }
+  },
+  ['GET'],
+  KeyScope.VaultRead
+);
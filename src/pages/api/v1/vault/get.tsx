@@ -1,3 +1,4 @@
+import { KeyScope } from '@prisma/client';
 import { TRPCError } from '@trpc/server';
 import { NextApiRequest, NextApiResponse } from 'next';
 import { SessionUser } from 'next-auth';
@@ -24,5 +25,6 @@ export default AuthedEndpoint(
       res.status(500).json({ message: 'An unexpected error occurred', error });
     }
   },
-  ['GET']
+  ['GET'],
+  KeyScope.VaultRead
 );
@@ -0,0 +1,37 @@
+import { KeyScope } from '@prisma/client';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { SessionUser } from 'next-auth';
+import { isProd } from '~/env/other';
+import { syncVaultManifestSchema } from '~/server/schema/vault.schema';
+import { syncVaultManifest } from '~/server/services/vault.service';
+import { AuthedEndpoint } from '~/server/utils/endpoint-helpers';
+
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '4mb' },
+    responseLimit: false,
+  },
+};
+
+/**
+ * Diffs a manifest previously exported from the vault against the current vault,
+ * returning only what a client needs to add, update or remove locally.
+ */
+export default AuthedEndpoint(
+  async function handler(req: NextApiRequest, res: NextApiResponse, user: SessionUser) {
+    const results = syncVaultManifestSchema.safeParse(req.body);
+    if (!results.success)
+      return res.status(400).json({ error: `Could not parse provided manifest` });
+
+    try {
+      const baseUrl = isProd ? `https://${req.headers.host}` : 'http://localhost:3000';
+      const result = await syncVaultManifest({ ...results.data, userId: user.id, baseUrl });
+      return res.json(result);
+    } catch (error) {
+      return res.status(500).json({ message: 'An unexpected error occurred', error });
+    }
+  },
+  ['POST'],
+  // Only reads the vault, the manifest is posted because it can be large
+  KeyScope.VaultRead
+);
@@ -0,0 +1,42 @@
+import { getEdgeUrl } from '~/client-utils/cf-images-utils';
+import { apiV2Routes, CreatorV2 } from '~/server/schema/api-v2.schema';
+import { getCreators } from '~/server/services/user.service';
+import { ApiV2Endpoint } from '~/server/utils/api-v2-helpers';
+
+export default ApiV2Endpoint(apiV2Routes.creators, async ({ input }) => {
+  const { limit, query, cursor } = input;
+
+  const { items } = await getCreators({
+    query,
+    // Fetch one extra to know if there is a next page
+    take: limit + 1,
+    skip: cursor ? 1 : undefined,
+    cursor,
+    orderBy: { id: 'asc' },
+    excludeIds: [-1], // Exclude civitai user
+    select: {
+      id: true,
+      username: true,
+      image: true,
+      _count: { select: { models: { where: { status: 'Published' } } } },
+    },
+  });
+
+  let nextCursor: number | undefined;
+  if (items.length > limit) {
+    items.pop();
+    nextCursor = items[items.length - 1]?.id;
+  }
+
+  return {
+    items: items.map(
+      ({ id, username, image, _count }): CreatorV2 => ({
+        id,
+        username,
+        image: image ? getEdgeUrl(image, { width: 96, name: username }) : null,
+        modelCount: _count.models,
+      })
+    ),
+    nextCursor,
+  };
+});
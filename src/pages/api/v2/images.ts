@@ -0,0 +1,54 @@
+import { getEdgeUrl } from '~/client-utils/cf-images-utils';
+import { apiV2Routes, ImageV2 } from '~/server/schema/api-v2.schema';
+import { getAllImages } from '~/server/services/image.service';
+import { ApiV2Endpoint } from '~/server/utils/api-v2-helpers';
+import { publicBrowsingLevelsFlag } from '~/shared/constants/browsingLevel.constants';
+
+export const config = {
+  api: {
+    responseLimit: false,
+  },
+};
+
+export default ApiV2Endpoint(apiV2Routes.images, async ({ input }) => {
+  const { limit, cursor, fields, type, browsingLevel, ...filters } = input;
+
+  const { items, nextCursor } = await getAllImages({
+    ...filters,
+    types: type ? [type] : undefined,
+    limit,
+    cursor,
+    periodMode: 'published',
+    include: ['count'],
+    headers: { src: '/api/v2/images' },
+    browsingLevel: browsingLevel ?? publicBrowsingLevelsFlag,
+  });
+
+  return {
+    items: items.map(
+      (image): ImageV2 => ({
+        id: image.id,
+        url: getEdgeUrl(image.url, { width: image.width ?? 450 }),
+        nsfwLevel: image.nsfwLevel,
+        width: image.width,
+        height: image.height,
+        hash: image.hash,
+        type: image.type,
+        createdAt: image.createdAt,
+        postId: image.postId,
+        username: image.user.username,
+        baseModel: image.baseModel ?? null,
+        meta: image.meta ?? null,
+        stats: {
+          likeCount: image.stats?.likeCountAllTime ?? 0,
+          heartCount: image.stats?.heartCountAllTime ?? 0,
+          laughCount: image.stats?.laughCountAllTime ?? 0,
+          cryCount: image.stats?.cryCountAllTime ?? 0,
+          dislikeCount: image.stats?.dislikeCountAllTime ?? 0,
+          commentCount: image.stats?.commentCountAllTime ?? 0,
+        },
+      })
+    ),
+    nextCursor,
+  };
+});
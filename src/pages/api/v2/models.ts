@@ -0,0 +1,129 @@
+import { ModelHashType, ModelModifier } from '@prisma/client';
+import { getEdgeUrl } from '~/client-utils/cf-images-utils';
+import { createModelFileDownloadUrl } from '~/server/common/model-helpers';
+import { apiV2Routes, ModelV2 } from '~/server/schema/api-v2.schema';
+import { getAllModelsSchema } from '~/server/schema/model.schema';
+import { getDownloadFilename } from '~/server/services/file.service';
+import { getModelsWithVersions } from '~/server/services/model.service';
+import { ApiV2Endpoint, getApiV2BaseUrl } from '~/server/utils/api-v2-helpers';
+import { getPrimaryFile } from '~/server/utils/model-helpers';
+import {
+  allBrowsingLevelsFlag,
+  publicBrowsingLevelsFlag,
+} from '~/shared/constants/browsingLevel.constants';
+import { Flags } from '~/shared/utils';
+import { safeDecodeURIComponent } from '~/utils/string-helpers';
+
+export const config = {
+  api: {
+    responseLimit: false,
+  },
+};
+
+const hashesAsObject = (hashes: { type: ModelHashType; hash: string }[]) =>
+  hashes.reduce((acc, { type, hash }) => ({ ...acc, [type]: hash }), {} as Record<string, string>);
+
+export default ApiV2Endpoint(apiV2Routes.models, async ({ input, user, req }) => {
+  const { limit, cursor, fields, nsfw, ...filters } = input;
+  const browsingLevel = nsfw ? allBrowsingLevelsFlag : publicBrowsingLevelsFlag;
+  const { origin } = getApiV2BaseUrl(req);
+
+  const { items, nextCursor } = await getModelsWithVersions({
+    input: {
+      ...getAllModelsSchema.parse({ ...filters, cursor }),
+      browsingLevel,
+      take: limit,
+    },
+    user,
+  });
+
+  const preferredFormat = {
+    type: user?.filePreferences?.size === 'pruned' ? 'Pruned Model' : undefined,
+    metadata: user?.filePreferences,
+  };
+
+  return {
+    items: items.map(({ modelVersions, tagsOnModels, user, stats, ...model }): ModelV2 => {
+      const includeDownloadUrl = model.mode !== ModelModifier.Archived;
+      const includeImages = model.mode !== ModelModifier.TakenDown;
+
+      return {
+        id: model.id,
+        name: model.name,
+        description: model.description ?? null,
+        type: model.type,
+        nsfw: model.nsfw,
+        nsfwLevel: model.nsfwLevel,
+        poi: model.poi ?? false,
+        // mode comes from a raw query, so it's only typed as a string
+        mode: (model.mode as ModelModifier | null) ?? null,
+        creator: user
+          ? {
+              username: user.username,
+              image: user.image ? getEdgeUrl(user.image, { width: 96, name: user.username }) : null,
+            }
+          : null,
+        tags: tagsOnModels.map(({ name }) => name),
+        stats: {
+          downloadCount: stats.downloadCount,
+          thumbsUpCount: stats.thumbsUpCount,
+          thumbsDownCount: stats.thumbsDownCount,
+          commentCount: stats.commentCount,
+          tippedAmountCount: stats.tippedAmountCount,
+        },
+        modelVersions: modelVersions
+          .filter((version) => version.status === 'Published')
+          .map((version) => {
+            const primaryFile = getPrimaryFile(version.files, preferredFormat);
+
+            return {
+              id: version.id,
+              name: version.name,
+              baseModel: version.baseModel,
+              publishedAt: version.publishedAt,
+              trainedWords: version.trainedWords ?? [],
+              stats: version.stats,
+              downloadUrl:
+                includeDownloadUrl && primaryFile
+                  ? `${origin}${createModelFileDownloadUrl({
+                      versionId: version.id,
+                      primary: true,
+                    })}`
+                  : null,
+              files: includeDownloadUrl
+                ? version.files.map((file) => ({
+                    id: file.id,
+                    name: safeDecodeURIComponent(
+                      getDownloadFilename({ model, modelVersion: version, file })
+                    ),
+                    type: file.type,
+                    sizeKB: file.sizeKB,
+                    primary: primaryFile?.id === file.id,
+                    hashes: hashesAsObject(file.hashes),
+                    downloadUrl: `${origin}${createModelFileDownloadUrl({
+                      versionId: version.id,
+                      type: file.type,
+                      meta: file.metadata,
+                      primary: primaryFile?.id === file.id,
+                    })}`,
+                  }))
+                : [],
+              images: includeImages
+                ? version.images
+                    .filter((image) => Flags.intersects(image.nsfwLevel, browsingLevel))
+                    .map((image) => ({
+                      id: image.id,
+                      url: getEdgeUrl(image.url, { width: 450, name: image.id.toString() }),
+                      nsfwLevel: image.nsfwLevel,
+                      width: image.width,
+                      height: image.height,
+                      hash: image.hash,
+                    }))
+                : [],
+            };
+          }),
+      };
+    }),
+    nextCursor,
+  };
+});
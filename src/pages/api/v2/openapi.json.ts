@@ -0,0 +1,23 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+import { apiV2ErrorSchema, apiV2MetadataSchema, apiV2Routes } from '~/server/schema/api-v2.schema';
+import { getApiV2BaseUrl } from '~/server/utils/api-v2-helpers';
+import { PublicEndpoint } from '~/server/utils/endpoint-helpers';
+import { createOpenApiDocument } from '~/server/utils/openapi';
+
+export default PublicEndpoint(async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const document = createOpenApiDocument({
+    title: 'Civitai Public API',
+    version: '2.0.0',
+    serverUrl: getApiV2BaseUrl(req).origin,
+    errorSchema: apiV2ErrorSchema,
+    routes: Object.values(apiV2Routes).map(({ path, summary, query, item }) => ({
+      path,
+      summary,
+      query,
+      response: z.object({ items: item.array(), metadata: apiV2MetadataSchema }),
+    })),
+  });
+
+  res.status(200).json(document);
+});
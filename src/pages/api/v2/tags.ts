@@ -0,0 +1,29 @@
+import { TagTarget } from '@prisma/client';
+import { apiV2Routes, TagV2 } from '~/server/schema/api-v2.schema';
+import { getTags } from '~/server/services/tag.service';
+import { ApiV2Endpoint } from '~/server/utils/api-v2-helpers';
+
+export default ApiV2Endpoint(apiV2Routes.tags, async ({ input }) => {
+  const { limit, query, cursor: offset = 0 } = input;
+
+  const { items } = await getTags({
+    query,
+    take: limit + 1,
+    skip: offset,
+    withModels: true,
+    entityType: [TagTarget.Model],
+  });
+
+  let nextCursor: number | undefined;
+  if (items.length > limit) {
+    items.pop();
+    nextCursor = offset + limit;
+  }
+
+  return {
+    items: items.map(
+      ({ id, name, models = [] }): TagV2 => ({ id, name, modelCount: models.length })
+    ),
+    nextCursor,
+  };
+});
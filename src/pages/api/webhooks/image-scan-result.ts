@@ -11,10 +11,10 @@ import { scanJobsSchema } from '~/server/schema/image.schema';
 import { imagesSearchIndex } from '~/server/search-index';
 import { updateImageTagIdsForImages } from '~/server/services/image.service';
 import { updatePostNsfwLevel } from '~/server/services/post.service';
-import { getTagRules } from '~/server/services/system-cache';
+import { getComputedTagRules, getTagRules } from '~/server/services/system-cache';
 import { deleteUserProfilePictureCache } from '~/server/services/user.service';
 import { WebhookEndpoint } from '~/server/utils/endpoint-helpers';
-import { getComputedTags } from '~/server/utils/tag-rules';
+import { COMPUTED_TAG_CONFIDENCE, getComputedTags } from '~/server/utils/tag-rules';
 import { logToDb } from '~/utils/logging';
 import {
   auditMetaData,
@@ -168,11 +168,15 @@ async function handleSuccess({ id, tags: incomingTags = [], source, context }: B
   const tags: Tag[] = Object.values(tagMap);
 
   // Add computed tags
-  const computedTags = getComputedTags(
-    tags.map((x) => x.tag),
-    source
+  const computedTagRules = await getComputedTagRules();
+  const computedTags = getComputedTags(tags, source, computedTagRules);
+  tags.push(
+    ...computedTags.map((x) => ({
+      tag: x,
+      confidence: COMPUTED_TAG_CONFIDENCE,
+      source: TagSource.Computed,
+    }))
   );
-  tags.push(...computedTags.map((x) => ({ tag: x, confidence: 70, source: TagSource.Computed })));
 
   // Apply Tag Rules
   const tagRules = await getTagRules();
@@ -19,7 +19,7 @@ import * as eventEngineJobs from '~/server/jobs/event-engine-work';
 import { handleLongTrainings } from '~/server/jobs/handle-long-trainings';
 // import { refreshImageGenerationCoverage } from '~/server/jobs/refresh-image-generation-coverage';
 import { ingestImages, removeBlockedImages } from '~/server/jobs/image-ingestion';
-import { Job } from '~/server/jobs/job';
+import { getRetryDelay, Job } from '~/server/jobs/job';
 import { jobQueueJobs } from '~/server/jobs/job-queue';
 import { nextauthCleanup } from '~/server/jobs/next-auth-cleanup';
 import { bountyJobs } from '~/server/jobs/prepare-bounties';
@@ -41,7 +41,7 @@ import { rewardsAbusePrevention } from '~/server/jobs/rewards-abuse-prevention';
 import { scanFilesJob } from '~/server/jobs/scan-files';
 import { searchIndexJobs } from '~/server/jobs/search-index-sync';
 import { sendNotificationsJob } from '~/server/jobs/send-notifications';
-import { sendWebhooksJob } from '~/server/jobs/send-webhooks';
+import { cleanWebhookDeliveriesJob, sendWebhooksJob } from '~/server/jobs/send-webhooks';
 import { tempSetMissingNsfwLevel } from '~/server/jobs/temp-set-missing-nsfw-level';
 import { metricJobs } from '~/server/jobs/update-metrics';
 import { redis } from '~/server/redis/client';
@@ -50,12 +50,20 @@ import { createLogger } from '~/utils/logging';
 import { updateUserScore } from '~/server/jobs/update-user-score';
 import { processingEngingEarlyAccess } from '~/server/jobs/process-ending-early-access';
 import { logToAxiom } from '~/server/logging/client';
+import { endJobRun, startJobRun } from '~/server/services/job-run.service';
+import { sleep } from '~/server/utils/errorHandling';
+import { jobRunCleanup } from '~/server/jobs/job-run-cleanup';
+import { refundExpiredDonationGoalsJob } from '~/server/jobs/refund-expired-donation-goals';
+import { flushApiKeyUsageJob } from '~/server/jobs/flush-api-key-usage';
+import { notificationDigestJobs } from '~/server/jobs/send-notification-digests';
+import { promptModerationLogCleanup } from '~/server/jobs/prompt-moderation-log-cleanup';
 
 export const jobs: Job[] = [
   scanFilesJob,
   processImportsJob,
   sendNotificationsJob,
   sendWebhooksJob,
+  cleanWebhookDeliveriesJob,
   addOnDemandRunStrategiesJob,
   deliverPurchasedCosmetics,
   deliverLeaderboardCosmetics,
@@ -98,13 +106,18 @@ export const jobs: Job[] = [
   processingEngingEarlyAccess,
   updateUserScore,
   tempSetMissingNsfwLevel,
+  jobRunCleanup,
+  refundExpiredDonationGoalsJob,
+  flushApiKeyUsageJob,
+  ...notificationDigestJobs,
+  promptModerationLogCleanup,
 ];
 
 const log = createLogger('jobs', 'green');
 const pod = env.PODNAME;
 
 export default WebhookEndpoint(async (req, res) => {
-  const { run: runJob } = querySchema.parse(req.query);
+  const { run: runJob, triggeredBy } = querySchema.parse(req.query);
 
   // Get requested job
   const job = jobs.find((x) => x.name === runJob);
@@ -116,28 +129,55 @@ export default WebhookEndpoint(async (req, res) => {
   const jobStart = Date.now();
   const axiom = req.log.with({ scope: 'job', name, pod });
   let result: MixedObject | void;
+  let jobRunner: ReturnType<Job['run']> | undefined;
+  let canceled = false;
+
+  async function cancelHandler() {
+    canceled = true;
+    await jobRunner?.cancel();
+    await unlock(name);
+  }
+
+  // Manual runs are answered once the job starts, so they don't hold the request open until it ends.
+  // Scheduled runs keep the request open and are canceled when it closes.
+  const detached = !!triggeredBy;
+
   try {
     log(`${name} starting`);
     axiom.info(`starting`);
-    await lock(name, options.lockExpiration);
+    if (detached) res.status(202).json({ ok: true, pod, started: true });
+    else res.on('close', cancelHandler);
 
-    const jobRunner = run();
+    for (let attempt = 1; ; attempt++) {
+      await lock(name, options.lockExpiration);
+      const attemptStart = Date.now();
+      const jobRunId = await startJobRun({ name, attempt, triggeredBy });
+      try {
+        jobRunner = run();
+        result = await jobRunner.result;
+        await endJobRun({ id: jobRunId, status: 'Succeeded', startedAt: attemptStart, result });
+        break;
+      } catch (error) {
+        const status = canceled ? 'Canceled' : 'Failed';
+        await endJobRun({ id: jobRunId, status, startedAt: attemptStart, error });
+        if (canceled || attempt > options.retries) throw error;
 
-    async function cancelHandler() {
-      await jobRunner.cancel();
-      await unlock(name);
+        const retryDelay = getRetryDelay(options, attempt);
+        log(`${name} attempt ${attempt} failed, retrying in ${(retryDelay / 1000).toFixed(0)}s`);
+        axiom.warn('retrying', { attempt, retryDelay, error });
+        await sleep(retryDelay);
+        if (canceled) throw error;
+      }
     }
 
-    res.on('close', cancelHandler);
-    result = await jobRunner.result;
     res.off('close', cancelHandler);
     log(`${name} successful: ${((Date.now() - jobStart) / 1000).toFixed(2)}s`);
     axiom.info('success', { duration: Date.now() - jobStart });
-    res.status(200).json({ ok: true, pod, result: result ?? null });
+    if (!detached) res.status(200).json({ ok: true, pod, result: result ?? null });
   } catch (error) {
     log(`${name} failed: ${((Date.now() - jobStart) / 1000).toFixed(2)}s`, error);
     axiom.error(`failed`, { duration: Date.now() - jobStart, error });
-    res.status(500).json({ ok: false, pod, error });
+    if (!detached) res.status(500).json({ ok: false, pod, error });
   } finally {
     await unlock(name);
   }
@@ -148,6 +188,7 @@ const querySchema = z.object({
     .union([z.string(), z.string().array()])
     .transform((x) => (Array.isArray(x) ? x[0] : x))
     .optional(),
+  triggeredBy: z.coerce.number().optional(),
 });
 
 async function isLocked(name: string) {
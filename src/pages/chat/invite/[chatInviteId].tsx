@@ -0,0 +1,101 @@
+import { Alert, Button, Card, Center, Container, Stack, Text, Title } from '@mantine/core';
+import { InferGetServerSidePropsType } from 'next';
+import { z } from 'zod';
+import { useChatContext } from '~/components/Chat/ChatProvider';
+import { Meta } from '~/components/Meta/Meta';
+import { PageLoader } from '~/components/PageLoader/PageLoader';
+import { createServerSideProps } from '~/server/utils/server-side-helpers';
+import { getLoginLink } from '~/utils/login-helpers';
+import { showErrorNotification } from '~/utils/notifications';
+import { trpc } from '~/utils/trpc';
+
+const querySchema = z.object({ chatInviteId: z.string() });
+
+export const getServerSideProps = createServerSideProps({
+  useSession: true,
+  resolver: async ({ session, features, ctx }) => {
+    if (!features?.chat) return { notFound: true };
+
+    const result = querySchema.safeParse(ctx.params);
+    if (!result.success) return { notFound: true };
+
+    if (!session)
+      return {
+        redirect: {
+          destination: getLoginLink({ returnUrl: ctx.resolvedUrl, reason: 'perform-action' }),
+          permanent: false,
+        },
+      };
+
+    return { props: { chatInviteId: result.data.chatInviteId } };
+  },
+});
+
+export default function ChatInvitePage({
+  chatInviteId,
+}: InferGetServerSidePropsType<typeof getServerSideProps>) {
+  const queryUtils = trpc.useUtils();
+  const { setState } = useChatContext();
+
+  const { data: invite, isLoading } = trpc.chat.getInvite.useQuery({ id: chatInviteId });
+
+  const openChat = (chatId: number) =>
+    setState((prev) => ({ ...prev, open: true, isCreating: false, existingChatId: chatId }));
+
+  const { mutate: joinChat, isLoading: joining } = trpc.chat.joinByInvite.useMutation({
+    onSuccess(data) {
+      queryUtils.chat.getAllByUser.setData(undefined, (old) => {
+        const chat = { ...data, createdAt: new Date(data.createdAt) };
+        if (!old) return [chat];
+        return [chat, ...old.filter((o) => o.id !== data.id)];
+      });
+      queryUtils.chat.getInvite.setData({ id: chatInviteId }, (old) =>
+        old ? { ...old, isMember: true } : old
+      );
+      openChat(data.id);
+    },
+    onError(error) {
+      showErrorNotification({
+        title: 'Unable to join chat',
+        error: new Error(error.message),
+      });
+    },
+  });
+
+  if (isLoading) return <PageLoader />;
+
+  return (
+    <>
+      <Meta title="Chat Invite | Civitai" deIndex />
+      <Container size="xs" my="xl">
+        <Card withBorder p="lg">
+          {!invite ? (
+            <Text align="center">This invite could not be found.</Text>
+          ) : (
+            <Stack align="center">
+              <Title order={3} align="center">
+                {invite.createdBy.username} invited you to a chat
+              </Title>
+              {invite.members.length > 0 && (
+                <Text size="sm" color="dimmed" align="center">
+                  Members: {invite.members.join(', ')}
+                </Text>
+              )}
+              {invite.isMember ? (
+                <Button onClick={() => openChat(invite.chatId)}>Open chat</Button>
+              ) : !invite.valid ? (
+                <Alert color="red">This invite link is no longer valid.</Alert>
+              ) : (
+                <Center>
+                  <Button loading={joining} onClick={() => joinChat({ id: chatInviteId })}>
+                    Join chat
+                  </Button>
+                </Center>
+              )}
+            </Stack>
+          )}
+        </Card>
+      </Container>
+    </>
+  );
+}
@@ -20,6 +20,7 @@ import { env } from '~/env/client.mjs';
 import ImagesInfinite from '~/components/Image/Infinite/ImagesInfinite';
 import { containerQuery } from '~/utils/mantine-css-helpers';
 import { EventHomeBlock } from '~/components/HomeBlocks/EventHomeBlock';
+import { ModelsHomeBlock } from '~/components/HomeBlocks/ModelsHomeBlock';
 import { Adunit } from '~/components/Ads/AdUnit';
 import { adsRegistry } from '~/components/Ads/adsRegistry';
 import {
@@ -121,6 +122,17 @@ export default function Home() {
                       showAds={showAds}
                     />
                   );
+                case HomeBlockType.ModelQuery:
+                case HomeBlockType.FollowedCreators:
+                case HomeBlockType.TagSpotlight:
+                  return (
+                    <ModelsHomeBlock
+                      key={homeBlock.id}
+                      homeBlockId={homeBlock.id}
+                      metadata={homeBlock.metadata}
+                      showAds={showAds}
+                    />
+                  );
               }
             })}
           </BrowsingModeOverrideProvider>
@@ -0,0 +1,158 @@
+import {
+  ActionIcon,
+  Badge,
+  Center,
+  Code,
+  Container,
+  Group,
+  Loader,
+  Pagination,
+  Popover,
+  Select,
+  Stack,
+  Table,
+  Text,
+  Title,
+  Tooltip,
+} from '@mantine/core';
+import { JobRunStatus } from '@prisma/client';
+import { IconInfoSquareRounded, IconPlayerPlay } from '@tabler/icons-react';
+import { useState } from 'react';
+import { formatDate } from '~/utils/date-helpers';
+import { showErrorNotification, showSuccessNotification } from '~/utils/notifications';
+import { trpc } from '~/utils/trpc';
+
+const statusColors: Record<JobRunStatus, string> = {
+  Running: 'blue',
+  Succeeded: 'green',
+  Failed: 'red',
+  Canceled: 'gray',
+};
+
+export default function JobRuns() {
+  const [page, setPage] = useState(1);
+  const [name, setName] = useState<string | undefined>();
+  const [status, setStatus] = useState<JobRunStatus | undefined>();
+
+  const { data: names = [] } = trpc.moderator.jobs.getNames.useQuery();
+  const { data, isLoading } = trpc.moderator.jobs.getRuns.useQuery(
+    { page, limit: 50, name, status },
+    { keepPreviousData: true }
+  );
+
+  const runJobMutation = trpc.moderator.jobs.run.useMutation({
+    onSuccess: (_, { name }) => {
+      showSuccessNotification({ message: `${name} has started` });
+    },
+    onError: (error) => {
+      showErrorNotification({ title: 'Failed to trigger job', error: new Error(error.message) });
+    },
+  });
+
+  return (
+    <Container size="xl">
+      <Stack>
+        <Title>Job Runs</Title>
+        <Group>
+          <Select
+            placeholder="All jobs"
+            data={names}
+            value={name ?? null}
+            onChange={(value) => {
+              setName(value ?? undefined);
+              setPage(1);
+            }}
+            searchable
+            clearable
+          />
+          <Select
+            placeholder="All statuses"
+            data={Object.values(JobRunStatus)}
+            value={status ?? null}
+            onChange={(value) => {
+              setStatus((value as JobRunStatus) ?? undefined);
+              setPage(1);
+            }}
+            clearable
+          />
+        </Group>
+        {isLoading ? (
+          <Center p="xl">
+            <Loader />
+          </Center>
+        ) : !data?.items.length ? (
+          <Text color="dimmed">No job runs found</Text>
+        ) : (
+          <>
+            <Table striped>
+              <thead>
+                <tr>
+                  <th>Job</th>
+                  <th>Status</th>
+                  <th>Attempt</th>
+                  <th>Pod</th>
+                  <th>Started</th>
+                  <th>Duration</th>
+                  <th>&nbsp;</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.items.map((run) => (
+                  <tr key={run.id}>
+                    <td>
+                      <Group spacing={4}>
+                        <Text>{run.name}</Text>
+                        {run.triggeredBy && (
+                          <Badge size="xs" color="yellow">
+                            Manual
+                          </Badge>
+                        )}
+                      </Group>
+                    </td>
+                    <td>
+                      <Badge color={statusColors[run.status]}>{run.status}</Badge>
+                    </td>
+                    <td>{run.attempt}</td>
+                    <td>{run.pod}</td>
+                    <td>{formatDate(run.startedAt, 'MMM D, YYYY h:mm:ss a')}</td>
+                    <td>{run.duration !== null ? `${(run.duration / 1000).toFixed(2)}s` : '-'}</td>
+                    <td>
+                      <Group spacing={4} position="right" noWrap>
+                        {(run.result || run.error) && (
+                          <Popover width={500} withinPortal position="left">
+                            <Popover.Target>
+                              <ActionIcon>
+                                <IconInfoSquareRounded size={18} />
+                              </ActionIcon>
+                            </Popover.Target>
+                            <Popover.Dropdown>
+                              <Code block>{JSON.stringify(run.error ?? run.result, null, 2)}</Code>
+                            </Popover.Dropdown>
+                          </Popover>
+                        )}
+                        <Tooltip label="Run again" withinPortal>
+                          <ActionIcon
+                            color="blue"
+                            onClick={() => runJobMutation.mutate({ name: run.name })}
+                            disabled={runJobMutation.isLoading}
+                          >
+                            <IconPlayerPlay size={18} />
+                          </ActionIcon>
+                        </Tooltip>
+                      </Group>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+            {data.totalPages > 1 && (
+              <Group position="center">
+                <Pagination page={page} total={data.totalPages} onChange={setPage} />
+              </Group>
+            )}
+          </>
+        )}
+      </Stack>
+    </Container>
+  );
+}
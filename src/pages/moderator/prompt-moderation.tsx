@@ -0,0 +1,376 @@
+import {
+  ActionIcon,
+  Badge,
+  Button,
+  Card,
+  Center,
+  Code,
+  Container,
+  Group,
+  Loader,
+  Pagination,
+  Select,
+  Stack,
+  Switch,
+  Table,
+  Text,
+  Textarea,
+  Title,
+  Tooltip,
+} from '@mantine/core';
+import { openConfirmModal } from '@mantine/modals';
+import { PromptModerationRuleType, PromptModerationStage } from '@prisma/client';
+import { IconCheck, IconPencil, IconTrash, IconX } from '@tabler/icons-react';
+import { useState } from 'react';
+import { z } from 'zod';
+import { Form, InputSelect, InputSwitch, InputText, useForm } from '~/libs/form';
+import { upsertPromptModerationRuleSchema } from '~/server/schema/prompt-moderation.schema';
+import { formatDate } from '~/utils/date-helpers';
+import { showErrorNotification, showSuccessNotification } from '~/utils/notifications';
+import { trpc } from '~/utils/trpc';
+
+type FormData = z.infer<typeof upsertPromptModerationRuleSchema>;
+const defaultValues: Partial<FormData> = {
+  type: PromptModerationRuleType.Block,
+  isRegex: false,
+  enabled: true,
+};
+
+const reviewedOptions = [
+  { value: 'false', label: 'Not reviewed' },
+  { value: 'true', label: 'Reviewed' },
+];
+
+export default function PromptModeration() {
+  const queryUtils = trpc.useUtils();
+  const [page, setPage] = useState(1);
+  const [stage, setStage] = useState<PromptModerationStage | undefined>();
+  const [reviewed, setReviewed] = useState<boolean | undefined>(false);
+  const [testPrompt, setTestPrompt] = useState('');
+
+  const { data: rules = [], isLoading: loadingRules } =
+    trpc.moderator.promptModeration.getRules.useQuery();
+  const { data: logs, isLoading: loadingLogs } = trpc.moderator.promptModeration.getLogs.useQuery(
+    { page, limit: 50, stage, reviewed },
+    { keepPreviousData: true }
+  );
+
+  const form = useForm({ schema: upsertPromptModerationRuleSchema, defaultValues });
+  const editingId = form.watch('id');
+  const type = form.watch('type');
+
+  const upsertMutation = trpc.moderator.promptModeration.upsertRule.useMutation({
+    onSuccess: async () => {
+      showSuccessNotification({ message: 'Rule saved' });
+      form.reset(defaultValues);
+      await queryUtils.moderator.promptModeration.getRules.invalidate();
+    },
+    onError: (error) => {
+      showErrorNotification({ title: 'Failed to save rule', error: new Error(error.message) });
+    },
+  });
+  const toggleMutation = trpc.moderator.promptModeration.upsertRule.useMutation({
+    onSuccess: async () => {
+      await queryUtils.moderator.promptModeration.getRules.invalidate();
+    },
+    onError: (error) => {
+      showErrorNotification({ title: 'Failed to update rule', error: new Error(error.message) });
+    },
+  });
+  const deleteMutation = trpc.moderator.promptModeration.deleteRule.useMutation({
+    onSuccess: async () => {
+      await queryUtils.moderator.promptModeration.getRules.invalidate();
+    },
+    onError: (error) => {
+      showErrorNotification({ title: 'Failed to delete rule', error: new Error(error.message) });
+    },
+  });
+  const testMutation = trpc.moderator.promptModeration.test.useMutation({
+    onError: (error) => {
+      showErrorNotification({ title: 'Failed to test prompt', error: new Error(error.message) });
+    },
+  });
+  const reviewMutation = trpc.moderator.promptModeration.review.useMutation({
+    onSuccess: async () => {
+      await queryUtils.moderator.promptModeration.getLogs.invalidate();
+    },
+    onError: (error) => {
+      showErrorNotification({ title: 'Failed to review prompt', error: new Error(error.message) });
+    },
+  });
+
+  const handleEdit = (rule: (typeof rules)[number]) => {
+    const { id, type, pattern, isRegex, replacement, category, note, enabled } = rule;
+    form.reset({ id, type, pattern, isRegex, replacement, category, note, enabled });
+  };
+
+  const handleDelete = (id: number) => {
+    openConfirmModal({
+      title: 'Delete rule',
+      children: 'Are you sure you want to delete this rule?',
+      labels: { confirm: 'Delete', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: () => deleteMutation.mutate({ id }),
+    });
+  };
+
+  const getRule = (id: number | null) => rules.find((rule) => rule.id === id);
+  const testResult = testMutation.data;
+
+  return (
+    <Container size="xl">
+      <Stack>
+        <Title>Prompt Moderation</Title>
+        <Text color="dimmed" size="sm">
+          Allow rules rewrite known false positives before the prompt is checked against the block
+          rules and then the external moderation service. Plain patterns match whole words or
+          phrases, regular expressions are case insensitive.
+        </Text>
+        <Card withBorder>
+          <Form form={form} onSubmit={(data) => upsertMutation.mutate(data)}>
+            <Stack>
+              <Group grow align="flex-start">
+                <InputSelect
+                  name="type"
+                  label="Type"
+                  data={Object.values(PromptModerationRuleType)}
+                />
+                <InputText name="pattern" label="Pattern" />
+                {type === PromptModerationRuleType.Allow ? (
+                  <InputText
+                    name="replacement"
+                    label="Replacement"
+                    description="Leave empty to remove matches"
+                  />
+                ) : (
+                  <InputText
+                    name="category"
+                    label="Category"
+                    description="Shown to the user when flagged"
+                  />
+                )}
+              </Group>
+              <InputText name="note" label="Note" />
+              <Group>
+                <InputSwitch name="isRegex" label="Regular expression" />
+                <InputSwitch name="enabled" label="Enabled" />
+              </Group>
+              <Group position="right">
+                {editingId && (
+                  <Button variant="default" onClick={() => form.reset(defaultValues)}>
+                    Cancel
+                  </Button>
+                )}
+                <Button type="submit" loading={upsertMutation.isLoading}>
+                  {editingId ? 'Update rule' : 'Create rule'}
+                </Button>
+              </Group>
+            </Stack>
+          </Form>
+        </Card>
+        {loadingRules ? (
+          <Center p="xl">
+            <Loader />
+          </Center>
+        ) : !rules.length ? (
+          <Text color="dimmed">No rules found</Text>
+        ) : (
+          <Table striped>
+            <thead>
+              <tr>
+                <th>Type</th>
+                <th>Pattern</th>
+                <th>Replacement / Category</th>
+                <th>Note</th>
+                <th>Enabled</th>
+                <th>&nbsp;</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => (
+                <tr key={rule.id}>
+                  <td>
+                    <Badge color={rule.type === PromptModerationRuleType.Block ? 'red' : 'green'}>
+                      {rule.type}
+                    </Badge>
+                  </td>
+                  <td>
+                    <Group spacing={4} noWrap>
+                      <Code>{rule.pattern}</Code>
+                      {rule.isRegex && <Badge color="gray">Regex</Badge>}
+                    </Group>
+                  </td>
+                  <td>
+                    {rule.type === PromptModerationRuleType.Allow
+                      ? rule.replacement ?? '(removed)'
+                      : rule.category}
+                  </td>
+                  <td>{rule.note}</td>
+                  <td>
+                    <Switch
+                      checked={rule.enabled}
+                      onChange={(e) =>
+                        toggleMutation.mutate({ ...rule, enabled: e.target.checked })
+                      }
+                    />
+                  </td>
+                  <td>
+                    <Group position="right" spacing={4} noWrap>
+                      <Tooltip label="Edit" withinPortal>
+                        <ActionIcon onClick={() => handleEdit(rule)}>
+                          <IconPencil size={18} />
+                        </ActionIcon>
+                      </Tooltip>
+                      <Tooltip label="Delete" withinPortal>
+                        <ActionIcon color="red" onClick={() => handleDelete(rule.id)}>
+                          <IconTrash size={18} />
+                        </ActionIcon>
+                      </Tooltip>
+                    </Group>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+        <Card withBorder>
+          <Stack spacing="xs">
+            <Textarea
+              label="Test a prompt"
+              description="Runs the prompt through the pipeline without recording it"
+              value={testPrompt}
+              onChange={(e) => setTestPrompt(e.target.value)}
+              autosize
+              minRows={2}
+            />
+            <Group position="right">
+              <Button
+                variant="light"
+                disabled={!testPrompt.trim()}
+                loading={testMutation.isLoading}
+                onClick={() => testMutation.mutate({ prompt: testPrompt })}
+              >
+                Test
+              </Button>
+            </Group>
+            {testResult && (
+              <Stack spacing={4}>
+                {testResult.flagged ? (
+                  <Text color="red">
+                    Flagged by {testResult.stage} for: {testResult.categories.join(', ')}
+                  </Text>
+                ) : (
+                  <Text color="green">Not flagged</Text>
+                )}
+                <Text size="sm" color="dimmed">
+                  Prepared prompt: <Code>{testResult.preparedPrompt}</Code>
+                </Text>
+              </Stack>
+            )}
+          </Stack>
+        </Card>
+        <Title order={2}>Flagged Prompts</Title>
+        <Group grow>
+          <Select
+            placeholder="All stages"
+            data={Object.values(PromptModerationStage)}
+            value={stage ?? null}
+            onChange={(value) => {
+              setStage((value as PromptModerationStage) ?? undefined);
+              setPage(1);
+            }}
+            clearable
+          />
+          <Select
+            placeholder="All prompts"
+            data={reviewedOptions}
+            value={reviewed === undefined ? null : String(reviewed)}
+            onChange={(value) => {
+              setReviewed(value ? value === 'true' : undefined);
+              setPage(1);
+            }}
+            clearable
+          />
+        </Group>
+        {loadingLogs ? (
+          <Center p="xl">
+            <Loader />
+          </Center>
+        ) : !logs?.items.length ? (
+          <Text color="dimmed">No flagged prompts found</Text>
+        ) : (
+          <>
+            <Table striped>
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>User</th>
+                  <th>Prompt</th>
+                  <th>Flagged by</th>
+                  <th>Review</th>
+                </tr>
+              </thead>
+              <tbody>
+                {logs.items.map((log) => (
+                  <tr key={log.id}>
+                    <td>{formatDate(log.createdAt)}</td>
+                    <td>{log.userId}</td>
+                    <td>
+                      <Text size="sm" lineClamp={4}>
+                        {log.prompt}
+                      </Text>
+                    </td>
+                    <td>
+                      <Stack spacing={4}>
+                        <Badge>{log.stage}</Badge>
+                        <Text size="xs">{log.categories.join(', ')}</Text>
+                        {log.ruleId && (
+                          <Code>{getRule(log.ruleId)?.pattern ?? `Rule ${log.ruleId}`}</Code>
+                        )}
+                      </Stack>
+                    </td>
+                    <td>
+                      {log.reviewedAt ? (
+                        <Badge color={log.falsePositive ? 'yellow' : 'red'}>
+                          {log.falsePositive ? 'False positive' : 'Confirmed'}
+                        </Badge>
+                      ) : (
+                        <Group spacing={4} noWrap>
+                          <Tooltip label="Confirm" withinPortal>
+                            <ActionIcon
+                              color="red"
+                              onClick={() =>
+                                reviewMutation.mutate({ id: log.id, falsePositive: false })
+                              }
+                            >
+                              <IconCheck size={18} />
+                            </ActionIcon>
+                          </Tooltip>
+                          <Tooltip label="False positive" withinPortal>
+                            <ActionIcon
+                              color="yellow"
+                              onClick={() =>
+                                reviewMutation.mutate({ id: log.id, falsePositive: true })
+                              }
+                            >
+                              <IconX size={18} />
+                            </ActionIcon>
+                          </Tooltip>
+                        </Group>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+            {logs.totalPages > 1 && (
+              <Group position="center">
+                <Pagination page={page} total={logs.totalPages} onChange={setPage} />
+              </Group>
+            )}
+          </>
+        )}
+      </Stack>
+    </Container>
+  );
+}
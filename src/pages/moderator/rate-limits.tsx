@@ -0,0 +1,204 @@
+import {
+  ActionIcon,
+  Badge,
+  Button,
+  Card,
+  Center,
+  Container,
+  Group,
+  Loader,
+  Pagination,
+  Select,
+  Stack,
+  Table,
+  Text,
+  Title,
+  Tooltip,
+} from '@mantine/core';
+import { openConfirmModal } from '@mantine/modals';
+import { RateLimitIdentityType } from '@prisma/client';
+import { IconCalendarDue, IconTrash } from '@tabler/icons-react';
+import dayjs from 'dayjs';
+import { useState } from 'react';
+import { z } from 'zod';
+import { Form, InputDatePicker, InputNumber, InputSelect, InputText, useForm } from '~/libs/form';
+import { upsertRateLimitOverrideSchema } from '~/server/schema/rate-limit.schema';
+import { formatDate } from '~/utils/date-helpers';
+import { showErrorNotification, showSuccessNotification } from '~/utils/notifications';
+import { trpc } from '~/utils/trpc';
+
+const identifierPlaceholders: Record<RateLimitIdentityType, string> = {
+  User: 'User id',
+  ApiKey: 'API key id',
+  Ip: 'IP address',
+};
+
+const formSchema = upsertRateLimitOverrideSchema.omit({ id: true }).extend({
+  limit: z.number().int().min(0).optional(),
+});
+
+export default function RateLimits() {
+  const queryUtils = trpc.useUtils();
+  const [page, setPage] = useState(1);
+  const [policy, setPolicy] = useState<string | undefined>();
+
+  const { data: policies = [] } = trpc.moderator.rateLimits.getPolicies.useQuery();
+  const { data, isLoading } = trpc.moderator.rateLimits.getOverrides.useQuery(
+    { page, limit: 50, policy },
+    { keepPreviousData: true }
+  );
+  const policyOptions = [
+    { value: '*', label: 'All policies' },
+    ...policies.map((x) => ({ value: x.name, label: x.name })),
+  ];
+
+  const form = useForm({
+    schema: formSchema,
+    defaultValues: { policy: '*', identityType: RateLimitIdentityType.User },
+  });
+  const identityType = form.watch('identityType');
+
+  const upsertMutation = trpc.moderator.rateLimits.upsertOverride.useMutation({
+    onSuccess: async () => {
+      showSuccessNotification({ message: 'Override saved' });
+      form.reset();
+      await queryUtils.moderator.rateLimits.getOverrides.invalidate();
+    },
+    onError: (error) => {
+      showErrorNotification({ title: 'Failed to save override', error: new Error(error.message) });
+    },
+  });
+  const deleteMutation = trpc.moderator.rateLimits.deleteOverride.useMutation({
+    onSuccess: async () => {
+      await queryUtils.moderator.rateLimits.getOverrides.invalidate();
+    },
+    onError: (error) => {
+      showErrorNotification({
+        title: 'Failed to delete override',
+        error: new Error(error.message),
+      });
+    },
+  });
+
+  const handleSubmit = (data: z.infer<typeof formSchema>) => {
+    upsertMutation.mutate({ ...data, limit: data.limit ?? null });
+  };
+
+  const handleDelete = (id: number) => {
+    openConfirmModal({
+      title: 'Delete override',
+      children: 'Are you sure you want to delete this override?',
+      labels: { confirm: 'Delete', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: () => deleteMutation.mutate({ id }),
+    });
+  };
+
+  return (
+    <Container size="xl">
+      <Stack>
+        <Title>Rate Limits</Title>
+        <Card withBorder>
+          <Form form={form} onSubmit={handleSubmit}>
+            <Stack>
+              <Group grow align="flex-start">
+                <InputSelect name="policy" label="Policy" data={policyOptions} />
+                <InputSelect
+                  name="identityType"
+                  label="Applies to"
+                  data={Object.values(RateLimitIdentityType)}
+                />
+                <InputText
+                  name="identifier"
+                  label="Identifier"
+                  placeholder={identifierPlaceholders[identityType]}
+                />
+                <InputNumber
+                  name="limit"
+                  label="Limit"
+                  description="Leave empty for unlimited"
+                  min={0}
+                />
+                <InputDatePicker
+                  name="expiresAt"
+                  label="Expires At"
+                  icon={<IconCalendarDue size={16} />}
+                  minDate={dayjs().add(1, 'day').toDate()}
+                  clearable
+                />
+              </Group>
+              <InputText name="reason" label="Reason" />
+              <Group position="right">
+                <Button type="submit" loading={upsertMutation.isLoading}>
+                  Save override
+                </Button>
+              </Group>
+            </Stack>
+          </Form>
+        </Card>
+        <Select
+          placeholder="All policies"
+          data={policyOptions}
+          value={policy ?? null}
+          onChange={(value) => {
+            setPolicy(value ?? undefined);
+            setPage(1);
+          }}
+          clearable
+        />
+        {isLoading ? (
+          <Center p="xl">
+            <Loader />
+          </Center>
+        ) : !data?.items.length ? (
+          <Text color="dimmed">No overrides found</Text>
+        ) : (
+          <>
+            <Table striped>
+              <thead>
+                <tr>
+                  <th>Policy</th>
+                  <th>Applies to</th>
+                  <th>Limit</th>
+                  <th>Reason</th>
+                  <th>Expires</th>
+                  <th>&nbsp;</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.items.map((override) => (
+                  <tr key={override.id}>
+                    <td>{override.policy === '*' ? 'All policies' : override.policy}</td>
+                    <td>
+                      <Group spacing={4}>
+                        <Badge>{override.identityType}</Badge>
+                        <Text>{override.identifier}</Text>
+                      </Group>
+                    </td>
+                    <td>{override.limit ?? 'Unlimited'}</td>
+                    <td>{override.reason}</td>
+                    <td>{override.expiresAt ? formatDate(override.expiresAt) : 'Never'}</td>
+                    <td>
+                      <Group position="right">
+                        <Tooltip label="Delete" withinPortal>
+                          <ActionIcon color="red" onClick={() => handleDelete(override.id)}>
+                            <IconTrash size={18} />
+                          </ActionIcon>
+                        </Tooltip>
+                      </Group>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+            {data.totalPages > 1 && (
+              <Group position="center">
+                <Pagination page={page} total={data.totalPages} onChange={setPage} />
+              </Group>
+            )}
+          </>
+        )}
+      </Stack>
+    </Container>
+  );
+}
@@ -0,0 +1,191 @@
+import {
+  ActionIcon,
+  Badge,
+  Button,
+  Card,
+  Center,
+  Container,
+  Group,
+  Loader,
+  Pagination,
+  Stack,
+  Table,
+  Text,
+  TextInput,
+  Title,
+  Tooltip,
+} from '@mantine/core';
+import { useDebouncedValue } from '@mantine/hooks';
+import { RedeemableCodeType } from '@prisma/client';
+import { IconCalendarDue, IconDownload } from '@tabler/icons-react';
+import dayjs from 'dayjs';
+import { useState } from 'react';
+import {
+  Form,
+  InputDatePicker,
+  InputNumber,
+  InputSelect,
+  InputSwitch,
+  InputText,
+  useForm,
+} from '~/libs/form';
+import { createRedeemableCodeBatchSchema } from '~/server/schema/redeemableCode.schema';
+import { formatDate } from '~/utils/date-helpers';
+import { showErrorNotification, showSuccessNotification } from '~/utils/notifications';
+import { numberWithCommas } from '~/utils/number-helpers';
+import { trpc } from '~/utils/trpc';
+
+const defaultValues = {
+  type: RedeemableCodeType.Buzz,
+  maxUsesPerCode: 1,
+  singleUsePerUser: true,
+};
+
+export default function RedeemableCodes() {
+  const queryUtils = trpc.useUtils();
+  const [page, setPage] = useState(1);
+  const [query, setQuery] = useState('');
+  const [debouncedQuery] = useDebouncedValue(query, 300);
+
+  const { data, isLoading } = trpc.redeemableCode.getBatches.useQuery(
+    { page, limit: 50, query: debouncedQuery || undefined },
+    { keepPreviousData: true }
+  );
+
+  const form = useForm({ schema: createRedeemableCodeBatchSchema, defaultValues });
+
+  const createMutation = trpc.redeemableCode.createBatch.useMutation({
+    onSuccess: async (batch) => {
+      showSuccessNotification({ message: `Created ${batch.codes.length} codes for ${batch.name}` });
+      form.reset(defaultValues);
+      await queryUtils.redeemableCode.getBatches.invalidate();
+    },
+    onError: (error) => {
+      showErrorNotification({ title: 'Failed to create codes', error: new Error(error.message) });
+    },
+  });
+
+  return (
+    <Container size="xl">
+      <Stack>
+        <Title>Redeemable Codes</Title>
+        <Card withBorder>
+          <Form form={form} onSubmit={(data) => createMutation.mutate(data)}>
+            <Stack>
+              <Group grow align="flex-start">
+                <InputText name="name" label="Campaign" placeholder="Summer promo" />
+                <InputSelect name="type" label="Type" data={Object.values(RedeemableCodeType)} />
+                <InputNumber name="unitValue" label="Value" min={1} />
+                <InputNumber name="quantity" label="Codes" min={1} max={10000} />
+              </Group>
+              <Group grow align="flex-start">
+                <InputNumber
+                  name="maxUsesPerCode"
+                  label="Max uses per code"
+                  description="Number of users that can redeem each code"
+                  min={1}
+                />
+                <InputDatePicker
+                  name="expiresAt"
+                  label="Expires At"
+                  icon={<IconCalendarDue size={16} />}
+                  minDate={dayjs().add(1, 'day').toDate()}
+                  clearable
+                />
+              </Group>
+              <InputSwitch
+                name="singleUsePerUser"
+                label="Users can only redeem one code from this campaign"
+              />
+              <Group position="right">
+                <Button type="submit" loading={createMutation.isLoading}>
+                  Generate codes
+                </Button>
+              </Group>
+            </Stack>
+          </Form>
+        </Card>
+        <TextInput
+          placeholder="Search campaigns"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setPage(1);
+          }}
+        />
+        {isLoading ? (
+          <Center p="xl">
+            <Loader />
+          </Center>
+        ) : !data?.items.length ? (
+          <Text color="dimmed">No batches found</Text>
+        ) : (
+          <>
+            <Table striped>
+              <thead>
+                <tr>
+                  <th>Campaign</th>
+                  <th>Value</th>
+                  <th>Codes redeemed</th>
+                  <th>Redemptions</th>
+                  <th>Users</th>
+                  <th>Value redeemed</th>
+                  <th>Expires</th>
+                  <th>&nbsp;</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.items.map((batch) => (
+                  <tr key={batch.id}>
+                    <td>
+                      <Stack spacing={0}>
+                        <Text>{batch.name}</Text>
+                        <Text size="xs" color="dimmed">
+                          Created {formatDate(batch.createdAt)}
+                        </Text>
+                      </Stack>
+                    </td>
+                    <td>
+                      <Group spacing={4} noWrap>
+                        <Badge>{batch.type}</Badge>
+                        <Text>{numberWithCommas(batch.unitValue)}</Text>
+                      </Group>
+                    </td>
+                    <td>
+                      {numberWithCommas(batch.codesRedeemed)} / {numberWithCommas(batch.quantity)}
+                    </td>
+                    <td>
+                      {numberWithCommas(batch.redemptions)} /{' '}
+                      {numberWithCommas(batch.quantity * batch.maxUsesPerCode)}
+                    </td>
+                    <td>{numberWithCommas(batch.users)}</td>
+                    <td>{numberWithCommas(batch.valueRedeemed)}</td>
+                    <td>{batch.expiresAt ? formatDate(batch.expiresAt) : 'Never'}</td>
+                    <td>
+                      <Group position="right">
+                        <Tooltip label="Export CSV" withinPortal>
+                          <ActionIcon
+                            component="a"
+                            href={`/api/mod/export-redeemable-codes?batchId=${batch.id}`}
+                            download
+                          >
+                            <IconDownload size={18} />
+                          </ActionIcon>
+                        </Tooltip>
+                      </Group>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+            {data.totalPages > 1 && (
+              <Group position="center">
+                <Pagination page={page} total={data.totalPages} onChange={setPage} />
+              </Group>
+            )}
+          </>
+        )}
+      </Stack>
+    </Container>
+  );
+}
@@ -0,0 +1,283 @@
+import {
+  ActionIcon,
+  Anchor,
+  Badge,
+  Button,
+  Card,
+  Center,
+  Code,
+  Container,
+  Group,
+  Loader,
+  Stack,
+  Switch,
+  Table,
+  Text,
+  Title,
+  Tooltip,
+} from '@mantine/core';
+import { openConfirmModal } from '@mantine/modals';
+import { TagSource } from '@prisma/client';
+import { IconPencil, IconTrash } from '@tabler/icons-react';
+import { z } from 'zod';
+import {
+  Form,
+  InputMultiSelect,
+  InputNumber,
+  InputSwitch,
+  InputText,
+  InputTextArea,
+  useForm,
+} from '~/libs/form';
+import { upsertComputedTagRuleSchema } from '~/server/schema/computed-tag-rule.schema';
+import { showErrorNotification, showSuccessNotification } from '~/utils/notifications';
+import { trpc } from '~/utils/trpc';
+
+type FormData = z.infer<typeof upsertComputedTagRuleSchema>;
+const defaultValues: Partial<FormData> = {
+  sources: [],
+  minConfidence: 0,
+  priority: 0,
+  temp: false,
+  enabled: false,
+};
+
+export default function TagRules() {
+  const queryUtils = trpc.useUtils();
+  const { data: rules = [], isLoading } = trpc.moderator.tagRules.getAll.useQuery();
+
+  const form = useForm({ schema: upsertComputedTagRuleSchema, defaultValues });
+  const editingId = form.watch('id');
+
+  const upsertMutation = trpc.moderator.tagRules.upsert.useMutation({
+    onSuccess: async () => {
+      showSuccessNotification({ message: 'Rule saved' });
+      form.reset(defaultValues);
+      previewMutation.reset();
+      await queryUtils.moderator.tagRules.getAll.invalidate();
+    },
+    onError: (error) => {
+      showErrorNotification({ title: 'Failed to save rule', error: new Error(error.message) });
+    },
+  });
+  const toggleMutation = trpc.moderator.tagRules.upsert.useMutation({
+    onSuccess: async () => {
+      await queryUtils.moderator.tagRules.getAll.invalidate();
+    },
+    onError: (error) => {
+      showErrorNotification({ title: 'Failed to update rule', error: new Error(error.message) });
+    },
+  });
+  const deleteMutation = trpc.moderator.tagRules.delete.useMutation({
+    onSuccess: async () => {
+      await queryUtils.moderator.tagRules.getAll.invalidate();
+    },
+    onError: (error) => {
+      showErrorNotification({ title: 'Failed to delete rule', error: new Error(error.message) });
+    },
+  });
+  const previewMutation = trpc.moderator.tagRules.preview.useMutation({
+    onError: (error) => {
+      showErrorNotification({ title: 'Failed to preview rule', error: new Error(error.message) });
+    },
+  });
+
+  const handlePreview = async () => {
+    const valid = await form.trigger();
+    if (!valid) return;
+
+    const { enabled, ...rule } = form.getValues();
+    previewMutation.mutate(rule);
+  };
+
+  const handleEdit = (rule: (typeof rules)[number]) => {
+    const { id, tag, expression, sources, minConfidence, priority, temp, enabled } = rule;
+    form.reset({ id, tag, expression, sources, minConfidence, priority, temp, enabled });
+    previewMutation.reset();
+  };
+
+  const handleDelete = (id: number) => {
+    openConfirmModal({
+      title: 'Delete rule',
+      children: 'Are you sure you want to delete this rule?',
+      labels: { confirm: 'Delete', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: () => deleteMutation.mutate({ id }),
+    });
+  };
+
+  const preview = previewMutation.data;
+
+  return (
+    <Container size="xl">
+      <Stack>
+        <Title>Computed Tag Rules</Title>
+        <Text color="dimmed" size="sm">
+          Expressions combine tag names with <Code>AND</Code>, <Code>OR</Code>, <Code>NOT</Code> and
+          parentheses, eg. <Code>nudity AND (male OR NOT female)</Code>. Rules are applied in
+          ascending priority, so a rule can use tags computed by the rules before it.
+        </Text>
+        <Card withBorder>
+          <Form form={form} onSubmit={(data) => upsertMutation.mutate(data)}>
+            <Stack>
+              <Group grow align="flex-start">
+                <InputText name="tag" label="Tag" placeholder="partial nudity" />
+                <InputMultiSelect
+                  name="sources"
+                  label="Sources"
+                  placeholder="All sources"
+                  data={Object.values(TagSource)}
+                />
+                <InputNumber
+                  name="minConfidence"
+                  label="Min confidence"
+                  description="Tags below this are ignored"
+                  min={0}
+                  max={100}
+                />
+                <InputNumber name="priority" label="Priority" />
+              </Group>
+              <InputTextArea name="expression" label="Expression" autosize minRows={2} />
+              <Group>
+                <InputSwitch name="temp" label="Temporary (only used by other rules)" />
+                <InputSwitch name="enabled" label="Enabled" />
+              </Group>
+              <Group position="right">
+                {editingId && (
+                  <Button
+                    variant="default"
+                    onClick={() => {
+                      form.reset(defaultValues);
+                      previewMutation.reset();
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                )}
+                <Button variant="light" onClick={handlePreview} loading={previewMutation.isLoading}>
+                  Preview
+                </Button>
+                <Button type="submit" loading={upsertMutation.isLoading}>
+                  {editingId ? 'Update rule' : 'Create rule'}
+                </Button>
+              </Group>
+            </Stack>
+          </Form>
+        </Card>
+        {preview && (
+          <Card withBorder>
+            <Stack spacing="xs">
+              <Text weight={500}>
+                Sampled {preview.sampled} recent images: {preview.gained} would gain and{' '}
+                {preview.lost} would lose the tag
+              </Text>
+              {!preview.images.length ? (
+                <Text color="dimmed">No changes to computed tags</Text>
+              ) : (
+                <Table striped>
+                  <thead>
+                    <tr>
+                      <th>Image</th>
+                      <th>Added</th>
+                      <th>Removed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.images.map(({ imageId, added, removed }) => (
+                      <tr key={imageId}>
+                        <td>
+                          <Anchor href={`/images/${imageId}`} target="_blank">
+                            {imageId}
+                          </Anchor>
+                        </td>
+                        <td>
+                          <Group spacing={4}>
+                            {added.map((tag) => (
+                              <Badge key={tag} color="green">
+                                {tag}
+                              </Badge>
+                            ))}
+                          </Group>
+                        </td>
+                        <td>
+                          <Group spacing={4}>
+                            {removed.map((tag) => (
+                              <Badge key={tag} color="red">
+                                {tag}
+                              </Badge>
+                            ))}
+                          </Group>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              )}
+            </Stack>
+          </Card>
+        )}
+        {isLoading ? (
+          <Center p="xl">
+            <Loader />
+          </Center>
+        ) : !rules.length ? (
+          <Text color="dimmed">No rules found</Text>
+        ) : (
+          <Table striped>
+            <thead>
+              <tr>
+                <th>Priority</th>
+                <th>Tag</th>
+                <th>Expression</th>
+                <th>Sources</th>
+                <th>Min confidence</th>
+                <th>Enabled</th>
+                <th>&nbsp;</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => (
+                <tr key={rule.id}>
+                  <td>{rule.priority}</td>
+                  <td>
+                    <Group spacing={4} noWrap>
+                      <Text>{rule.tag}</Text>
+                      {rule.temp && <Badge color="gray">Temp</Badge>}
+                    </Group>
+                  </td>
+                  <td>
+                    <Code>{rule.expression}</Code>
+                  </td>
+                  <td>{rule.sources.length ? rule.sources.join(', ') : 'All'}</td>
+                  <td>{rule.minConfidence}</td>
+                  <td>
+                    <Switch
+                      checked={rule.enabled}
+                      onChange={(e) =>
+                        toggleMutation.mutate({ ...rule, enabled: e.target.checked })
+                      }
+                    />
+                  </td>
+                  <td>
+                    <Group position="right" spacing={4} noWrap>
+                      <Tooltip label="Edit" withinPortal>
+                        <ActionIcon onClick={() => handleEdit(rule)}>
+                          <IconPencil size={18} />
+                        </ActionIcon>
+                      </Tooltip>
+                      <Tooltip label="Delete" withinPortal>
+                        <ActionIcon color="red" onClick={() => handleDelete(rule.id)}>
+                          <IconTrash size={18} />
+                        </ActionIcon>
+                      </Tooltip>
+                    </Group>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+      </Stack>
+    </Container>
+  );
+}
@@ -355,6 +355,15 @@ export const constants = {
   entityCollaborators: {
     maxCollaborators: 15,
   },
+  webhooks: {
+    deliveryTimeout: 10 * 1000,
+    maxDeliveryAttempts: 5,
+    // doubled after every failed attempt
+    retryBaseDelay: 60 * 1000,
+    autoDisableFailureCount: 25,
+    deliveryRetentionDays: 14,
+    retryBatchSize: 1000,
+  },
   earlyAccess: {
     buzzChargedPerDay: 100,
     timeframeValues: [3, 5, 7, 9, 12, 15],
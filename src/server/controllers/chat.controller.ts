@@ -1,4 +1,4 @@
-import { ChatMemberStatus, ChatMessageType, Prisma } from '@prisma/client';
+import { ChatMemberRole, ChatMemberStatus, ChatMessageType, Prisma } from '@prisma/client';
 import { TRPCError } from '@trpc/server';
 import dayjs from 'dayjs';
 import { find as findLinks } from 'linkifyjs';
@@ -11,23 +11,44 @@ import { dbRead, dbWrite } from '~/server/db/client';
 import { logToAxiom } from '~/server/logging/client';
 import {
   AddUsersInput,
+  ChatInviteIdInput,
   CreateChatInput,
+  CreateChatInviteInput,
   CreateMessageInput,
+  DeleteMessageInput,
+  GetChatInvitesInput,
   GetInfiniteMessagesInput,
   GetMessageByIdInput,
   IsTypingInput,
   isTypingOutput,
   ModifyUserInput,
+  MuteMemberInput,
+  SearchMessagesInput,
+  SetMemberRoleInput,
+  ToggleReactionInput,
   UpdateMessageInput,
   UserSettingsChat,
 } from '~/server/schema/chat.schema';
-import { latestChat, singleChatSelect } from '~/server/selectors/chat.selector';
+import { chatMessageSelect, latestChat, singleChatSelect } from '~/server/selectors/chat.selector';
 import { profileImageSelect } from '~/server/selectors/image.selector';
 import {
+  addChatMembers,
+  createChatInvite,
   createMessage,
-  maxChats,
-  maxChatsPerDay,
-  maxUsersPerChat,
+  deleteMessage,
+  getChatInvite,
+  getChatInvites,
+  getChatMemberLimit,
+  getChatUserTier,
+  getManagedChatMember,
+  isMutedInChat,
+  joinChatByInvite,
+  muteChatMember,
+  revokeChatInvite,
+  searchMessages,
+  setChatMemberRole,
+  signalChatMemberUpdate,
+  toggleMessageReaction,
   upsertChat,
 } from '~/server/services/chat.service';
 import { getUserSettings, setUserSetting } from '~/server/services/user.service';
@@ -37,7 +58,6 @@ import {
   throwDbError,
   throwNotFoundError,
 } from '~/server/utils/errorHandling';
-import { ChatAllMessages, ChatCreateChat } from '~/types/router';
 
 /**
  * Get user chat settings
@@ -128,6 +148,7 @@ export const getUnreadMessagesForUserHandler = async ({
         and memb.status = 'Joined'
         and memb."isMuted" is false
         and msg."userId" != ${userId}
+        and msg."deletedAt" is null
       group by memb."chatId"
     `;
 
@@ -165,24 +186,15 @@ export const createChatHandler = async ({
     if (dedupedUserIds.length < 2) {
       throw throwBadRequestError('Must choose at least 1 user');
     }
-    if (dedupedUserIds.length > maxUsersPerChat) {
-      throw throwBadRequestError(`Must choose fewer than ${maxUsersPerChat} users`);
-    }
     if (!dedupedUserIds.includes(userId)) {
       throw throwBadRequestError('Creator must be in the chat');
     }
 
-    const modInfo = await dbRead.user.findFirst({
-      where: { id: userId },
-      select: {
-        isModerator: true,
-        subscriptionId: true,
-      },
-    });
-
-    // TODO add check for CustomerSubscription = active/trialing
-    const isModerator = modInfo?.isModerator === true;
-    const isSupporter = !!modInfo?.subscriptionId;
+    const { isModerator, isSupporter } = await getChatUserTier(userId);
+    const memberLimit = await getChatMemberLimit({ isSupporter });
+    if (dedupedUserIds.length > memberLimit) {
+      throw throwBadRequestError(`Must choose fewer than ${memberLimit} users`);
+    }
 
     const chat = await upsertChat({
       userId,
@@ -210,78 +222,147 @@ export const addUsersHandler = async ({
 }) => {
   try {
     const { id: userId } = ctx.user;
+    return await addChatMembers({ ...input, userId });
+  } catch (error) {
+    if (error instanceof TRPCError) throw error;
+    else throw throwDbError(error);
+  }
+};
 
-    const existing = await dbWrite.chat.findFirst({
-      where: { id: input.chatId },
-      select: {
-        ownerId: true,
-        chatMembers: {
-          select: {
-            userId: true,
-          },
-        },
-      },
-    });
-
-    if (!existing) {
-      throw throwBadRequestError(`Could not find chat with id: (${input.chatId})`);
-    }
-
-    if (existing.ownerId !== userId) {
-      throw throwBadRequestError(`Cannot add users to a chat you are not the owner of`);
-    }
-
-    const dedupedUserIds = uniq(input.userIds);
-    const existingChatMemberIds = existing.chatMembers.map((cm) => cm.userId);
-    const usersToAdd = dedupedUserIds.filter((uid) => !existingChatMemberIds.includes(uid));
+/**
+ * Get the member limit for chats created by the user
+ */
+export const getChatLimitsHandler = async ({ ctx }: { ctx: DeepNonNullable<Context> }) => {
+  try {
+    const { isSupporter } = await getChatUserTier(ctx.user.id);
+    const maxMembers = await getChatMemberLimit({ isSupporter });
+    return { maxMembers };
+  } catch (error) {
+    if (error instanceof TRPCError) throw error;
+    else throw throwDbError(error);
+  }
+};
 
-    const mergedUsers = [...existingChatMemberIds, ...usersToAdd];
-    if (mergedUsers.length >= maxUsersPerChat) {
-      throw throwBadRequestError(`Must choose fewer than ${maxUsersPerChat - 1} users`);
-    }
+/**
+ * Promote or demote a chat member
+ */
+export const setMemberRoleHandler = async ({
+  input,
+  ctx,
+}: {
+  input: SetMemberRoleInput;
+  ctx: DeepNonNullable<Context>;
+}) => {
+  try {
+    return await setChatMemberRole({ ...input, userId: ctx.user.id });
+  } catch (error) {
+    if (error instanceof TRPCError) throw error;
+    else throw throwDbError(error);
+  }
+};
 
-    const usersExist = await dbRead.user.count({
-      where: { id: { in: usersToAdd } },
-    });
+/**
+ * Mute or unmute a chat member
+ */
+export const muteMemberHandler = async ({
+  input,
+  ctx,
+}: {
+  input: MuteMemberInput;
+  ctx: DeepNonNullable<Context>;
+}) => {
+  try {
+    return await muteChatMember({ ...input, userId: ctx.user.id });
+  } catch (error) {
+    if (error instanceof TRPCError) throw error;
+    else throw throwDbError(error);
+  }
+};
 
-    if (usersExist !== usersToAdd.length) {
-      // could probably tell them which users here
-      throw throwBadRequestError(
-        `Some requested users do not exist (${usersExist}/${usersToAdd.length})`
-      );
-    }
+/**
+ * Get active invite links for a chat
+ */
+export const getChatInvitesHandler = async ({
+  input,
+  ctx,
+}: {
+  input: GetChatInvitesInput;
+  ctx: DeepNonNullable<Context>;
+}) => {
+  try {
+    return await getChatInvites({ ...input, userId: ctx.user.id });
+  } catch (error) {
+    if (error instanceof TRPCError) throw error;
+    else throw throwDbError(error);
+  }
+};
 
-    mergedUsers.sort((a, b) => a - b);
-    const hash = mergedUsers.join('-');
+/**
+ * Create an invite link
+ */
+export const createChatInviteHandler = async ({
+  input,
+  ctx,
+}: {
+  input: CreateChatInviteInput;
+  ctx: DeepNonNullable<Context>;
+}) => {
+  try {
+    return await createChatInvite({ ...input, userId: ctx.user.id });
+  } catch (error) {
+    if (error instanceof TRPCError) throw error;
+    else throw throwDbError(error);
+  }
+};
 
-    const insertedChat = await dbWrite.$transaction(async (tx) => {
-      await tx.chatMember.createMany({
-        data: usersToAdd.map((uta) => ({
-          userId: uta,
-          chatId: input.chatId,
-          status: ChatMemberStatus.Invited,
-        })),
-      });
-      return tx.chat.update({
-        where: { id: input.chatId },
-        data: { hash },
-        select: {
-          ...singleChatSelect,
-          ...latestChat,
-        },
-      });
-    });
+/**
+ * Revoke an invite link
+ */
+export const revokeChatInviteHandler = async ({
+  input,
+  ctx,
+}: {
+  input: ChatInviteIdInput;
+  ctx: DeepNonNullable<Context>;
+}) => {
+  try {
+    return await revokeChatInvite({ ...input, userId: ctx.user.id });
+  } catch (error) {
+    if (error instanceof TRPCError) throw error;
+    else throw throwDbError(error);
+  }
+};
 
-    for (const cmId of usersToAdd) {
-      fetch(`${env.SIGNALS_ENDPOINT}/users/${cmId}/signals/${SignalMessages.ChatNewRoom}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(insertedChat as ChatCreateChat),
-      }).catch();
-    }
+/**
+ * Get invite link details
+ */
+export const getChatInviteHandler = async ({
+  input,
+  ctx,
+}: {
+  input: ChatInviteIdInput;
+  ctx: DeepNonNullable<Context>;
+}) => {
+  try {
+    return await getChatInvite({ ...input, userId: ctx.user.id });
+  } catch (error) {
+    if (error instanceof TRPCError) throw error;
+    else throw throwDbError(error);
+  }
+};
 
-    // TODO return data?
-    return;
+/**
+ * Join a chat with an invite link
+ */
+export const joinChatByInviteHandler = async ({
+  input,
+  ctx,
+}: {
+  input: ChatInviteIdInput;
+  ctx: DeepNonNullable<Context>;
+}) => {
+  try {
+    return await joinChatByInvite({ ...input, userId: ctx.user.id });
   } catch (error) {
     if (error instanceof TRPCError) throw error;
     else throw throwDbError(error);
@@ -349,10 +430,8 @@ export const modifyUserHandler = async ({
     }
 
     if (status === ChatMemberStatus.Kicked) {
-      // I guess owners can kick themselves out :/
-      if (existing.chat.ownerId !== userId) {
-        throw throwBadRequestError(`Cannot modify users for a chat you are not the owner of`);
-      }
+      // throws unless an admin is kicking a regular member, or the owner is kicking an admin
+      await getManagedChatMember({ chatMemberId, userId });
     } else {
       if (userId !== existing.userId) {
         throw throwBadRequestError(`Cannot modify chat status for another user`);
@@ -375,6 +454,7 @@ export const modifyUserHandler = async ({
       ignoredAt: status === ChatMemberStatus.Ignored ? new Date() : undefined,
       leftAt: status === ChatMemberStatus.Left ? new Date() : undefined,
       kickedAt: status === ChatMemberStatus.Kicked ? new Date() : undefined,
+      role: status === ChatMemberStatus.Kicked ? ChatMemberRole.Member : undefined,
     };
 
     const resp = await dbWrite.chatMember.update({
@@ -403,6 +483,7 @@ export const modifyUserHandler = async ({
           }`,
           userId: -1,
         });
+        await signalChatMemberUpdate({ chatId: existing.chat.id, chatMemberId });
       }
     }
 
@@ -489,6 +570,7 @@ export const getInfiniteMessagesHandler = async ({
       take: input.limit + 1,
       cursor: input.cursor ? { id: input.cursor } : undefined,
       orderBy: [{ id: input.direction }],
+      select: chatMessageSelect,
     });
 
     let nextCursor: number | undefined;
@@ -530,6 +612,7 @@ export const getMessageByIdHandler = async ({
       select: {
         content: true,
         contentType: true,
+        deletedAt: true,
         user: {
           select: {
             id: true,
@@ -565,6 +648,7 @@ export const getMessageByIdHandler = async ({
     return {
       content: msg.content,
       contentType: msg.contentType,
+      deletedAt: msg.deletedAt,
       user: msg.user,
     };
   } catch (error) {
@@ -592,6 +676,63 @@ export const createMessageHandler = async ({
   }
 };
 
+/**
+ * Delete a message
+ */
+export const deleteMessageHandler = async ({
+  input,
+  ctx,
+}: {
+  input: DeleteMessageInput;
+  ctx: DeepNonNullable<Context>;
+}) => {
+  try {
+    const { id: userId, isModerator } = ctx.user;
+    return await deleteMessage({ ...input, userId, isModerator });
+  } catch (error) {
+    if (error instanceof TRPCError) throw error;
+    else throw throwDbError(error);
+  }
+};
+
+/**
+ * Toggle a reaction on a message
+ */
+export const toggleReactionHandler = async ({
+  input,
+  ctx,
+}: {
+  input: ToggleReactionInput;
+  ctx: DeepNonNullable<Context>;
+}) => {
+  try {
+    const { id: userId, muted } = ctx.user;
+    return await toggleMessageReaction({ ...input, userId, muted });
+  } catch (error) {
+    if (error instanceof TRPCError) throw error;
+    else throw throwDbError(error);
+  }
+};
+
+/**
+ * Search messages across the user's chats
+ */
+export const searchMessagesHandler = async ({
+  input,
+  ctx,
+}: {
+  input: SearchMessagesInput;
+  ctx: DeepNonNullable<Context>;
+}) => {
+  try {
+    const { id: userId } = ctx.user;
+    return await searchMessages({ ...input, userId });
+  } catch (error) {
+    if (error instanceof TRPCError) throw error;
+    else throw throwDbError(error);
+  }
+};
+
 /**
  * Update a message
  */
@@ -610,10 +751,11 @@ export const updateMessageHandler = async ({
       where: { id: messageId },
       select: {
         userId: true,
+        deletedAt: true,
       },
     });
 
-    if (!existingMessage || existingMessage.userId !== userId) {
+    if (!existingMessage || existingMessage.userId !== userId || existingMessage.deletedAt) {
       throw throwBadRequestError(`Could not find message with id: (${messageId})`);
     }
 
@@ -651,6 +793,7 @@ export const isTypingHandler = async ({
           select: {
             userId: true,
             isOwner: true,
+            mutedUntil: true,
             user: {
               select: {
                 username: true,
@@ -664,7 +807,7 @@ export const isTypingHandler = async ({
 
     if (!existing) return;
     const existingUser = existing.chatMembers.find((cm) => cm.userId === userId);
-    if (!existingUser) return;
+    if (!existingUser || isMutedInChat(existingUser)) return;
 
     if (muted) {
       const owner = existing.chatMembers.find((cm) => cm.isOwner === true);
@@ -25,6 +25,7 @@ import {
   GetSystemHomeBlocksInputSchema,
   HomeBlockMetaSchema,
   SetHomeBlocksOrderInputSchema,
+  UpsertCustomHomeBlockInput,
 } from '~/server/schema/home-block.schema';
 import { CollectionType, HomeBlockType } from '@prisma/client';
 import { GetByIdInput, UserPreferencesInput } from '~/server/schema/base.schema';
@@ -99,7 +100,8 @@ export const getHomeBlocksByIdHandler = async ({
       ...input,
       user: ctx.user,
     });
-    if (homeBlock?.type === 'Announcement') ctx.cache.skip = true;
+    if (homeBlock?.type === 'Announcement' || homeBlock?.type === 'FollowedCreators')
+      ctx.cache.skip = true;
 
     if (!homeBlock) {
       throw throwNotFoundError('Home block not found');
@@ -153,6 +155,47 @@ export const createCollectionHomeBlockHandler = async ({
   });
 };
 
+export const upsertCustomHomeBlockHandler = async ({
+  ctx,
+  input,
+}: {
+  ctx: DeepNonNullable<Context>;
+  input: UpsertCustomHomeBlockInput;
+}) => {
+  const { id, type, title, description } = input;
+  const metadata: HomeBlockMetaSchema = { title, description };
+
+  switch (input.type) {
+    case HomeBlockType.ModelQuery:
+      metadata.modelQuery = input.modelQuery;
+      metadata.link = '/models';
+      break;
+    case HomeBlockType.FollowedCreators:
+      metadata.followedCreators = input.followedCreators;
+      break;
+    case HomeBlockType.TagSpotlight:
+      metadata.tagSpotlight = input.tagSpotlight;
+      metadata.link = `/tag/${encodeURIComponent(input.tagSpotlight.tag)}`;
+      metadata.linkText = 'View tag';
+      break;
+  }
+
+  try {
+    await upsertHomeBlock({
+      input: {
+        id,
+        type,
+        metadata,
+        userId: ctx.user.id,
+        isModerator: ctx.user.isModerator,
+      },
+    });
+  } catch (error) {
+    if (error instanceof TRPCError) throw error;
+    else throw throwDbError(error);
+  }
+};
+
 export const deleteUserHomeBlockHandler = async ({
   input,
   ctx,
@@ -163,7 +206,7 @@ export const deleteUserHomeBlockHandler = async ({
   const { id: userId, isModerator } = ctx.user;
 
   try {
-    const homeBlock = await getHomeBlockById({ ...input });
+    const homeBlock = await getHomeBlockById({ ...input, user: ctx.user });
     if (!homeBlock) throw throwNotFoundError(`No home block with id ${input.id}`);
 
     if (!isModerator && homeBlock.userId !== userId) throw throwAuthorizationError();
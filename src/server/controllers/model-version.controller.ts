@@ -1,4 +1,4 @@
-import { ModelStatus } from '@prisma/client';
+import { EntityType, ModelStatus } from '@prisma/client';
 import { TRPCError } from '@trpc/server';
 import { BaseModel, baseModelLicenses, BaseModelType, constants } from '~/server/common/constants';
 import { Context } from '~/server/createContext';
@@ -22,6 +22,7 @@ import { DeclineReviewSchema, UnpublishModelSchema } from '~/server/schema/model
 import { ModelFileModel } from '~/server/selectors/modelFile.selector';
 import { userWithCosmeticsSelect } from '~/server/selectors/user.selector';
 import { getStaticContent } from '~/server/services/content.service';
+import { hasEntityCollaboratorPermission } from '~/server/services/entity-collaborator.service';
 import {
   addAdditionalLicensePermissions,
   deleteVersionById,
@@ -203,6 +204,35 @@ export const upsertModelVersionHandler = async ({
       input.trainingDetails = undefined;
     }
 
+    if (!ctx.user.isModerator) {
+      const current = input.id
+        ? await getVersionById({ id: input.id, select: { modelId: true, status: true } })
+        : undefined;
+      if (input.id && !current) throw throwNotFoundError(`No model version with id ${input.id}`);
+      // Keep the version on the model the permission check ran against
+      if (current) input.modelId = current.modelId;
+
+      const model = await getModel({ id: input.modelId, select: { userId: true } });
+      const canPublish =
+        model?.userId === userId ||
+        (await hasEntityCollaboratorPermission({
+          entityType: EntityType.Model,
+          entityId: input.modelId,
+          userId,
+          permission: 'publish',
+        }));
+
+      // Editors can update the version details, but publishing and the settings of a live version
+      // are left to users with the publish permission
+      if (!canPublish) {
+        delete input.status;
+        if (current && current.status !== ModelStatus.Draft) {
+          delete input.earlyAccessConfig;
+          delete input.requireAuth;
+        }
+      }
+    }
+
     if (!!input.earlyAccessConfig?.timeframe) {
       const maxDays = getMaxEarlyAccessDays({ userMeta: ctx.user.meta });
 
@@ -1,12 +1,15 @@
 import { Context } from '~/server/createContext';
 import {
   GetUserNotificationsSchema,
+  SetNotificationFrequencyInput,
   ToggleNotificationSettingInput,
 } from '~/server/schema/notification.schema';
 import {
   createUserNotificationSetting,
   deleteUserNotificationSetting,
+  getUserNotificationFrequencies,
   getUserNotifications,
+  setUserNotificationFrequency,
 } from '~/server/services/notification.service';
 import { throwDbError } from '~/server/utils/errorHandling';
 import { DEFAULT_PAGE_SIZE } from '~/server/utils/pagination-helpers';
@@ -62,3 +65,29 @@ export const upsertUserNotificationSettingsHandler = async ({
     throw throwDbError(error);
   }
 };
+
+export const getUserNotificationFrequenciesHandler = async ({
+  ctx,
+}: {
+  ctx: DeepNonNullable<Context>;
+}) => {
+  try {
+    return await getUserNotificationFrequencies({ userId: ctx.user.id });
+  } catch (error) {
+    throw throwDbError(error);
+  }
+};
+
+export const setUserNotificationFrequencyHandler = async ({
+  input,
+  ctx,
+}: {
+  input: SetNotificationFrequencyInput;
+  ctx: DeepNonNullable<Context>;
+}) => {
+  try {
+    return await setUserNotificationFrequency({ ...input, userId: ctx.user.id });
+  } catch (error) {
+    throw throwDbError(error);
+  }
+};
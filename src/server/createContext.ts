@@ -6,6 +6,7 @@ import requestIp from 'request-ip';
 import { isProd } from '~/env/other';
 import { parseBrowsingMode } from '~/server/utils/server-side-helpers';
 import { publicBrowsingLevelsFlag } from '~/shared/constants/browsingLevel.constants';
+import type { SessionApiKey } from '~/server/utils/api-key-helpers';
 
 type CacheSettings = {
   browserTTL?: number;
@@ -16,6 +17,9 @@ type CacheSettings = {
   skip: boolean;
 };
 
+// Nested so that the api key stays optional for handlers typed with DeepNonNullable<Context>
+type AuthSettings = { apiKey?: SessionApiKey };
+
 const origins = [env.NEXTAUTH_URL, ...(env.TRPC_ORIGINS ?? [])];
 export const createContext = async ({
   req,
@@ -41,6 +45,7 @@ export const createContext = async ({
 
   return {
     user: session?.user,
+    auth: { apiKey: session?.apiKey } as AuthSettings,
     browsingLevel,
     showNsfw,
     acceptableOrigin,
@@ -54,6 +59,7 @@ export const createContext = async ({
 
 export const publicApiContext = (req: NextApiRequest, res: NextApiResponse) => ({
   user: undefined,
+  auth: {} as AuthSettings,
   acceptableOrigin: true,
   browsingLevel: publicBrowsingLevelsFlag,
   showNsfw: false,
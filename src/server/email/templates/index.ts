@@ -5,4 +5,5 @@ export { bountyExpiredEmail } from './bounties/bountyExpired.email';
 export { bountyExpiredReminderEmail } from './bounties/bountyExpiredReminder.email';
 export { bountyAutomaticallyAwardedEmail } from './bounties/bountyAutomaticallyAwarded.email';
 export { bountyRefundedEmail } from './bounties/bountyRefunded.email';
+export { notificationDigestEmail } from './notificationDigest.email';
 export type { Email } from './base.email';
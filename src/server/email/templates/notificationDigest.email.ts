@@ -0,0 +1,111 @@
+import { NotificationFrequency } from '@prisma/client';
+import { createEmail } from '~/server/email/templates/base.email';
+import { simpleEmailWithTemplate } from '~/server/email/templates/util';
+import { getBaseUrl } from '~/server/utils/url-helpers';
+
+type NotificationDigestData = {
+  user: {
+    email: string | null;
+    username: string | null;
+  };
+  frequency: NotificationFrequency;
+  sections: {
+    label: string;
+    total: number;
+    notifications: { message: string; url?: string }[];
+  }[];
+};
+
+const notificationsUrl = () => getBaseUrl() + '/user/notifications';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const getItemUrl = (url?: string) => {
+  if (!url) return notificationsUrl();
+  return url.startsWith('http') ? url : getBaseUrl() + url;
+};
+
+const getPeriodLabel = (frequency: NotificationFrequency) =>
+  frequency === NotificationFrequency.Weekly ? 'this week' : 'today';
+
+export const notificationDigestEmail = createEmail({
+  header: ({ user, frequency, sections }: NotificationDigestData) => {
+    const total = sections.reduce((acc, section) => acc + section.total, 0);
+    return {
+      subject: `You have ${total} new notification${total === 1 ? '' : 's'} ${getPeriodLabel(
+        frequency
+      )}`,
+      to: user.email,
+    };
+  },
+  html({ user, frequency, sections }: NotificationDigestData) {
+    const body = sections
+      .map(({ label, total, notifications }) => {
+        const items = notifications
+          .map(
+            ({ message, url }) =>
+              `<li style="margin-bottom: 6px;"><a href="${escapeHtml(
+                getItemUrl(url)
+              )}" target="_blank" style="color: inherit;">${escapeHtml(message)}</a></li>`
+          )
+          .join('');
+        const remaining = total - notifications.length;
+
+        return `
+          <p style="margin-bottom: 4px;"><strong>${label}</strong></p>
+          <ul style="margin-top: 0; padding-left: 20px;">${items}</ul>
+          ${remaining > 0 ? `<p>...and ${remaining} more</p>` : ''}
+        `;
+      })
+      .join('');
+
+    return simpleEmailWithTemplate({
+      header: `Hey ${escapeHtml(user.username ?? 'there')}, here's what you missed ${getPeriodLabel(
+        frequency
+      )}`,
+      body: `
+        ${body}
+        <p style="font-size: 12px; color: #888;">
+          You can change how often you receive these emails in your account settings.
+        </p>
+      `,
+      btnLabel: 'View all notifications',
+      btnUrl: notificationsUrl(),
+    });
+  },
+
+  /** Email Text body (fallback for email clients that don't render HTML, e.g. feature phones) */
+  text({ frequency, sections }: NotificationDigestData) {
+    const lines = sections.flatMap(({ label, notifications }) => [
+      `${label}:`,
+      ...notifications.map(({ message, url }) => `- ${message} ${getItemUrl(url)}`),
+      '',
+    ]);
+    return `Here's what you missed ${getPeriodLabel(frequency)}:\n\n${lines.join(
+      '\n'
+    )}\n${notificationsUrl()}\n\n`;
+  },
+  testData: async () => ({
+    user: {
+      email: 'test@tester.com',
+      username: 'tester',
+    },
+    frequency: NotificationFrequency.Daily,
+    sections: [
+      {
+        label: 'Comments',
+        total: 3,
+        notifications: [
+          { message: 'someone commented on your model', url: '/models/1' },
+          { message: 'someone replied to your comment', url: '/models/1' },
+        ],
+      },
+    ],
+  }),
+});
@@ -0,0 +1,42 @@
+import { ImportStatus } from '@prisma/client';
+import { createImporter } from '~/server/importers/importer';
+import {
+  filenameToName,
+  getRemoteFileSizeKB,
+  upsertImportedModel,
+} from '~/server/importers/importer-utils';
+
+// Find match for URL like: https://example.com/path/to/model.safetensors
+const directUrlRegex = /^https?:\/\/[^?#]+\/([^\/?#]+\.safetensors)(?:[?#].*)?$/;
+export const directUrlImporter = createImporter(
+  (source) => {
+    return directUrlRegex.test(source);
+  },
+  async ({ id, source, userId }) => {
+    userId ??= -1;
+    const [, filename] = directUrlRegex.exec(source) ?? [];
+    const name = decodeURIComponent(filename);
+
+    let sizeKB: number;
+    try {
+      sizeKB = await getRemoteFileSizeKB(source);
+    } catch (error) {
+      throw new Error(`Could not reach ${source}`);
+    }
+
+    const { hostname } = new URL(source);
+    const modelId = await upsertImportedModel({
+      importId: id,
+      source,
+      userId,
+      name: filenameToName(name),
+      description: `<p>Originally posted to <a href="${source}">${hostname}</a></p>`,
+      versions: [{ name: 'v1.0', files: [{ name, url: source, sizeKB }] }],
+    });
+
+    return {
+      status: ImportStatus.Completed,
+      data: { modelId },
+    };
+  }
+);
@@ -0,0 +1,91 @@
+import { ImportStatus } from '@prisma/client';
+import { env } from '~/env/server.mjs';
+import { createImporter } from '~/server/importers/importer';
+import {
+  filenameToName,
+  ImportedModelVersion,
+  isModelFile,
+  upsertImportedModel,
+} from '~/server/importers/importer-utils';
+import { markdownToHtml } from '~/utils/markdown-helpers';
+import { bytesToKB } from '~/utils/number-helpers';
+
+// Find match for URL like:
+// https://github.com/owner/repo/releases
+// https://github.com/owner/repo/releases/latest
+// https://github.com/owner/repo/releases/tag/v1.0
+const githubReleaseRegex =
+  /^https:\/\/github\.com\/([\w\-\.]+)\/([\w\-\.]+)\/releases(?:\/latest|\/tag\/([^\/?#]+))?\/?$/;
+export const githubReleaseImporter = createImporter(
+  (source) => {
+    return githubReleaseRegex.test(source);
+  },
+  async ({ id, source, data, userId }) => {
+    userId ??= -1;
+    const [, owner, repo, tag] = githubReleaseRegex.exec(source) ?? [];
+
+    let release: GitHubRelease | undefined = data;
+    if (!release) {
+      try {
+        release = await getGitHubRelease(owner, repo, tag);
+      } catch (error) {
+        throw new Error(`Could not find release ${tag ?? 'latest'} for ${owner}/${repo}`);
+      }
+    }
+
+    const assets = release.assets.filter((asset) => isModelFile(asset.name));
+    if (assets.length === 0) throw new Error(`No model files found in release ${release.tag_name}`);
+
+    const releaseName = release.name || release.tag_name;
+    const versions: ImportedModelVersion[] = assets.map((asset) => ({
+      name: assets.length > 1 ? `${releaseName} ${filenameToName(asset.name)}` : releaseName,
+      files: [{ name: asset.name, url: asset.browser_download_url, sizeKB: bytesToKB(asset.size) }],
+    }));
+
+    let description = `<p>Originally released on <a href="${release.html_url}">GitHub by ${owner}</a></p>`;
+    if (release.body) description += await markdownToHtml(release.body);
+
+    const modelId = await upsertImportedModel({
+      importId: id,
+      source,
+      sourcePrefix: `https://github.com/${owner}/${repo}/releases`,
+      userId,
+      name: repo,
+      description,
+      versions,
+    });
+
+    return {
+      status: ImportStatus.Completed,
+      data: { modelId },
+    };
+  }
+);
+
+async function getGitHubRelease(owner: string, repo: string, tag?: string) {
+  const endpoint = tag ? `tags/${encodeURIComponent(tag)}` : 'latest';
+  const headers: HeadersInit = { Accept: 'application/vnd.github+json' };
+  if (env.GITHUB_IMPORT_TOKEN) headers['Authorization'] = `Bearer ${env.GITHUB_IMPORT_TOKEN}`;
+
+  const response = await fetch(
+    `https://api.github.com/repos/${owner}/${repo}/releases/${endpoint}`,
+    {
+      headers,
+    }
+  );
+  if (!response.ok) throw new Error(`GitHub responded with ${response.status}`);
+
+  return (await response.json()) as GitHubRelease;
+}
+
+type GitHubRelease = {
+  tag_name: string;
+  name: string | null;
+  body: string | null;
+  html_url: string;
+  assets: {
+    name: string;
+    size: number;
+    browser_download_url: string;
+  }[];
+};
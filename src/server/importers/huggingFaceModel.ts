@@ -1,6 +1,7 @@
 import { ImportStatus, ModelType, Prisma } from '@prisma/client';
 
 import { createImporter } from '~/server/importers/importer';
+import { filenameToName, fileToModelType, isModelFile } from '~/server/importers/importer-utils';
 import { dbWrite } from '~/server/db/client';
 import { uploadViaUrl } from '~/utils/cf-images-utils';
 import { markdownToHtml } from '~/utils/markdown-helpers';
@@ -182,33 +183,13 @@ async function getHuggingFaceModel(author: string, modelName: string) {
 
 function filenameToVersionName(filename: string, hfModelId: string) {
   const modelName = hfModelId.split('/')[1];
-  const versionName = filename
-    .replace(modelName, '')
-    .replace(modelFileRegex, '')
-    .replace(/[-_]/g, ' ')
-    .trim();
-  return versionName;
+  return filenameToName(filename.replace(modelName, ''));
 }
 
 function isImage(filename: string) {
   return /\.(png|gif|jpg|jpeg)$/.test(filename);
 }
 
-const modelFileRegex = /\.(ckpt|pt|bin|safetensors)$/;
-function isModelFile(filename: string) {
-  if (filename.endsWith('pytorch_model.bin')) return false;
-  return modelFileRegex.test(filename);
-}
-
-function fileToModelType(filename: string, sizeKB: number) {
-  if (/\.(pt|bin)$/.test(filename)) {
-    if (sizeKB > 10 * 1000) return ModelType.Hypernetwork;
-    if (sizeKB < 1000) return ModelType.TextualInversion;
-    // TODO ModelType Importing: determine some way of determining if something is a Aesthetic Gradient or TI
-  }
-  return ModelType.Checkpoint;
-}
-
 type HuggingFaceModel = {
   id: string;
   author: string;
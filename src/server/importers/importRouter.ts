@@ -1,20 +1,29 @@
-import { hfModelImporter } from '~/server/importers/huggingFaceModel';
 import { dbWrite } from '~/server/db/client';
 import { ImportStatus, Prisma } from '@prisma/client';
-import { hfAuthorImporter } from '~/server/importers/huggingFaceAuthor';
-import { ImportDependency, ImportRunInput } from '~/server/importers/importer';
+import { getImporter, ImportDependency, ImportRunInput } from '~/server/importers/importer';
 import { chunk } from 'lodash-es';
+import { getImportProgress, updateImportProgress } from '~/server/services/import.service';
 
-const importers = [hfModelImporter, hfAuthorImporter];
+// Importers register themselves when created, the direct url importer is a catch-all so it goes last
+import '~/server/importers/huggingFaceModel';
+import '~/server/importers/huggingFaceAuthor';
+import '~/server/importers/githubRelease';
+import '~/server/importers/directUrl';
 
 export async function processImport(input: ImportRunInput) {
   const { id, source } = input;
-  const importer = importers.find((i) => i.canHandle(source));
+  const importer = getImporter(source);
 
   const updateStatus = async (status: ImportStatus, data: any = null) => { // eslint-disable-line
+    const finished = status === ImportStatus.Completed || status === ImportStatus.Failed;
     await dbWrite.import.update({
       where: { id },
-      data: { status, data: data ?? Prisma.JsonNull },
+      data: {
+        status,
+        data: data ?? Prisma.JsonNull,
+        startedAt: status === ImportStatus.Processing ? new Date() : undefined,
+        finishedAt: finished ? new Date() : undefined,
+      },
     });
     return { id, status, data };
   };
@@ -26,7 +35,10 @@ export async function processImport(input: ImportRunInput) {
   await updateStatus(ImportStatus.Processing);
   try {
     const { status, data, dependencies } = await importer.run(input);
-    if (dependencies) await processDependencies(input, dependencies);
+    if (dependencies) {
+      const progress = await processDependencies(input, dependencies);
+      return await updateStatus(status, { ...data, progress });
+    }
     return await updateStatus(status, data);
   } catch (error: any) { // eslint-disable-line
     console.error(error);
@@ -38,8 +50,14 @@ async function processDependencies(
   { userId, id: parentId }: ImportRunInput,
   deps: ImportDependency[]
 ) {
-  // Add the import jobs
-  for (const batch of chunk(deps, 900)) {
+  // Add the import jobs that weren't added by a previous run of this import
+  const existingChildren = await dbWrite.import.findMany({
+    where: { parentId },
+    select: { source: true },
+  });
+  const existingSources = new Set(existingChildren.map((x) => x.source));
+  const newDeps = deps.filter(({ source }) => !existingSources.has(source));
+  for (const batch of chunk(newDeps, 900)) {
     await dbWrite.import.createMany({
       data: batch.map(({ source, data }) => ({
         source,
@@ -50,15 +68,22 @@ async function processDependencies(
     });
   }
 
+  // Completed children are skipped so that interrupted imports can be resumed
   const childJobs = await dbWrite.import.findMany({
     where: {
       parentId,
+      status: { not: ImportStatus.Completed },
     },
   });
 
+  await updateImportProgress(parentId);
   for (const batch of chunk(childJobs, 10)) {
-    try {
-      await Promise.all(batch.map((job) => processImport(job)));
-    } catch (e) {} // We handle this inside the processImport...
+    const results = await Promise.allSettled(batch.map((job) => processImport(job)));
+    for (const result of results) {
+      if (result.status === 'rejected') console.error(result.reason);
+    }
+    await updateImportProgress(parentId);
   }
+
+  return await getImportProgress(parentId, { useWrite: true });
 }
@@ -0,0 +1,145 @@
+import { ModelType, Prisma } from '@prisma/client';
+import { dbWrite } from '~/server/db/client';
+import { ModelFileMetadata } from '~/server/schema/model-file.schema';
+import { getModelFileFormat } from '~/utils/file-helpers';
+import { bytesToKB } from '~/utils/number-helpers';
+
+export type ImportedModelFile = {
+  name: string;
+  url: string;
+  sizeKB: number;
+};
+
+export type ImportedModelVersion = {
+  name: string;
+  description?: string;
+  files: ImportedModelFile[];
+};
+
+const modelFileRegex = /\.(ckpt|pt|bin|safetensors)$/;
+export function isModelFile(filename: string) {
+  if (filename.endsWith('pytorch_model.bin')) return false;
+  return modelFileRegex.test(filename);
+}
+
+export function filenameToName(filename: string) {
+  return filename.replace(modelFileRegex, '').replace(/[-_]/g, ' ').trim();
+}
+
+export function fileToModelType(filename: string, sizeKB: number) {
+  if (/\.(pt|bin)$/.test(filename)) {
+    if (sizeKB > 10 * 1000) return ModelType.Hypernetwork;
+    if (sizeKB < 1000) return ModelType.TextualInversion;
+    // TODO ModelType Importing: determine some way of determining if something is a Aesthetic Gradient or TI
+  }
+  return ModelType.Checkpoint;
+}
+
+export async function getRemoteFileSizeKB(url: string) {
+  const response = await fetch(url, { method: 'HEAD' });
+  if (!response.ok) throw new Error(`Received status code ${response.status}`);
+  return bytesToKB(parseInt(response.headers.get('Content-Length') ?? '0'));
+}
+
+/**
+ * Creates a draft model with its versions and files from an import. When a model was already
+ * imported from the same source, only versions with files that haven't been imported are added.
+ */
+export async function upsertImportedModel({
+  importId,
+  source,
+  sourcePrefix,
+  userId,
+  name,
+  description,
+  baseModel = 'SD 1.5',
+  versions,
+}: {
+  importId: number;
+  source: string;
+  /** match previous imports by prefix, for sources that can point at different releases */
+  sourcePrefix?: string;
+  userId: number;
+  name: string;
+  description?: string;
+  baseModel?: string;
+  versions: ImportedModelVersion[];
+}) {
+  const model = await dbWrite.model.findFirst({
+    where: {
+      userId,
+      fromImport: { source: sourcePrefix ? { startsWith: sourcePrefix } : source },
+    },
+    select: {
+      id: true,
+      modelVersions: { select: { files: { select: { url: true, metadata: true } } } },
+    },
+  });
+
+  // Files are matched by where they were downloaded from, since different releases can reuse file names
+  const importedFiles = new Set(
+    model?.modelVersions.flatMap((version) =>
+      version.files.map(
+        (file) => (file.metadata as ModelFileMetadata | null)?.sourceUrl ?? file.url
+      )
+    ) ?? []
+  );
+  const versionsToCreate = versions
+    .map((version) => ({
+      ...version,
+      files: version.files.filter((file) => !importedFiles.has(file.url)),
+    }))
+    .filter((version) => version.files.length > 0);
+
+  // If there aren't versions, there's nothing for us to do...
+  if (versionsToCreate.length === 0) return model?.id;
+
+  const [primaryFile] = versionsToCreate[0].files;
+  const type = fileToModelType(primaryFile.name, primaryFile.sizeKB);
+
+  return await dbWrite.$transaction(
+    async (tx) => {
+      let modelId = model?.id;
+      if (!modelId) {
+        ({ id: modelId } = await tx.model.create({
+          data: {
+            name,
+            description,
+            fromImportId: importId,
+            type,
+            userId,
+            lastVersionAt: new Date(),
+          },
+          select: { id: true },
+        }));
+      }
+
+      for (const version of versionsToCreate) {
+        await tx.modelVersion.create({
+          data: {
+            modelId,
+            name: version.name,
+            description: version.description,
+            fromImportId: importId,
+            baseModel,
+            files: {
+              create: version.files.map(({ name, url, sizeKB }) => ({
+                name,
+                url,
+                sizeKB,
+                type: 'Model',
+                metadata: { format: getModelFileFormat(name), sourceUrl: url } as Prisma.JsonObject,
+              })),
+            },
+          },
+        });
+      }
+
+      return modelId;
+    },
+    {
+      maxWait: 10000,
+      timeout: 30000,
+    }
+  );
+}
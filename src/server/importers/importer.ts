@@ -23,9 +23,22 @@ type ImportResult = {
   dependencies?: ImportDependency[];
 };
 
+const registry: Importer[] = [];
+
+/**
+ * Creates an importer and registers it. Importers are matched against a source in the order
+ * they were created, so catch-all importers should be created last.
+ */
 export function createImporter(canHandle: Importer['canHandle'], run: Importer['run']): Importer {
-  return {
+  const importer = {
     canHandle,
     run,
   };
+  registry.push(importer);
+
+  return importer;
+}
+
+export function getImporter(source: string) {
+  return registry.find((importer) => importer.canHandle(source));
 }
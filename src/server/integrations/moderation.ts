@@ -1,24 +1,13 @@
 import { env } from '~/env/server.mjs';
 
-const falsePositiveTriggers = Object.entries({
-  '\\d*girl': 'woman',
-  '\\d*boy': 'man',
-  '\\d*girls': 'women',
-  '\\d*boys': 'men',
-  'school uniform': 'uniform',
-}).map(([k, v]) => ({ regex: new RegExp(`\\b${k}\\b`, 'gi'), replacement: v }));
-function removeFalsePositiveTriggers(prompt: string) {
-  for (const trigger of falsePositiveTriggers) {
-    prompt = prompt.replace(trigger.regex, trigger.replacement);
-  }
-  return prompt;
+function isConfigured() {
+  return !!env.EXTERNAL_MODERATION_TOKEN && !!env.EXTERNAL_MODERATION_ENDPOINT;
 }
 
-async function moderatePrompt(prompt: string): Promise<{ flagged: false; categories: string[] }> {
+async function moderatePrompt(prompt: string): Promise<{ flagged: boolean; categories: string[] }> {
   if (!env.EXTERNAL_MODERATION_TOKEN || !env.EXTERNAL_MODERATION_ENDPOINT)
     return { flagged: false, categories: [] };
 
-  const preparedPrompt = removeFalsePositiveTriggers(prompt);
   const res = await fetch(env.EXTERNAL_MODERATION_ENDPOINT, {
     method: 'POST',
     headers: {
@@ -26,7 +15,7 @@ async function moderatePrompt(prompt: string): Promise<{ flagged: false; categor
       Authorization: `Bearer ${env.EXTERNAL_MODERATION_TOKEN}`,
     },
     body: JSON.stringify({
-      input: preparedPrompt,
+      input: prompt,
     }),
   });
   if (!res.ok) {
@@ -58,5 +47,6 @@ async function moderatePrompt(prompt: string): Promise<{ flagged: false; categor
 }
 
 export const extModeration = {
+  isConfigured,
   moderatePrompt,
 };
@@ -5,18 +5,9 @@ import { mergeQueue } from '~/server/redis/queues';
 import { limitConcurrency } from '~/server/utils/concurrency-helpers';
 
 export const cacheCleanup = createJob('cache-cleanup', '0 */1 * * *', async () => {
-  // Clean rate limit keys
-  const limitKeys = await redis.sMembers('trpc:limit:keys');
-  const limitCutoff = Date.now() - CacheTTL.day * 1000;
-  for (const limitKey of limitKeys) {
-    const keys = await redis.hGetAll(limitKey);
-    const toRemove = new Set<string>();
-    for (const [key, attempts] of Object.entries(keys)) {
-      const relevantAttempts = JSON.parse(attempts).filter((x: number) => x > limitCutoff);
-      if (relevantAttempts.length === 0) toRemove.add(key);
-    }
-    if (toRemove.size > 0) await redis.hDel(limitKey, [...toRemove]);
-  }
+  // Remove the hashes left behind by the old trpc rate limiter
+  const legacyLimitKeys = await redis.sMembers('trpc:limit:keys');
+  if (legacyLimitKeys.length) await redis.del([...legacyLimitKeys, 'trpc:limit:keys']);
 
   // Clean invalid token ids
   const invalidTokenIds = await redis.hGetAll('session:invalid-tokens');
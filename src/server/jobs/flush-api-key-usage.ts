@@ -0,0 +1,7 @@
+import { createJob } from './job';
+import { flushApiKeyUsage } from '~/server/services/api-key.service';
+
+export const flushApiKeyUsageJob = createJob('flush-api-key-usage', '*/5 * * * *', async () => {
+  const keys = await flushApiKeyUsage();
+  return { keys };
+});
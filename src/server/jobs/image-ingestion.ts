@@ -1,4 +1,4 @@
-import { ImageIngestionStatus } from '@prisma/client';
+import { ImageIngestionStatus, Prisma } from '@prisma/client';
 import { chunk } from 'lodash-es';
 import { isProd } from '~/env/other';
 import { env } from '~/env/server.mjs';
@@ -12,31 +12,129 @@ import { decreaseDate } from '~/utils/date-helpers';
 
 const IMAGE_SCANNING_ERROR_DELAY = 60 * 1; // 1 hour
 const IMAGE_SCANNING_RETRY_LIMIT = 3;
+// Images sent for scanning count against the in-flight limit until they're this old
+const IMAGE_SCANNING_IN_FLIGHT_WINDOW = 60 * 1; // 1 hour
 const rescanInterval = `${env.IMAGE_SCANNING_RETRY_DELAY} minutes`;
 const errorInterval = `${IMAGE_SCANNING_ERROR_DELAY} minutes`;
+const inFlightInterval = `${Math.max(
+  IMAGE_SCANNING_IN_FLIGHT_WINDOW,
+  env.IMAGE_SCANNING_RETRY_DELAY
+)} minutes`;
 
-export const ingestImages = createJob('ingest-images', '0 * * * *', async () => {
-  const images = await dbWrite.$queryRaw<IngestImageInput[]>`
-    SELECT id, url, type, width, height
-    FROM "Image"
-    WHERE (
-        ingestion = ${ImageIngestionStatus.Pending}::"ImageIngestionStatus"
-        AND ("scanRequestedAt" IS NULL OR "scanRequestedAt" <= now() - ${rescanInterval}::interval)
-      ) OR (
-        ingestion = ${ImageIngestionStatus.Error}::"ImageIngestionStatus"
-        AND "scanRequestedAt" <= now() - ${errorInterval}::interval
-        AND ("scanJobs"->>'retryCount')::int < ${IMAGE_SCANNING_RETRY_LIMIT}
-      )
+// Pending images are sent for scanning lane by lane, in this order
+const ingestionLanes = [
+  {
+    name: 'contest',
+    where: Prisma.sql`EXISTS (
+      SELECT 1 FROM "CollectionItem" ci
+      JOIN "Collection" c ON c.id = ci."collectionId"
+      WHERE ci."imageId" = i.id AND c.mode = 'Contest'
+    )`,
+    lowPriority: false,
+  },
+  {
+    name: 'generator',
+    where: Prisma.sql`i.meta IS NOT NULL AND i.meta ? 'civitaiResources'`,
+    lowPriority: false,
+  },
+  {
+    name: 'upload',
+    where: Prisma.sql`i.ingestion = ${ImageIngestionStatus.Pending}::"ImageIngestionStatus" AND i."createdAt" > now() - interval '1 day'`,
+    lowPriority: false,
+  },
+  // Retries and older images, eg. from backfills
+  { name: 'backfill', where: Prisma.sql`TRUE`, lowPriority: true },
+] as const;
+export type ImageIngestionLane = (typeof ingestionLanes)[number]['name'];
+
+const laneSql = Prisma.sql`CASE ${Prisma.join(
+  ingestionLanes.map((lane) => Prisma.sql`WHEN ${lane.where} THEN ${lane.name}`),
+  ' '
+)} END`;
+const lanePrioritySql = Prisma.sql`CASE ${Prisma.join(
+  ingestionLanes.map((lane, priority) => Prisma.sql`WHEN ${lane.where} THEN ${priority}`),
+  ' '
+)} END`;
+
+const waitingForScanSql = Prisma.sql`(
+  i.ingestion = ${ImageIngestionStatus.Pending}::"ImageIngestionStatus"
+  AND (i."scanRequestedAt" IS NULL OR i."scanRequestedAt" <= now() - ${rescanInterval}::interval)
+) OR (
+  i.ingestion = ${ImageIngestionStatus.Error}::"ImageIngestionStatus"
+  AND i."scanRequestedAt" <= now() - ${errorInterval}::interval
+  AND (i."scanJobs"->>'retryCount')::int < ${IMAGE_SCANNING_RETRY_LIMIT}
+)`;
+
+// Images that were sent for scanning and haven't been scanned yet. This uses a longer window than
+// the rescan interval, otherwise images that are due for a rescan would free up room for themselves
+async function getInFlightCount() {
+  const [{ count }] = await dbWrite.$queryRaw<{ count: number }[]>`
+    SELECT COUNT(*)::int "count"
+    FROM "Image" i
+    WHERE i.ingestion = ${ImageIngestionStatus.Pending}::"ImageIngestionStatus"
+      AND i."scanRequestedAt" > now() - ${inFlightInterval}::interval
   `;
+  return count;
+}
 
-  if (!isProd) {
-    console.log(images.length);
-    return;
+export const ingestImages = createJob('ingest-images', '*/5 * * * *', async (jobContext) => {
+  // Leave the remaining images for the next run once the scanner is backed up
+  const inFlight = await getInFlightCount();
+  const available = env.IMAGE_SCANNING_MAX_IN_FLIGHT - inFlight;
+  if (available <= 0) return { inFlight, sent: {} };
+
+  const images = await dbWrite.$queryRaw<(IngestImageInput & { lane: ImageIngestionLane })[]>`
+    SELECT i.id, i.url, i.type, i.width, i.height, ${laneSql} "lane"
+    FROM "Image" i
+    WHERE ${waitingForScanSql}
+    ORDER BY ${lanePrioritySql}, i.id
+    LIMIT ${available}
+  `;
+
+  const sent: Partial<Record<ImageIngestionLane, number>> = {};
+  for (const lane of ingestionLanes) {
+    const laneImages = images.filter((x) => x.lane === lane.name);
+    if (!laneImages.length) continue;
+    sent[lane.name] = laneImages.length;
+
+    if (!isProd) continue;
+    jobContext.checkIfCanceled();
+    await sendImagesForScanBulk(laneImages, lane.lowPriority);
   }
 
-  await sendImagesForScanBulk(images);
+  if (!isProd) console.log(sent);
+  return { inFlight, sent };
 });
 
+/** Queue depth and the age of the oldest image per lane */
+export async function getImageIngestionQueueStats() {
+  const [inFlight, laneStats] = await Promise.all([
+    getInFlightCount(),
+    dbRead.$queryRaw<{ lane: ImageIngestionLane; count: number; oldest: Date }[]>`
+      SELECT "lane", COUNT(*)::int "count", MIN("createdAt") "oldest"
+      FROM (
+        SELECT ${laneSql} "lane", i."createdAt"
+        FROM "Image" i
+        WHERE ${waitingForScanSql}
+      ) q
+      GROUP BY "lane"
+    `,
+  ]);
+
+  const now = Date.now();
+  const lanes = ingestionLanes.map(({ name }) => {
+    const stats = laneStats.find((x) => x.lane === name);
+    return {
+      lane: name,
+      count: stats?.count ?? 0,
+      oldest: stats?.oldest ?? null,
+      ageMinutes: stats ? Math.floor((now - stats.oldest.getTime()) / 60000) : 0,
+    };
+  });
+
+  return { inFlight, maxInFlight: env.IMAGE_SCANNING_MAX_IN_FLIGHT, lanes };
+}
+
 async function sendImagesForScanSingle(images: IngestImageInput[]) {
   const failedSends: number[] = [];
   const tasks = images.map((image, i) => async () => {
@@ -58,7 +156,7 @@ async function sendImagesForScanSingle(images: IngestImageInput[]) {
   console.log('Failed sends:', failedSends.length);
 }
 
-async function sendImagesForScanBulk(images: IngestImageInput[]) {
+async function sendImagesForScanBulk(images: IngestImageInput[], lowPriority = true) {
   const failedSends: number[] = [];
   const tasks = chunk(images, 250).map((batch, i) => async () => {
     console.log('Ingesting batch', i + 1, 'of', tasks.length);
@@ -67,7 +165,7 @@ async function sendImagesForScanBulk(images: IngestImageInput[]) {
     let retryCount = 0,
       success = false;
     while (retryCount < 3) {
-      success = await ingestImageBulk({ images: batch });
+      success = await ingestImageBulk({ images: batch, lowPriority });
       if (success) break;
       console.log('Retrying batch', i + 1, 'retry', retryCount + 1);
       retryCount++;
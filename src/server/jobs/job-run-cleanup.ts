@@ -0,0 +1,10 @@
+import { createJob } from './job';
+import { deleteOldJobRuns } from '~/server/services/job-run.service';
+import { decreaseDate } from '~/utils/date-helpers';
+
+const JOB_RUN_RETENTION_DAYS = 30;
+
+export const jobRunCleanup = createJob('job-run-cleanup', '0 3 * * *', async () => {
+  const deleted = await deleteOldJobRuns(decreaseDate(new Date(), JOB_RUN_RETENTION_DAYS, 'days'));
+  return { deleted };
+});
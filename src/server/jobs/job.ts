@@ -17,6 +17,10 @@ export type JobOptions = {
   queue?: string;
   /** restrict job to only run on a single pod */
   dedicated?: boolean;
+  /** number of times a failed run is retried before giving up */
+  retries: number;
+  /** delay in ms before the first retry, doubled on every subsequent attempt */
+  retryDelay: number;
 };
 
 export type JobStatus = 'running' | 'canceled' | 'finished';
@@ -83,6 +87,8 @@ export function createJob(
     options: {
       shouldWait: false,
       lockExpiration: 5 * 60,
+      retries: 0,
+      retryDelay: 30 * 1000,
       ...options,
     },
   } as Job;
@@ -106,5 +112,9 @@ export async function getJobDate(key: string, defaultValue?: Date) {
   return [date, set] as const;
 }
 
+export function getRetryDelay({ retryDelay }: JobOptions, attempt: number) {
+  return retryDelay * 2 ** (attempt - 1);
+}
+
 // Set on Feb. 31st which will never come.
 export const UNRUNNABLE_JOB_CRON = '0 0 5 31 2 ?';
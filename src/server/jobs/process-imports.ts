@@ -7,10 +7,19 @@ import { processImport } from '~/server/importers/importRouter';
 
 export const processImportsJob = createJob('process-imports', '1 */1 * * *', async () => {
   // Get pending import jobs that are older than 30 minutes
+  // and processing import jobs that haven't made progress in 30 minutes (ie. the pod restarted).
+  // Child imports are handled by their parent.
+  const cutoff = dayjs().add(-30, 'minutes').toDate();
   const importJobs = await dbWrite.import.findMany({
     where: {
-      status: ImportStatus.Pending,
-      createdAt: { lt: dayjs().add(-30, 'minutes').toDate() },
+      parentId: null,
+      OR: [
+        { status: ImportStatus.Pending, createdAt: { lt: cutoff } },
+        {
+          status: ImportStatus.Processing,
+          OR: [{ updatedAt: { lt: cutoff } }, { updatedAt: null, startedAt: { lt: cutoff } }],
+        },
+      ],
     },
   });
 
@@ -20,4 +29,6 @@ export const processImportsJob = createJob('process-imports', '1 */1 * * *', asy
       await Promise.all(batch.map((job) => processImport(job)));
     } catch (e) {} // We handle this inside the processImport...
   }
+
+  return { imports: importJobs.length };
 });
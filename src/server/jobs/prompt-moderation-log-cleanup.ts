@@ -0,0 +1,16 @@
+import { createJob } from './job';
+import { deleteOldPromptModerationLogs } from '~/server/services/prompt-moderation.service';
+import { decreaseDate } from '~/utils/date-helpers';
+
+const PROMPT_MODERATION_LOG_RETENTION_DAYS = 90;
+
+export const promptModerationLogCleanup = createJob(
+  'prompt-moderation-log-cleanup',
+  '30 3 * * *',
+  async () => {
+    const deleted = await deleteOldPromptModerationLogs(
+      decreaseDate(new Date(), PROMPT_MODERATION_LOG_RETENTION_DAYS, 'days')
+    );
+    return { deleted };
+  }
+);
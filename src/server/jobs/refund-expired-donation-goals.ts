@@ -0,0 +1,10 @@
+import { createJob } from './job';
+import { refundExpiredDonationGoals } from '~/server/services/donation-goal.service';
+
+export const refundExpiredDonationGoalsJob = createJob(
+  'refund-expired-donation-goals',
+  '*/10 * * * *',
+  async () => {
+    return refundExpiredDonationGoals();
+  }
+);
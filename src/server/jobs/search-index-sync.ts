@@ -49,6 +49,8 @@ export const searchIndexJobs = Object.entries(searchIndexSets)
       {
         // 3hr lock. This can be a long-running job.
         lockExpiration: 180 * 60,
+        retries: 2,
+        retryDelay: 5 * 60 * 1000,
       }
     ),
   ])
@@ -0,0 +1,28 @@
+import { NotificationFrequency } from '@prisma/client';
+import dayjs from 'dayjs';
+import { sendNotificationDigests } from '~/server/services/notification.service';
+import { createJob, getJobDate } from './job';
+
+const createDigestJob = (
+  frequency: Exclude<NotificationFrequency, 'Instant'>,
+  cron: string,
+  period: 'day' | 'week'
+) =>
+  createJob(`send-notification-digest-${frequency.toLowerCase()}`, cron, async () => {
+    const [lastSent, setLastSent] = await getJobDate(
+      `last-sent-notification-digest-${frequency.toLowerCase()}`,
+      // Don't dig up old notifications on the first run
+      dayjs().subtract(1, period).toDate()
+    );
+
+    const jobStart = new Date();
+    const result = await sendNotificationDigests({ frequency, since: lastSent, until: jobStart });
+    await setLastSent(jobStart);
+
+    return result;
+  });
+
+export const notificationDigestJobs = [
+  createDigestJob(NotificationFrequency.Daily, '0 15 * * *', 'day'),
+  createDigestJob(NotificationFrequency.Weekly, '0 15 * * 1', 'week'),
+];
@@ -3,6 +3,15 @@ import { dbWrite } from '~/server/db/client';
 import { webhookProcessors } from '~/server/webhooks/utils.webhooks';
 import { createLogger } from '~/utils/logging';
 import { limitConcurrency, Task } from '~/server/utils/concurrency-helpers';
+import {
+  attemptWebhookDelivery,
+  deleteOldWebhookDeliveries,
+  DeliverableWebhook,
+  getDueWebhookDeliveries,
+  getWebhookSubscribers,
+  queueWebhookDeliveries,
+  WebhookDeliveryData,
+} from '~/server/services/webhook.service';
 
 const log = createLogger('jobs', 'green');
 
@@ -11,53 +20,56 @@ export const sendWebhooksJob = createJob('send-webhooks', '*/1 * * * *', async (
 
   const registeredWebhooks = await dbWrite.webhook.findMany({
     where: { active: true },
-    select: { notifyOn: true, url: true },
+    select: { id: true, notifyOn: true, url: true, secret: true, userId: true },
   });
+  const subscribers = await getWebhookSubscribers([
+    ...new Set(registeredWebhooks.map((webhook) => webhook.userId)),
+  ]);
+  const webhooksById = new Map<number, DeliverableWebhook>(
+    registeredWebhooks.map((webhook) => [webhook.id, webhook])
+  );
 
   const prepTime: Record<string, number> = {};
   const sendingTime: Record<string, number> = {};
   const tasks: Array<Task> = [];
+  const addDeliveryTask = (webhook: DeliverableWebhook, delivery: WebhookDeliveryData) => {
+    tasks.push(async () => {
+      const sendStart = Date.now();
+      await attemptWebhookDelivery({ webhook, delivery });
+      sendingTime[delivery.event] ??= 0;
+      sendingTime[delivery.event] += Date.now() - sendStart;
+    });
+  };
+
   if (registeredWebhooks.length > 0) {
     // Enqueue webhook requests
-    for (const [type, { getData }] of Object.entries(webhookProcessors)) {
+    for (const [type, { getData, filter }] of Object.entries(webhookProcessors)) {
+      const typeWebhooks = registeredWebhooks.filter((webhook) => webhook.notifyOn.includes(type));
+      if (!typeWebhooks.length) continue;
+
       const start = Date.now();
       const data = await getData?.({ lastSent, prisma: dbWrite });
       if (!data) continue;
-      for (const webhook of registeredWebhooks) {
-        if (!webhook.notifyOn.includes(type)) continue;
-
-        let requestUrl = webhook.url;
-        const headers: HeadersInit = { 'Content-Type': 'application/json' };
-
-        const url = new URL(webhook.url);
-        const { username, password } = url;
-        if (username || password) {
-          requestUrl = requestUrl.replace(`${username}:${password}@`, '');
-          headers['Authorization'] = `Basic ${Buffer.from(`${username}:${password}`).toString(
-            'base64'
-          )}`;
-        }
 
-        for (const item of data) {
-          tasks.push(async () => {
-            const sendStart = Date.now();
-            await fetch(requestUrl, {
-              method: 'POST',
-              body: JSON.stringify({
-                event: type,
-                data: item,
-              }),
-              headers,
-            });
-            sendingTime[type] ??= 0;
-            sendingTime[type] += Date.now() - sendStart;
-          });
-        }
+      const toQueue = typeWebhooks.flatMap((webhook) => {
+        const subscriber = subscribers.get(webhook.userId);
+        const items = filter ? data.filter((item) => subscriber && filter(item, subscriber)) : data;
+        return items.map((item) => ({ webhookId: webhook.id, event: type, payload: item }));
+      });
+      const deliveries = await queueWebhookDeliveries(toQueue);
+      for (const { webhookId, ...delivery } of deliveries) {
+        const webhook = webhooksById.get(webhookId);
+        if (webhook) addDeliveryTask(webhook, delivery);
       }
       prepTime[type] = Date.now() - start;
     }
   }
 
+  // Enqueue retries of failed deliveries
+  // --------------------------------------------
+  const retries = await getDueWebhookDeliveries();
+  for (const { webhook, ...delivery } of retries) addDeliveryTask(webhook, delivery);
+
   // Update the last sent time
   // --------------------------------------------
   await setLastSent();
@@ -65,9 +77,20 @@ export const sendWebhooksJob = createJob('send-webhooks', '*/1 * * * *', async (
   // Send webhooks
   // --------------------------------------------
   await limitConcurrency(tasks, 10);
+  log(`send-webhooks: sent ${tasks.length} webhooks (${retries.length} retries)`);
 
   return {
     prepTime,
     sendingTime,
+    retries: retries.length,
   };
 });
+
+export const cleanWebhookDeliveriesJob = createJob(
+  'clean-webhook-deliveries',
+  '0 4 * * *',
+  async () => {
+    const deleted = await deleteOldWebhookDeliveries();
+    return { deleted };
+  }
+);
@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { JobContext } from '~/server/jobs/job';
+import { createMetricProcessor, MetricProcessorRunContext } from '~/server/metrics/base.metrics';
+
+vi.mock('~/server/clickhouse/client', () => ({ clickhouse: {} }));
+vi.mock('~/server/db/client', () => ({ dbWrite: {} }));
+vi.mock('~/server/db/pgDb', () => ({ pgDbWrite: {} }));
+vi.mock('~/server/jobs/job', () => ({ getJobDate: vi.fn() }));
+vi.mock('~/server/redis/client', () => ({ redis: {}, REDIS_KEYS: {} }));
+vi.mock('~/server/redis/queues', () => ({ addToQueue: vi.fn(), checkoutQueue: vi.fn() }));
+
+function createJobContext(cancelAfter = Infinity) {
+  let checks = 0;
+  const jobContext: JobContext = {
+    status: 'running',
+    on: vi.fn(),
+    checkIfCanceled: vi.fn(() => {
+      if (++checks > cancelAfter) throw new Error('Job was canceled');
+    }),
+  };
+  return jobContext;
+}
+
+function createProcessor() {
+  const runs: { lastUpdate: Date; endDate: Date; queue: number[] }[] = [];
+  const processor = createMetricProcessor({
+    name: 'Test',
+    update: async (ctx: MetricProcessorRunContext) => {
+      runs.push({ lastUpdate: ctx.lastUpdate, endDate: ctx.endDate, queue: ctx.queue });
+      ctx.addAffected(runs.length);
+    },
+  });
+  return { processor, runs };
+}
+
+describe('metric backfill', () => {
+  const startDate = new Date('2024-07-01T00:00:00Z');
+  const endDate = new Date('2024-07-01T02:30:00Z');
+
+  it('processes dates in windows up to the end date', async () => {
+    const { processor, runs } = createProcessor();
+    const onProgress = vi.fn();
+
+    await processor.backfill({ startDate, endDate }, createJobContext(), onProgress);
+
+    expect(runs.map((x) => [x.lastUpdate.toISOString(), x.endDate.toISOString()])).toEqual([
+      ['2024-07-01T00:00:00.000Z', '2024-07-01T01:00:00.000Z'],
+      ['2024-07-01T01:00:00.000Z', '2024-07-01T02:00:00.000Z'],
+      ['2024-07-01T02:00:00.000Z', '2024-07-01T02:30:00.000Z'],
+    ]);
+    expect(onProgress).toHaveBeenCalledTimes(3);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      mode: 'date',
+      processed: 3,
+      total: 3,
+      affected: 3,
+      windowEnd: endDate,
+    });
+  });
+
+  it('uses the requested window size', async () => {
+    const { processor, runs } = createProcessor();
+
+    await processor.backfill({ startDate, endDate, windowMinutes: 90 }, createJobContext());
+
+    expect(runs.map((x) => x.endDate.toISOString())).toEqual([
+      '2024-07-01T01:30:00.000Z',
+      '2024-07-01T02:30:00.000Z',
+    ]);
+  });
+
+  it('stops between windows once canceled', async () => {
+    const { processor, runs } = createProcessor();
+    const onProgress = vi.fn();
+
+    await expect(
+      processor.backfill({ startDate, endDate }, createJobContext(2), onProgress)
+    ).rejects.toThrow('Job was canceled');
+
+    expect(runs).toHaveLength(2);
+    expect(onProgress).toHaveBeenCalledTimes(2);
+  });
+
+  it('processes ids in batches', async () => {
+    const { processor, runs } = createProcessor();
+    const onProgress = vi.fn();
+
+    await processor.backfill(
+      { ids: [5, 1, 3, 1, 2], batchSize: 2 },
+      createJobContext(),
+      onProgress
+    );
+
+    expect(runs.map((x) => x.queue)).toEqual([
+      [1, 2],
+      [3, 5],
+    ]);
+    expect(onProgress).toHaveBeenLastCalledWith({ mode: 'ids', processed: 4, total: 4 });
+  });
+});
@@ -2,7 +2,7 @@ import { createMetricProcessor } from '~/server/metrics/base.metrics';
 
 export const answerMetrics = createMetricProcessor({
   name: 'Answer',
-  async update({ db, lastUpdate }) {
+  async update({ db, lastUpdate, endDate }) {
     return;
     // Disabled for now
 
@@ -12,7 +12,7 @@ export const answerMetrics = createMetricProcessor({
       SELECT
         "answerId" AS id
       FROM "AnswerReaction"
-      WHERE "createdAt" > ${lastUpdate}
+      WHERE "createdAt" BETWEEN ${lastUpdate} AND ${endDate}
 
       UNION
 
@@ -20,14 +20,14 @@ export const answerMetrics = createMetricProcessor({
       FROM "Thread" t
       JOIN "CommentV2" c ON c."threadId" = t.id
       WHERE t."answerId" IS NOT NULL
-      AND c."createdAt" > ${lastUpdate}
+      AND c."createdAt" BETWEEN ${lastUpdate} AND ${endDate}
 
       UNION
 
       SELECT
         "answerId" AS id
       FROM "AnswerVote"
-      WHERE "createdAt" > ${lastUpdate}
+      WHERE "createdAt" BETWEEN ${lastUpdate} AND ${endDate}
 
       UNION
 
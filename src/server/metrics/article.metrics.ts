@@ -57,7 +57,7 @@ async function getReactionTasks(ctx: MetricProcessorRunContext) {
     SELECT
       "articleId" AS id
     FROM "ArticleReaction"
-    WHERE "createdAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -91,7 +91,7 @@ async function getCommentTasks(ctx: MetricProcessorRunContext) {
     SELECT t."articleId" as id
     FROM "Thread" t
     JOIN "CommentV2" c ON c."threadId" = t.id
-    WHERE t."articleId" IS NOT NULL AND c."createdAt" > '${ctx.lastUpdate}'
+    WHERE t."articleId" IS NOT NULL AND c."createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -124,7 +124,7 @@ async function getCollectionTasks(ctx: MetricProcessorRunContext) {
     -- get recent article collections
     SELECT "articleId" as id
     FROM "CollectionItem"
-    WHERE "articleId" IS NOT NULL AND "createdAt" > '${ctx.lastUpdate}'
+    WHERE "articleId" IS NOT NULL AND "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -156,7 +156,7 @@ async function getBuzzTasks(ctx: MetricProcessorRunContext) {
     -- get recent article tips
     SELECT "entityId" as id
     FROM "BuzzTip"
-    WHERE "entityType" = 'Article' AND ("createdAt" > '${ctx.lastUpdate}' OR "updatedAt" > '${ctx.lastUpdate}')
+    WHERE "entityType" = 'Article' AND ("createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}' OR "updatedAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}')
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -190,7 +190,7 @@ async function getEngagementTasks(ctx: MetricProcessorRunContext) {
     SELECT
       "articleId" as id
     FROM "ArticleEngagement"
-    WHERE "createdAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -227,12 +227,14 @@ type ArticleViews = {
 };
 async function getViewTasks(ctx: MetricProcessorRunContext) {
   const clickhouseSince = dayjs(ctx.lastUpdate).toISOString();
+  const clickhouseUntil = dayjs(ctx.endDate).toISOString();
   const viewed = await ctx.ch.$query<ArticleViews>`
     WITH targets AS (
       SELECT DISTINCT entityId AS entityId
       FROM views
       WHERE type = 'ArticleView'
         AND time >= parseDateTimeBestEffortOrNull('${clickhouseSince}')
+        AND time <= parseDateTimeBestEffortOrNull('${clickhouseUntil}')
     )
     SELECT
       entityId,
@@ -1,6 +1,7 @@
 import { ClickHouseClient } from '@clickhouse/client';
 import { PrismaClient } from '@prisma/client';
 import dayjs from 'dayjs';
+import { chunk } from 'lodash-es';
 import { clickhouse, CustomClickHouseClient } from '~/server/clickhouse/client';
 import { dbWrite } from '~/server/db/client';
 import { AugmentedPool } from '~/server/db/db-helpers';
@@ -11,6 +12,8 @@ import { addToQueue, checkoutQueue } from '~/server/redis/queues';
 
 const DEFAULT_UPDATE_INTERVAL = 60 * 1000;
 const DEFAULT_RANK_REFRESH_INTERVAL = 60 * 60 * 1000;
+const DEFAULT_BACKFILL_BATCH_SIZE = 1000;
+const DEFAULT_BACKFILL_WINDOW_MINUTES = 60;
 
 export function createMetricProcessor({
   name,
@@ -32,19 +35,7 @@ export function createMetricProcessor({
     async update(jobContext: JobContext) {
       if (!clickhouse) return;
       const [lastUpdate, setLastUpdate] = await getJobDate(`metric:${name.toLowerCase()}`);
-      const ctx: MetricProcessorRunContext = {
-        db: dbWrite,
-        ch: clickhouse,
-        pg: pgDbWrite,
-        lastUpdate,
-        jobContext,
-        queue: [],
-        affected: new Set(),
-        addAffected: (id) => {
-          if (Array.isArray(id)) id.forEach((x) => ctx.affected.add(x));
-          else ctx.affected.add(id);
-        },
-      };
+      const ctx = createRunContext({ ch: clickhouse, lastUpdate, jobContext });
 
       // Clear if first run of the day
       const isFirstOfDay = lastUpdate.getDate() !== new Date().getDate();
@@ -92,6 +83,66 @@ export function createMetricProcessor({
 
       await setLastUpdate();
     },
+    /**
+     * Recomputes metrics outside of the regular update cycle, eg. to fill gaps left by a clickhouse outage.
+     * Doesn't touch the last update date or the update queue.
+     */
+    async backfill(
+      {
+        startDate,
+        endDate = new Date(),
+        ids = [],
+        batchSize = DEFAULT_BACKFILL_BATCH_SIZE,
+        windowMinutes = DEFAULT_BACKFILL_WINDOW_MINUTES,
+      }: MetricBackfillOptions,
+      jobContext: JobContext,
+      onProgress?: (progress: MetricBackfillProgress) => void
+    ) {
+      if (!clickhouse) return;
+
+      // Metrics are recomputed from their sources, so everything with activity in a window gets fixed
+      // by a single update over that window
+      if (startDate) {
+        const windows: { start: Date; end: Date }[] = [];
+        for (let start = startDate; start < endDate; ) {
+          const end = new Date(Math.min(start.getTime() + windowMinutes * 60 * 1000, +endDate));
+          windows.push({ start, end });
+          start = end;
+        }
+
+        let affected = 0;
+        for (const [i, window] of windows.entries()) {
+          jobContext.checkIfCanceled();
+          const ctx = createRunContext({
+            ch: clickhouse,
+            lastUpdate: window.start,
+            endDate: window.end,
+            jobContext,
+          });
+          await update(ctx);
+          affected += ctx.affected.size;
+          onProgress?.({
+            mode: 'date',
+            processed: i + 1,
+            total: windows.length,
+            affected,
+            windowEnd: window.end,
+          });
+        }
+      }
+
+      // Only the queued ids are affected when the last update is now
+      const uniqueIds = [...new Set(ids)].sort((a, b) => a - b);
+      let processed = 0;
+      for (const batch of chunk(uniqueIds, batchSize)) {
+        jobContext.checkIfCanceled();
+        const ctx = createRunContext({ ch: clickhouse, lastUpdate: new Date(), jobContext });
+        ctx.queue = batch;
+        await update(ctx);
+        processed += batch.length;
+        onProgress?.({ mode: 'ids', processed, total: uniqueIds.length });
+      }
+    },
     queueUpdate: async (ids: number | number[]) => {
       if (!Array.isArray(ids)) ids = [ids];
       await addToQueue('metric-update:' + name.toLowerCase(), ids);
@@ -100,6 +151,35 @@ export function createMetricProcessor({
   };
 }
 
+function createRunContext({
+  ch,
+  lastUpdate,
+  endDate = new Date(),
+  jobContext,
+}: {
+  ch: CustomClickHouseClient;
+  lastUpdate: Date;
+  endDate?: Date;
+  jobContext: JobContext;
+}) {
+  const ctx: MetricProcessorRunContext = {
+    db: dbWrite,
+    ch,
+    pg: pgDbWrite,
+    lastUpdate,
+    endDate,
+    jobContext,
+    queue: [],
+    affected: new Set(),
+    addAffected: (id) => {
+      if (Array.isArray(id)) id.forEach((x) => ctx.affected.add(x));
+      else ctx.affected.add(id);
+    },
+  };
+
+  return ctx;
+}
+
 async function recreateRankTable(rankTable: string, primaryKey: string, indexes: string[] = []) {
   await dbWrite.$executeRawUnsafe(`DROP TABLE IF EXISTS "${rankTable}_New";`);
   await dbWrite.$executeRawUnsafe(
@@ -150,12 +230,30 @@ export type MetricProcessorRunContext = {
   pg: AugmentedPool;
   ch: CustomClickHouseClient;
   lastUpdate: Date;
+  /** Activity after this date is left for the next run */
+  endDate: Date;
   jobContext: JobContext;
   queue: number[];
   addAffected: (id: number | number[]) => void;
   affected: Set<number>;
 };
 
+export type MetricBackfillOptions = {
+  startDate?: Date;
+  endDate?: Date;
+  ids?: number[];
+  batchSize?: number;
+  windowMinutes?: number;
+};
+
+export type MetricBackfillProgress = {
+  mode: 'date' | 'ids';
+  processed: number;
+  total: number;
+  affected?: number;
+  windowEnd?: Date;
+};
+
 type MetricRankOptions =
   | {
       table: string;
@@ -53,7 +53,7 @@ async function getEngagementTasks(ctx: MetricProcessorRunContext) {
     SELECT
       "bountyId" as id
     FROM "BountyEngagement"
-    WHERE "createdAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -87,7 +87,7 @@ async function getCommentTasks(ctx: MetricProcessorRunContext) {
     SELECT t."bountyId" as id
     FROM "Thread" t
     JOIN "CommentV2" c ON c."threadId" = t.id
-    WHERE t."bountyId" IS NOT NULL AND c."createdAt" > '${ctx.lastUpdate}'
+    WHERE t."bountyId" IS NOT NULL AND c."createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -120,7 +120,7 @@ async function getBenefactorTasks(ctx: MetricProcessorRunContext) {
     -- get recent bounty benefactors
     SELECT "bountyId" as id
     FROM "BountyBenefactor"
-    WHERE "createdAt" > '${ctx.lastUpdate}' OR "updatedAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}' OR "updatedAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -152,7 +152,7 @@ async function getEntryTasks(ctx: MetricProcessorRunContext) {
     -- get recent bounty entries
     SELECT "bountyId" as id
     FROM "BountyEntry"
-    WHERE "createdAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
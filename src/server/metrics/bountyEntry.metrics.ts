@@ -41,7 +41,7 @@ async function getReactionTasks(ctx: MetricProcessorRunContext) {
     SELECT
       "bountyEntryId" AS id
     FROM "BountyEntryReaction"
-    WHERE "createdAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -74,7 +74,7 @@ async function getBenefactorTasks(ctx: MetricProcessorRunContext) {
     -- get recent bounty entry benefactors
     SELECT "awardedToId" as id
     FROM "BountyBenefactor"
-    WHERE "createdAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
       AND "awardedToId" IS NOT NULL
   `;
 
@@ -106,7 +106,7 @@ async function getBuzzTasks(ctx: MetricProcessorRunContext) {
     -- get recent bountyEntry tips
     SELECT "entityId" as id
     FROM "BuzzTip"
-    WHERE "entityType" = 'bountyEntry' AND "createdAt" > '${ctx.lastUpdate}'
+    WHERE "entityType" = 'bountyEntry' AND "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -3,7 +3,7 @@ import { Prisma } from '@prisma/client';
 
 export const clubMetrics = createMetricProcessor({
   name: 'Club',
-  async update({ db, lastUpdate }) {
+  async update({ db, lastUpdate, endDate }) {
     return;
     // Disabled for now
 
@@ -16,21 +16,21 @@ export const clubMetrics = createMetricProcessor({
       FROM "EntityAccess" ea
       LEFT JOIN "Club" c ON ea."accessorId" = c.id AND ea."accessorType" = 'Club'
       LEFT JOIN "ClubTier" ct ON ea."accessorId" = ct."id" AND ea."accessorType" = 'ClubTier'
-      WHERE COALESCE(c.id, ct."clubId") IS NOT NULL AND ea."addedAt" > ${lastUpdate}
+      WHERE COALESCE(c.id, ct."clubId") IS NOT NULL AND ea."addedAt" BETWEEN ${lastUpdate} AND ${endDate}
 
       UNION
 
       SELECT
         "clubId" AS id
       FROM "ClubPost"
-      WHERE ("createdAt" > ${lastUpdate})
+      WHERE ("createdAt" BETWEEN ${lastUpdate} AND ${endDate})
 
       UNION
 
       SELECT
         "clubId" AS id
       FROM "ClubMembership"
-      WHERE ("startedAt" > ${lastUpdate})
+      WHERE ("startedAt" BETWEEN ${lastUpdate} AND ${endDate})
 
       UNION
 
@@ -3,7 +3,7 @@ import { Prisma } from '@prisma/client';
 
 export const clubPostMetrics = createMetricProcessor({
   name: 'ClubPost',
-  async update({ db, lastUpdate }) {
+  async update({ db, lastUpdate, endDate }) {
     return;
     // Disabled for now
 
@@ -14,14 +14,14 @@ export const clubPostMetrics = createMetricProcessor({
       SELECT
         "clubPostId" AS id
       FROM "ClubPostReaction"
-      WHERE ("updatedAt" > ${lastUpdate})
+      WHERE ("updatedAt" BETWEEN ${lastUpdate} AND ${endDate})
 
       UNION
 
       SELECT
         "id"
       FROM "ClubPost"
-      WHERE ("createdAt" > ${lastUpdate})
+      WHERE ("createdAt" BETWEEN ${lastUpdate} AND ${endDate})
 
       UNION
 
@@ -47,7 +47,7 @@ async function getContributorTasks(ctx: MetricProcessorRunContext) {
     -- get recent collection contributors
     SELECT "collectionId" as id
     FROM "CollectionContributor"
-    WHERE "createdAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -87,7 +87,7 @@ async function getItemTasks(ctx: MetricProcessorRunContext) {
     -- get recent collection items
     SELECT "collectionId" as id
     FROM "CollectionItem"
-    WHERE "createdAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -142,7 +142,7 @@ async function getReactionTasks(ctx: ImageMetricContext) {
     SELECT
       "imageId" AS id
     FROM "ImageReaction"
-    WHERE "createdAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -198,7 +198,7 @@ async function getCommentTasks(ctx: ImageMetricContext) {
     SELECT t."imageId" as id
     FROM "Thread" t
     JOIN "CommentV2" c ON c."threadId" = t.id
-    WHERE t."imageId" IS NOT NULL AND c."createdAt" > '${ctx.lastUpdate}'
+    WHERE t."imageId" IS NOT NULL AND c."createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -227,7 +227,7 @@ async function getCollectionTasks(ctx: ImageMetricContext) {
     -- get recent image collections
     SELECT "imageId" as id
     FROM "CollectionItem"
-    WHERE "imageId" IS NOT NULL AND "createdAt" > '${ctx.lastUpdate}'
+    WHERE "imageId" IS NOT NULL AND "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -255,7 +255,7 @@ async function getBuzzTasks(ctx: ImageMetricContext) {
     -- get recent image tips
     SELECT "entityId" as id
     FROM "BuzzTip"
-    WHERE "entityType" = 'Image' AND ("createdAt" > '${ctx.lastUpdate}' OR "updatedAt" > '${ctx.lastUpdate}')
+    WHERE "entityType" = 'Image' AND ("createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}' OR "updatedAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}')
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -289,6 +289,7 @@ type ImageMetricView = {
 };
 async function getViewTasks(ctx: ImageMetricContext) {
   const clickhouseSince = dayjs(ctx.lastUpdate).toISOString();
+  const clickhouseUntil = dayjs(ctx.endDate).toISOString();
   const viewed = await ctx.ch.$query<ImageMetricView>`
     WITH targets AS (
       SELECT
@@ -296,6 +297,7 @@ async function getViewTasks(ctx: ImageMetricContext) {
       FROM views
       WHERE entityType = 'Image'
       AND time >= parseDateTimeBestEffortOrNull('${clickhouseSince}')
+        AND time <= parseDateTimeBestEffortOrNull('${clickhouseUntil}')
     )
     SELECT
       entityId AS imageId,
@@ -99,7 +99,7 @@ async function getDownloadTasks(ctx: ModelMetricContext) {
     SELECT DISTINCT modelVersionId
     FROM modelVersionEvents
     WHERE type = 'Download'
-      AND time >= parseDateTimeBestEffortOrNull('${ctx.lastUpdate}');
+      AND time >= parseDateTimeBestEffortOrNull('${ctx.lastUpdate}') AND time <= parseDateTimeBestEffortOrNull('${ctx.endDate}');
   `;
   const affected = downloaded.map((x) => x.modelVersionId);
 
@@ -158,7 +158,7 @@ async function getGenerationTasks(ctx: ModelMetricContext) {
     SELECT DISTINCT modelVersionId
     FROM (SELECT arrayJoin(resourcesUsed) as modelVersionId
           FROM orchestration.textToImageJobs
-          WHERE createdAt >= parseDateTimeBestEffortOrNull('${ctx.lastUpdate}'))
+          WHERE createdAt >= parseDateTimeBestEffortOrNull('${ctx.lastUpdate}') AND createdAt <= parseDateTimeBestEffortOrNull('${ctx.endDate}'))
   `;
   const affected = generated
     .map((x) => x.modelVersionId)
@@ -220,7 +220,7 @@ async function getImageTasks(ctx: ModelMetricContext) {
     FROM "Image" i
     JOIN "ImageResource" ir ON ir."imageId" = i.id AND ir."modelVersionId" IS NOT NULL
     JOIN "Post" p ON i."postId" = p.id
-    WHERE p."publishedAt" BETWEEN '${ctx.lastUpdate}' AND now();
+    WHERE p."publishedAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}';
   `;
 
   const tasks = chunk(affected, BATCH_SIZE).map((ids, i) => async () => {
@@ -261,7 +261,7 @@ async function getVersionRatingTasks(ctx: ModelMetricContext) {
     -- get recent version reviews
     SELECT "modelVersionId" as id
     FROM "ResourceReview"
-    WHERE "createdAt" > '${ctx.lastUpdate}' OR "updatedAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}' OR "updatedAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, BATCH_SIZE).map((ids, i) => async () => {
@@ -299,7 +299,7 @@ async function getModelRatingTasks(ctx: ModelMetricContext) {
     -- Get recent model reviews
     SELECT "modelId" as id
     FROM "ResourceReview"
-    WHERE "createdAt" > '${ctx.lastUpdate}' OR "updatedAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}' OR "updatedAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, BATCH_SIZE).map((ids, i) => async () => {
@@ -336,7 +336,7 @@ async function getCommentTasks(ctx: ModelMetricContext) {
   const commentEvents = await ctx.ch.$query<{ modelId: number }>`
     SELECT DISTINCT entityId AS modelId
     FROM comments
-    WHERE time >= parseDateTimeBestEffortOrNull('${ctx.lastUpdate}')
+    WHERE time >= parseDateTimeBestEffortOrNull('${ctx.lastUpdate}') AND time <= parseDateTimeBestEffortOrNull('${ctx.endDate}')
       AND type = 'Model'
   `;
   const affected = [...new Set([...commentEvents.map((x) => x.modelId), ...ctx.queue])];
@@ -371,7 +371,7 @@ async function getCollectionTasks(ctx: ModelMetricContext) {
     -- Get recent model collects
     SELECT "modelId" as id
     FROM "CollectionItem"
-    WHERE "modelId" IS NOT NULL AND "createdAt" > '${ctx.lastUpdate}'
+    WHERE "modelId" IS NOT NULL AND "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, BATCH_SIZE).map((ids, i) => async () => {
@@ -404,7 +404,7 @@ async function getBuzzTasks(ctx: ModelMetricContext) {
     SELECT "entityId" as id
     FROM "BuzzTip"
     WHERE "entityId" IS NOT NULL AND "entityType" = 'Model'
-      AND ("createdAt" > '${ctx.lastUpdate}' OR "updatedAt" > '${ctx.lastUpdate}')
+      AND ("createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}' OR "updatedAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}')
   `;
 
   const tasks = chunk(affected, BATCH_SIZE).map((ids, i) => async () => {
@@ -437,7 +437,7 @@ async function getVersionAggregationTasks(ctx: ModelMetricContext) {
     SELECT mv."modelId" as id
     FROM "ModelVersionMetric" mvm
            JOIN "ModelVersion" mv ON mv.id = mvm."modelVersionId"
-    WHERE mvm."updatedAt" > '${ctx.lastUpdate}'
+    WHERE mvm."updatedAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, BATCH_SIZE).map((ids, i) => async () => {
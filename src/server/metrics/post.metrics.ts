@@ -57,7 +57,7 @@ async function getReactionTasks(ctx: MetricProcessorRunContext) {
       i."postId" AS id
     FROM "ImageReaction" ir
     JOIN "Image" i ON i.id = ir."imageId"
-    WHERE ir."createdAt" > '${ctx.lastUpdate}'
+    WHERE ir."createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 100).map((ids, i) => async () => {
@@ -92,7 +92,7 @@ async function getCommentTasks(ctx: MetricProcessorRunContext) {
       t."postId" AS id
     FROM "Thread" t
     JOIN "CommentV2" c ON c."threadId" = t.id
-    WHERE t."postId" IS NOT NULL AND c."createdAt" > '${ctx.lastUpdate}'
+    WHERE t."postId" IS NOT NULL AND c."createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 100).map((ids, i) => async () => {
@@ -126,7 +126,7 @@ async function getCollectionTasks(ctx: MetricProcessorRunContext) {
     SELECT DISTINCT
       "postId" AS id
     FROM "CollectionItem"
-    WHERE "createdAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 100).map((ids, i) => async () => {
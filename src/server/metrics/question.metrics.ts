@@ -2,7 +2,7 @@ import { createMetricProcessor } from '~/server/metrics/base.metrics';
 
 export const questionMetrics = createMetricProcessor({
   name: 'Question',
-  async update({ db, lastUpdate }) {
+  async update({ db, lastUpdate, endDate }) {
     return;
     // Disabled for now
     await db.$executeRaw`
@@ -11,21 +11,21 @@ export const questionMetrics = createMetricProcessor({
       SELECT
         "questionId" AS id
       FROM "QuestionReaction"
-      WHERE "createdAt" > ${lastUpdate}
+      WHERE "createdAt" BETWEEN ${lastUpdate} AND ${endDate}
 
       UNION
 
       SELECT
         a."questionId" AS id
       FROM "Answer" a
-      WHERE (a."createdAt" > ${lastUpdate})
+      WHERE (a."createdAt" BETWEEN ${lastUpdate} AND ${endDate})
 
       UNION
 
       SELECT t."questionId" as id
       FROM "Thread" t
       JOIN "CommentV2" c ON c."threadId" = t.id
-      WHERE t."questionId" IS NOT NULL AND c."createdAt" > ${lastUpdate}
+      WHERE t."questionId" IS NOT NULL AND c."createdAt" BETWEEN ${lastUpdate} AND ${endDate}
 
       UNION
 
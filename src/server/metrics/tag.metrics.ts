@@ -47,7 +47,7 @@ async function getEngagementTasks(ctx: MetricProcessorRunContext) {
     SELECT
       "tagId" as id
     FROM "TagEngagement"
-    WHERE "createdAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -92,7 +92,7 @@ async function getTagCountTasks(ctx: MetricProcessorRunContext, entity: keyof ty
     SELECT
       "tagId" AS id
     FROM "${table}"
-    WHERE "createdAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 500).map((ids, i) => async () => {
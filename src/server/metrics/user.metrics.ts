@@ -55,7 +55,7 @@ async function getEngagementTasks(ctx: MetricProcessorRunContext) {
     SELECT
       "targetUserId" as id
     FROM "UserEngagement"
-    WHERE "createdAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -88,7 +88,7 @@ async function getFollowingTasks(ctx: MetricProcessorRunContext) {
     SELECT
       "userId" as id
     FROM "UserEngagement"
-    WHERE "createdAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -121,7 +121,7 @@ async function getModelTasks(ctx: MetricProcessorRunContext) {
       m."userId" as id
     FROM "ModelVersion" mv
     JOIN "Model" m ON mv."modelId" = m.id
-    WHERE (mv."publishedAt" > '${ctx.lastUpdate}' AND mv."status" = 'Published')
+    WHERE (mv."publishedAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}' AND mv."status" = 'Published')
       OR (mv."publishedAt" <= '${ctx.lastUpdate}' AND mv."status" = 'Scheduled')
   `;
 
@@ -159,7 +159,7 @@ async function getReviewTasks(ctx: MetricProcessorRunContext) {
     SELECT
       "userId" as id
     FROM "ResourceReview"
-    WHERE "createdAt" > '${ctx.lastUpdate}'
+    WHERE "createdAt" BETWEEN '${ctx.lastUpdate}' AND '${ctx.endDate}'
   `;
 
   const tasks = chunk(affected, 1000).map((ids, i) => async () => {
@@ -202,7 +202,7 @@ async function getReactionTasks(ctx: MetricProcessorRunContext) {
       SELECT
         ownerId
       FROM reactions
-      WHERE time > parseDateTimeBestEffort('${ctx.lastUpdate}')
+      WHERE time > parseDateTimeBestEffort('${ctx.lastUpdate}') AND time <= parseDateTimeBestEffort('${ctx.endDate}')
     )
     SELECT
       ownerId as userId,
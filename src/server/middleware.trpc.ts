@@ -8,6 +8,14 @@ import { redis, REDIS_KEYS } from '~/server/redis/client';
 import { UserPreferencesInput } from '~/server/schema/base.schema';
 import { getAllHiddenForUser } from '~/server/services/user-preferences.service';
 import { middleware } from '~/server/trpc';
+import {
+  consumeRateLimit,
+  getRateLimitIdentity,
+  RateLimitPolicy,
+  RateLimitPolicyName,
+  rateLimitPolicies,
+  setRateLimitHeaders,
+} from '~/server/utils/rate-limiting';
 import { hashifyObject, slugit } from '~/utils/string-helpers';
 
 export const applyUserPreferences = middleware(async ({ input, ctx, next }) => {
@@ -84,28 +92,42 @@ export type RateLimit = {
   limit?: number;
   period?: number; // seconds
 };
-export function rateLimit({ limit, period }: RateLimit) {
-  limit ??= 10;
-  period ??= CacheTTL.md;
-
+/**
+ * Limits calls to a procedure per user, API key or IP.
+ * Accepts either a named policy from `rateLimitPolicies` or an inline limit for the procedure.
+ */
+export function rateLimit(options: RateLimit | RateLimitPolicyName) {
   return middleware(async ({ ctx, next, path }) => {
-    const cacheKey = `trpc:limit:${path.replace('.', ':')}`;
-    const hashKey = ctx.user?.id?.toString() ?? ctx.ip;
-    const attempts = JSON.parse((await redis.hGet(cacheKey, hashKey)) ?? '[]').map(
-      Number
-    ) as number[];
-    const cutoff = Date.now() - period! * 1000;
-    const relevantAttempts = attempts.filter((x) => x > cutoff);
-    if (relevantAttempts.length >= limit!) {
-      throw new TRPCError({
-        code: 'TOO_MANY_REQUESTS',
-        message: 'Rate limit exceeded',
-      });
+    let name: string;
+    let policy: RateLimitPolicy;
+    if (typeof options === 'string') {
+      name = options;
+      policy = rateLimitPolicies[options];
+    } else {
+      const limit = options.limit ?? 10;
+      name = `trpc:${path}`;
+      policy = {
+        window: options.period ?? CacheTTL.md,
+        limits: { User: limit, ApiKey: limit, Ip: limit },
+      };
+    }
+
+    const identity = getRateLimitIdentity({
+      req: ctx.req,
+      userId: ctx.user?.id,
+      apiKeyId: ctx.auth.apiKey?.id,
+    });
+    const result = await consumeRateLimit({ name, policy, identity });
+    if (result) {
+      if (ctx.res) setRateLimitHeaders(ctx.res, result);
+      if (!result.allowed) {
+        throw new TRPCError({
+          code: 'TOO_MANY_REQUESTS',
+          message: 'Rate limit exceeded',
+        });
+      }
     }
 
-    relevantAttempts.push(Date.now());
-    await redis.hSet(cacheKey, hashKey, JSON.stringify(relevantAttempts));
-    await redis.sAdd('trpc:limit:keys', cacheKey);
     return await next();
   });
 }
@@ -0,0 +1,30 @@
+import { NotificationCategory } from '~/server/common/enums';
+import { createNotificationProcessor } from '~/server/notifications/base.notifications';
+
+function getGoalUrl(details: MixedObject) {
+  return details.modelId
+    ? `/models/${details.modelId}?modelVersionId=${details.modelVersionId}`
+    : undefined;
+}
+
+export const donationGoalNotifications = createNotificationProcessor({
+  'donation-goal-milestone': {
+    displayName: 'Donation goal milestones',
+    category: NotificationCategory.Milestone,
+    prepareMessage: ({ details }) => ({
+      message: details.milestoneTitle
+        ? `The "${details.goalTitle}" goal you donated to reached its "${details.milestoneTitle}" milestone!`
+        : `The "${details.goalTitle}" goal you donated to has been reached!`,
+      url: getGoalUrl(details),
+    }),
+  },
+  'donation-goal-refunded': {
+    displayName: 'Donation goal refunds',
+    category: NotificationCategory.Buzz,
+    toggleable: false,
+    prepareMessage: ({ details }) => ({
+      message: `The "${details.goalTitle}" goal you donated to expired before it was reached. Your ${details.amount} Buzz has been refunded.`,
+      url: getGoalUrl(details),
+    }),
+  },
+});
@@ -18,6 +18,7 @@ import { clubNotifications } from '~/server/notifications/club.notifications';
 import { creatorsProgramNotifications } from '~/server/notifications/creators-program.notifications';
 import { followNotifications } from '~/server/notifications/follow.notifications';
 import { cosmeticShopNotifications } from '~/server/notifications/cosmetic-shop.notifications';
+import { donationGoalNotifications } from '~/server/notifications/donation-goal.notifications';
 
 const notificationProcessors = {
   ...mentionNotifications,
@@ -39,6 +40,7 @@ const notificationProcessors = {
   ...creatorsProgramNotifications,
   ...followNotifications,
   ...cosmeticShopNotifications,
+  ...donationGoalNotifications,
 };
 
 // Sort notifications by priority and group them by priority
@@ -144,6 +144,7 @@ export const REDIS_KEYS = {
     FEATURES: 'system:features',
     MODERATED_TAGS: 'packed:system:moderated_tags',
     TAG_RULES: 'system:tag-rules',
+    COMPUTED_TAG_RULES: 'packed:system:computed-tag-rules',
     SYSTEM_TAGS: 'system:tags',
     PERMISSIONS: 'system:permissions',
     TAGS_NEEDING_REVIEW: 'system:tags-needing-review',
@@ -151,6 +152,8 @@ export const REDIS_KEYS = {
     HOME_EXCLUDED_TAGS: 'system:home-excluded-tags',
     NOTIFICATION_COUNTS: 'system:notification-counts',
     USER_SCORE_MULTIPLIERS: 'system:user-score-multipliers',
+    RATE_LIMIT_OVERRIDES: 'packed:system:rate-limit-overrides',
+    PROMPT_MODERATION_RULES: 'packed:system:prompt-moderation-rules',
   },
   CACHES: {
     FILES_FOR_MODEL_VERSION: 'packed:caches:files-for-model-version',
@@ -177,10 +180,14 @@ export const REDIS_KEYS = {
     REDEMPTION_ATTEMPTS: 'counters:redemption-attempts',
     EMAIL_VERIFICATIONS: 'counters:email-verifications',
     HISTORY_DOWNLOADS: 'counters:history-downloads',
+    API_KEY_REQUESTS: 'counters:api-key-requests',
+    API_KEY_LAST_USED: 'counters:api-key-last-used',
   },
   LIMITS: {
     EMAIL_VERIFICATIONS: 'limits:email-verifications',
     HISTORY_DOWNLOADS: 'limits:history-downloads',
+    CHAT_MEMBERS: 'limits:chat-members',
   },
   LIVE_NOW: 'live-now',
+  RATE_LIMITS: 'rate-limits',
 } as const;
@@ -1,3 +1,4 @@
+import { KeyScope } from '@prisma/client';
 import {
   createBountyHandler,
   deleteBountyHandler,
@@ -70,6 +71,7 @@ export const bountyRouter = router({
     .use(isFlagProtected('bounties'))
     .query(getBountyBenefactorsHandler),
   create: guardedProcedure
+    .meta({ apiKeyScope: KeyScope.BuzzSpend })
     .input(createBountyInputSchema)
     .use(isFlagProtected('bounties'))
     .mutation(createBountyHandler),
@@ -89,6 +91,7 @@ export const bountyRouter = router({
     .use(isOwnerOrModerator)
     .mutation(deleteBountyHandler),
   addBenefactorUnitAmount: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.BuzzSpend })
     .input(addBenefactorUnitAmountInputSchema)
     .use(isFlagProtected('bounties'))
     .mutation(addBenefactorUnitAmountHandler),
@@ -1,3 +1,4 @@
+import { KeyScope } from '@prisma/client';
 import {
   claimDailyBoostRewardHandler,
   completeStripeBuzzPurchaseHandler,
@@ -35,6 +36,7 @@ export const buzzRouter = router({
     .use(isFlagProtected('buzz'))
     .query(getUserTransactionsHandler),
   tipUser: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.BuzzSpend })
     .input(userBuzzTransactionInputSchema)
     .use(isFlagProtected('buzz'))
     .mutation(createBuzzTipTransactionHandler),
@@ -52,6 +54,7 @@ export const buzzRouter = router({
     .use(isFlagProtected('clubs'))
     .mutation(withdrawClubFundsHandler),
   depositClubFunds: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.BuzzSpend })
     .input(clubTransactionSchema)
     .use(isFlagProtected('buzz'))
     .use(isFlagProtected('clubs'))
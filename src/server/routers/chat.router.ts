@@ -1,23 +1,44 @@
 import {
+  addUsersHandler,
   createChatHandler,
+  createChatInviteHandler,
   createMessageHandler,
+  deleteMessageHandler,
+  getChatInviteHandler,
+  getChatInvitesHandler,
+  getChatLimitsHandler,
   getChatsForUserHandler,
   getInfiniteMessagesHandler,
   getMessageByIdHandler,
   getUnreadMessagesForUserHandler,
   getUserSettingsHandler,
   isTypingHandler,
+  joinChatByInviteHandler,
   markAllAsReadHandler,
   modifyUserHandler,
+  muteMemberHandler,
+  revokeChatInviteHandler,
+  searchMessagesHandler,
+  setMemberRoleHandler,
   setUserSettingsHandler,
+  toggleReactionHandler,
 } from '~/server/controllers/chat.controller';
 import {
+  addUsersInput,
+  chatInviteIdInput,
   createChatInput,
+  createChatInviteInput,
   createMessageInput,
+  deleteMessageInput,
+  getChatInvitesInput,
   getInfiniteMessagesInput,
   getMessageByIdInput,
   isTypingInput,
   modifyUserInput,
+  muteMemberInput,
+  searchMessagesInput,
+  setMemberRoleInput,
+  toggleReactionInput,
   userSettingsChat,
 } from '~/server/schema/chat.schema';
 import { guardedProcedure, protectedProcedure, router } from '~/server/trpc';
@@ -28,15 +49,26 @@ export const chatRouter = router({
   getUserSettings: protectedProcedure.query(getUserSettingsHandler),
   setUserSettings: protectedProcedure.input(userSettingsChat).mutation(setUserSettingsHandler),
   getAllByUser: protectedProcedure.query(getChatsForUserHandler),
+  getLimits: protectedProcedure.query(getChatLimitsHandler),
   createChat: guardedProcedure.input(createChatInput).mutation(createChatHandler),
-  // addUser: guardedProcedure.input(addUsersInput).mutation(addUsersHandler),
+  addUsers: guardedProcedure.input(addUsersInput).mutation(addUsersHandler),
   modifyUser: protectedProcedure.input(modifyUserInput).mutation(modifyUserHandler),
+  setMemberRole: protectedProcedure.input(setMemberRoleInput).mutation(setMemberRoleHandler),
+  muteMember: protectedProcedure.input(muteMemberInput).mutation(muteMemberHandler),
+  getInvites: protectedProcedure.input(getChatInvitesInput).query(getChatInvitesHandler),
+  createInvite: protectedProcedure.input(createChatInviteInput).mutation(createChatInviteHandler),
+  revokeInvite: protectedProcedure.input(chatInviteIdInput).mutation(revokeChatInviteHandler),
+  getInvite: protectedProcedure.input(chatInviteIdInput).query(getChatInviteHandler),
+  joinByInvite: guardedProcedure.input(chatInviteIdInput).mutation(joinChatByInviteHandler),
   markAllAsRead: protectedProcedure.mutation(markAllAsReadHandler),
   getInfiniteMessages: protectedProcedure
     .input(getInfiniteMessagesInput)
     .query(getInfiniteMessagesHandler),
   getMessageById: protectedProcedure.input(getMessageByIdInput).query(getMessageByIdHandler),
   createMessage: protectedProcedure.input(createMessageInput).mutation(createMessageHandler),
+  deleteMessage: protectedProcedure.input(deleteMessageInput).mutation(deleteMessageHandler),
+  toggleReaction: protectedProcedure.input(toggleReactionInput).mutation(toggleReactionHandler),
+  searchMessages: protectedProcedure.input(searchMessagesInput).query(searchMessagesHandler),
   // updateMessage: guardedProcedure.input(updateMessageInput).mutation(updateMessageHandler),
   isTyping: protectedProcedure.input(isTypingInput).mutation(isTypingHandler),
   getUnreadCount: protectedProcedure.query(getUnreadMessagesForUserHandler),
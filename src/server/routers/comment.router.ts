@@ -33,7 +33,6 @@ import {
   router,
 } from '~/server/trpc';
 import { throwAuthorizationError } from '~/server/utils/errorHandling';
-import { CacheTTL } from '~/server/common/constants';
 import { rateLimit } from '~/server/middleware.trpc';
 
 const isOwnerOrModerator = middleware(async ({ ctx, next, input }) => {
@@ -100,7 +99,7 @@ export const commentRouter = router({
     .input(commentUpsertInput)
     .use(isOwnerOrModerator)
     .use(isLocked)
-    .use(rateLimit({ limit: 60, period: CacheTTL.hour }))
+    .use(rateLimit('comments'))
     .mutation(upsertCommentHandler),
   delete: protectedProcedure
     .input(getByIdSchema)
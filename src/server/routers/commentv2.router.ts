@@ -25,7 +25,6 @@ import {
 import { dbRead } from '~/server/db/client';
 import { throwAuthorizationError } from '~/server/utils/errorHandling';
 import { toggleHideCommentSchema } from '~/server/schema/commentv2.schema';
-import { CacheTTL } from '~/server/common/constants';
 import { rateLimit } from '~/server/middleware.trpc';
 
 const isOwnerOrModerator = middleware(async ({ ctx, next, input = {} }) => {
@@ -55,7 +54,7 @@ export const commentv2Router = router({
   upsert: guardedProcedure
     .input(upsertCommentv2Schema)
     .use(isOwnerOrModerator)
-    .use(rateLimit({ limit: 60, period: CacheTTL.hour }))
+    .use(rateLimit('comments'))
     .mutation(upsertCommentV2Handler),
   delete: protectedProcedure
     .input(getByIdSchema)
@@ -1,12 +1,23 @@
-import { donateToGoalInput } from '~/server/schema/donation-goal.schema';
-import { donateToGoal } from '~/server/services/donation-goal.service';
+import { KeyScope } from '@prisma/client';
+import { donateToGoalInput, updateDonationGoalSchema } from '~/server/schema/donation-goal.schema';
+import { donateToGoal, updateDonationGoal } from '~/server/services/donation-goal.service';
 import { protectedProcedure, router } from '~/server/trpc';
 
 export const donationGoalRouter = router({
-  donate: protectedProcedure.input(donateToGoalInput).mutation(({ input, ctx }) => {
-    return donateToGoal({
+  donate: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.BuzzSpend })
+    .input(donateToGoalInput)
+    .mutation(({ input, ctx }) => {
+      return donateToGoal({
+        ...input,
+        userId: ctx.user.id,
+      });
+    }),
+  update: protectedProcedure.input(updateDonationGoalSchema).mutation(({ input, ctx }) => {
+    return updateDonationGoal({
       ...input,
       userId: ctx.user.id,
+      isModerator: ctx.user.isModerator,
     });
   }),
 });
@@ -2,12 +2,14 @@ import {
   actionEntityCollaboratorInviteInput,
   getEntityCollaboratorsInput,
   removeEntityCollaboratorInput,
+  updateEntityCollaboratorRoleInput,
   upsertEntityCollaboratorInput,
 } from '~/server/schema/entity-collaborator.schema';
 import {
   actionEntityCollaborationInvite,
   getEntityCollaborators,
   removeEntityCollaborator,
+  updateEntityCollaboratorRole,
   upsertEntityCollaborator,
 } from '~/server/services/entity-collaborator.service';
 import { protectedProcedure, publicProcedure, router } from '~/server/trpc';
@@ -26,6 +28,15 @@ export const entityCollaboratorRouter = router({
     .mutation(({ input, ctx }) =>
       removeEntityCollaborator({ ...input, userId: ctx.user.id, isModerator: ctx.user.isModerator })
     ),
+  updateRole: protectedProcedure
+    .input(updateEntityCollaboratorRoleInput)
+    .mutation(({ input, ctx }) =>
+      updateEntityCollaboratorRole({
+        ...input,
+        userId: ctx.user.id,
+        isModerator: ctx.user.isModerator,
+      })
+    ),
   action: protectedProcedure.input(actionEntityCollaboratorInviteInput).mutation(({ input, ctx }) =>
     actionEntityCollaborationInvite({
       ...input,
@@ -6,6 +6,7 @@ import {
   getHomeBlocksHandler,
   getSystemHomeBlocksHandler,
   setHomeBlocksOrderHandler,
+  upsertCustomHomeBlockHandler,
 } from '~/server/controllers/home-block.controller';
 import { edgeCacheIt } from '~/server/middleware.trpc';
 import {
@@ -14,6 +15,7 @@ import {
   createCollectionHomeBlockInputSchema,
   getSystemHomeBlocksInputSchema,
   setHomeBlocksOrderInput,
+  upsertCustomHomeBlockInput,
 } from '~/server/schema/home-block.schema';
 import { getByIdSchema } from '~/server/schema/base.schema';
 
@@ -35,6 +37,10 @@ export const homeBlockRouter = router({
     .input(createCollectionHomeBlockInputSchema)
     .use(isFlagProtected('alternateHome'))
     .mutation(createCollectionHomeBlockHandler),
+  upsertCustomHomeBlock: protectedProcedure
+    .input(upsertCustomHomeBlockInput)
+    .use(isFlagProtected('alternateHome'))
+    .mutation(upsertCustomHomeBlockHandler),
   setHomeBlockOrder: protectedProcedure
     .input(setHomeBlocksOrderInput)
     .use(isFlagProtected('alternateHome'))
@@ -1,3 +1,4 @@
+import { KeyScope } from '@prisma/client';
 import { cacheIt, edgeCacheIt } from './../middleware.trpc';
 import {
   getEntitiesCoverImageHandler,
@@ -89,6 +90,7 @@ const isOwnerOrModerator = middleware(async ({ ctx, next, input = {} }) => {
 // TODO.cleanup - remove unused router methods
 export const imageRouter = router({
   create: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.ImagesWrite })
     .input(createImageSchema)
     .mutation(({ input, ctx }) => createImage({ ...input, userId: ctx.user.id })),
   createArticleCoverImage: moderatorProcedure
@@ -99,6 +101,7 @@ export const imageRouter = router({
     .mutation(({ input }) => ingestArticleCoverImages(input)),
   moderate: moderatorProcedure.input(imageModerationSchema).mutation(moderateImageHandler),
   delete: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.ImagesWrite })
     .input(getByIdSchema)
     .use(isOwnerOrModerator)
     .mutation(deleteImageHandler),
@@ -0,0 +1,11 @@
+import { getByIdSchema } from '~/server/schema/base.schema';
+import { getImportProgressById } from '~/server/services/import.service';
+import { protectedProcedure, router } from '~/server/trpc';
+
+export const importRouter = router({
+  getProgress: protectedProcedure
+    .input(getByIdSchema)
+    .query(({ input, ctx }) =>
+      getImportProgressById({ ...input, userId: ctx.user.id, isModerator: ctx.user.isModerator })
+    ),
+});
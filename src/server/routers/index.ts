@@ -29,6 +29,7 @@ import { generationRouter } from './generation.router';
 import { hiddenPreferencesRouter } from './hidden-preferences.router';
 import { homeBlockRouter } from './home-block.router';
 import { imageRouter } from './image.router';
+import { importRouter } from './import.router';
 import { leaderboardRouter } from './leaderboard.router';
 import { modelFileRouter } from './model-file.router';
 import { modelVersionRouter } from './model-version.router';
@@ -56,6 +57,7 @@ import { paypalRouter } from './paypal.router';
 import { buildGuideRouter } from './build-guide.router';
 import { purchasableRewardRouter } from './purchasable-reward.router';
 import { vaultRouter } from './vault.router';
+import { webhookRouter } from './webhook.router';
 import { researchRouter } from '~/server/routers/research.router';
 import { redeemableCodeRouter } from '~/server/routers/redeemableCode.router';
 import { toolRouter } from '~/server/routers/tool.router';
@@ -91,6 +93,7 @@ export const appRouter = router({
   download: downloadRouter,
   homeBlock: homeBlockRouter,
   image: imageRouter,
+  import: importRouter,
   model: modelRouter,
   modelFile: modelFileRouter,
   modelVersion: modelVersionRouter,
@@ -126,6 +129,7 @@ export const appRouter = router({
   buildGuide: buildGuideRouter,
   purchasableReward: purchasableRewardRouter,
   vault: vaultRouter,
+  webhook: webhookRouter,
   research: researchRouter,
   redeemableCode: redeemableCodeRouter,
   tool: toolRouter,
@@ -1,3 +1,4 @@
+import { KeyScope } from '@prisma/client';
 import {
   createFileHandler,
   deleteFileHandler,
@@ -15,9 +16,21 @@ import { protectedProcedure, publicProcedure, router } from '~/server/trpc';
 
 export const modelFileRouter = router({
   getByVersionId: publicProcedure.input(getByIdSchema).query(getFilesByVersionIdHandler),
-  create: protectedProcedure.input(modelFileCreateSchema).mutation(createFileHandler),
-  update: protectedProcedure.input(modelFileUpdateSchema).mutation(updateFileHandler),
-  upsert: protectedProcedure.input(modelFileUpsertSchema).mutation(upsertFileHandler),
-  delete: protectedProcedure.input(getByIdSchema).mutation(deleteFileHandler),
+  create: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.ModelsWrite })
+    .input(modelFileCreateSchema)
+    .mutation(createFileHandler),
+  update: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.ModelsWrite })
+    .input(modelFileUpdateSchema)
+    .mutation(updateFileHandler),
+  upsert: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.ModelsWrite })
+    .input(modelFileUpsertSchema)
+    .mutation(upsertFileHandler),
+  delete: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.ModelsWrite })
+    .input(getByIdSchema)
+    .mutation(deleteFileHandler),
   // deleteMany: protectedProcedure.input(deleteApiKeyInputSchema).mutation(deleteApiKeyHandler),
 });
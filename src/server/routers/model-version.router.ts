@@ -1,3 +1,4 @@
+import { EntityType, KeyScope } from '@prisma/client';
 import {
   declineReviewHandler,
   deleteModelVersionHandler,
@@ -16,6 +17,7 @@ import {
   getModelVersionOwnerHandler,
 } from '~/server/controllers/model-version.controller';
 import { getByIdSchema } from '~/server/schema/base.schema';
+import { EntityCollaboratorPermission } from '~/server/schema/entity-collaborator.schema';
 import {
   deleteExplorationPromptSchema,
   earlyAccessModelVersionsOnTimeframeSchema,
@@ -35,6 +37,7 @@ import {
   getVersionById,
   upsertExplorationPrompt,
 } from '~/server/services/model-version.service';
+import { hasEntityCollaboratorPermission } from '~/server/services/entity-collaborator.service';
 import { getModel } from '~/server/services/model.service';
 import {
   guardedProcedure,
@@ -47,27 +50,38 @@ import {
 } from '~/server/trpc';
 import { throwAuthorizationError } from '~/server/utils/errorHandling';
 
-const isOwnerOrModerator = middleware(async ({ ctx, input, next }) => {
-  if (!ctx.user) throw throwAuthorizationError();
-  if (ctx.user.isModerator) return next({ ctx: { user: ctx.user } });
+// Without a permission, only the model owner is allowed
+const isOwnerOrCollaborator = (permission?: EntityCollaboratorPermission) =>
+  middleware(async ({ ctx, input, next }) => {
+    if (!ctx.user) throw throwAuthorizationError();
+    if (ctx.user.isModerator) return next({ ctx: { user: ctx.user } });
 
-  const { id: userId } = ctx.user;
-  const { id } = input as { id: number };
+    const { id: userId } = ctx.user;
+    const { id } = input as { id: number };
 
-  if (id) {
-    const modelId = (await getVersionById({ id, select: { modelId: true } }))?.modelId ?? 0;
-    const ownerId = (await getModel({ id: modelId, select: { userId: true } }))?.userId ?? -1;
+    if (id) {
+      const modelId = (await getVersionById({ id, select: { modelId: true } }))?.modelId ?? 0;
+      const ownerId = (await getModel({ id: modelId, select: { userId: true } }))?.userId ?? -1;
 
-    if (userId !== ownerId) throw throwAuthorizationError();
-  }
+      const isCollaborator =
+        !!permission &&
+        (await hasEntityCollaboratorPermission({
+          entityType: EntityType.Model,
+          entityId: modelId,
+          userId,
+          permission,
+        }));
+      if (userId !== ownerId && !isCollaborator) throw throwAuthorizationError();
+    }
 
-  return next({
-    ctx: {
-      ...ctx,
-      user: ctx.user,
-    },
+    return next({
+      ctx: {
+        ...ctx,
+        user: ctx.user,
+      },
+    });
   });
-});
+const isOwnerOrModerator = isOwnerOrCollaborator();
 
 export const modelVersionRouter = router({
   getById: publicProcedure.input(getModelVersionSchema).query(getModelVersionHandler),
@@ -81,28 +95,32 @@ export const modelVersionRouter = router({
     .use(isFlagProtected('earlyAccessModel'))
     .mutation(toggleNotifyEarlyAccessHandler),
   upsert: guardedProcedure
+    .meta({ apiKeyScope: KeyScope.ModelsWrite })
     .input(modelVersionUpsertSchema2)
-    .use(isOwnerOrModerator)
+    .use(isOwnerOrCollaborator('edit'))
     .mutation(upsertModelVersionHandler),
   delete: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.ModelsWrite })
     .input(getByIdSchema)
     .use(isOwnerOrModerator)
     .mutation(deleteModelVersionHandler),
   publish: guardedProcedure
+    .meta({ apiKeyScope: KeyScope.ModelsWrite })
     .input(publishVersionSchema)
-    .use(isOwnerOrModerator)
+    .use(isOwnerOrCollaborator('publish'))
     .mutation(publishModelVersionHandler),
   unpublish: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.ModelsWrite })
     .input(unpublishModelSchema)
-    .use(isOwnerOrModerator)
+    .use(isOwnerOrCollaborator('publish'))
     .mutation(unpublishModelVersionHandler),
   upsertExplorationPrompt: protectedProcedure
     .input(upsertExplorationPromptSchema)
-    .use(isOwnerOrModerator)
+    .use(isOwnerOrCollaborator('edit'))
     .mutation(({ input }) => upsertExplorationPrompt(input)),
   deleteExplorationPrompt: protectedProcedure
     .input(deleteExplorationPromptSchema)
-    .use(isOwnerOrModerator)
+    .use(isOwnerOrCollaborator('edit'))
     .mutation(({ input }) => deleteExplorationPrompt(input)),
   requestReview: protectedProcedure
     .input(getByIdSchema)
@@ -120,6 +138,7 @@ export const modelVersionRouter = router({
     .query(modelVersionGeneratedImagesOnTimeframeHandler),
   getLicense: publicProcedure.input(getByIdSchema).query(getVersionLicenseHandler),
   earlyAccessPurchase: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.BuzzSpend })
     .input(modelVersionEarlyAccessPurchase)
     .mutation(modelVersionEarlyAccessPurchaseHandler),
   donationGoals: publicProcedure.input(getByIdSchema).query(modelVersionDonationGoalsHandler),
@@ -1,3 +1,4 @@
+import { EntityType, KeyScope } from '@prisma/client';
 import { z } from 'zod';
 import {
   changeModelModifierHandler,
@@ -34,6 +35,7 @@ import {
 import { dbRead } from '~/server/db/client';
 import { applyUserPreferences, cacheIt, edgeCacheIt } from '~/server/middleware.trpc';
 import { getAllQuerySchema, getByIdSchema } from '~/server/schema/base.schema';
+import { EntityCollaboratorPermission } from '~/server/schema/entity-collaborator.schema';
 import {
   changeModelModifierSchema,
   declineReviewSchema,
@@ -73,6 +75,7 @@ import {
   publicProcedure,
   router,
 } from '~/server/trpc';
+import { hasEntityCollaboratorPermission } from '~/server/services/entity-collaborator.service';
 import { throwAuthorizationError } from '~/server/utils/errorHandling';
 
 const isOwnerOrModerator = middleware(async ({ ctx, next, input = {} }) => {
@@ -96,6 +99,37 @@ const isOwnerOrModerator = middleware(async ({ ctx, next, input = {} }) => {
   });
 });
 
+const isOwnerOrCollaborator = (permission: EntityCollaboratorPermission) =>
+  middleware(async ({ ctx, next, input = {} }) => {
+    if (!ctx.user) throw throwAuthorizationError();
+
+    const { id } = input as { id: number };
+
+    const userId = ctx.user.id;
+    const isModerator = ctx?.user?.isModerator;
+    if (!isModerator && !!id) {
+      const ownerId = (await dbRead.model.findUnique({ where: { id }, select: { userId: true } }))
+        ?.userId;
+      if (
+        ownerId !== userId &&
+        !(await hasEntityCollaboratorPermission({
+          entityType: EntityType.Model,
+          entityId: id,
+          userId,
+          permission,
+        }))
+      )
+        throw throwAuthorizationError();
+    }
+
+    return next({
+      ctx: {
+        // infers the `user` as non-nullable
+        user: ctx.user,
+      },
+    });
+  });
+
 const skipEdgeCache = middleware(async ({ input, ctx, next }) => {
   const _input = input as GetAllModelsOutput;
 
@@ -125,18 +159,24 @@ export const modelRouter = router({
     .input(getAllQuerySchema)
     .query(getMyTrainingModelsHandler),
   getAvailableTrainingModels: protectedProcedure.query(getAvailableTrainingModelsHandler),
-  upsert: guardedProcedure.input(modelUpsertSchema).mutation(upsertModelHandler),
+  upsert: guardedProcedure
+    .meta({ apiKeyScope: KeyScope.ModelsWrite })
+    .input(modelUpsertSchema)
+    .mutation(upsertModelHandler),
   delete: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.ModelsWrite })
     .input(deleteModelSchema)
     .use(isOwnerOrModerator)
     .mutation(deleteModelHandler),
   publish: guardedProcedure
+    .meta({ apiKeyScope: KeyScope.ModelsWrite })
     .input(publishModelSchema)
-    .use(isOwnerOrModerator)
+    .use(isOwnerOrCollaborator('publish'))
     .mutation(publishModelHandler),
   unpublish: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.ModelsWrite })
     .input(unpublishModelSchema)
-    .use(isOwnerOrModerator)
+    .use(isOwnerOrCollaborator('publish'))
     .mutation(unpublishModelHandler),
   // TODO - TEMP HACK for reporting modal
   getModelReportDetails: publicProcedure.input(getByIdSchema).query(getModelReportDetailsHandler),
@@ -146,8 +186,9 @@ export const modelRouter = router({
   restore: moderatorProcedure.input(getByIdSchema).mutation(restoreModelHandler),
   getDownloadCommand: protectedProcedure.input(getDownloadSchema).query(getDownloadCommandHandler),
   reorderVersions: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.ModelsWrite })
     .input(reorderModelVersionsSchema)
-    .use(isOwnerOrModerator)
+    .use(isOwnerOrCollaborator('edit'))
     .mutation(reorderModelVersionsHandler),
   toggleLock: protectedProcedure
     .input(toggleModelLockSchema)
@@ -196,7 +237,7 @@ export const modelRouter = router({
   getGallerySettings: publicProcedure.input(getByIdSchema).query(getModelGallerySettingsHandler),
   updateGallerySettings: guardedProcedure
     .input(updateGallerySettingsSchema)
-    .use(isOwnerOrModerator)
+    .use(isOwnerOrCollaborator('edit'))
     .mutation(updateGallerySettingsHandler),
   toggleCheckpointCoverage: moderatorProcedure
     .input(toggleCheckpointCoverageSchema)
@@ -5,9 +5,45 @@ import {
   handleDenyTrainingData,
 } from '~/server/controllers/training.controller';
 import { getByIdSchema, getByIdsSchema } from '~/server/schema/base.schema';
+import {
+  previewComputedTagRuleSchema,
+  upsertComputedTagRuleSchema,
+} from '~/server/schema/computed-tag-rule.schema';
+import { getJobRunsSchema, runJobSchema } from '~/server/schema/job-run.schema';
 import { queryModelVersionsSchema } from '~/server/schema/model-version.schema';
 import { getAllModelsSchema } from '~/server/schema/model.schema';
+import {
+  getPromptModerationLogsSchema,
+  reviewPromptModerationLogSchema,
+  testPromptModerationSchema,
+  upsertPromptModerationRuleSchema,
+} from '~/server/schema/prompt-moderation.schema';
+import {
+  getRateLimitOverridesSchema,
+  upsertRateLimitOverrideSchema,
+} from '~/server/schema/rate-limit.schema';
+import {
+  deleteComputedTagRule,
+  getAllComputedTagRules,
+  previewComputedTagRule,
+  upsertComputedTagRule,
+} from '~/server/services/computed-tag-rule.service';
+import { getJobRunNames, getJobRunsPaged, triggerJobRun } from '~/server/services/job-run.service';
 import { getVersionById } from '~/server/services/model-version.service';
+import {
+  deletePromptModerationRule,
+  getAllPromptModerationRules,
+  getPromptModerationLogsPaged,
+  reviewPromptModerationLog,
+  testPromptModeration,
+  upsertPromptModerationRule,
+} from '~/server/services/prompt-moderation.service';
+import {
+  deleteRateLimitOverride,
+  getRateLimitOverridesPaged,
+  getRateLimitPolicies,
+  upsertRateLimitOverride,
+} from '~/server/services/rate-limit.service';
 import { createTrainingRequest } from '~/server/services/training.service';
 import { moderatorProcedure, router } from '~/server/trpc';
 
@@ -24,6 +60,57 @@ export const modRouter = router({
     approve: moderatorProcedure.input(getByIdSchema).mutation(handleApproveTrainingData),
     deny: moderatorProcedure.input(getByIdSchema).mutation(handleDenyTrainingData),
   }),
+  jobs: router({
+    getRuns: moderatorProcedure
+      .input(getJobRunsSchema)
+      .query(({ input }) => getJobRunsPaged(input)),
+    getNames: moderatorProcedure.query(() => getJobRunNames()),
+    run: moderatorProcedure
+      .input(runJobSchema)
+      .mutation(({ input, ctx }) => triggerJobRun({ ...input, userId: ctx.user.id })),
+  }),
+  rateLimits: router({
+    getPolicies: moderatorProcedure.query(() => getRateLimitPolicies()),
+    getOverrides: moderatorProcedure
+      .input(getRateLimitOverridesSchema)
+      .query(({ input }) => getRateLimitOverridesPaged(input)),
+    upsertOverride: moderatorProcedure
+      .input(upsertRateLimitOverrideSchema)
+      .mutation(({ input, ctx }) => upsertRateLimitOverride({ ...input, userId: ctx.user.id })),
+    deleteOverride: moderatorProcedure
+      .input(getByIdSchema)
+      .mutation(({ input }) => deleteRateLimitOverride(input)),
+  }),
+  tagRules: router({
+    getAll: moderatorProcedure.query(() => getAllComputedTagRules()),
+    upsert: moderatorProcedure
+      .input(upsertComputedTagRuleSchema)
+      .mutation(({ input, ctx }) => upsertComputedTagRule({ ...input, userId: ctx.user.id })),
+    delete: moderatorProcedure
+      .input(getByIdSchema)
+      .mutation(({ input }) => deleteComputedTagRule(input)),
+    preview: moderatorProcedure
+      .input(previewComputedTagRuleSchema)
+      .mutation(({ input }) => previewComputedTagRule(input)),
+  }),
+  promptModeration: router({
+    getRules: moderatorProcedure.query(() => getAllPromptModerationRules()),
+    upsertRule: moderatorProcedure
+      .input(upsertPromptModerationRuleSchema)
+      .mutation(({ input, ctx }) => upsertPromptModerationRule({ ...input, userId: ctx.user.id })),
+    deleteRule: moderatorProcedure
+      .input(getByIdSchema)
+      .mutation(({ input }) => deletePromptModerationRule(input)),
+    test: moderatorProcedure
+      .input(testPromptModerationSchema)
+      .mutation(({ input }) => testPromptModeration(input)),
+    getLogs: moderatorProcedure
+      .input(getPromptModerationLogsSchema)
+      .query(({ input }) => getPromptModerationLogsPaged(input)),
+    review: moderatorProcedure
+      .input(reviewPromptModerationLogSchema)
+      .mutation(({ input, ctx }) => reviewPromptModerationLog({ ...input, userId: ctx.user.id })),
+  }),
 });
 
 // // export type definition of API
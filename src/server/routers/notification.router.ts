@@ -1,10 +1,13 @@
 import {
+  getUserNotificationFrequenciesHandler,
   getUserNotificationsInfiniteHandler,
+  setUserNotificationFrequencyHandler,
   upsertUserNotificationSettingsHandler,
 } from '~/server/controllers/notification.controller';
 import {
   getUserNotificationsSchema,
   markReadNotificationInput,
+  setNotificationFrequencyInput,
   toggleNotificationSettingInput,
 } from '~/server/schema/notification.schema';
 import { markNotificationsRead } from '~/server/services/notification.service';
@@ -20,4 +23,8 @@ export const notificationRouter = router({
   updateUserSettings: protectedProcedure
     .input(toggleNotificationSettingInput)
     .mutation(upsertUserNotificationSettingsHandler),
+  getFrequencies: protectedProcedure.query(getUserNotificationFrequenciesHandler),
+  setFrequency: protectedProcedure
+    .input(setNotificationFrequencyInput)
+    .mutation(setUserNotificationFrequencyHandler),
 });
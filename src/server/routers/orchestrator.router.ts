@@ -1,5 +1,10 @@
+import { KeyScope } from '@prisma/client';
 import { z } from 'zod';
-import { workflowQuerySchema, workflowIdSchema } from './../schema/orchestrator/workflows.schema';
+import {
+  workflowQuerySchema,
+  workflowIdSchema,
+  workflowStepIdSchema,
+} from './../schema/orchestrator/workflows.schema';
 import {
   generateImageSchema,
   generateImageWhatIfSchema,
@@ -24,7 +29,11 @@ import { throwAuthorizationError } from '~/server/utils/errorHandling';
 import { generationServiceCookie } from '~/shared/constants/generation.constants';
 import { updateWorkflowStepSchema } from '~/server/services/orchestrator/orchestrator.schema';
 import { updateWorkflowSteps } from '~/server/services/orchestrator/workflowSteps';
-import { createComfy, createComfyStep } from '~/server/services/orchestrator/comfy/comfy';
+import {
+  createComfy,
+  createComfyStep,
+  getStepComfyPrompt,
+} from '~/server/services/orchestrator/comfy/comfy';
 import dayjs from 'dayjs';
 import { queryGeneratedImageWorkflows } from '~/server/services/orchestrator/common';
 import { generatorFeedbackReward } from '~/server/rewards';
@@ -56,9 +65,11 @@ const orchestratorGuardedProcedure = guardedProcedure.use(orchestratorMiddleware
 export const orchestratorRouter = router({
   // #region [requests]
   deleteWorkflow: orchestratorProcedure
+    .meta({ apiKeyScope: KeyScope.GenerationSubmit })
     .input(workflowIdSchema)
     .mutation(({ ctx, input }) => deleteWorkflow({ ...input, token: ctx.token })),
   cancelWorkflow: orchestratorProcedure
+    .meta({ apiKeyScope: KeyScope.GenerationSubmit })
     .input(workflowIdSchema)
     .mutation(({ ctx, input }) => cancelWorkflow({ ...input, token: ctx.token })),
   // #endregion
@@ -99,7 +110,11 @@ export const orchestratorRouter = router({
   queryGeneratedImages: orchestratorProcedure
     .input(workflowQuerySchema)
     .query(({ ctx, input }) => queryGeneratedImageWorkflows({ ...input, token: ctx.token })),
+  getStepComfyPrompt: orchestratorProcedure
+    .input(workflowStepIdSchema)
+    .query(({ ctx, input }) => getStepComfyPrompt({ ...input, token: ctx.token })),
   generateImage: orchestratorGuardedProcedure
+    .meta({ apiKeyScope: KeyScope.GenerationSubmit })
     .input(generateImageSchema)
     .mutation(async ({ ctx, input }) => {
       try {
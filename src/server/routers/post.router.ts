@@ -30,7 +30,10 @@ import {
   postsQuerySchema,
   updatePostCollectionTagIdInput,
 } from './../schema/post.schema';
+import { EntityType, KeyScope } from '@prisma/client';
 import { dbWrite } from '~/server/db/client';
+import { EntityCollaboratorPermission } from '~/server/schema/entity-collaborator.schema';
+import { hasEntityCollaboratorPermission } from '~/server/services/entity-collaborator.service';
 import { router, protectedProcedure, middleware } from '~/server/trpc';
 import { throwAuthorizationError } from '~/server/utils/errorHandling';
 
@@ -55,6 +58,38 @@ const isOwnerOrModerator = middleware(async ({ ctx, next, input = {} }) => {
   });
 });
 
+const isOwnerOrCollaborator = (permission: EntityCollaboratorPermission) =>
+  middleware(async ({ ctx, next, input = {} }) => {
+    if (!ctx.user) throw throwAuthorizationError();
+
+    const { id, postId = id } = input as { id?: number; postId?: number };
+
+    const userId = ctx.user.id;
+    const isModerator = ctx?.user?.isModerator;
+    if (!isModerator && !!postId) {
+      const ownerId = (
+        await dbWrite.post.findUnique({ where: { id: postId }, select: { userId: true } })
+      )?.userId;
+      if (
+        ownerId !== userId &&
+        !(await hasEntityCollaboratorPermission({
+          entityType: EntityType.Post,
+          entityId: postId,
+          userId,
+          permission,
+        }))
+      )
+        throw throwAuthorizationError();
+    }
+
+    return next({
+      ctx: {
+        // infers the `user` as non-nullable
+        user: ctx.user,
+      },
+    });
+  });
+
 // TODO.hotfix: added this middleware to allow editing images and check if it's the owner
 const isImageOwnerOrModerator = middleware(async ({ ctx, next, input = {} }) => {
   if (!ctx.user) throw throwAuthorizationError();
@@ -86,38 +121,48 @@ export const postRouter = router({
   getEdit: protectedProcedure
     .input(getByIdSchema)
     .query(({ ctx, input }) => getPostEditDetail({ ...input, user: ctx.user })),
-  create: guardedProcedure.input(postCreateSchema).mutation(createPostHandler),
+  create: guardedProcedure
+    .meta({ apiKeyScope: KeyScope.ImagesWrite })
+    .input(postCreateSchema)
+    .mutation(createPostHandler),
   update: guardedProcedure
+    .meta({ apiKeyScope: KeyScope.ImagesWrite })
     .input(postUpdateSchema)
-    .use(isOwnerOrModerator)
+    .use(isOwnerOrCollaborator('edit'))
     .mutation(updatePostHandler),
   delete: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.ImagesWrite })
     .input(getByIdSchema)
     .use(isOwnerOrModerator)
     .mutation(deletePostHandler),
   addImage: guardedProcedure
+    .meta({ apiKeyScope: KeyScope.ImagesWrite })
     .input(addPostImageSchema)
-    .use(isOwnerOrModerator)
+    .use(isOwnerOrCollaborator('upload'))
     .mutation(addPostImageHandler),
   updateImage: guardedProcedure
+    .meta({ apiKeyScope: KeyScope.ImagesWrite })
     .input(updatePostImageSchema)
     .use(isImageOwnerOrModerator)
     .mutation(updatePostImageHandler),
   reorderImages: guardedProcedure
+    .meta({ apiKeyScope: KeyScope.ImagesWrite })
     .input(reorderPostImagesSchema)
-    .use(isOwnerOrModerator)
+    .use(isOwnerOrCollaborator('edit'))
     .mutation(reorderPostImagesHandler),
   getTags: publicProcedure
     .input(getPostTagsSchema)
     .use(applyUserPreferences)
     .query(getPostTagsHandler),
   addTag: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.ImagesWrite })
     .input(addPostTagSchema)
-    .use(isOwnerOrModerator)
+    .use(isOwnerOrCollaborator('edit'))
     .mutation(addPostTagHandler),
   removeTag: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.ImagesWrite })
     .input(removePostTagSchema)
-    .use(isOwnerOrModerator)
+    .use(isOwnerOrCollaborator('edit'))
     .mutation(removePostTagHandler),
   getResources: publicProcedure.input(getByIdSchema).query(getPostResourcesHandler),
   getContestCollectionDetails: publicProcedure
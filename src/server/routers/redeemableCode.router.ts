@@ -1,13 +1,17 @@
 import {
   consumeRedeemableCodeSchema,
+  createRedeemableCodeBatchSchema,
   createRedeemableCodeSchema,
   deleteRedeemableCodeSchema,
+  getRedeemableCodeBatchesSchema,
 } from '~/server/schema/redeemableCode.schema';
 import { moderatorProcedure, protectedProcedure, router } from '~/server/trpc';
 import {
   consumeRedeemableCode,
+  createRedeemableCodeBatch,
   createRedeemableCodes,
   deleteRedeemableCode,
+  getRedeemableCodeBatchesPaged,
 } from '~/server/services/redeemableCode.service';
 import { cachedCounter } from '~/server/utils/cache-helpers';
 import { REDIS_KEYS } from '~/server/redis/client';
@@ -20,6 +24,16 @@ export const redeemableCodeRouter = router({
     await ctx.track.redeemableCode('create', { quantity: codes.length });
     return codes;
   }),
+  createBatch: moderatorProcedure
+    .input(createRedeemableCodeBatchSchema)
+    .mutation(async ({ input, ctx }) => {
+      const batch = await createRedeemableCodeBatch({ ...input, userId: ctx.user.id });
+      await ctx.track.redeemableCode('create', { quantity: batch.codes.length });
+      return batch;
+    }),
+  getBatches: moderatorProcedure
+    .input(getRedeemableCodeBatchesSchema)
+    .query(({ input }) => getRedeemableCodeBatchesPaged(input)),
   delete: moderatorProcedure.input(deleteRedeemableCodeSchema).mutation(async ({ input, ctx }) => {
     await deleteRedeemableCode(input);
     await ctx.track.redeemableCode('delete', { code: input.code });
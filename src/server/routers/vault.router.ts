@@ -1,3 +1,4 @@
+import { KeyScope } from '@prisma/client';
 import {
   getPaginatedVaultItemsSchema,
   vaultItemsAddModelVersionSchema,
@@ -18,15 +19,19 @@ import { protectedProcedure, router } from '~/server/trpc';
 import { getByIdSchema } from '../schema/base.schema';
 
 export const vaultRouter = router({
-  get: protectedProcedure.query(({ ctx }) => {
+  get: protectedProcedure.meta({ apiKeyScope: KeyScope.VaultRead }).query(({ ctx }) => {
     return getOrCreateVault({
       userId: ctx.user.id,
     });
   }),
-  getItemsPaged: protectedProcedure.input(getPaginatedVaultItemsSchema).query(({ input, ctx }) => {
-    return getPaginatedVaultItems({ ...input, userId: ctx.user.id });
-  }),
+  getItemsPaged: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.VaultRead })
+    .input(getPaginatedVaultItemsSchema)
+    .query(({ input, ctx }) => {
+      return getPaginatedVaultItems({ ...input, userId: ctx.user.id });
+    }),
   isModelVersionInVault: protectedProcedure
+    .meta({ apiKeyScope: KeyScope.VaultRead })
     .input(vaultItemsAddModelVersionSchema)
     .query(({ input, ctx }) => {
       return isModelVersionInVault({ ...input, userId: ctx.user.id });
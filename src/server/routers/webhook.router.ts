@@ -0,0 +1,42 @@
+import { getByIdSchema, paginationSchema } from '~/server/schema/base.schema';
+import { getWebhookDeliveriesSchema, upsertWebhookSchema } from '~/server/schema/webhook.schema';
+import {
+  approveWebhook,
+  deleteWebhook,
+  getUserWebhooks,
+  getWebhookDeliveries,
+  getWebhooksPendingApproval,
+  rotateWebhookSecret,
+  sendTestWebhook,
+  upsertWebhook,
+} from '~/server/services/webhook.service';
+import { moderatorProcedure, protectedProcedure, router, verifiedProcedure } from '~/server/trpc';
+import { getWebhookTypes } from '~/server/webhooks/utils.webhooks';
+
+export const webhookRouter = router({
+  getTypes: protectedProcedure.query(({ ctx }) =>
+    getWebhookTypes({ isModerator: ctx.user.isModerator })
+  ),
+  getAll: protectedProcedure.query(({ ctx }) => getUserWebhooks({ userId: ctx.user.id })),
+  upsert: verifiedProcedure
+    .input(upsertWebhookSchema)
+    .mutation(({ input, ctx }) =>
+      upsertWebhook({ ...input, userId: ctx.user.id, isModerator: ctx.user.isModerator })
+    ),
+  delete: protectedProcedure
+    .input(getByIdSchema)
+    .mutation(({ input, ctx }) => deleteWebhook({ ...input, userId: ctx.user.id })),
+  rotateSecret: protectedProcedure
+    .input(getByIdSchema)
+    .mutation(({ input, ctx }) => rotateWebhookSecret({ ...input, userId: ctx.user.id })),
+  getDeliveries: protectedProcedure
+    .input(getWebhookDeliveriesSchema)
+    .query(({ input, ctx }) => getWebhookDeliveries({ ...input, userId: ctx.user.id })),
+  sendTest: protectedProcedure
+    .input(getByIdSchema)
+    .mutation(({ input, ctx }) => sendTestWebhook({ ...input, userId: ctx.user.id })),
+  getPendingApproval: moderatorProcedure
+    .input(paginationSchema)
+    .query(({ input }) => getWebhooksPendingApproval(input)),
+  approve: moderatorProcedure.input(getByIdSchema).mutation(({ input }) => approveWebhook(input)),
+});
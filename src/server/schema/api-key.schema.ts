@@ -1,5 +1,6 @@
 import { KeyScope } from '@prisma/client';
 import { TypeOf, z } from 'zod';
+import { isValidIpRange } from '~/utils/ip-helpers';
 
 export const getApiKeyInputSchema = z.object({ id: z.number() });
 export type GetAPIKeyInput = TypeOf<typeof getApiKeyInputSchema>;
@@ -13,6 +14,9 @@ export type GetUserAPIKeysInput = TypeOf<typeof getUserApiKeysInputSchema>;
 export const addApiKeyInputSchema = z.object({
   scope: z.array(z.nativeEnum(KeyScope)),
   name: z.string(),
+  allowedIps: z
+    .array(z.string().trim().refine(isValidIpRange, 'Must be an IP address or CIDR range'))
+    .optional(),
 });
 export type AddAPIKeyInput = z.input<typeof addApiKeyInputSchema>;
 
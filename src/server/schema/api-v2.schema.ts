@@ -0,0 +1,255 @@
+import { MediaType, MetricTimeframe, ModelModifier, ModelType } from '@prisma/client';
+import superjson from 'superjson';
+import { z, ZodTypeAny } from 'zod';
+import { constants } from '~/server/common/constants';
+import { ImageSort, ModelSort } from '~/server/common/enums';
+import { usernameSchema } from '~/server/schema/user.schema';
+import {
+  booleanString,
+  commaDelimitedEnumArray,
+  commaDelimitedNumberArray,
+  commaDelimitedStringArray,
+  numericString,
+  stringToArray,
+} from '~/utils/zod-helpers';
+
+// #region [shared]
+/** Decodes a cursor made by `encodeCursor`, so that cursors that don't match the resource are rejected with the rest of the query */
+export function apiV2CursorSchema<T extends ZodTypeAny>(schema: T) {
+  return z
+    .string()
+    .transform((cursor, ctx): z.output<T> => {
+      let value: unknown;
+      try {
+        value = superjson.parse(Buffer.from(cursor, 'base64url').toString());
+      } catch (e) {
+        // Reported below, undefined is never a valid cursor
+      }
+
+      const result = schema.safeParse(value);
+      if (!result.success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+        return z.NEVER;
+      }
+      return result.data;
+    })
+    .optional()
+    .describe('Opaque cursor returned in `metadata.nextCursor`');
+}
+
+// Keyset cursors of the raw queries, with a number or date for each sort field separated by `|`
+const sortCursorSchema = z.union([
+  z.bigint(),
+  z.number().int(),
+  z.date(),
+  z
+    .string()
+    .refine((cursor) =>
+      cursor
+        .split('|')
+        .every((part) => (part.includes('-') ? !isNaN(Date.parse(part)) : /^\d+$/.test(part)))
+    ),
+]);
+
+export const apiV2PaginationSchema = z.object({
+  limit: numericString(z.number().int().min(1).max(100))
+    .default(20)
+    .describe('Number of items to return'),
+  fields: commaDelimitedStringArray()
+    .optional()
+    .describe('Comma delimited list of fields to return, use dots for nested fields'),
+});
+export type ApiV2PaginationInput = z.infer<typeof apiV2PaginationSchema>;
+
+export const apiV2MetadataSchema = z.object({
+  nextCursor: z.string().optional(),
+  nextPage: z.string().optional(),
+});
+
+export const apiV2ErrorSchema = z.object({
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    issues: z
+      .object({ path: z.string(), message: z.string() })
+      .array()
+      .optional()
+      .describe('Validation issues, only included for invalid requests'),
+  }),
+});
+export type ApiV2Error = z.infer<typeof apiV2ErrorSchema>['error'];
+// #endregion
+
+// #region [models]
+export const modelsV2QuerySchema = apiV2PaginationSchema.extend({
+  cursor: apiV2CursorSchema(sortCursorSchema),
+  query: z.string().optional(),
+  tag: z.string().optional(),
+  username: usernameSchema.optional(),
+  types: z.preprocess(stringToArray, z.nativeEnum(ModelType).array()).optional(),
+  baseModels: commaDelimitedEnumArray(z.enum(constants.baseModels)).optional(),
+  sort: z.nativeEnum(ModelSort).default(constants.modelFilterDefaults.sort),
+  period: z.nativeEnum(MetricTimeframe).default(constants.modelFilterDefaults.period),
+  ids: commaDelimitedNumberArray().optional(),
+  nsfw: booleanString().optional().describe('Include mature content'),
+});
+export type ModelsV2QueryInput = z.infer<typeof modelsV2QuerySchema>;
+
+const imageV2Schema = z.object({
+  id: z.number().int(),
+  url: z.string(),
+  nsfwLevel: z.number().int(),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  hash: z.string().nullable(),
+  type: z.nativeEnum(MediaType),
+});
+
+export const modelV2Schema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  description: z.string().nullable(),
+  type: z.nativeEnum(ModelType),
+  nsfw: z.boolean(),
+  nsfwLevel: z.number().int(),
+  poi: z.boolean(),
+  mode: z.nativeEnum(ModelModifier).nullable(),
+  creator: z.object({ username: z.string().nullable(), image: z.string().nullable() }).nullable(),
+  tags: z.string().array(),
+  stats: z.object({
+    downloadCount: z.number().int(),
+    thumbsUpCount: z.number().int(),
+    thumbsDownCount: z.number().int(),
+    commentCount: z.number().int(),
+    tippedAmountCount: z.number().int(),
+  }),
+  modelVersions: z
+    .object({
+      id: z.number().int(),
+      name: z.string(),
+      baseModel: z.string(),
+      publishedAt: z.date().nullable(),
+      trainedWords: z.string().array(),
+      downloadUrl: z.string().nullable(),
+      stats: z.object({
+        downloadCount: z.number().int(),
+        ratingCount: z.number().int(),
+        rating: z.number(),
+        thumbsUpCount: z.number().int(),
+        thumbsDownCount: z.number().int(),
+      }),
+      files: z
+        .object({
+          id: z.number().int(),
+          name: z.string(),
+          type: z.string(),
+          sizeKB: z.number(),
+          primary: z.boolean(),
+          hashes: z.record(z.string()),
+          downloadUrl: z.string(),
+        })
+        .array(),
+      images: imageV2Schema.omit({ type: true }).array(),
+    })
+    .array(),
+});
+export type ModelV2 = z.infer<typeof modelV2Schema>;
+// #endregion
+
+// #region [images]
+export const imagesV2QuerySchema = apiV2PaginationSchema.extend({
+  cursor: apiV2CursorSchema(sortCursorSchema),
+  postId: numericString().optional(),
+  modelId: numericString().optional(),
+  modelVersionId: numericString().optional(),
+  username: usernameSchema.optional(),
+  type: z.nativeEnum(MediaType).optional(),
+  baseModels: commaDelimitedEnumArray(z.enum(constants.baseModels)).optional(),
+  sort: z.nativeEnum(ImageSort).default(constants.galleryFilterDefaults.sort),
+  period: z.nativeEnum(MetricTimeframe).default(constants.galleryFilterDefaults.period),
+  browsingLevel: numericString().optional().describe('Bitwise flag of the browsing levels'),
+});
+export type ImagesV2QueryInput = z.infer<typeof imagesV2QuerySchema>;
+
+export const imageV2ItemSchema = imageV2Schema.extend({
+  createdAt: z.date(),
+  postId: z.number().int().nullable(),
+  username: z.string().nullable(),
+  baseModel: z.string().nullable(),
+  meta: z.record(z.unknown()).nullable(),
+  stats: z.object({
+    likeCount: z.number().int(),
+    heartCount: z.number().int(),
+    laughCount: z.number().int(),
+    cryCount: z.number().int(),
+    dislikeCount: z.number().int(),
+    commentCount: z.number().int(),
+  }),
+});
+export type ImageV2 = z.infer<typeof imageV2ItemSchema>;
+// #endregion
+
+// #region [creators]
+export const creatorsV2QuerySchema = apiV2PaginationSchema.extend({
+  cursor: apiV2CursorSchema(z.number().int().positive()),
+  query: z.string().optional().describe('Filter by username'),
+});
+export type CreatorsV2QueryInput = z.infer<typeof creatorsV2QuerySchema>;
+
+export const creatorV2Schema = z.object({
+  id: z.number().int(),
+  username: z.string().nullable(),
+  image: z.string().nullable(),
+  modelCount: z.number().int(),
+});
+export type CreatorV2 = z.infer<typeof creatorV2Schema>;
+// #endregion
+
+// #region [tags]
+export const tagsV2QuerySchema = apiV2PaginationSchema.extend({
+  // Tags are sorted by rank, so the cursor is the offset into the results
+  cursor: apiV2CursorSchema(z.number().int().min(0)),
+  query: z.string().optional().describe('Filter by tags starting with the query'),
+});
+export type TagsV2QueryInput = z.infer<typeof tagsV2QuerySchema>;
+
+export const tagV2Schema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  modelCount: z.number().int(),
+});
+export type TagV2 = z.infer<typeof tagV2Schema>;
+// #endregion
+
+export type ApiV2Route = {
+  path: string;
+  summary: string;
+  query: z.AnyZodObject;
+  item: z.AnyZodObject;
+};
+export const apiV2Routes = {
+  models: {
+    path: '/api/v2/models',
+    summary: 'List published models',
+    query: modelsV2QuerySchema,
+    item: modelV2Schema,
+  },
+  images: {
+    path: '/api/v2/images',
+    summary: 'List published images',
+    query: imagesV2QuerySchema,
+    item: imageV2ItemSchema,
+  },
+  creators: {
+    path: '/api/v2/creators',
+    summary: 'List users that have published models',
+    query: creatorsV2QuerySchema,
+    item: creatorV2Schema,
+  },
+  tags: {
+    path: '/api/v2/tags',
+    summary: 'List model tags',
+    query: tagsV2QuerySchema,
+    item: tagV2Schema,
+  },
+} satisfies Record<string, ApiV2Route>;
@@ -1,4 +1,4 @@
-import { ChatMemberStatus, ChatMessageType } from '@prisma/client';
+import { ChatMemberRole, ChatMemberStatus, ChatMessageType, ReviewReactions } from '@prisma/client';
 import { z } from 'zod';
 import { infiniteQuerySchema } from '~/server/schema/base.schema';
 
@@ -22,14 +22,65 @@ export const modifyUserInput = z.object({
   lastViewedMessageId: z.number().optional(),
 });
 
-export type CreateMessageInput = z.infer<typeof createMessageInput>;
-export const createMessageInput = z.object({
+export const maxAttachmentsPerMessage = 4;
+
+export type SetMemberRoleInput = z.infer<typeof setMemberRoleInput>;
+export const setMemberRoleInput = z.object({
+  chatMemberId: z.number(),
+  role: z.nativeEnum(ChatMemberRole),
+});
+
+export type MuteMemberInput = z.infer<typeof muteMemberInput>;
+export const muteMemberInput = z.object({
+  chatMemberId: z.number(),
+  // null to unmute
+  mutedUntil: z.date().nullable(),
+});
+
+export type GetChatInvitesInput = z.infer<typeof getChatInvitesInput>;
+export const getChatInvitesInput = z.object({
+  chatId: z.number(),
+});
+
+export type CreateChatInviteInput = z.infer<typeof createChatInviteInput>;
+export const createChatInviteInput = z.object({
   chatId: z.number(),
-  content: z.string().min(1).max(2000),
-  contentType: z.nativeEnum(ChatMessageType).optional().default('Markdown'),
-  referenceMessageId: z.number().optional(),
+  expiresInHours: z
+    .number()
+    .int()
+    .min(1)
+    .max(24 * 7)
+    .default(24),
+  maxUses: z.number().int().min(1).max(100).optional(),
 });
 
+export type ChatInviteIdInput = z.infer<typeof chatInviteIdInput>;
+export const chatInviteIdInput = z.object({
+  id: z.string(),
+});
+
+export type CreateMessageInput = z.infer<typeof createMessageInput>;
+export const createMessageInput = z
+  .object({
+    chatId: z.number(),
+    content: z.string().max(2000),
+    contentType: z.nativeEnum(ChatMessageType).optional().default('Markdown'),
+    referenceMessageId: z.number().optional(),
+    imageIds: z.array(z.number()).max(maxAttachmentsPerMessage).optional(),
+    modelVersionIds: z.array(z.number()).max(maxAttachmentsPerMessage).optional(),
+  })
+  .refine(
+    (data) =>
+      data.content.trim().length > 0 || !!data.imageIds?.length || !!data.modelVersionIds?.length,
+    { message: 'Message cannot be empty', path: ['content'] }
+  )
+  .refine(
+    (data) =>
+      (data.imageIds?.length ?? 0) + (data.modelVersionIds?.length ?? 0) <=
+      maxAttachmentsPerMessage,
+    { message: `Cannot attach more than ${maxAttachmentsPerMessage} items`, path: ['imageIds'] }
+  );
+
 export type UpdateMessageInput = z.infer<typeof updateMessageInput>;
 export const updateMessageInput = z.object({
   messageId: z.number(),
@@ -47,6 +98,26 @@ export const getInfiniteMessagesInput = infiniteQuerySchema.merge(
   })
 );
 
+export type DeleteMessageInput = z.infer<typeof deleteMessageInput>;
+export const deleteMessageInput = z.object({
+  messageId: z.number(),
+});
+
+export type ToggleReactionInput = z.infer<typeof toggleReactionInput>;
+export const toggleReactionInput = z.object({
+  messageId: z.number(),
+  reaction: z.nativeEnum(ReviewReactions),
+});
+
+export type SearchMessagesInput = z.infer<typeof searchMessagesInput>;
+export const searchMessagesInput = infiniteQuerySchema.merge(
+  z.object({
+    query: z.string().trim().min(2).max(200),
+    chatId: z.number().optional(),
+    limit: z.coerce.number().min(1).max(100).default(20),
+  })
+);
+
 export type GetMessageByIdInput = z.infer<typeof getMessageByIdInput>;
 export const getMessageByIdInput = z.object({
   messageId: z.number(),
@@ -0,0 +1,37 @@
+import { TagSource } from '@prisma/client';
+import { z } from 'zod';
+import { parseTagExpression } from '~/server/utils/tag-rules';
+
+const expressionSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .superRefine((expression, ctx) => {
+    try {
+      parseTagExpression(expression);
+    } catch (e) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (e as Error).message });
+    }
+  });
+
+const computedTagRuleSchema = z.object({
+  tag: z.string().trim().min(1),
+  expression: expressionSchema,
+  sources: z.array(z.nativeEnum(TagSource)).default([]),
+  minConfidence: z.number().int().min(0).max(100).default(0),
+  temp: z.boolean().default(false),
+  priority: z.number().int().default(0),
+});
+
+export type UpsertComputedTagRuleInput = z.infer<typeof upsertComputedTagRuleSchema>;
+export const upsertComputedTagRuleSchema = computedTagRuleSchema.extend({
+  id: z.number().optional(),
+  enabled: z.boolean().default(false),
+});
+
+export type PreviewComputedTagRuleInput = z.infer<typeof previewComputedTagRuleSchema>;
+export const previewComputedTagRuleSchema = computedTagRuleSchema.extend({
+  // Existing rule being edited, its current version is left out of the candidate rules
+  id: z.number().optional(),
+  sampleSize: z.number().int().min(1).max(5000).default(500),
+});
@@ -1,3 +1,4 @@
+import { DonationGoalUnlock } from '@prisma/client';
 import { z } from 'zod';
 
 export type DonateToGoalInput = z.infer<typeof donateToGoalInput>;
@@ -5,3 +6,22 @@ export const donateToGoalInput = z.object({
   amount: z.number(),
   donationGoalId: z.number(),
 });
+
+export type UpdateDonationGoalInput = z.infer<typeof updateDonationGoalSchema>;
+export const updateDonationGoalSchema = z.object({
+  id: z.number(),
+  expiresAt: z
+    .date()
+    .refine((date) => date > new Date(), 'The deadline must be in the future')
+    .nullish(),
+  milestones: z
+    .array(
+      z.object({
+        amount: z.number().int().min(1),
+        title: z.string().trim().min(1).max(100),
+        unlock: z.nativeEnum(DonationGoalUnlock).nullish(),
+      })
+    )
+    .max(10)
+    .optional(),
+});
@@ -1,12 +1,32 @@
-import { EntityCollaboratorStatus, EntityType } from '@prisma/client';
+import { EntityCollaboratorRole, EntityCollaboratorStatus, EntityType } from '@prisma/client';
 import { z } from 'zod';
 
+export type EntityCollaboratorPermission = 'edit' | 'upload' | 'publish';
+// Viewers are only credited on the entity
+export const entityCollaboratorRolePermissions: Record<
+  EntityCollaboratorRole,
+  EntityCollaboratorPermission[]
+> = {
+  [EntityCollaboratorRole.Viewer]: [],
+  [EntityCollaboratorRole.Editor]: ['edit', 'upload'],
+  [EntityCollaboratorRole.Publisher]: ['edit', 'upload', 'publish'],
+};
+
 export type UpsertEntityCollaboratorInput = z.infer<typeof upsertEntityCollaboratorInput>;
 export const upsertEntityCollaboratorInput = z.object({
   targetUserId: z.number(),
   entityId: z.number(),
   entityType: z.nativeEnum(EntityType),
   sendMessage: z.boolean().optional().default(true),
+  role: z.nativeEnum(EntityCollaboratorRole).optional(),
+});
+
+export type UpdateEntityCollaboratorRoleInput = z.infer<typeof updateEntityCollaboratorRoleInput>;
+export const updateEntityCollaboratorRoleInput = z.object({
+  targetUserId: z.number(),
+  entityId: z.number(),
+  entityType: z.nativeEnum(EntityType),
+  role: z.nativeEnum(EntityCollaboratorRole),
 });
 
 export type RemoveEntityCollaboratorInput = z.infer<typeof removeEntityCollaboratorInput>;
@@ -1,5 +1,7 @@
-import { HomeBlockType } from '@prisma/client';
+import { HomeBlockType, MetricTimeframe, ModelType } from '@prisma/client';
 import { z } from 'zod';
+import { constants } from '~/server/common/constants';
+import { ModelSort } from '~/server/common/enums';
 import { getByIdSchema } from '~/server/schema/base.schema';
 
 export type HomeBlockMetaSchema = z.infer<typeof homeBlockMetaSchema>;
@@ -11,6 +13,26 @@ const socialBlockSchema = z.object({
 });
 export type SocialBlockSchema = z.infer<typeof socialBlockSchema>;
 
+const modelQueryBlockSchema = z.object({
+  types: z.nativeEnum(ModelType).array().optional(),
+  baseModels: z.enum(constants.baseModels).array().optional(),
+  tag: z.string().trim().min(1).optional(),
+  period: z.nativeEnum(MetricTimeframe).default(MetricTimeframe.Week),
+  sort: z.nativeEnum(ModelSort).default(ModelSort.HighestRated),
+  limit: z.number().min(1).max(28).default(14),
+});
+export type ModelQueryBlockSchema = z.infer<typeof modelQueryBlockSchema>;
+
+const followedCreatorsBlockSchema = z.object({
+  limit: z.number().min(1).max(28).default(14),
+});
+
+const tagSpotlightBlockSchema = z.object({
+  tag: z.string().trim().min(1),
+  period: z.nativeEnum(MetricTimeframe).default(MetricTimeframe.Month),
+  limit: z.number().min(1).max(28).default(14),
+});
+
 export const homeBlockMetaSchema = z
   .object({
     title: z.string(),
@@ -36,6 +58,9 @@ export const homeBlockMetaSchema = z
     }),
     event: z.string(),
     socials: z.array(socialBlockSchema),
+    modelQuery: modelQueryBlockSchema,
+    followedCreators: followedCreatorsBlockSchema,
+    tagSpotlight: tagSpotlightBlockSchema,
     link: z.string(),
     linkText: z.string(),
   })
@@ -86,6 +111,29 @@ export const upsertHomeBlockInput = z.object({
   index: z.number().optional(),
 });
 
+// Home block types users can create for themselves, besides collections
+const customHomeBlockBaseSchema = z.object({
+  id: z.number().optional(),
+  title: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+});
+
+export type UpsertCustomHomeBlockInput = z.infer<typeof upsertCustomHomeBlockInput>;
+export const upsertCustomHomeBlockInput = z.discriminatedUnion('type', [
+  customHomeBlockBaseSchema.extend({
+    type: z.literal(HomeBlockType.ModelQuery),
+    modelQuery: modelQueryBlockSchema,
+  }),
+  customHomeBlockBaseSchema.extend({
+    type: z.literal(HomeBlockType.FollowedCreators),
+    followedCreators: followedCreatorsBlockSchema.default({}),
+  }),
+  customHomeBlockBaseSchema.extend({
+    type: z.literal(HomeBlockType.TagSpotlight),
+    tagSpotlight: tagSpotlightBlockSchema,
+  }),
+]);
+
 export type SetHomeBlocksOrderInputSchema = z.infer<typeof setHomeBlocksOrderInput>;
 export const setHomeBlocksOrderInput = z.object({
   homeBlocks: z.array(
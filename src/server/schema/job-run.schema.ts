@@ -0,0 +1,14 @@
+import { JobRunStatus } from '@prisma/client';
+import { z } from 'zod';
+import { paginationSchema } from '~/server/schema/base.schema';
+
+export type GetJobRunsInput = z.infer<typeof getJobRunsSchema>;
+export const getJobRunsSchema = paginationSchema.extend({
+  name: z.string().optional(),
+  status: z.nativeEnum(JobRunStatus).optional(),
+});
+
+export type RunJobInput = z.infer<typeof runJobSchema>;
+export const runJobSchema = z.object({
+  name: z.string(),
+});
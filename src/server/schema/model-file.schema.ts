@@ -1,4 +1,4 @@
-import { ModelFileVisibility, TrainingStatus } from '@prisma/client';
+import { ModelFileVisibility, ModelHashType, TrainingStatus } from '@prisma/client';
 import { z } from 'zod';
 import { constants } from '~/server/common/constants';
 
@@ -52,6 +52,8 @@ export const modelFileMetadataSchema = z.object({
   trainingResults: trainingResultsSchema.nullish(),
   bountyId: z.number().nullish(),
   bountyEntryId: z.number().nullish(),
+  // Where imported files were downloaded from
+  sourceUrl: z.string().url().nullish(),
 });
 
 export type ModelFileInput = z.infer<typeof modelFileSchema>;
@@ -94,3 +96,18 @@ export const modelFileUpsertSchema = z.union([
   modelFileCreateSchema.extend({ id: z.undefined() }),
   modelFileUpdateSchema,
 ]);
+
+export type GetFilesByHashesInput = z.infer<typeof getFilesByHashesSchema>;
+export const getFilesByHashesSchema = z.object({
+  hashes: z
+    .array(
+      z
+        .string()
+        .trim()
+        .regex(/^[0-9a-fA-F]{8,64}$/, { message: 'Invalid hash' })
+        .transform((hash) => hash.toUpperCase())
+    )
+    .min(1)
+    .max(10000, { message: 'Too many hashes' }),
+  hashTypes: z.nativeEnum(ModelHashType).array().min(1).optional(),
+});
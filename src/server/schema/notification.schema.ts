@@ -1,3 +1,4 @@
+import { NotificationFrequency } from '@prisma/client';
 import { z } from 'zod';
 import { NotificationCategory } from '~/server/common/enums';
 
@@ -22,3 +23,24 @@ export const markReadNotificationInput = z.object({
   category: z.nativeEnum(NotificationCategory).nullish(),
 });
 export type MarkReadNotificationInput = z.infer<typeof markReadNotificationInput>;
+
+// Categories users can receive as an email digest instead of only in-app
+export const digestNotificationCategories = {
+  [NotificationCategory.Comment]: 'Comments',
+  [NotificationCategory.Milestone]: 'Reactions',
+  [NotificationCategory.Update]: 'Model updates',
+  [NotificationCategory.Bounty]: 'Bounty activity',
+  [NotificationCategory.Buzz]: 'Buzz',
+} as const;
+export type DigestNotificationCategory = keyof typeof digestNotificationCategories;
+
+export const setNotificationFrequencyInput = z.object({
+  category: z.enum(
+    Object.keys(digestNotificationCategories) as [
+      DigestNotificationCategory,
+      ...DigestNotificationCategory[]
+    ]
+  ),
+  frequency: z.nativeEnum(NotificationFrequency),
+});
+export type SetNotificationFrequencyInput = z.infer<typeof setNotificationFrequencyInput>;
@@ -4,6 +4,10 @@ export const workflowIdSchema = z.object({
   workflowId: z.string(),
 });
 
+export const workflowStepIdSchema = workflowIdSchema.extend({
+  stepName: z.string(),
+});
+
 export const workflowUpdateSchema = workflowIdSchema.extend({
   metadata: z.record(z.any()),
 });
@@ -0,0 +1,45 @@
+import { PromptModerationRuleType, PromptModerationStage } from '@prisma/client';
+import { z } from 'zod';
+import { paginationSchema } from '~/server/schema/base.schema';
+import { getPatternRegex } from '~/server/utils/prompt-moderation';
+
+export type UpsertPromptModerationRuleInput = z.infer<typeof upsertPromptModerationRuleSchema>;
+export const upsertPromptModerationRuleSchema = z
+  .object({
+    id: z.number().optional(),
+    type: z.nativeEnum(PromptModerationRuleType),
+    pattern: z.string().min(1),
+    isRegex: z.boolean().default(false),
+    replacement: z.string().nullish(),
+    category: z.string().trim().max(100).nullish(),
+    note: z.string().trim().max(500).nullish(),
+    enabled: z.boolean().default(true),
+  })
+  .superRefine((rule, ctx) => {
+    try {
+      getPatternRegex(rule);
+    } catch (e) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: (e as Error).message,
+        path: ['pattern'],
+      });
+    }
+  });
+
+export type GetPromptModerationLogsInput = z.infer<typeof getPromptModerationLogsSchema>;
+export const getPromptModerationLogsSchema = paginationSchema.extend({
+  stage: z.nativeEnum(PromptModerationStage).optional(),
+  reviewed: z.boolean().optional(),
+});
+
+export type ReviewPromptModerationLogInput = z.infer<typeof reviewPromptModerationLogSchema>;
+export const reviewPromptModerationLogSchema = z.object({
+  id: z.number(),
+  falsePositive: z.boolean(),
+});
+
+export type TestPromptModerationInput = z.infer<typeof testPromptModerationSchema>;
+export const testPromptModerationSchema = z.object({
+  prompt: z.string().min(1),
+});
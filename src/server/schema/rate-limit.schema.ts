@@ -0,0 +1,20 @@
+import { RateLimitIdentityType } from '@prisma/client';
+import { z } from 'zod';
+import { paginationSchema } from '~/server/schema/base.schema';
+
+export type GetRateLimitOverridesInput = z.infer<typeof getRateLimitOverridesSchema>;
+export const getRateLimitOverridesSchema = paginationSchema.extend({
+  policy: z.string().optional(),
+  identityType: z.nativeEnum(RateLimitIdentityType).optional(),
+});
+
+export type UpsertRateLimitOverrideInput = z.infer<typeof upsertRateLimitOverrideSchema>;
+export const upsertRateLimitOverrideSchema = z.object({
+  id: z.number().optional(),
+  policy: z.string(),
+  identityType: z.nativeEnum(RateLimitIdentityType),
+  identifier: z.string().trim().min(1),
+  limit: z.number().int().min(0).nullable(),
+  reason: z.string().trim().max(500).optional(),
+  expiresAt: z.date().nullish(),
+});
@@ -1,5 +1,6 @@
 import { RedeemableCodeType } from '@prisma/client';
 import { z } from 'zod';
+import { paginationSchema } from '~/server/schema/base.schema';
 
 export type CreateRedeemableCodeInput = z.infer<typeof createRedeemableCodeSchema>;
 export const createRedeemableCodeSchema = z.object({
@@ -7,6 +8,23 @@ export const createRedeemableCodeSchema = z.object({
   type: z.nativeEnum(RedeemableCodeType),
   expiresAt: z.date().optional(),
   quantity: z.number().min(1).optional(),
+  maxUses: z.number().min(1).optional(),
+});
+
+export type CreateRedeemableCodeBatchInput = z.infer<typeof createRedeemableCodeBatchSchema>;
+export const createRedeemableCodeBatchSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  unitValue: z.number().min(1),
+  type: z.nativeEnum(RedeemableCodeType),
+  expiresAt: z.date().optional(),
+  quantity: z.number().int().min(1).max(10000),
+  maxUsesPerCode: z.number().int().min(1).default(1),
+  singleUsePerUser: z.boolean().default(true),
+});
+
+export type GetRedeemableCodeBatchesInput = z.infer<typeof getRedeemableCodeBatchesSchema>;
+export const getRedeemableCodeBatchesSchema = paginationSchema.extend({
+  query: z.string().optional(),
 });
 
 export type DeleteRedeemableCodeInput = z.infer<typeof deleteRedeemableCodeSchema>;
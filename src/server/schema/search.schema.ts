@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+// Algolia style filters, nested arrays are combined with OR, eg. `[['type:LORA', 'type:LoCon'], 'nsfw:false']`
+const algoliaFiltersSchema = z
+  .union([z.string(), z.array(z.union([z.string(), z.array(z.string())]))])
+  .optional();
+
+export type InstantSearchRequest = z.infer<typeof instantSearchRequestSchema>;
+export const instantSearchRequestSchema = z.object({
+  // May include a sort suffix, eg. `models_v9:metrics.weightedRating:desc`
+  indexName: z.string(),
+  params: z
+    .object({
+      query: z.string().optional(),
+      page: z.number().int().min(0).default(0),
+      hitsPerPage: z.number().int().min(0).max(100).default(20),
+      facets: z.union([z.string(), z.array(z.string())]).optional(),
+      facetFilters: algoliaFiltersSchema,
+      numericFilters: algoliaFiltersSchema,
+      filters: z.string().optional(),
+      facetName: z.string().optional(),
+      facetQuery: z.string().optional(),
+      maxFacetHits: z.number().int().min(1).max(100).default(10),
+    })
+    .passthrough()
+    .default({}),
+});
+
+export type InstantSearchInput = z.infer<typeof instantSearchSchema>;
+export const instantSearchSchema = z.object({
+  type: z.enum(['search', 'facetValues']).default('search'),
+  requests: z.array(instantSearchRequestSchema).min(1).max(20),
+});
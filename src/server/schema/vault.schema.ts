@@ -1,4 +1,4 @@
-import { ModelType } from '@prisma/client';
+import { ModelType, VaultItemStatus } from '@prisma/client';
 import _ from 'lodash-es';
 import { z } from 'zod';
 import { VaultSort } from '~/server/common/enums';
@@ -57,3 +57,52 @@ export const vaultItemFilesSchema = z.array(
     displayName: z.string(),
   })
 );
+
+export type GetVaultManifestSchema = z.infer<typeof getVaultManifestSchema>;
+export const getVaultManifestSchema = getPaginatedVaultItemsSchema
+  .omit({ limit: true, page: true })
+  .extend({
+    modelVersionIds: z.array(z.number()).optional(),
+  });
+
+export type VaultManifestItem = z.infer<typeof vaultManifestItemSchema>;
+export const vaultManifestItemSchema = z.object({
+  modelVersionId: z.number(),
+  status: z.nativeEnum(VaultItemStatus),
+  modelId: z.number(),
+  modelName: z.string(),
+  versionName: z.string(),
+  creatorName: z.string(),
+  type: z.nativeEnum(ModelType),
+  baseModel: z.string(),
+  category: z.string(),
+  addedAt: z.coerce.date(),
+  notes: z.string().nullable(),
+  trainedWords: z.array(z.string()),
+  files: z.array(
+    z.object({
+      id: z.number(),
+      name: z.string(),
+      sizeKB: z.number(),
+      hashes: z.record(z.string()),
+      downloadUrl: z.string(),
+    })
+  ),
+  imagesUrl: z.string(),
+  detailsUrl: z.string(),
+  // Changes whenever anything a client would need to re-sync changes
+  checksum: z.string(),
+});
+
+export type VaultManifest = z.infer<typeof vaultManifestSchema>;
+export const vaultManifestSchema = z.object({
+  version: z.literal(1),
+  exportedAt: z.coerce.date(),
+  items: z.array(vaultManifestItemSchema),
+});
+
+export type SyncVaultManifestSchema = z.infer<typeof syncVaultManifestSchema>;
+export const syncVaultManifestSchema = z.object({
+  // A full manifest can be posted back as is, only these fields are used to diff
+  items: z.array(z.object({ modelVersionId: z.number(), checksum: z.string() })).max(10000),
+});
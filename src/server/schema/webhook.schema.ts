@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { paginationSchema } from '~/server/schema/base.schema';
+
+export type UpsertWebhookInput = z.infer<typeof upsertWebhookSchema>;
+export const upsertWebhookSchema = z.object({
+  id: z.number().optional(),
+  url: z.string().trim().url(),
+  notifyOn: z.string().array().min(1),
+  active: z.boolean().default(false),
+});
+
+export type GetWebhookDeliveriesInput = z.infer<typeof getWebhookDeliveriesSchema>;
+export const getWebhookDeliveriesSchema = paginationSchema.extend({
+  id: z.number(),
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { getJsonPath, parseSearchFilter, SearchFilterError } from '~/server/search-backend/filter';
+
+const condition = (n: number) => `jsonb_path_exists(document, $${n}::jsonpath, $${n + 1}::jsonb)`;
+
+function render(filter: string) {
+  const { text, values } = parseSearchFilter(filter);
+  return {
+    text,
+    // Pairs of json path and variables for each condition
+    conditions: Array.from({ length: values.length / 2 }, (_, i) => [
+      values[i * 2],
+      JSON.parse(values[i * 2 + 1] as string),
+    ]),
+  };
+}
+
+describe('parseSearchFilter', () => {
+  it('matches everything without a filter', () => {
+    expect(render('').text).toBe('TRUE');
+    expect(render('   ').text).toBe('TRUE');
+  });
+
+  it('compares values as strings and numbers', () => {
+    expect(render('nsfwLevel = 1')).toEqual({
+      text: condition(1),
+      conditions: [['$."nsfwLevel"[*] ? (@ == $v_s || @ == $v_n)', { v_s: '1', v_n: 1 }]],
+    });
+  });
+
+  it('compares booleans', () => {
+    expect(render('complete != true')).toEqual({
+      text: `NOT ${condition(1)}`,
+      conditions: [['$."complete"[*] ? (@ == $v_s || @ == true)', { v_s: 'true' }]],
+    });
+  });
+
+  it('unwraps nested attributes and quoted values', () => {
+    expect(render('user.username = "Some \\"Name\\""').conditions).toEqual([
+      ['$."user"[*]."username"[*] ? (@ == $v_s)', { v_s: 'Some "Name"' }],
+    ]);
+  });
+
+  it('keeps values out of the query text', () => {
+    const { text, conditions } = render(`user.username = "' OR 1=1 --"`);
+    expect(text).toBe(condition(1));
+    expect(conditions[0][1]).toEqual({ v_s: "' OR 1=1 --" });
+  });
+
+  it('supports IN and NOT IN', () => {
+    expect(render('tags.name IN [anime, "sci fi"]')).toEqual({
+      text: condition(1),
+      conditions: [
+        ['$."tags"[*]."name"[*] ? (@ == $v0_s || @ == $v1_s)', { v0_s: 'anime', v1_s: 'sci fi' }],
+      ],
+    });
+    expect(render('type NOT IN [Checkpoint]').text).toBe(`NOT ${condition(1)}`);
+    expect(render('type IN []').text).toBe('FALSE');
+    expect(render('type NOT IN []').text).toBe('TRUE');
+  });
+
+  it('supports ranges and numeric comparisons', () => {
+    expect(render('createdAt 1000 TO 2000').conditions).toEqual([
+      ['$."createdAt"[*] ? (@ >= $min && @ <= $max)', { min: 1000, max: 2000 }],
+    ]);
+    expect(render('stats.downloadCount >= 10').conditions).toEqual([
+      ['$."stats"[*]."downloadCount"[*] ? (@ >= $v)', { v: 10 }],
+    ]);
+  });
+
+  it('supports EXISTS and NOT EXISTS', () => {
+    expect(render('meta EXISTS')).toEqual({
+      text: condition(1),
+      conditions: [['$."meta"[*]', {}]],
+    });
+    expect(render('meta NOT EXISTS').text).toBe(`NOT ${condition(1)}`);
+  });
+
+  it('gives AND precedence over OR', () => {
+    expect(render('a = 1 OR b = 2 AND c = 3').text).toBe(
+      `(${condition(1)} OR ${condition(3)} AND ${condition(5)})`
+    );
+    expect(render('(a = 1 OR b = 2) AND c = 3').text).toBe(
+      `((${condition(1)} OR ${condition(3)})) AND ${condition(5)}`
+    );
+  });
+
+  it('negates groups', () => {
+    expect(render('NOT (a = 1 OR b = 2)').text).toBe(
+      `NOT (((${condition(1)} OR ${condition(3)})))`
+    );
+  });
+
+  it.each([
+    ['a = "x', 'Unterminated string'],
+    ['a =', 'Expected word'],
+    ['a ! 1', 'Unexpected character "!"'],
+    ['a-b = 1', 'Invalid attribute "a-b"'],
+    ['a > x', '">" requires a number'],
+    ['a 1 TO x', 'Ranges must be numeric'],
+    ['a = AND', 'Unexpected keyword "AND"'],
+    ['a NOT b', 'Expected IN'],
+    ['(a = 1', 'Expected )'],
+    ['a = 1 b = 2', 'Unexpected input'],
+  ])('rejects %s', (filter, message) => {
+    expect(() => parseSearchFilter(filter)).toThrow(SearchFilterError);
+    expect(() => parseSearchFilter(filter)).toThrow(`${message} in filter: ${filter}`);
+  });
+});
+
+describe('getJsonPath', () => {
+  it('builds a path that unwraps arrays', () => {
+    expect(getJsonPath('tags.name')).toBe('$."tags"[*]."name"[*]');
+  });
+
+  it('rejects attributes that could escape the path', () => {
+    expect(() => getJsonPath('name"')).toThrow(SearchFilterError);
+  });
+});
@@ -0,0 +1,176 @@
+import { Prisma } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { JobContext } from '~/server/jobs/job';
+import { SearchFilterError } from '~/server/search-backend/filter';
+import { postgresBackend } from '~/server/search-backend/postgres.search-backend';
+
+const { queries, dbRead, dbWrite } = vi.hoisted(() => {
+  const queries: { text: string; values: unknown[] }[] = [];
+  const results: unknown[][] = [];
+  const record = (strings: TemplateStringsArray, ...values: unknown[]) => {
+    const { text, values: params } = Prisma.sql(strings, ...values);
+    queries.push({ text: text.replace(/\s+/g, ' ').trim(), values: params });
+  };
+  const dbRead = {
+    results,
+    $queryRaw: vi.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      record(strings, ...values);
+      return results.shift() ?? [];
+    }),
+  };
+  const dbWrite = {
+    $executeRaw: vi.fn((strings: TemplateStringsArray, ...values: unknown[]) => {
+      record(strings, ...values);
+      return Promise.resolve(0);
+    }),
+    $transaction: vi.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+  };
+  return { queries, dbRead, dbWrite };
+});
+
+vi.mock('~/server/db/client', () => ({ dbRead, dbWrite }));
+
+beforeEach(() => {
+  queries.length = 0;
+  dbRead.results.length = 0;
+  vi.clearAllMocks();
+});
+
+describe('postgresBackend.search', () => {
+  it('searches words by prefix within the index', async () => {
+    dbRead.results.push([
+      { document: { id: 1 }, total: BigInt(2) },
+      { document: { id: 2 }, total: BigInt(2) },
+    ]);
+
+    const result = await postgresBackend.search({
+      indexName: 'models_v9',
+      query: 'Anime, sty!le',
+      filter: 'nsfwLevel = 1',
+      limit: 10,
+      offset: 20,
+    });
+
+    expect(result).toMatchObject({ hits: [{ id: 1 }, { id: 2 }], estimatedTotalHits: 2 });
+    expect(result.facetDistribution).toBeUndefined();
+
+    const [{ text, values }] = queries;
+    expect(text).toContain(`"searchVector" @@ to_tsquery('simple', $`);
+    expect(text).toContain('jsonb_path_exists(document');
+    expect(text).toContain('ORDER BY rank DESC, "updatedAt" DESC');
+    expect(values).toContain('models_v9');
+    expect(values).toContain(`'anime':* & 'style':*`);
+    expect(values.slice(-2)).toEqual([10, 20]);
+  });
+
+  it('skips ranking without a query', async () => {
+    await postgresBackend.search({ indexName: 'models_v9', query: ' !! ' });
+
+    const [{ text, values }] = queries;
+    expect(text).not.toContain('to_tsquery');
+    expect(text).toContain('ORDER BY "updatedAt" DESC');
+    expect(values.slice(-2)).toEqual([20, 0]);
+  });
+
+  it('sorts by document attributes', async () => {
+    await postgresBackend.search({
+      indexName: 'models_v9',
+      sort: ['stats.downloadCount:desc', 'createdAt'],
+    });
+
+    const [{ text, values }] = queries;
+    expect(text).toMatch(
+      /ORDER BY document #> \$\d+::text\[\] DESC NULLS LAST, document #> \$\d+::text\[\] ASC NULLS LAST, "updatedAt" DESC/
+    );
+    expect(values).toContainEqual(['stats', 'downloadCount']);
+    expect(values).toContainEqual(['createdAt']);
+  });
+
+  it('rejects invalid sort attributes', async () => {
+    await expect(
+      postgresBackend.search({ indexName: 'models_v9', sort: ['name";--:asc'] })
+    ).rejects.toThrow(SearchFilterError);
+    expect(queries).toHaveLength(0);
+  });
+
+  it('counts facet values', async () => {
+    dbRead.results.push(
+      [],
+      [
+        { value: 'Checkpoint', count: 3 },
+        { value: 'LORA', count: 1 },
+      ],
+      [{ value: 'SD 1.5', count: 4 }]
+    );
+
+    const { facetDistribution } = await postgresBackend.search({
+      indexName: 'models_v9',
+      facets: ['type', 'version.baseModel'],
+    });
+
+    expect(facetDistribution).toEqual({
+      type: { Checkpoint: 3, LORA: 1 },
+      'version.baseModel': { 'SD 1.5': 4 },
+    });
+    expect(queries).toHaveLength(3);
+    expect(queries[2].values).toContain('$."version"[*]."baseModel"[*]');
+  });
+});
+
+describe('postgresBackend documents', () => {
+  it('upserts documents in batches', async () => {
+    const jobContext = { checkIfCanceled: vi.fn() } as unknown as JobContext;
+    const documents = [{ id: 1 }, { id: 2 }, { id: 3 }];
+
+    await postgresBackend.updateDocuments({
+      indexName: 'models_v9',
+      documents,
+      batchSize: 2,
+      jobContext,
+    });
+
+    expect(jobContext.checkIfCanceled).toHaveBeenCalledTimes(2);
+    expect(queries).toHaveLength(4);
+    expect(queries[0].text).toContain('ON CONFLICT ("index", "id") DO UPDATE');
+    expect(queries[0].values).toContain(JSON.stringify([{ id: 1 }, { id: 2 }]));
+    expect(queries[1].text).toContain('SET "searchVector" =');
+    expect(queries[1].values.slice(-2)).toEqual(['1', '2']);
+    expect(queries[3].values.slice(-1)).toEqual(['3']);
+  });
+
+  it('skips deletes without ids', async () => {
+    await postgresBackend.deleteDocuments({ indexName: 'models_v9', ids: [] });
+    expect(dbWrite.$executeRaw).not.toHaveBeenCalled();
+
+    await postgresBackend.deleteDocuments({ indexName: 'models_v9', ids: [1, 2] });
+    expect(queries[0].values).toEqual(['models_v9', '1', '2']);
+  });
+
+  it('returns null for missing documents', async () => {
+    expect(await postgresBackend.getDocument({ indexName: 'models_v9', id: 1 })).toBeNull();
+
+    dbRead.results.push([{ document: { id: 1, name: 'Model' } }]);
+    expect(await postgresBackend.getDocument({ indexName: 'models_v9', id: 1 })).toEqual({
+      id: 1,
+      name: 'Model',
+    });
+  });
+
+  it('replaces the index with the swap index in one transaction', async () => {
+    await postgresBackend.swapIndex({ indexName: 'models_v9', swapIndexName: 'models_v9_NEW' });
+
+    expect(dbWrite.$transaction).toHaveBeenCalledTimes(1);
+    expect(queries.map((x) => x.values)).toEqual([['models_v9'], ['models_v9', 'models_v9_NEW']]);
+  });
+
+  it('builds search vectors from the searchable attributes of the main index', async () => {
+    await postgresBackend.updateDocuments({
+      indexName: 'models_v9_NEW',
+      documents: [{ id: 1 }],
+    });
+
+    expect(queries[1].values).toEqual(
+      expect.arrayContaining(['$."name"[*]', '$."user"[*]."username"[*]', 'A', 'B'])
+    );
+  });
+});
@@ -0,0 +1,223 @@
+import { Prisma } from '@prisma/client';
+
+// Translates Meilisearch filter expressions into conditions on the `document` column of `SearchDocument`
+// Supports: =, !=, >, >=, <, <=, TO, IN, NOT IN, EXISTS, NOT EXISTS, AND, OR, NOT and parentheses
+
+type Token =
+  | { type: 'paren' | 'bracket' | 'comma' | 'operator'; value: string }
+  | { type: 'word'; value: string; quoted: boolean };
+
+const operators = ['!=', '>=', '<=', '=', '>', '<'];
+const keywords = ['AND', 'OR', 'NOT', 'IN', 'TO', 'EXISTS'];
+
+export class SearchFilterError extends Error {
+  constructor(message: string, filter: string) {
+    super(`${message} in filter: ${filter}`);
+    this.name = 'SearchFilterError';
+  }
+}
+
+function tokenize(filter: string) {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < filter.length) {
+    const char = filter[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char });
+      i++;
+    } else if (char === '[' || char === ']') {
+      tokens.push({ type: 'bracket', value: char });
+      i++;
+    } else if (char === ',') {
+      tokens.push({ type: 'comma', value: char });
+      i++;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < filter.length && filter[i] !== char) {
+        if (filter[i] === '\\' && i + 1 < filter.length) i++;
+        value += filter[i++];
+      }
+      if (i >= filter.length) throw new SearchFilterError('Unterminated string', filter);
+      tokens.push({ type: 'word', value, quoted: true });
+      i++;
+    } else {
+      const operator = operators.find((op) => filter.startsWith(op, i));
+      if (operator) {
+        tokens.push({ type: 'operator', value: operator });
+        i += operator.length;
+        continue;
+      }
+
+      let value = '';
+      while (i < filter.length && !/[\s()[\],"'=!<>]/.test(filter[i])) value += filter[i++];
+      if (!value) throw new SearchFilterError(`Unexpected character "${char}"`, filter);
+      tokens.push({ type: 'word', value, quoted: false });
+    }
+  }
+
+  return tokens;
+}
+
+// Attributes are dot separated paths into the document, eg. `user.username`
+function toJsonPath(attribute: string, filter: string) {
+  if (!/^[\w.]+$/.test(attribute))
+    throw new SearchFilterError(`Invalid attribute "${attribute}"`, filter);
+  // `[*]` unwraps arrays at every level so that `tags.name` matches any of the tags
+  return (
+    '$' +
+    attribute
+      .split('.')
+      .map((part) => `."${part}"[*]`)
+      .join('')
+  );
+}
+
+function pathExists(path: string, predicate?: string, vars: Record<string, unknown> = {}) {
+  const jsonPath = predicate ? `${path} ? (${predicate})` : path;
+  return Prisma.sql`jsonb_path_exists(document, ${jsonPath}::jsonpath, ${JSON.stringify(
+    vars
+  )}::jsonb)`;
+}
+
+// Meilisearch doesn't distinguish between `5` and `"5"`, so compare against every type the value could be
+function equalsPredicate(value: string, name: string, vars: Record<string, unknown>) {
+  const predicates = [`@ == $${name}_s`];
+  vars[`${name}_s`] = value;
+  if (value.trim() !== '' && !isNaN(Number(value))) {
+    predicates.push(`@ == $${name}_n`);
+    vars[`${name}_n`] = Number(value);
+  }
+  if (value === 'true' || value === 'false') predicates.push(`@ == ${value}`);
+
+  return predicates.join(' || ');
+}
+
+export function parseSearchFilter(filter: string): Prisma.Sql {
+  const tokens = tokenize(filter);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isKeyword = (token: Token | undefined, keyword: string) =>
+    token?.type === 'word' && !token.quoted && token.value === keyword;
+  const expect = (type: Token['type'], value?: string) => {
+    const token = tokens[position++];
+    if (!token || token.type !== type || (value && token.value !== value))
+      throw new SearchFilterError(`Expected ${value ?? type}`, filter);
+    return token;
+  };
+  const readValue = () => {
+    const token = expect('word');
+    if (token.type === 'word' && !token.quoted && keywords.includes(token.value))
+      throw new SearchFilterError(`Unexpected keyword "${token.value}"`, filter);
+    return token.value;
+  };
+
+  function parseCondition(): Prisma.Sql {
+    const attribute = readValue();
+    const path = toJsonPath(attribute, filter);
+    const token = peek();
+
+    if (isKeyword(token, 'EXISTS')) {
+      position++;
+      return pathExists(path);
+    }
+
+    if (isKeyword(token, 'NOT') || isKeyword(token, 'IN')) {
+      const negate = isKeyword(token, 'NOT');
+      if (negate) {
+        position++;
+        if (isKeyword(peek(), 'EXISTS')) {
+          position++;
+          return Prisma.sql`NOT ${pathExists(path)}`;
+        }
+      }
+      if (!isKeyword(peek(), 'IN')) throw new SearchFilterError('Expected IN', filter);
+      position++;
+
+      expect('bracket', '[');
+      const values: string[] = [];
+      while (peek()?.type !== 'bracket') {
+        values.push(readValue());
+        if (peek()?.type === 'comma') position++;
+      }
+      expect('bracket', ']');
+      if (!values.length) return negate ? Prisma.sql`TRUE` : Prisma.sql`FALSE`;
+
+      const vars: Record<string, unknown> = {};
+      const predicate = values
+        .map((value, i) => equalsPredicate(value, `v${i}`, vars))
+        .join(' || ');
+      const condition = pathExists(path, predicate, vars);
+      return negate ? Prisma.sql`NOT ${condition}` : condition;
+    }
+
+    if (token?.type === 'word') {
+      // Range filter, eg. `createdAt 1000 TO 2000`
+      const from = Number(readValue());
+      expect('word', 'TO');
+      const to = Number(readValue());
+      if (isNaN(from) || isNaN(to)) throw new SearchFilterError('Ranges must be numeric', filter);
+      return pathExists(path, '@ >= $min && @ <= $max', { min: from, max: to });
+    }
+
+    const { value: operator } = expect('operator');
+    const value = readValue();
+    if (operator === '=' || operator === '!=') {
+      const vars: Record<string, unknown> = {};
+      const condition = pathExists(path, equalsPredicate(value, 'v', vars), vars);
+      return operator === '=' ? condition : Prisma.sql`NOT ${condition}`;
+    }
+
+    const number = Number(value);
+    if (isNaN(number)) throw new SearchFilterError(`"${operator}" requires a number`, filter);
+    return pathExists(path, `@ ${operator} $v`, { v: number });
+  }
+
+  function parsePrimary(): Prisma.Sql {
+    if (isKeyword(peek(), 'NOT')) {
+      position++;
+      return Prisma.sql`NOT (${parsePrimary()})`;
+    }
+    if (peek()?.type === 'paren' && peek()?.value === '(') {
+      position++;
+      const expression = parseOr();
+      expect('paren', ')');
+      return Prisma.sql`(${expression})`;
+    }
+
+    return parseCondition();
+  }
+
+  function parseAnd(): Prisma.Sql {
+    const conditions = [parsePrimary()];
+    while (isKeyword(peek(), 'AND')) {
+      position++;
+      conditions.push(parsePrimary());
+    }
+
+    return conditions.length > 1 ? Prisma.join(conditions, ' AND ') : conditions[0];
+  }
+
+  function parseOr(): Prisma.Sql {
+    const conditions = [parseAnd()];
+    while (isKeyword(peek(), 'OR')) {
+      position++;
+      conditions.push(parseAnd());
+    }
+
+    return conditions.length > 1 ? Prisma.sql`(${Prisma.join(conditions, ' OR ')})` : conditions[0];
+  }
+
+  if (!tokens.length) return Prisma.sql`TRUE`;
+  const condition = parseOr();
+  if (position < tokens.length) throw new SearchFilterError('Unexpected input', filter);
+
+  return condition;
+}
+
+export function getJsonPath(attribute: string) {
+  return toJsonPath(attribute, attribute);
+}
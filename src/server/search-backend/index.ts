@@ -0,0 +1,9 @@
+import { env } from '~/env/server.mjs';
+import { meilisearchBackend } from '~/server/search-backend/meilisearch.search-backend';
+import { postgresBackend } from '~/server/search-backend/postgres.search-backend';
+import { SearchBackend } from '~/server/search-backend/types';
+
+export * from '~/server/search-backend/types';
+
+export const searchBackend: SearchBackend =
+  env.NEXT_PUBLIC_SEARCH_BACKEND === 'postgres' ? postgresBackend : meilisearchBackend;
@@ -0,0 +1,47 @@
+import { client, updateDocs } from '~/server/meilisearch/client';
+import {
+  getOrCreateIndex,
+  onSearchIndexDocumentsCleanup,
+  swapIndex,
+} from '~/server/meilisearch/util';
+import { SearchBackend } from '~/server/search-backend/types';
+
+export const meilisearchBackend: SearchBackend = {
+  async setupIndex({ indexName, primaryKey, configure }) {
+    if (configure) await configure({ indexName });
+    else await getOrCreateIndex(indexName, { primaryKey });
+  },
+  async updateDocuments(args) {
+    await updateDocs(args);
+  },
+  async deleteDocuments({ indexName, ids }) {
+    await onSearchIndexDocumentsCleanup({ indexName, ids: ids.map(Number) });
+  },
+  async getDocument({ indexName, id }) {
+    if (!client) return null;
+
+    try {
+      return await client.index(indexName).getDocument(id);
+    } catch (e) {
+      // Not indexed yet
+      return null;
+    }
+  },
+  async swapIndex(args) {
+    await swapIndex(args);
+  },
+  async search({ indexName, query, filter, sort, facets, limit, offset }) {
+    if (!client) return { hits: [], estimatedTotalHits: 0, processingTimeMs: 0 };
+
+    const { hits, estimatedTotalHits, facetDistribution, processingTimeMs } = await client
+      .index(indexName)
+      .search(query ?? '', { filter, sort, facets, limit, offset });
+
+    return {
+      hits,
+      estimatedTotalHits: estimatedTotalHits ?? hits.length,
+      facetDistribution,
+      processingTimeMs,
+    };
+  },
+};
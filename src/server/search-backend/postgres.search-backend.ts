@@ -0,0 +1,160 @@
+import { Prisma } from '@prisma/client';
+import { chunk } from 'lodash-es';
+import {
+  ARTICLES_SEARCH_INDEX,
+  BOUNTIES_SEARCH_INDEX,
+  COLLECTIONS_SEARCH_INDEX,
+  IMAGES_SEARCH_INDEX,
+  MODELS_SEARCH_INDEX,
+  USERS_SEARCH_INDEX,
+} from '~/server/common/constants';
+import { dbRead, dbWrite } from '~/server/db/client';
+import { getJsonPath, parseSearchFilter } from '~/server/search-backend/filter';
+import { SearchBackend, SearchDocument } from '~/server/search-backend/types';
+
+// Matches the searchable attributes configured on the meilisearch indexes, in order of importance
+const searchableAttributes: Record<string, string[]> = {
+  [MODELS_SEARCH_INDEX]: ['name', 'user.username', 'hashes', 'triggerWords'],
+  [IMAGES_SEARCH_INDEX]: ['meta.prompt', 'generationProcess', 'tagNames', 'user.username'],
+  [ARTICLES_SEARCH_INDEX]: ['title', 'content', 'tags.name', 'user.username'],
+  [USERS_SEARCH_INDEX]: ['username'],
+  [COLLECTIONS_SEARCH_INDEX]: ['name'],
+  [BOUNTIES_SEARCH_INDEX]: ['name', 'user.username'],
+};
+const weights = ['A', 'B', 'C', 'D'];
+const MAX_FACET_VALUES = 100;
+
+function getSearchVector(indexName: string) {
+  // Swap indexes share the settings of their main index
+  const attributes = searchableAttributes[indexName.replace(/_NEW$/, '')];
+  if (!attributes?.length) return Prisma.sql`NULL`;
+
+  return Prisma.join(
+    attributes.map((attribute, i) => {
+      const weight = weights[Math.min(i, weights.length - 1)];
+      return Prisma.sql`setweight(to_tsvector('simple', coalesce((
+        SELECT string_agg(v #>> '{}', ' ') FROM jsonb_path_query(document, ${getJsonPath(
+          attribute
+        )}::jsonpath) v
+      ), '')), ${weight}::"char")`;
+    }),
+    ' || '
+  );
+}
+
+// Matches words by prefix so that partial queries behave like they do in meilisearch
+function getSearchQuery(query?: string) {
+  const words = (query ?? '')
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word) => word.replace(/[^\p{L}\p{N}_-]/gu, ''))
+    .filter(Boolean);
+
+  return words.length ? words.map((word) => `'${word}':*`).join(' & ') : undefined;
+}
+
+function getOrderBy(sort: string[] = [], ranked: boolean) {
+  const orderBy = sort.map((rule) => {
+    const [attribute, direction = 'asc'] = rule.split(':');
+    getJsonPath(attribute); // Validates the attribute
+    return Prisma.sql`document #> ${attribute.split('.')}::text[] ${Prisma.raw(
+      direction === 'desc' ? 'DESC' : 'ASC'
+    )} NULLS LAST`;
+  });
+  if (ranked) orderBy.push(Prisma.sql`rank DESC`);
+  orderBy.push(Prisma.sql`"updatedAt" DESC`);
+
+  return Prisma.join(orderBy, ', ');
+}
+
+export const postgresBackend: SearchBackend = {
+  async setupIndex() {
+    // All indexes share the "SearchDocument" table and their searchable attributes are defined above
+  },
+  async updateDocuments({ indexName, documents, batchSize = 1000, jobContext }) {
+    for (const batch of chunk(documents, batchSize)) {
+      jobContext?.checkIfCanceled();
+      const ids = batch.map((document) => String(document.id));
+
+      // Partial documents are merged into the stored ones, like meilisearch's updateDocuments
+      await dbWrite.$executeRaw`
+        INSERT INTO "SearchDocument" ("index", "id", "document")
+        SELECT ${indexName}, d->>'id', d
+        FROM jsonb_array_elements(${JSON.stringify(batch)}::jsonb) d
+        ON CONFLICT ("index", "id") DO UPDATE
+          SET "document" = "SearchDocument"."document" || EXCLUDED."document", "updatedAt" = now()
+      `;
+      await dbWrite.$executeRaw`
+        UPDATE "SearchDocument" SET "searchVector" = ${getSearchVector(indexName)}
+        WHERE "index" = ${indexName} AND "id" IN (${Prisma.join(ids)})
+      `;
+    }
+  },
+  async deleteDocuments({ indexName, ids }) {
+    if (!ids.length) return;
+
+    await dbWrite.$executeRaw`
+      DELETE FROM "SearchDocument"
+      WHERE "index" = ${indexName} AND "id" IN (${Prisma.join(ids.map(String))})
+    `;
+  },
+  async getDocument({ indexName, id }) {
+    const [result] = await dbRead.$queryRaw<{ document: SearchDocument }[]>`
+      SELECT "document" FROM "SearchDocument" WHERE "index" = ${indexName} AND "id" = ${String(id)}
+    `;
+
+    return result?.document ?? null;
+  },
+  async swapIndex({ indexName, swapIndexName }) {
+    // The swap index is dropped after swapping, so replacing the main index is enough
+    await dbWrite.$transaction([
+      dbWrite.$executeRaw`DELETE FROM "SearchDocument" WHERE "index" = ${indexName}`,
+      dbWrite.$executeRaw`UPDATE "SearchDocument" SET "index" = ${indexName} WHERE "index" = ${swapIndexName}`,
+    ]);
+  },
+  async search({ indexName, query, filter, sort, facets = [], limit = 20, offset = 0 }) {
+    const start = Date.now();
+    const searchQuery = getSearchQuery(query);
+    const where = Prisma.join(
+      [
+        Prisma.sql`"index" = ${indexName}`,
+        searchQuery
+          ? Prisma.sql`"searchVector" @@ to_tsquery('simple', ${searchQuery})`
+          : Prisma.sql`TRUE`,
+        parseSearchFilter(filter ?? ''),
+      ],
+      ' AND '
+    );
+    const rank = searchQuery
+      ? Prisma.sql`ts_rank("searchVector", to_tsquery('simple', ${searchQuery}))`
+      : Prisma.sql`0`;
+
+    const results = await dbRead.$queryRaw<{ document: SearchDocument; total: bigint }[]>`
+      SELECT "document", ${rank} "rank", COUNT(*) OVER () "total"
+      FROM "SearchDocument"
+      WHERE ${where}
+      ORDER BY ${getOrderBy(sort, !!searchQuery)}
+      LIMIT ${limit} OFFSET ${offset}
+    `;
+
+    const facetDistribution: Record<string, Record<string, number>> = {};
+    for (const facet of facets) {
+      const values = await dbRead.$queryRaw<{ value: string; count: number }[]>`
+        SELECT v #>> '{}' "value", COUNT(DISTINCT "id")::int "count"
+        FROM "SearchDocument", jsonb_path_query("document", ${getJsonPath(facet)}::jsonpath) v
+        WHERE ${where}
+        GROUP BY 1
+        ORDER BY 2 DESC
+        LIMIT ${MAX_FACET_VALUES}
+      `;
+      facetDistribution[facet] = Object.fromEntries(values.map((x) => [x.value, x.count]));
+    }
+
+    return {
+      hits: results.map((x) => x.document),
+      estimatedTotalHits: Number(results[0]?.total ?? 0),
+      facetDistribution: facets.length ? facetDistribution : undefined,
+      processingTimeMs: Date.now() - start,
+    };
+  },
+};
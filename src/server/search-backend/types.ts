@@ -0,0 +1,46 @@
+import { JobContext } from '~/server/jobs/job';
+
+export type SearchDocument = Record<string, unknown>;
+
+/** Mirrors the search parameters of Meilisearch so that both backends accept the same requests */
+export type SearchRequest = {
+  indexName: string;
+  query?: string;
+  /** Filter expression using the Meilisearch filter syntax */
+  filter?: string;
+  /** Sort rules formatted as `attribute:asc|desc` */
+  sort?: string[];
+  facets?: string[];
+  limit?: number;
+  offset?: number;
+};
+
+export type SearchResponse = {
+  hits: SearchDocument[];
+  estimatedTotalHits: number;
+  facetDistribution?: Record<string, Record<string, number>>;
+  processingTimeMs: number;
+};
+
+export type SearchBackend = {
+  /**
+   * Creates the index if it doesn't exist yet.
+   * `configure` applies the Meilisearch settings of the index and is ignored by the other backends.
+   */
+  setupIndex: (args: {
+    indexName: string;
+    primaryKey?: string;
+    configure?: (context: { indexName: string }) => Promise<void>;
+  }) => Promise<void>;
+  updateDocuments: (args: {
+    indexName: string;
+    documents: SearchDocument[];
+    batchSize?: number;
+    jobContext?: JobContext;
+  }) => Promise<void>;
+  deleteDocuments: (args: { indexName: string; ids: (string | number)[] }) => Promise<void>;
+  getDocument: (args: { indexName: string; id: string | number }) => Promise<SearchDocument | null>;
+  /** Replaces the contents of an index with those of the swap index */
+  swapIndex: (args: { indexName: string; swapIndexName: string }) => Promise<void>;
+  search: (request: SearchRequest) => Promise<SearchResponse>;
+};
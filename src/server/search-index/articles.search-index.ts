@@ -1,4 +1,5 @@
-import { client, updateDocs } from '~/server/meilisearch/client';
+import { client } from '~/server/meilisearch/client';
+import { searchBackend } from '~/server/search-backend';
 import { getOrCreateIndex } from '~/server/meilisearch/util';
 import { createSearchIndexUpdateProcessor } from '~/server/search-index/base.search-index';
 import { Availability, Prisma } from '@prisma/client';
@@ -138,6 +139,12 @@ type Article = Prisma.ArticleGetPayload<{
 export const articlesSearchIndex = createSearchIndexUpdateProcessor({
   indexName: INDEX_ID,
   setup: onIndexSetup,
+  filter: {
+    table: 'Article',
+    userColumn: 'userId',
+    updatedAtColumn: 'updatedAt',
+    tags: { table: 'TagsOnArticle', column: 'articleId' },
+  },
   prepareBatches: async ({ db }, lastUpdatedAt) => {
     const data = await db.$queryRaw<{ startId: number; endId: number }[]>`
       SELECT MIN(id) as "startId", MAX(id) as "endId" FROM "Article"
@@ -198,7 +205,7 @@ export const articlesSearchIndex = createSearchIndexUpdateProcessor({
   },
   transformData,
   pushData: async ({ indexName, jobContext }, records) => {
-    await updateDocs({
+    await searchBackend.updateDocuments({
       indexName,
       documents: records as any[],
       batchSize: MEILISEARCH_DOCUMENT_BATCH_SIZE,
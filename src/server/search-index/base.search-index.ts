@@ -1,14 +1,11 @@
 import { getJobDate, JobContext } from '~/server/jobs/job';
 import { dbWrite, dbRead } from '~/server/db/client';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { SearchIndexUpdateQueueAction } from '~/server/common/enums';
-import {
-  getOrCreateIndex,
-  onSearchIndexDocumentsCleanup,
-  swapIndex,
-} from '~/server/meilisearch/util';
-import { chunk } from 'lodash-es';
+import { chunk, isEqual } from 'lodash-es';
+import { searchBackend } from '~/server/search-backend';
 import { SearchIndexUpdate } from '~/server/search-index/SearchIndexUpdate';
+import { limitConcurrency } from '~/server/utils/concurrency-helpers';
 import {
   getTaskQueueWorker,
   PullTask,
@@ -33,6 +30,20 @@ type SearchIndexPullBatch =
   | { type: 'update'; ids: number[] };
 type SearchIndexSetup = (context: { indexName: string }) => Promise<void>;
 
+export type SearchIndexFilter = {
+  tagId?: number;
+  userId?: number;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+};
+/** Describes the source table of an index so that it can be reindexed by filter */
+type SearchIndexFilterConfig = {
+  table: string;
+  userColumn?: string;
+  updatedAtColumn?: string;
+  tags?: { table: string; column: string };
+};
+
 type SearchIndexProcessor = {
   indexName: string;
   setup: SearchIndexSetup;
@@ -53,6 +64,9 @@ type SearchIndexProcessor = {
   ) => Promise<any>;
   transformData: (data: any) => Promise<any>;
   pushData: (context: SearchIndexContext, data: any) => Promise<void>;
+  /** Extracts the documents from the transformed data, defaults to the data itself */
+  getDocuments?: (data: unknown) => Record<string, unknown>[];
+  filter?: SearchIndexFilterConfig;
   onComplete?: (context: SearchIndexContext) => Promise<void>;
   maxQueueSize?: number;
   primaryKey?: string;
@@ -138,6 +152,111 @@ const processSearchIndexTask = async (
 
 export type SearchIndexTaskResult = Awaited<ReturnType<typeof processSearchIndexTask>>;
 
+const FILTER_PAGE_SIZE = 5000;
+
+function getFilterSql(
+  { indexName, filter: config }: SearchIndexProcessor,
+  filter: SearchIndexFilter
+) {
+  if (!config) throw new Error(`${indexName} does not support filtered updates`);
+
+  const AND: Prisma.Sql[] = [];
+  if (filter.userId) {
+    if (!config.userColumn) throw new Error(`${indexName} can't be filtered by user`);
+    AND.push(Prisma.sql`t.${Prisma.raw(`"${config.userColumn}"`)} = ${filter.userId}`);
+  }
+  if (filter.tagId) {
+    if (!config.tags) throw new Error(`${indexName} can't be filtered by tag`);
+    const { table, column } = config.tags;
+    AND.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM ${Prisma.raw(`"${table}"`)} tt
+      WHERE tt.${Prisma.raw(`"${column}"`)} = t.id AND tt."tagId" = ${filter.tagId}
+    )`);
+  }
+  if (filter.updatedFrom || filter.updatedTo) {
+    if (!config.updatedAtColumn) throw new Error(`${indexName} can't be filtered by update date`);
+    const updatedAt = Prisma.raw(`t."${config.updatedAtColumn}"`);
+    if (filter.updatedFrom) AND.push(Prisma.sql`${updatedAt} >= ${filter.updatedFrom}`);
+    if (filter.updatedTo) AND.push(Prisma.sql`${updatedAt} < ${filter.updatedTo}`);
+  }
+  if (!AND.length) throw new Error('No filter provided');
+
+  return { table: Prisma.raw(`"${config.table}"`), where: Prisma.join(AND, ' AND ') };
+}
+
+async function countByFilter(
+  db: PrismaClient,
+  processor: SearchIndexProcessor,
+  filter: SearchIndexFilter
+) {
+  const { table, where } = getFilterSql(processor, filter);
+  const [{ count }] = await db.$queryRaw<{ count: number }[]>`
+    SELECT COUNT(*)::int "count" FROM ${table} t WHERE ${where}
+  `;
+  return count;
+}
+
+async function getIdsByFilter(
+  db: PrismaClient,
+  processor: SearchIndexProcessor,
+  filter: SearchIndexFilter,
+  { afterId = 0, limit = FILTER_PAGE_SIZE }: { afterId?: number; limit?: number } = {}
+) {
+  const { table, where } = getFilterSql(processor, filter);
+  const rows = await db.$queryRaw<{ id: number }[]>`
+    SELECT t.id FROM ${table} t
+    WHERE ${where} AND t.id > ${afterId}
+    ORDER BY t.id
+    LIMIT ${limit}
+  `;
+  return rows.map((x) => x.id);
+}
+
+/** Runs the pull and transform steps of a targeted update without pushing the result */
+async function getDocumentsForIds(
+  processor: SearchIndexProcessor,
+  context: SearchIndexContext,
+  ids: number[]
+) {
+  let result: SearchIndexTaskResult = {
+    type: 'pull',
+    mode: 'targeted',
+    ids,
+    steps: processor.pullSteps,
+    currentStep: 0,
+  };
+  while (typeof result === 'object' && result.type !== 'push')
+    result = await processSearchIndexTask(processor, context, result);
+
+  if (result === 'error') throw new Error('Failed to prepare documents');
+  if (result === 'done') return [];
+
+  const { data } = result as PushTask;
+  // Match what gets stored, dates are serialized for example
+  const documents = processor.getDocuments ? processor.getDocuments(data) : data;
+  return JSON.parse(JSON.stringify(documents)) as Record<string, unknown>[];
+}
+
+async function getIndexedDocuments(indexName: string, ids: (string | number)[]) {
+  const documents = new Map<string | number, Record<string, unknown>>();
+  const tasks = ids.map((id) => async () => {
+    const document = await searchBackend.getDocument({ indexName, id });
+    if (document) documents.set(id, document);
+  });
+  await limitConcurrency(tasks, 20);
+
+  return documents;
+}
+
+function getDocumentDiff(current: Record<string, unknown>, next: Record<string, unknown>) {
+  const diff: Record<string, { current: unknown; next: unknown }> = {};
+  for (const key of new Set([...Object.keys(current), ...Object.keys(next)])) {
+    if (isEqual(current[key], next[key])) continue;
+    diff[key] = { current: current[key], next: next[key] };
+  }
+  return diff;
+}
+
 export function createSearchIndexUpdateProcessor(processor: SearchIndexProcessor) {
   const {
     indexName,
@@ -232,7 +351,7 @@ export function createSearchIndexUpdateProcessor(processor: SearchIndexProcessor
       await Promise.all(workers);
 
       if (queuedDeletes.content.length > 0) {
-        await onSearchIndexDocumentsCleanup({ indexName, ids: queuedDeletes.content });
+        await searchBackend.deleteDocuments({ indexName, ids: queuedDeletes.content });
       }
 
       // Commit queues:
@@ -253,9 +372,9 @@ export function createSearchIndexUpdateProcessor(processor: SearchIndexProcessor
     async reset(jobContext: JobContext) {
       // First, setup and init both indexes - Swap requires both indexes to be created:
       // In order to swap, the base index must exist. because of this, we need to create or get it.
-      await getOrCreateIndex(indexName, { primaryKey });
+      await searchBackend.setupIndex({ indexName, primaryKey });
       const swapIndexName = `${indexName}_NEW`;
-      await setup({ indexName: swapIndexName });
+      await searchBackend.setupIndex({ indexName: swapIndexName, primaryKey, configure: setup });
 
       const ctx = { db: dbRead, indexName: swapIndexName, jobContext, logger };
       // Run update
@@ -289,7 +408,7 @@ export function createSearchIndexUpdateProcessor(processor: SearchIndexProcessor
 
       await Promise.all(workers);
       // Finally, perform the swap:
-      await swapIndex({ indexName, swapIndexName });
+      await searchBackend.swapIndex({ indexName, swapIndexName });
       // Clear update queue since our index should be brand new:
       await SearchIndexUpdate.clearQueue(indexName);
     },
@@ -316,7 +435,7 @@ export function createSearchIndexUpdateProcessor(processor: SearchIndexProcessor
           .map(({ id }) => id);
 
         if (deleteIds.length > 0) {
-          await onSearchIndexDocumentsCleanup({ indexName, ids: deleteIds });
+          await searchBackend.deleteDocuments({ indexName, ids: deleteIds });
         }
 
         if (updateIds.length > 0) {
@@ -341,6 +460,58 @@ export function createSearchIndexUpdateProcessor(processor: SearchIndexProcessor
     async queueUpdate(items: Array<{ id: number; action?: SearchIndexUpdateQueueAction }>) {
       await SearchIndexUpdate.queueUpdate({ indexName, items });
     },
+    /**
+     * Reindexes only the documents matching the filter, without swapping the index.
+     */
+    async updateByFilter(filter: SearchIndexFilter, jobContext: JobContext) {
+      let total = 0;
+      let afterId = 0;
+      while (true) {
+        jobContext.checkIfCanceled();
+        const ids = await getIdsByFilter(dbRead, processor, filter, { afterId });
+        if (!ids.length) break;
+
+        await this.updateSync(
+          ids.map((id) => ({ id })),
+          jobContext
+        );
+        total += ids.length;
+        afterId = ids[ids.length - 1];
+      }
+
+      return { total };
+    },
+    /**
+     * Reports how many documents match the filter, along with the field level differences
+     * against what's currently indexed for a sample of them.
+     */
+    async dryRun(filter: SearchIndexFilter, jobContext: JobContext, sampleSize = 10) {
+      const ctx = { db: dbRead, indexName, jobContext, logger };
+      const total = await countByFilter(dbRead, processor, filter);
+      const ids = await getIdsByFilter(dbRead, processor, filter, { limit: sampleSize });
+
+      jobContext.checkIfCanceled();
+      const documents = ids.length ? await getDocumentsForIds(processor, ctx, ids) : [];
+      const indexed = await getIndexedDocuments(
+        indexName,
+        documents.map((x) => x[primaryKey] as string | number)
+      );
+
+      const sample = documents.map((document) => {
+        const id = document[primaryKey] as string | number;
+        const current = indexed.get(id);
+        const diff = getDocumentDiff(current ?? {}, document);
+        const status = !current ? 'added' : Object.keys(diff).length ? 'changed' : 'unchanged';
+        return { id, status, diff };
+      });
+
+      return {
+        total,
+        sample,
+        // Sampled ids that the index excludes, eg. unpublished models
+        skipped: Math.max(ids.length - documents.length, 0),
+      };
+    },
   };
 }
 export type SearchIndexRunContext = {
@@ -1,5 +1,5 @@
-import { updateDocs } from '~/server/meilisearch/client';
-import { getOrCreateIndex, onSearchIndexDocumentsCleanup } from '~/server/meilisearch/util';
+import { searchBackend } from '~/server/search-backend';
+import { getOrCreateIndex } from '~/server/meilisearch/util';
 import { EnqueuedTask } from 'meilisearch';
 import {
   createSearchIndexUpdateProcessor,
@@ -408,7 +408,7 @@ export const bountiesSearchIndex = createSearchIndexUpdateProcessor({
   },
   transformData,
   pushData: async ({ indexName, jobContext }, records) => {
-    await updateDocs({
+    await searchBackend.updateDocuments({
       indexName,
       documents: records as any[],
       batchSize: MEILISEARCH_DOCUMENT_BATCH_SIZE,
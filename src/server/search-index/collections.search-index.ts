@@ -1,4 +1,4 @@
-import { updateDocs } from '~/server/meilisearch/client';
+import { searchBackend } from '~/server/search-backend';
 import { getOrCreateIndex } from '~/server/meilisearch/util';
 import { createSearchIndexUpdateProcessor } from '~/server/search-index/base.search-index';
 import {
@@ -440,7 +440,7 @@ export const collectionsSearchIndex = createSearchIndexUpdateProcessor({
   },
   transformData,
   pushData: async ({ indexName, jobContext }, records) => {
-    await updateDocs({
+    await searchBackend.updateDocuments({
       indexName,
       documents: records as any[],
       batchSize: MEILISEARCH_DOCUMENT_BATCH_SIZE,
@@ -1,4 +1,5 @@
-import { client, updateDocs } from '~/server/meilisearch/client';
+import { client } from '~/server/meilisearch/client';
+import { searchBackend } from '~/server/search-backend';
 import { getOrCreateIndex } from '~/server/meilisearch/util';
 import { FilterableAttributes, SearchableAttributes, SortableAttributes } from 'meilisearch';
 import { createSearchIndexUpdateProcessor } from '~/server/search-index/base.search-index';
@@ -262,6 +263,12 @@ export const imagesSearchIndex = createSearchIndexUpdateProcessor({
   indexName: INDEX_ID,
   setup: onIndexSetup,
   maxQueueSize: 20, // Avoids hogging too much memory.
+  filter: {
+    table: 'Image',
+    userColumn: 'userId',
+    updatedAtColumn: 'updatedAt',
+    tags: { table: 'TagsOnImage', column: 'imageId' },
+  },
   pullSteps: 3,
   prepareBatches: async ({ db }, lastUpdatedAt) => {
     const data = await db.$queryRaw<{ startId: number; endId: number }[]>`
@@ -460,7 +467,7 @@ export const imagesSearchIndex = createSearchIndexUpdateProcessor({
   transformData,
   pushData: async ({ indexName }, data) => {
     if (data.length > 0) {
-      await updateDocs({
+      await searchBackend.updateDocuments({
         indexName,
         documents: data,
         batchSize: MEILISEARCH_DOCUMENT_BATCH_SIZE,
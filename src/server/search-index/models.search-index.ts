@@ -1,4 +1,5 @@
-import { client, updateDocs } from '~/server/meilisearch/client';
+import { client } from '~/server/meilisearch/client';
+import { searchBackend } from '~/server/search-backend';
 import { userWithCosmeticsSelect } from '~/server/selectors/user.selector';
 import { modelHashSelect } from '~/server/selectors/modelHash.selector';
 import { Availability, MetricTimeframe, ModelHashType, ModelStatus, Prisma } from '@prisma/client';
@@ -347,10 +348,24 @@ export type ModelSearchIndexRecord = Awaited<
 >['indexReadyRecords'][number] &
   Awaited<ReturnType<typeof transformData>>['indexRecordsWithImages'][number];
 
+const getDocuments = (data: unknown) => {
+  const { indexReadyRecords, indexRecordsWithImages } = data as Awaited<
+    ReturnType<typeof transformData>
+  >;
+
+  return [...indexReadyRecords, ...indexRecordsWithImages];
+};
+
 export const modelsSearchIndex = createSearchIndexUpdateProcessor({
   indexName: INDEX_ID,
   setup: onIndexSetup,
   maxQueueSize: 25, // Avoids hoggging too much memory.
+  filter: {
+    table: 'Model',
+    userColumn: 'userId',
+    updatedAtColumn: 'updatedAt',
+    tags: { table: 'TagsOnModels', column: 'modelId' },
+  },
   prepareBatches: async ({ db, logger }, lastUpdatedAt) => {
     const data = await db.$queryRaw<{ startId: number; endId: number }[]>`
       SELECT MIN(id) as "startId", MAX(id) as "endId" FROM "Model"
@@ -477,16 +492,12 @@ export const modelsSearchIndex = createSearchIndexUpdateProcessor({
     };
   },
   transformData,
+  getDocuments,
   pushData: async ({ indexName }, data) => {
-    const { indexReadyRecords, indexRecordsWithImages } = data as {
-      indexReadyRecords: any[];
-      indexRecordsWithImages: any[];
-    };
-
-    const records = [...indexReadyRecords, ...indexRecordsWithImages];
+    const records = getDocuments(data);
 
     if (records.length > 0) {
-      await updateDocs({
+      await searchBackend.updateDocuments({
         indexName,
         documents: records,
         batchSize: MEILISEARCH_DOCUMENT_BATCH_SIZE,
@@ -2,8 +2,8 @@ import { CosmeticSource, CosmeticType, Prisma, PrismaClient } from '@prisma/clie
 import { SearchIndexUpdateQueueAction } from '~/server/common/enums';
 import { EnqueuedTask } from 'meilisearch';
 import { USERS_SEARCH_INDEX } from '~/server/common/constants';
-import { updateDocs } from '~/server/meilisearch/client';
-import { getOrCreateIndex, onSearchIndexDocumentsCleanup } from '~/server/meilisearch/util';
+import { searchBackend } from '~/server/search-backend';
+import { getOrCreateIndex } from '~/server/meilisearch/util';
 import {
   createSearchIndexUpdateProcessor,
   SearchIndexRunContext,
@@ -182,6 +182,7 @@ export const usersSearchIndex = createSearchIndexUpdateProcessor({
   indexName: INDEX_ID,
   setup: onIndexSetup,
   workerCount: 25,
+  filter: { table: 'User', userColumn: 'id' },
   prepareBatches: async ({ db, logger }, lastUpdatedAt) => {
     const where = [
       ...WHERE,
@@ -317,7 +318,7 @@ export const usersSearchIndex = createSearchIndexUpdateProcessor({
   },
   transformData,
   pushData: async ({ indexName, jobContext }, records) => {
-    await updateDocs({
+    await searchBackend.updateDocuments({
       indexName,
       documents: records as any[],
       batchSize: MEILISEARCH_DOCUMENT_BATCH_SIZE,
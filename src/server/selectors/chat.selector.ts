@@ -2,6 +2,36 @@ import { ChatMessageType, Prisma } from '@prisma/client';
 import { userWithCosmeticsSelect } from '~/server/selectors/user.selector';
 import { profileImageSelect } from '~/server/selectors/image.selector';
 
+export const chatMemberSelect = Prisma.validator<Prisma.ChatMemberSelect>()({
+  id: true,
+  userId: true,
+  isOwner: true,
+  isMuted: true,
+  role: true,
+  mutedUntil: true,
+  status: true,
+  lastViewedMessageId: true,
+  createdAt: true,
+  // TODO do we need these datetimes in the frontend?
+  // joinedAt: true,
+  // leftAt: true,
+  // kickedAt: true,
+  // unkickedAt: true,
+  user: {
+    select: {
+      ...userWithCosmeticsSelect,
+      id: true,
+      username: true,
+      isModerator: true,
+      deletedAt: true,
+      image: true,
+      profilePicture: {
+        select: profileImageSelect,
+      },
+    },
+  },
+});
+
 export const singleChatSelect = Prisma.validator<Prisma.ChatSelect>()({
   id: true,
   createdAt: true,
@@ -9,33 +39,7 @@ export const singleChatSelect = Prisma.validator<Prisma.ChatSelect>()({
   ownerId: true,
   chatMembers: {
     // where: { status: { in: [ChatMemberStatus.Joined, ChatMemberStatus.Invited] } },
-    select: {
-      id: true,
-      userId: true,
-      isOwner: true,
-      isMuted: true,
-      status: true,
-      lastViewedMessageId: true,
-      createdAt: true,
-      // TODO do we need these datetimes in the frontend?
-      // joinedAt: true,
-      // leftAt: true,
-      // kickedAt: true,
-      // unkickedAt: true,
-      user: {
-        select: {
-          ...userWithCosmeticsSelect,
-          id: true,
-          username: true,
-          isModerator: true,
-          deletedAt: true,
-          image: true,
-          profilePicture: {
-            select: profileImageSelect,
-          },
-        },
-      },
-    },
+    select: chatMemberSelect,
   },
 });
 
@@ -50,6 +54,36 @@ export const latestChat = Prisma.validator<Prisma.ChatSelect>()({
     },
     where: {
       contentType: { not: ChatMessageType.Embed },
+      deletedAt: null,
+    },
+  },
+});
+
+export const chatMessageSelect = Prisma.validator<Prisma.ChatMessageSelect>()({
+  id: true,
+  createdAt: true,
+  userId: true,
+  chatId: true,
+  content: true,
+  contentType: true,
+  referenceMessageId: true,
+  editedAt: true,
+  deletedAt: true,
+  reactions: {
+    select: { userId: true, reaction: true },
+  },
+  attachments: {
+    select: {
+      id: true,
+      image: { select: profileImageSelect },
+      modelVersion: {
+        select: {
+          id: true,
+          name: true,
+          baseModel: true,
+          model: { select: { id: true, name: true, type: true } },
+        },
+      },
     },
   },
 });
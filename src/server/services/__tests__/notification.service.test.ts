@@ -0,0 +1,172 @@
+import { Prisma } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { notificationDigestEmail } from '~/server/email/templates';
+import { sendNotificationDigests } from '~/server/services/notification.service';
+
+type Notification = {
+  id: number;
+  userId: number;
+  type: string;
+  category: string;
+  details: MixedObject;
+  createdAt: Date;
+  read: boolean;
+};
+
+const { db, notifDb, queries } = vi.hoisted(() => {
+  const queries: Prisma.Sql[] = [];
+  return {
+    queries,
+    db: {
+      userNotificationFrequency: { findMany: vi.fn(), updateMany: vi.fn() },
+      user: { findMany: vi.fn() },
+    },
+    notifDb: {
+      results: [] as Notification[][],
+      cancellableQuery: vi.fn(async (query: Prisma.Sql) => {
+        queries.push(query);
+        const result = notifDb.results.shift() ?? [];
+        return { result: async () => result, cancel: vi.fn() };
+      }),
+    },
+  };
+});
+
+vi.mock('~/server/db/client', () => ({ dbRead: db, dbWrite: db }));
+vi.mock('~/server/db/notifDb', () => ({ notifDbRead: notifDb, notifDbWrite: notifDb }));
+vi.mock('~/server/email/templates', () => ({ notificationDigestEmail: { send: vi.fn() } }));
+vi.mock('~/server/logging/client', () => ({ logToAxiom: vi.fn(async () => undefined) }));
+vi.mock('~/server/notifications/detail-fetchers', () => ({
+  populateNotificationDetails: vi.fn(),
+}));
+vi.mock('~/server/notifications/utils.notifications', () => ({
+  getNotificationMessage: ({ type }: { type: string }) =>
+    type === 'unknown' ? null : { message: type, url: `/${type}` },
+}));
+vi.mock('~/server/notifications/notification-cache', () => ({ notificationCache: {} }));
+vi.mock('~/server/services/user-preferences.service', () => ({
+  BlockedByUsers: {},
+  BlockedUsers: {},
+}));
+
+const since = new Date('2024-08-01T00:00:00Z');
+const until = new Date('2024-08-02T00:00:00Z');
+
+let nextId = 1;
+function notification(userId: number, category: string, type = `${category}-${nextId}`) {
+  return {
+    id: nextId++,
+    userId,
+    type,
+    category,
+    details: {},
+    createdAt: until,
+    read: false,
+  };
+}
+
+function setUsers(settings: { userId: number; category: string; lastSentAt?: Date }[]) {
+  db.userNotificationFrequency.findMany.mockResolvedValue(
+    settings.map((x) => ({ lastSentAt: null, ...x }))
+  );
+  db.user.findMany.mockImplementation(async ({ where }: { where: { id: { in: number[] } } }) =>
+    where.id.in.map((id) => ({ id, email: `user${id}@civitai.com`, username: `user${id}` }))
+  );
+}
+
+// The values of each window joined against the notifications, as [userId, category, since]
+function getWindows(query: Prisma.Sql) {
+  const values = query.values.slice(0, -1);
+  return Array.from({ length: values.length / 3 }, (_, i) => values.slice(i * 3, i * 3 + 3));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  queries.length = 0;
+  notifDb.results.length = 0;
+});
+
+describe('sendNotificationDigests', () => {
+  it('only includes notifications created before the job started', async () => {
+    setUsers([{ userId: 1, category: 'Comment' }]);
+
+    await sendNotificationDigests({ frequency: 'Daily', since, until });
+
+    expect(queries[0].text).toContain('un."createdAt" > w.since');
+    expect(queries[0].text).toMatch(/un\."createdAt" <= \$\d+/);
+    expect(queries[0].values.at(-1)).toBe(until);
+  });
+
+  it('groups notifications into a section per category', async () => {
+    setUsers([
+      { userId: 1, category: 'Comment' },
+      { userId: 1, category: 'Buzz' },
+      { userId: 2, category: 'Buzz' },
+    ]);
+    notifDb.results.push([
+      ...Array.from({ length: 12 }, () => notification(1, 'Comment')),
+      notification(1, 'Buzz', 'tip'),
+      notification(1, 'Buzz', 'unknown'),
+      notification(2, 'Buzz', 'unknown'),
+    ]);
+
+    const result = await sendNotificationDigests({ frequency: 'Daily', since, until });
+
+    expect(result).toEqual({ sent: 1 });
+    expect(notificationDigestEmail.send).toHaveBeenCalledTimes(1);
+    const { user, frequency, sections } = vi.mocked(notificationDigestEmail.send).mock.calls[0][0];
+    expect(user.username).toBe('user1');
+    expect(frequency).toBe('Daily');
+    expect(
+      sections.map(({ label, total, notifications }) => [label, total, notifications.length])
+    ).toEqual([
+      ['Comments', 12, 10],
+      ['Buzz', 2, 1],
+    ]);
+  });
+
+  it('queries users in batches', async () => {
+    setUsers(Array.from({ length: 501 }, (_, i) => ({ userId: i + 1, category: 'Comment' })));
+
+    await sendNotificationDigests({ frequency: 'Weekly', since, until });
+
+    expect(queries).toHaveLength(2);
+    expect(getWindows(queries[0])).toHaveLength(500);
+    expect(getWindows(queries[1])).toEqual([[501, 'Comment', since]]);
+  });
+
+  it('continues from the last digest sent to each user', async () => {
+    const lastSentAt = new Date('2024-08-01T12:00:00Z');
+    setUsers([
+      { userId: 1, category: 'Comment', lastSentAt },
+      { userId: 2, category: 'Comment', lastSentAt: new Date('2024-07-01T00:00:00Z') },
+    ]);
+
+    await sendNotificationDigests({ frequency: 'Daily', since, until });
+
+    expect(getWindows(queries[0])).toEqual([
+      [1, 'Comment', lastSentAt],
+      [2, 'Comment', since],
+    ]);
+  });
+
+  it('records progress for users that were sent a digest', async () => {
+    setUsers([
+      { userId: 1, category: 'Comment' },
+      { userId: 2, category: 'Comment' },
+    ]);
+    notifDb.results.push([notification(1, 'Comment'), notification(2, 'Comment')]);
+    vi.mocked(notificationDigestEmail.send).mockImplementation(async ({ user }) => {
+      if (user.username === 'user2') throw new Error('Failed to send');
+    });
+
+    const result = await sendNotificationDigests({ frequency: 'Daily', since, until });
+
+    expect(result).toEqual({ sent: 1 });
+    expect(db.userNotificationFrequency.updateMany).toHaveBeenCalledTimes(1);
+    expect(db.userNotificationFrequency.updateMany).toHaveBeenCalledWith({
+      where: { userId: 1, frequency: 'Daily' },
+      data: { lastSentAt: until },
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { extModeration } from '~/server/integrations/moderation';
+import {
+  getPromptModerationRules,
+  SystemPromptModerationRule,
+} from '~/server/services/system-cache';
+import { moderatePrompt, testPromptModeration } from '~/server/services/prompt-moderation.service';
+import { getPatternRegex } from '~/server/utils/prompt-moderation';
+
+const { createLog } = vi.hoisted(() => ({ createLog: vi.fn() }));
+
+vi.mock('~/server/db/client', () => ({
+  dbRead: {},
+  dbWrite: { promptModerationLog: { create: createLog } },
+}));
+vi.mock('~/server/redis/client', () => ({ redis: {}, REDIS_KEYS: { SYSTEM: {} } }));
+vi.mock('~/server/logging/client', () => ({ logToAxiom: vi.fn() }));
+vi.mock('~/server/services/system-cache', () => ({ getPromptModerationRules: vi.fn() }));
+vi.mock('~/server/integrations/moderation', () => ({
+  extModeration: { isConfigured: vi.fn(), moderatePrompt: vi.fn() },
+}));
+vi.mock('~/server/utils/prompt-moderation', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('~/server/utils/prompt-moderation')>();
+  return { ...actual, getPatternRegex: vi.fn(actual.getPatternRegex) };
+});
+
+let nextId = 1;
+function rule(data: Partial<SystemPromptModerationRule>): SystemPromptModerationRule {
+  return {
+    id: nextId++,
+    type: 'Block',
+    pattern: '',
+    isRegex: false,
+    replacement: null,
+    category: null,
+    ...data,
+  };
+}
+
+function setRules(rules: SystemPromptModerationRule[]) {
+  // Rules are read from the redis cache, so every call returns a new copy
+  vi.mocked(getPromptModerationRules).mockImplementation(async () => structuredClone(rules));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  createLog.mockResolvedValue({});
+  vi.mocked(extModeration.isConfigured).mockReturnValue(false);
+});
+
+describe('prompt moderation', () => {
+  it('flags prompts matching a block rule', async () => {
+    const blockRule = rule({ pattern: 'forbidden thing', category: 'forbidden' });
+    setRules([blockRule]);
+
+    expect(await testPromptModeration({ prompt: 'a Forbidden  thing' })).toEqual({
+      flagged: true,
+      categories: ['forbidden'],
+      stage: 'Blocklist',
+      ruleId: blockRule.id,
+      preparedPrompt: 'a Forbidden  thing',
+    });
+    expect((await testPromptModeration({ prompt: 'a thing' })).flagged).toBe(false);
+  });
+
+  it('applies allow rules before the block rules', async () => {
+    setRules([
+      rule({ pattern: 'girl', category: 'minor' }),
+      rule({ type: 'Allow', pattern: '1girl', replacement: 'woman' }),
+      rule({ type: 'Allow', pattern: 'girl(friend)', isRegex: true, replacement: 'partner' }),
+    ]);
+
+    expect(await testPromptModeration({ prompt: '1girl with her girlfriend' })).toEqual({
+      flagged: false,
+      categories: [],
+      preparedPrompt: 'woman with her partner',
+    });
+  });
+
+  it('sends the prepared prompt to the external moderation', async () => {
+    setRules([rule({ type: 'Allow', pattern: 'nsfw', replacement: null })]);
+    vi.mocked(extModeration.isConfigured).mockReturnValue(true);
+    vi.mocked(extModeration.moderatePrompt).mockResolvedValue({
+      flagged: true,
+      categories: ['violence'],
+    });
+
+    expect(await testPromptModeration({ prompt: 'nsfw fight' })).toMatchObject({
+      flagged: true,
+      categories: ['violence'],
+      stage: 'External',
+    });
+    expect(extModeration.moderatePrompt).toHaveBeenCalledWith(' fight');
+  });
+
+  it('allows prompts when the external moderation fails', async () => {
+    setRules([]);
+    vi.mocked(extModeration.isConfigured).mockReturnValue(true);
+    vi.mocked(extModeration.moderatePrompt).mockRejectedValue(new Error('Unavailable'));
+
+    expect((await testPromptModeration({ prompt: 'anything' })).flagged).toBe(false);
+  });
+
+  it('skips stored rules that are unsafe', async () => {
+    const safeRule = rule({ pattern: 'b' });
+    setRules([rule({ pattern: '(a+)+$', isRegex: true }), safeRule]);
+
+    const result = await testPromptModeration({ prompt: `${'a'.repeat(40)}! b` });
+    expect(result).toMatchObject({ flagged: true, ruleId: safeRule.id });
+  });
+
+  it('only compiles patterns again when the rules change', async () => {
+    const rules = [rule({ pattern: 'a' }), rule({ type: 'Allow', pattern: 'b' })];
+    setRules(rules);
+
+    await testPromptModeration({ prompt: 'x' });
+    await testPromptModeration({ prompt: 'y' });
+    expect(getPatternRegex).toHaveBeenCalledTimes(2);
+
+    setRules([...rules, rule({ pattern: 'c' })]);
+    await testPromptModeration({ prompt: 'z' });
+    expect(getPatternRegex).toHaveBeenCalledTimes(5);
+  });
+
+  it('logs flagged prompts', async () => {
+    const blockRule = rule({ pattern: 'bad' });
+    setRules([blockRule]);
+
+    await moderatePrompt({ prompt: 'something bad', userId: 5 });
+    expect(createLog).toHaveBeenCalledWith({
+      data: {
+        userId: 5,
+        prompt: 'something bad',
+        stage: 'Blocklist',
+        categories: ['blocked term'],
+        ruleId: blockRule.id,
+      },
+    });
+
+    await moderatePrompt({ prompt: 'something good', userId: 5 });
+    expect(createLog).toHaveBeenCalledTimes(1);
+  });
+});
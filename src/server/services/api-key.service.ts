@@ -1,5 +1,6 @@
-import { ApiKeyType } from '@prisma/client';
+import { ApiKeyType, Prisma } from '@prisma/client';
 import { dbWrite, dbRead } from '~/server/db/client';
+import { redis, REDIS_KEYS } from '~/server/redis/client';
 import {
   AddAPIKeyInput,
   DeleteAPIKeyInput,
@@ -34,6 +35,9 @@ export async function getUserApiKeys({
       scope: true,
       name: true,
       createdAt: true,
+      allowedIps: true,
+      lastUsedAt: true,
+      requestCount: true,
     },
   });
   return keys.filter((x) => x.name !== generationServiceCookie.name);
@@ -42,6 +46,7 @@ export async function getUserApiKeys({
 export async function addApiKey({
   name,
   scope,
+  allowedIps,
   userId,
   maxAge,
   type,
@@ -53,6 +58,7 @@ export async function addApiKey({
   await dbWrite.apiKey.create({
     data: {
       scope,
+      allowedIps,
       name,
       userId,
       key: secret,
@@ -86,3 +92,65 @@ export function deleteApiKey({ id, userId }: DeleteAPIKeyInput & { userId: numbe
     },
   });
 }
+
+export function getActiveApiKey(token: string) {
+  return dbRead.apiKey.findFirst({
+    where: { key: token, OR: [{ expiresAt: null }, { expiresAt: { gte: new Date() } }] },
+    select: { id: true, userId: true, scope: true, allowedIps: true },
+  });
+}
+
+export async function recordApiKeyUsage(id: number) {
+  await Promise.all([
+    redis.hIncrBy(REDIS_KEYS.COUNTERS.API_KEY_REQUESTS, id.toString(), 1),
+    redis.hSet(REDIS_KEYS.COUNTERS.API_KEY_LAST_USED, id.toString(), Date.now()),
+  ]);
+}
+
+/**
+ * Moves the request counters collected in redis to the keys.
+ * The counters are taken and cleared in one transaction so requests made during the flush go to the next one.
+ */
+export async function flushApiKeyUsage() {
+  const { API_KEY_REQUESTS, API_KEY_LAST_USED } = REDIS_KEYS.COUNTERS;
+  const [requests, lastUsed] = (await redis
+    .multi()
+    .hGetAll(API_KEY_REQUESTS)
+    .hGetAll(API_KEY_LAST_USED)
+    .del([API_KEY_REQUESTS, API_KEY_LAST_USED])
+    .exec()) as unknown as [Record<string, string>, Record<string, string>];
+
+  const usage = Object.entries(requests)
+    .map(([id, count]) => ({
+      id: Number(id),
+      count: Number(count),
+      lastUsedAt: new Date(Number(lastUsed[id] ?? Date.now())),
+    }))
+    .filter((x) => x.count > 0);
+  if (!usage.length) return 0;
+
+  try {
+    await dbWrite.$executeRaw`
+      UPDATE "ApiKey" k
+      SET "requestCount" = k."requestCount" + u.count,
+        "lastUsedAt" = GREATEST(k."lastUsedAt", u."lastUsedAt")
+      FROM (
+        VALUES ${Prisma.join(
+          usage.map((x) => Prisma.sql`(${x.id}::int, ${x.count}::int, ${x.lastUsedAt}::timestamp)`)
+        )}
+      ) AS u(id, count, "lastUsedAt")
+      WHERE k.id = u.id
+    `;
+  } catch (e) {
+    // Put the counts back for the next flush
+    await Promise.all(
+      usage.flatMap(({ id, count, lastUsedAt }) => [
+        redis.hIncrBy(API_KEY_REQUESTS, id.toString(), count),
+        redis.hSetNX(API_KEY_LAST_USED, id.toString(), lastUsedAt.getTime().toString()),
+      ])
+    );
+    throw e;
+  }
+
+  return usage.length;
+}
@@ -23,6 +23,7 @@ import { PaymentIntentMetadataSchema } from '~/server/schema/stripe.schema';
 import { createNotification } from '~/server/services/notification.service';
 import {
   throwBadRequestError,
+  throwConflictError,
   throwInsufficientFundsError,
   withRetries,
 } from '~/server/utils/errorHandling';
@@ -460,7 +461,7 @@ export async function refundTransaction(
       case 400:
         throw throwBadRequestError('Invalid transaction');
       case 409:
-        throw throwBadRequestError('There is a conflict with the transaction');
+        throw throwConflictError('There is a conflict with the transaction');
       default:
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
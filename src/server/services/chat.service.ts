@@ -1,12 +1,42 @@
-import { ChatMemberStatus, ChatMessageType } from '@prisma/client';
+import {
+  Availability,
+  ChatMemberRole,
+  ChatMemberStatus,
+  ChatMessageType,
+  ImageIngestionStatus,
+  ModelStatus,
+  Prisma,
+} from '@prisma/client';
 import dayjs from 'dayjs';
 import { env } from '~/env/server.mjs';
 import { SignalMessages } from '~/server/common/enums';
 import { dbRead, dbWrite } from '~/server/db/client';
-import { CreateChatInput, CreateMessageInput } from '~/server/schema/chat.schema';
-import { latestChat, singleChatSelect } from '~/server/selectors/chat.selector';
+import { redis, REDIS_KEYS } from '~/server/redis/client';
+import {
+  AddUsersInput,
+  ChatInviteIdInput,
+  CreateChatInput,
+  CreateChatInviteInput,
+  CreateMessageInput,
+  DeleteMessageInput,
+  GetChatInvitesInput,
+  MuteMemberInput,
+  SetMemberRoleInput,
+  SearchMessagesInput,
+  ToggleReactionInput,
+} from '~/server/schema/chat.schema';
+import {
+  chatMemberSelect,
+  chatMessageSelect,
+  latestChat,
+  singleChatSelect,
+} from '~/server/selectors/chat.selector';
 import { getChatHash } from '~/server/utils/chat';
-import { throwBadRequestError } from '~/server/utils/errorHandling';
+import {
+  throwAuthorizationError,
+  throwBadRequestError,
+  throwNotFoundError,
+} from '~/server/utils/errorHandling';
 import { find as findLinks } from 'linkifyjs';
 import { logToAxiom } from '~/server/logging/client';
 import { constants } from '~/server/common/constants';
@@ -20,6 +50,37 @@ import { BlockedByUsers, BlockedUsers } from '~/server/services/user-preferences
 export const maxChats = 200;
 export const maxChatsPerDay = 10;
 export const maxUsersPerChat = 10;
+export const maxUsersPerSupporterChat = 50;
+
+/**
+ * Max members (including the owner) a chat can have, based on its owner.
+ * Defaults can be overridden with the `default` and `supporter` fields of the limits hash.
+ */
+export const getChatMemberLimit = async ({ isSupporter }: { isSupporter?: boolean }) => {
+  const limits = await redis.hGetAll(REDIS_KEYS.LIMITS.CHAT_MEMBERS);
+  if (isSupporter) return Number(limits.supporter ?? maxUsersPerSupporterChat);
+  return Number(limits.default ?? maxUsersPerChat);
+};
+
+export const getChatUserTier = async (userId: number) => {
+  const user = await dbRead.user.findFirst({
+    where: { id: userId },
+    select: {
+      isModerator: true,
+      subscriptionId: true,
+    },
+  });
+
+  // TODO add check for CustomerSubscription = active/trialing
+  return {
+    isModerator: user?.isModerator === true,
+    // moderators get the supporter limits
+    isSupporter: !!user?.subscriptionId || user?.isModerator === true,
+  };
+};
+
+export const isMutedInChat = ({ mutedUntil }: { mutedUntil: Date | null }) =>
+  !!mutedUntil && mutedUntil > new Date();
 
 export const upsertChat = async ({
   userIds,
@@ -90,6 +151,7 @@ export const upsertChat = async ({
         userId: u,
         chatId: newChat.id,
         isOwner: u === userId,
+        role: u === userId ? ChatMemberRole.Admin : ChatMemberRole.Member,
         status: u === userId || isModerator ? ChatMemberStatus.Joined : ChatMemberStatus.Invited,
         joinedAt: u === userId || isModerator ? newChat.createdAt : undefined,
       })),
@@ -162,6 +224,8 @@ export const createMessage = async ({
   content,
   contentType,
   referenceMessageId,
+  imageIds = [],
+  modelVersionIds = [],
 }: CreateMessageInput & {
   userId: number;
   muted?: boolean;
@@ -177,6 +241,7 @@ export const createMessage = async ({
           userId: true,
           status: true,
           isOwner: true,
+          mutedUntil: true,
           user: {
             select: {
               isModerator: true,
@@ -199,6 +264,9 @@ export const createMessage = async ({
     if (!['Invited', 'Joined'].includes(thisMember.status)) {
       throw throwBadRequestError(`Unable to post in this chat`);
     }
+    if (isMutedInChat(thisMember)) {
+      throw throwBadRequestError(`You have been muted in this chat`);
+    }
 
     if (muted) {
       const owner = chat.chatMembers.find((cm) => cm.isOwner === true);
@@ -222,15 +290,64 @@ export const createMessage = async ({
 
   if (referenceMessageId) {
     const existingReference = await dbWrite.chatMessage.count({
-      where: { id: referenceMessageId },
+      where: { id: referenceMessageId, deletedAt: null },
     });
     if (existingReference === 0) {
       throw throwBadRequestError(`Reference message does not exist: (${referenceMessageId})`);
     }
   }
 
+  if (imageIds.length > 0) {
+    const images = await dbRead.image.count({
+      where: {
+        id: { in: imageIds },
+        ingestion: ImageIngestionStatus.Scanned,
+        needsReview: null,
+        // only share the sender's own images or images that are already public
+        OR: [
+          { userId },
+          {
+            post: {
+              publishedAt: { lt: new Date() },
+              availability: Availability.Public,
+            },
+          },
+        ],
+      },
+    });
+    if (images !== imageIds.length) {
+      throw throwBadRequestError(`Some attached images are not available`);
+    }
+  }
+
+  if (modelVersionIds.length > 0) {
+    const modelVersions = await dbRead.modelVersion.count({
+      where: {
+        id: { in: modelVersionIds },
+        status: ModelStatus.Published,
+        model: { status: ModelStatus.Published },
+      },
+    });
+    if (modelVersions !== modelVersionIds.length) {
+      throw throwBadRequestError(`Some attached resources are not available`);
+    }
+  }
+
   const resp = await dbWrite.chatMessage.create({
-    data: { chatId, contentType, content, referenceMessageId, userId },
+    data: {
+      chatId,
+      contentType,
+      content,
+      referenceMessageId,
+      userId,
+      attachments: {
+        create: [
+          ...imageIds.map((imageId) => ({ imageId })),
+          ...modelVersionIds.map((modelVersionId) => ({ modelVersionId })),
+        ],
+      },
+    },
+    select: chatMessageSelect,
   });
 
   fetch(`${env.SIGNALS_ENDPOINT}/groups/chat:${chatId}/signals/${SignalMessages.ChatNewMessage}`, {
@@ -260,6 +377,7 @@ export const createMessage = async ({
                 userId: -1,
                 referenceMessageId: resp.id,
               },
+              select: chatMessageSelect,
             })
             .then((embedResp) => {
               fetch(
@@ -290,6 +408,7 @@ export const createMessage = async ({
                   userId: -1,
                   referenceMessageId: resp.id,
                 },
+                select: chatMessageSelect,
               });
 
               fetch(
@@ -320,3 +439,638 @@ export const createMessage = async ({
 
   return resp;
 };
+
+const getMessageForMember = async ({
+  messageId,
+  userId,
+}: {
+  messageId: number;
+  userId: number;
+}) => {
+  const message = await dbWrite.chatMessage.findFirst({
+    where: { id: messageId },
+    select: {
+      id: true,
+      chatId: true,
+      userId: true,
+      deletedAt: true,
+      chat: {
+        select: {
+          chatMembers: {
+            select: {
+              userId: true,
+              status: true,
+              isOwner: true,
+              mutedUntil: true,
+              user: { select: { isModerator: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const member = message?.chat.chatMembers.find((cm) => cm.userId === userId);
+  if (!message || !member) {
+    throw throwNotFoundError(`No message found for ID (${messageId})`);
+  }
+
+  return { message, member };
+};
+
+/**
+ * Soft delete a message, leaving a tombstone in its place
+ */
+export const deleteMessage = async ({
+  messageId,
+  userId,
+  isModerator,
+}: DeleteMessageInput & { userId: number; isModerator?: boolean }) => {
+  const { message } = await getMessageForMember({ messageId, userId });
+
+  if (message.userId !== userId && !isModerator) {
+    throw throwAuthorizationError(`Cannot delete another user's message`);
+  }
+  if (message.deletedAt) {
+    throw throwBadRequestError(`Message has already been deleted`);
+  }
+
+  const deletedAt = new Date();
+  const deleted = await dbWrite.$transaction(async (tx) => {
+    // - embeds generated from this message go with it
+    const embeds = await tx.chatMessage.findMany({
+      where: {
+        referenceMessageId: messageId,
+        userId: -1,
+        contentType: ChatMessageType.Embed,
+        deletedAt: null,
+      },
+      select: { id: true },
+    });
+    const ids = [messageId, ...embeds.map((e) => e.id)];
+
+    await tx.chatMessageReaction.deleteMany({ where: { messageId: { in: ids } } });
+    await tx.chatMessageAttachment.deleteMany({ where: { messageId: { in: ids } } });
+    await tx.chatMessage.updateMany({
+      where: { id: { in: ids } },
+      data: { content: '', deletedAt },
+    });
+
+    return tx.chatMessage.findMany({
+      where: { id: { in: ids } },
+      select: chatMessageSelect,
+    });
+  });
+
+  for (const deletedMessage of deleted) {
+    fetch(
+      `${env.SIGNALS_ENDPOINT}/groups/chat:${message.chatId}/signals/${SignalMessages.ChatUpdateMessage}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(deletedMessage as ChatAllMessages[number]),
+      }
+    ).catch();
+  }
+
+  return deleted.find((d) => d.id === messageId);
+};
+
+/**
+ * Add or remove a reaction on a message
+ */
+export const toggleMessageReaction = async ({
+  messageId,
+  reaction,
+  userId,
+  muted,
+}: ToggleReactionInput & { userId: number; muted?: boolean }) => {
+  const { message, member } = await getMessageForMember({ messageId, userId });
+
+  if (message.deletedAt || message.userId === -1) {
+    throw throwBadRequestError(`Cannot react to this message`);
+  }
+  if (member.status !== ChatMemberStatus.Joined || isMutedInChat(member)) {
+    throw throwBadRequestError(`Unable to react in this chat`);
+  }
+  if (muted) {
+    const owner = message.chat.chatMembers.find((cm) => cm.isOwner === true);
+    if (owner?.user?.isModerator !== true) {
+      throw throwBadRequestError(`Unable to react in this chat`);
+    }
+  }
+
+  const existing = await dbWrite.chatMessageReaction.findUnique({
+    where: { messageId_userId_reaction: { messageId, userId, reaction } },
+    select: { id: true },
+  });
+  if (existing) {
+    await dbWrite.chatMessageReaction.delete({ where: { id: existing.id } });
+  } else {
+    await dbWrite.chatMessageReaction.create({ data: { messageId, userId, reaction } });
+  }
+
+  const updated = await dbWrite.chatMessage.findUniqueOrThrow({
+    where: { id: messageId },
+    select: chatMessageSelect,
+  });
+
+  fetch(
+    `${env.SIGNALS_ENDPOINT}/groups/chat:${message.chatId}/signals/${SignalMessages.ChatUpdateMessage}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updated as ChatAllMessages[number]),
+    }
+  ).catch();
+
+  return updated;
+};
+
+/**
+ * Full-text search over the messages a user can see in their chats
+ */
+export const searchMessages = async ({
+  userId,
+  query,
+  chatId,
+  limit,
+  cursor,
+}: SearchMessagesInput & { userId: number }) => {
+  const AND = [
+    Prisma.sql`to_tsvector('english', msg.content) @@ websearch_to_tsquery('english', ${query})`,
+    Prisma.sql`msg."deletedAt" IS NULL`,
+    Prisma.sql`msg."userId" != -1`,
+    Prisma.sql`msg."contentType" = 'Markdown'`,
+    // - members who left or were kicked can only find messages from before that
+    Prisma.sql`(
+      memb.status = 'Joined'
+      OR (memb.status = 'Left' AND msg."createdAt" < memb."leftAt")
+      OR (memb.status = 'Kicked' AND msg."createdAt" < memb."kickedAt")
+    )`,
+  ];
+  if (chatId) AND.push(Prisma.sql`msg."chatId" = ${chatId}`);
+  if (cursor) AND.push(Prisma.sql`msg.id < ${cursor}`);
+
+  const items = await dbRead.$queryRaw<
+    { id: number; chatId: number; userId: number; content: string; createdAt: Date }[]
+  >`
+    SELECT msg.id, msg."chatId", msg."userId", msg.content, msg."createdAt"
+    FROM "ChatMessage" msg
+    JOIN "ChatMember" memb ON memb."chatId" = msg."chatId" AND memb."userId" = ${userId}
+    WHERE ${Prisma.join(AND, ' AND ')}
+    ORDER BY msg.id DESC
+    LIMIT ${limit + 1}
+  `;
+
+  let nextCursor: number | undefined;
+  if (items.length > limit) {
+    items.pop();
+    nextCursor = items[items.length - 1]?.id;
+  }
+
+  return { nextCursor, items };
+};
+
+const getChatAdmin = async ({ chatId, userId }: { chatId: number; userId: number }) => {
+  const admin = await dbWrite.chatMember.findFirst({
+    where: { chatId, userId, status: ChatMemberStatus.Joined, role: ChatMemberRole.Admin },
+    select: { id: true, isOwner: true, user: { select: { username: true } } },
+  });
+  if (!admin) {
+    throw throwAuthorizationError(`Only chat admins can manage this chat`);
+  }
+
+  return admin;
+};
+
+/**
+ * Admins can manage regular members, only the owner can manage other admins
+ */
+export const getManagedChatMember = async ({
+  chatMemberId,
+  userId,
+}: {
+  chatMemberId: number;
+  userId: number;
+}) => {
+  const member = await dbWrite.chatMember.findFirst({
+    where: { id: chatMemberId },
+    select: {
+      id: true,
+      chatId: true,
+      userId: true,
+      isOwner: true,
+      role: true,
+      status: true,
+      user: { select: { username: true } },
+    },
+  });
+  if (!member) {
+    throw throwNotFoundError(`Could not find chat member`);
+  }
+
+  const admin = await getChatAdmin({ chatId: member.chatId, userId });
+  if (member.isOwner || (member.role === ChatMemberRole.Admin && !admin.isOwner)) {
+    throw throwAuthorizationError(`Cannot manage this member`);
+  }
+
+  return { member, admin };
+};
+
+/**
+ * Let the other members (and the member themselves) know a membership changed
+ */
+export const signalChatMemberUpdate = async ({
+  chatId,
+  chatMemberId,
+}: {
+  chatId: number;
+  chatMemberId: number;
+}) => {
+  const member = await dbWrite.chatMember.findUniqueOrThrow({
+    where: { id: chatMemberId },
+    select: chatMemberSelect,
+  });
+  const body = JSON.stringify({ chatId, member });
+
+  fetch(
+    `${env.SIGNALS_ENDPOINT}/groups/chat:${chatId}/signals/${SignalMessages.ChatMemberUpdate}`,
+    { method: 'POST', headers: { 'Content-Type': 'application/json' }, body }
+  ).catch();
+  // - members who are no longer in the group still need to hear about it
+  if (member.status !== ChatMemberStatus.Joined) {
+    fetch(
+      `${env.SIGNALS_ENDPOINT}/users/${member.userId}/signals/${SignalMessages.ChatMemberUpdate}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+      }
+    ).catch();
+  }
+
+  return member;
+};
+
+/**
+ * Add users to an existing chat, re-inviting anyone who left or was kicked
+ */
+export const addChatMembers = async ({
+  chatId,
+  userIds,
+  userId,
+}: AddUsersInput & { userId: number }) => {
+  const admin = await getChatAdmin({ chatId, userId });
+
+  const chat = await dbWrite.chat.findFirst({
+    where: { id: chatId },
+    select: {
+      ownerId: true,
+      chatMembers: { select: { id: true, userId: true, status: true } },
+    },
+  });
+  if (!chat) {
+    throw throwNotFoundError(`Could not find chat with id: (${chatId})`);
+  }
+
+  const blockedUsers = await Promise.all([
+    BlockedUsers.getCached({ userId }),
+    BlockedByUsers.getCached({ userId }),
+  ]);
+  const blockedUserIds = [...new Set(blockedUsers.flat().map((u) => u.id))];
+
+  const activeStatuses: ChatMemberStatus[] = [ChatMemberStatus.Joined, ChatMemberStatus.Invited];
+  const activeMembers = chat.chatMembers.filter((cm) => activeStatuses.includes(cm.status));
+  const usersToAdd = [...new Set(userIds)].filter(
+    (u) => !blockedUserIds.includes(u) && !activeMembers.some((cm) => cm.userId === u)
+  );
+  if (!usersToAdd.length) {
+    throw throwBadRequestError(`No new users to add`);
+  }
+
+  const { isSupporter } = await getChatUserTier(chat.ownerId);
+  const limit = await getChatMemberLimit({ isSupporter });
+  if (activeMembers.length + usersToAdd.length > limit) {
+    throw throwBadRequestError(`Chats can have at most ${limit} members`);
+  }
+
+  const users = await dbRead.user.findMany({
+    where: { id: { in: usersToAdd } },
+    select: { id: true, username: true },
+  });
+  if (users.length !== usersToAdd.length) {
+    throw throwBadRequestError(
+      `Some requested users do not exist (${users.length}/${usersToAdd.length})`
+    );
+  }
+
+  const formerMembers = chat.chatMembers.filter((cm) => usersToAdd.includes(cm.userId));
+  const newUserIds = usersToAdd.filter((u) => !formerMembers.some((cm) => cm.userId === u));
+
+  const updatedChat = await dbWrite.$transaction(async (tx) => {
+    for (const { id, status } of formerMembers) {
+      await tx.chatMember.update({
+        where: { id },
+        data: {
+          status: ChatMemberStatus.Invited,
+          unkickedAt: status === ChatMemberStatus.Kicked ? new Date() : undefined,
+        },
+      });
+    }
+    await tx.chatMember.createMany({
+      data: newUserIds.map((u) => ({ userId: u, chatId, status: ChatMemberStatus.Invited })),
+    });
+
+    // - membership no longer matches the hash the chat was created with
+    return tx.chat.update({
+      where: { id: chatId },
+      data: { hash: `group:${chatId}` },
+      select: {
+        ...singleChatSelect,
+        ...latestChat,
+      },
+    });
+  });
+
+  for (const cmId of usersToAdd) {
+    fetch(`${env.SIGNALS_ENDPOINT}/users/${cmId}/signals/${SignalMessages.ChatNewRoom}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updatedChat as ChatCreateChat),
+    }).catch();
+  }
+  for (const member of updatedChat.chatMembers.filter((cm) => usersToAdd.includes(cm.userId))) {
+    await signalChatMemberUpdate({ chatId, chatMemberId: member.id });
+  }
+
+  await createMessage({
+    chatId,
+    contentType: ChatMessageType.Markdown,
+    content: `${admin.user.username} added ${users.map((u) => u.username).join(', ')}`,
+    userId: -1,
+  });
+
+  return updatedChat;
+};
+
+/**
+ * Promote a member to admin or demote them (owner only)
+ */
+export const setChatMemberRole = async ({
+  chatMemberId,
+  role,
+  userId,
+}: SetMemberRoleInput & { userId: number }) => {
+  const { member, admin } = await getManagedChatMember({ chatMemberId, userId });
+  if (!admin.isOwner) {
+    throw throwAuthorizationError(`Only the chat owner can change roles`);
+  }
+  if (member.status !== ChatMemberStatus.Joined) {
+    throw throwBadRequestError(`Only joined members can be made admins`);
+  }
+  if (member.role === role) return signalChatMemberUpdate({ chatId: member.chatId, chatMemberId });
+
+  await dbWrite.chatMember.update({ where: { id: chatMemberId }, data: { role } });
+
+  await createMessage({
+    chatId: member.chatId,
+    contentType: ChatMessageType.Markdown,
+    content: `${member.user.username} ${
+      role === ChatMemberRole.Admin ? 'is now an admin' : 'is no longer an admin'
+    }`,
+    userId: -1,
+  });
+
+  return signalChatMemberUpdate({ chatId: member.chatId, chatMemberId });
+};
+
+/**
+ * Mute or unmute a member
+ */
+export const muteChatMember = async ({
+  chatMemberId,
+  mutedUntil,
+  userId,
+}: MuteMemberInput & { userId: number }) => {
+  const { member } = await getManagedChatMember({ chatMemberId, userId });
+  if (mutedUntil && mutedUntil <= new Date()) {
+    throw throwBadRequestError(`Mute must end in the future`);
+  }
+
+  await dbWrite.chatMember.update({ where: { id: chatMemberId }, data: { mutedUntil } });
+
+  await createMessage({
+    chatId: member.chatId,
+    contentType: ChatMessageType.Markdown,
+    content: `${member.user.username} was ${mutedUntil ? 'muted' : 'unmuted'}`,
+    userId: -1,
+  });
+
+  return signalChatMemberUpdate({ chatId: member.chatId, chatMemberId });
+};
+
+const chatInviteSelect = Prisma.validator<Prisma.ChatInviteSelect>()({
+  id: true,
+  chatId: true,
+  createdAt: true,
+  expiresAt: true,
+  maxUses: true,
+  uses: true,
+  revokedAt: true,
+  createdBy: { select: { id: true, username: true } },
+});
+
+const isChatInviteValid = (invite: {
+  expiresAt: Date;
+  revokedAt: Date | null;
+  maxUses: number | null;
+  uses: number;
+}) =>
+  !invite.revokedAt &&
+  invite.expiresAt > new Date() &&
+  (invite.maxUses === null || invite.uses < invite.maxUses);
+
+export const getChatInvites = async ({
+  chatId,
+  userId,
+}: GetChatInvitesInput & { userId: number }) => {
+  await getChatAdmin({ chatId, userId });
+
+  const invites = await dbWrite.chatInvite.findMany({
+    where: { chatId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: chatInviteSelect,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return invites.filter(isChatInviteValid);
+};
+
+export const createChatInvite = async ({
+  chatId,
+  expiresInHours,
+  maxUses,
+  userId,
+}: CreateChatInviteInput & { userId: number }) => {
+  await getChatAdmin({ chatId, userId });
+
+  return dbWrite.chatInvite.create({
+    data: {
+      chatId,
+      createdById: userId,
+      expiresAt: dayjs().add(expiresInHours, 'hour').toDate(),
+      maxUses,
+    },
+    select: chatInviteSelect,
+  });
+};
+
+export const revokeChatInvite = async ({ id, userId }: ChatInviteIdInput & { userId: number }) => {
+  const invite = await dbWrite.chatInvite.findUnique({ where: { id }, select: { chatId: true } });
+  if (!invite) {
+    throw throwNotFoundError(`No invite found for ID (${id})`);
+  }
+
+  await getChatAdmin({ chatId: invite.chatId, userId });
+
+  return dbWrite.chatInvite.update({
+    where: { id },
+    data: { revokedAt: new Date() },
+    select: chatInviteSelect,
+  });
+};
+
+/**
+ * Details shown before accepting an invite
+ */
+export const getChatInvite = async ({ id, userId }: ChatInviteIdInput & { userId: number }) => {
+  const invite = await dbRead.chatInvite.findUnique({
+    where: { id },
+    select: {
+      ...chatInviteSelect,
+      chat: {
+        select: {
+          chatMembers: {
+            where: { status: ChatMemberStatus.Joined },
+            select: { userId: true, user: { select: { username: true } } },
+          },
+        },
+      },
+    },
+  });
+  if (!invite) {
+    throw throwNotFoundError(`No invite found for ID (${id})`);
+  }
+
+  const { chat, ...rest } = invite;
+  return {
+    ...rest,
+    valid: isChatInviteValid(invite),
+    isMember: chat.chatMembers.some((cm) => cm.userId === userId),
+    members: chat.chatMembers.map((cm) => cm.user.username),
+  };
+};
+
+export const joinChatByInvite = async ({ id, userId }: ChatInviteIdInput & { userId: number }) => {
+  const invite = await dbWrite.chatInvite.findUnique({
+    where: { id },
+    select: {
+      chatId: true,
+      expiresAt: true,
+      revokedAt: true,
+      maxUses: true,
+      uses: true,
+      chat: {
+        select: {
+          ownerId: true,
+          chatMembers: { select: { id: true, userId: true, status: true } },
+        },
+      },
+    },
+  });
+  if (!invite || !isChatInviteValid(invite)) {
+    throw throwBadRequestError(`This invite link is invalid or has expired`);
+  }
+
+  const { chatId, chat } = invite;
+  const existing = chat.chatMembers.find((cm) => cm.userId === userId);
+  if (existing?.status === ChatMemberStatus.Kicked) {
+    throw throwAuthorizationError(`You were removed from this chat`);
+  }
+
+  if (existing?.status !== ChatMemberStatus.Joined) {
+    const blockedByUsers = await BlockedByUsers.getCached({ userId });
+    if (blockedByUsers.some((u) => u.id === chat.ownerId)) {
+      throw throwBadRequestError(`Unable to join this chat`);
+    }
+
+    if (existing?.status !== ChatMemberStatus.Invited) {
+      const activeMembers = chat.chatMembers.filter(
+        (cm) => cm.status === ChatMemberStatus.Joined || cm.status === ChatMemberStatus.Invited
+      );
+      const { isSupporter } = await getChatUserTier(chat.ownerId);
+      const limit = await getChatMemberLimit({ isSupporter });
+      if (activeMembers.length + 1 > limit) {
+        throw throwBadRequestError(`This chat is full`);
+      }
+    }
+
+    const joinedAt = new Date();
+    const member = await dbWrite.$transaction(async (tx) => {
+      // Checked again with the increment so that concurrent joins can't exceed maxUses
+      const { count } = await tx.chatInvite.updateMany({
+        where: {
+          id,
+          revokedAt: null,
+          expiresAt: { gt: joinedAt },
+          OR: [{ maxUses: null }, { uses: { lt: tx.chatInvite.fields.maxUses } }],
+        },
+        data: { uses: { increment: 1 } },
+      });
+      if (!count) throw throwBadRequestError(`This invite link is invalid or has expired`);
+
+      await tx.chat.update({ where: { id: chatId }, data: { hash: `group:${chatId}` } });
+
+      if (existing) {
+        return tx.chatMember.update({
+          where: { id: existing.id },
+          data: { status: ChatMemberStatus.Joined, joinedAt },
+          select: { id: true, user: { select: { username: true } } },
+        });
+      }
+
+      return tx.chatMember.create({
+        data: { chatId, userId, status: ChatMemberStatus.Joined, joinedAt },
+        select: { id: true, user: { select: { username: true } } },
+      });
+    });
+
+    // we want to await here to avoid race conditions
+    await fetch(`${env.SIGNALS_ENDPOINT}/users/${userId}/groups`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(`chat:${chatId}`),
+    });
+
+    await signalChatMemberUpdate({ chatId, chatMemberId: member.id });
+    await createMessage({
+      chatId,
+      contentType: ChatMessageType.Markdown,
+      content: `${member.user.username} joined`,
+      userId: -1,
+    });
+  }
+
+  const joinedChat = await dbWrite.chat.findFirst({
+    where: { id: chatId },
+    select: {
+      ...singleChatSelect,
+      ...latestChat,
+    },
+  });
+  if (!joinedChat) {
+    throw throwNotFoundError(`Could not find chat with id: (${chatId})`);
+  }
+
+  return joinedChat;
+};
@@ -0,0 +1,119 @@
+import { Prisma, TagSource } from '@prisma/client';
+import { dbRead, dbWrite } from '~/server/db/client';
+import { redis, REDIS_KEYS } from '~/server/redis/client';
+import { GetByIdInput } from '~/server/schema/base.schema';
+import {
+  PreviewComputedTagRuleInput,
+  UpsertComputedTagRuleInput,
+} from '~/server/schema/computed-tag-rule.schema';
+import { throwNotFoundError } from '~/server/utils/errorHandling';
+import { ComputedTagInput, getComputedTags } from '~/server/utils/tag-rules';
+
+const MAX_PREVIEW_IMAGES = 100;
+
+export function getAllComputedTagRules() {
+  return dbRead.computedTagRule.findMany({ orderBy: [{ priority: 'asc' }, { id: 'asc' }] });
+}
+
+async function bustComputedTagRulesCache() {
+  await redis.del(REDIS_KEYS.SYSTEM.COMPUTED_TAG_RULES);
+}
+
+export async function upsertComputedTagRule({
+  id,
+  userId,
+  ...data
+}: UpsertComputedTagRuleInput & { userId: number }) {
+  const rule = id
+    ? await dbWrite.computedTagRule.update({ where: { id }, data })
+    : await dbWrite.computedTagRule.create({ data: { ...data, createdById: userId } });
+
+  await bustComputedTagRulesCache();
+  return rule;
+}
+
+export async function deleteComputedTagRule({ id }: GetByIdInput) {
+  const { count } = await dbWrite.computedTagRule.deleteMany({ where: { id } });
+  if (!count) throw throwNotFoundError(`No computed tag rule with id ${id}`);
+
+  await bustComputedTagRulesCache();
+}
+
+function computeImageTags(
+  tags: (ComputedTagInput & { source: TagSource })[],
+  rules: Parameters<typeof getComputedTags>[2]
+) {
+  // Computed tags are what we're recomputing, so only feed in the tags they're derived from
+  const inputTags = tags.filter((x) => x.source !== TagSource.Computed);
+  const scanSources = [...new Set(inputTags.map((x) => x.source))].filter(
+    (x) => x === TagSource.WD14 || x === TagSource.Rekognition
+  );
+  if (!scanSources.length) scanSources.push(TagSource.WD14);
+
+  const computed = new Set<string>();
+  for (const source of scanSources) {
+    for (const tag of getComputedTags(inputTags, source, rules)) computed.add(tag);
+  }
+  return computed;
+}
+
+/**
+ * Runs a candidate rule alongside the enabled rules over the tags of recently scanned images,
+ * returning the images whose computed tags would change.
+ */
+export async function previewComputedTagRule({
+  id,
+  sampleSize,
+  priority,
+  ...rule
+}: PreviewComputedTagRuleInput) {
+  const currentRules = await dbRead.computedTagRule.findMany({
+    where: { enabled: true },
+    orderBy: [{ priority: 'asc' }, { id: 'asc' }],
+  });
+  const candidateRules = [
+    ...currentRules.filter((x) => x.id !== id),
+    { ...rule, id: id ?? 0, priority },
+  ].sort((a, b) => a.priority - b.priority || a.id - b.id);
+
+  const images = await dbRead.$queryRaw<{ id: number }[]>`
+    SELECT id FROM "Image"
+    WHERE "scannedAt" IS NOT NULL
+    ORDER BY id DESC
+    LIMIT ${sampleSize}
+  `;
+  if (!images.length) return { sampled: 0, gained: 0, lost: 0, images: [] };
+
+  const imageTags = await dbRead.$queryRaw<
+    { imageId: number; tag: string; confidence: number | null; source: TagSource }[]
+  >`
+    SELECT toi."imageId", t.name "tag", toi.confidence, toi.source
+    FROM "TagsOnImage" toi
+    JOIN "Tag" t ON t.id = toi."tagId"
+    WHERE toi."imageId" IN (${Prisma.join(images.map((x) => x.id))}) AND NOT toi.disabled
+  `;
+  const tagsByImage: Record<number, typeof imageTags> = {};
+  for (const tag of imageTags) {
+    tagsByImage[tag.imageId] ??= [];
+    tagsByImage[tag.imageId].push(tag);
+  }
+
+  let gained = 0;
+  let lost = 0;
+  const changes: { imageId: number; added: string[]; removed: string[] }[] = [];
+  for (const { id: imageId } of images) {
+    const tags = tagsByImage[imageId] ?? [];
+    const current = computeImageTags(tags, currentRules);
+    const candidate = computeImageTags(tags, candidateRules);
+
+    const added = [...candidate].filter((tag) => !current.has(tag));
+    const removed = [...current].filter((tag) => !candidate.has(tag));
+    if (!added.length && !removed.length) continue;
+
+    if (added.includes(rule.tag)) gained++;
+    if (removed.includes(rule.tag)) lost++;
+    if (changes.length < MAX_PREVIEW_IMAGES) changes.push({ imageId, added, removed });
+  }
+
+  return { sampled: images.length, gained, lost, images: changes };
+}
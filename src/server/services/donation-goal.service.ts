@@ -1,9 +1,19 @@
+import { DonationGoalUnlock } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { NotificationCategory } from '~/server/common/enums';
 import { dbRead, dbWrite } from '~/server/db/client';
+import { logToAxiom } from '~/server/logging/client';
 import { GetByIdInput } from '~/server/schema/base.schema';
 import { TransactionType } from '~/server/schema/buzz.schema';
-import { DonateToGoalInput } from '~/server/schema/donation-goal.schema';
-import { createBuzzTransaction } from '~/server/services/buzz.service';
+import { DonateToGoalInput, UpdateDonationGoalInput } from '~/server/schema/donation-goal.schema';
+import { createBuzzTransaction, refundTransaction } from '~/server/services/buzz.service';
 import { updateModelEarlyAccessDeadline } from '~/server/services/model.service';
+import { createNotification } from '~/server/services/notification.service';
+import {
+  throwAuthorizationError,
+  throwBadRequestError,
+  throwNotFoundError,
+} from '~/server/utils/errorHandling';
 
 export const donationGoalById = async ({
   id,
@@ -23,6 +33,12 @@ export const donationGoalById = async ({
       userId: true,
       createdAt: true,
       modelVersionId: true,
+      expiresAt: true,
+      completedAt: true,
+      milestones: {
+        select: { id: true, amount: true, title: true, unlock: true, reachedAt: true },
+        orderBy: { amount: 'asc' },
+      },
     },
   });
 
@@ -34,7 +50,7 @@ export const donationGoalById = async ({
     SELECT 
       SUM("amount")::int as total
     FROM "Donation"
-    WHERE "donationGoalId" = ${id} 
+    WHERE "donationGoalId" = ${id} AND "refundedAt" IS NULL
   `;
 
   return { ...donationGoal, total: data?.total ?? 0 };
@@ -57,6 +73,10 @@ export const donateToGoal = async ({
     throw new Error('Goal is not active');
   }
 
+  if (goal.expiresAt && goal.expiresAt <= new Date()) {
+    throw new Error('Goal has expired');
+  }
+
   if (goal.userId === userId) {
     throw new Error('User cannot donate to their own goal');
   }
@@ -86,47 +106,10 @@ export const donateToGoal = async ({
     // Retuns an updated copy of the goal.
     const updatedDonationGoal = await donationGoalById({ id: donationGoalId, userId });
 
-    if (
-      goal.total < goal.goalAmount &&
-      updatedDonationGoal.total >= goal.goalAmount &&
-      goal.isEarlyAccess &&
-      goal.modelVersionId
-    ) {
-      // This goal was completed, early access should be granted. Fetch the model version to confirm early access still applies and complete it.
-      const modelVersion = await dbRead.modelVersion.findUnique({
-        where: {
-          id: goal.modelVersionId,
-        },
-        select: {
-          earlyAccessConfig: true,
-          earlyAccessEndsAt: true,
-          modelId: true,
-        },
-      });
-
-      if (modelVersion?.earlyAccessEndsAt && modelVersion.earlyAccessEndsAt > new Date()) {
-        await dbWrite.$executeRaw`
-          UPDATE "ModelVersion"
-          SET "earlyAccessConfig" = 
-            COALESCE("earlyAccessConfig", '{}'::jsonb)  || JSONB_BUILD_OBJECT(
-              'timeframe', 0,
-              'originalPublishAt', "publishedAt",
-              'originalTimeframe', "earlyAccessConfig"->>'timeframe'
-            ),
-          "earlyAccessEndsAt" = NULL,
-          "availability" = 'Public',
-          "publishedAt" = NOW()
-          WHERE "id" = ${goal.modelVersionId}
-        `;
-
-        await updateModelEarlyAccessDeadline({
-          id: modelVersion.modelId,
-        }).catch((e) => {
-          console.error('Unable to update model early access deadline');
-          console.error(e);
-        });
-      }
-    }
+    // The donation went through, so failing to process milestones shouldn't refund it
+    await processDonationGoalProgress({ ...goal, total: updatedDonationGoal.total }).catch((e) =>
+      logToAxiom({ name: 'donation-goal-progress', type: 'error', message: (e as Error).message })
+    );
 
     return updatedDonationGoal;
   } catch (e) {
@@ -144,3 +127,254 @@ export const donateToGoal = async ({
     throw new Error('Failed to create donation');
   }
 };
+
+async function unlockEarlyAccess(modelVersionId: number) {
+  // Fetch the model version to confirm early access still applies and complete it.
+  const modelVersion = await dbRead.modelVersion.findUnique({
+    where: {
+      id: modelVersionId,
+    },
+    select: {
+      earlyAccessConfig: true,
+      earlyAccessEndsAt: true,
+      modelId: true,
+    },
+  });
+
+  if (modelVersion?.earlyAccessEndsAt && modelVersion.earlyAccessEndsAt > new Date()) {
+    await dbWrite.$executeRaw`
+      UPDATE "ModelVersion"
+      SET "earlyAccessConfig" = 
+        COALESCE("earlyAccessConfig", '{}'::jsonb)  || JSONB_BUILD_OBJECT(
+          'timeframe', 0,
+          'originalPublishAt', "publishedAt",
+          'originalTimeframe', "earlyAccessConfig"->>'timeframe'
+        ),
+      "earlyAccessEndsAt" = NULL,
+      "availability" = 'Public',
+      "publishedAt" = NOW()
+      WHERE "id" = ${modelVersionId}
+    `;
+
+    await updateModelEarlyAccessDeadline({
+      id: modelVersion.modelId,
+    }).catch((e) => {
+      console.error('Unable to update model early access deadline');
+      console.error(e);
+    });
+  }
+}
+
+async function getNotificationDetails(goal: {
+  id: number;
+  title: string;
+  modelVersionId: number | null;
+}) {
+  const modelVersion = goal.modelVersionId
+    ? await dbRead.modelVersion.findUnique({
+        where: { id: goal.modelVersionId },
+        select: { modelId: true },
+      })
+    : null;
+
+  return {
+    goalId: goal.id,
+    goalTitle: goal.title,
+    modelVersionId: goal.modelVersionId,
+    modelId: modelVersion?.modelId,
+  };
+}
+
+async function notifyDonors({
+  goal,
+  milestone,
+}: {
+  goal: { id: number; title: string; modelVersionId: number | null };
+  milestone?: { id: number; title: string };
+}) {
+  const donors = await dbRead.donation.findMany({
+    where: { donationGoalId: goal.id, refundedAt: null },
+    select: { userId: true },
+    distinct: ['userId'],
+  });
+
+  await createNotification({
+    userIds: donors.map((x) => x.userId),
+    type: 'donation-goal-milestone',
+    category: NotificationCategory.Milestone,
+    key: `donation-goal-milestone:${goal.id}:${milestone?.id ?? 'goal'}`,
+    details: { ...(await getNotificationDetails(goal)), milestoneTitle: milestone?.title },
+  });
+}
+
+/**
+ * Marks the goal and its milestones as reached once the total passes their amounts,
+ * unlocking their content and letting donors know.
+ */
+async function processDonationGoalProgress(goal: Awaited<ReturnType<typeof donationGoalById>>) {
+  const now = new Date();
+
+  for (const milestone of goal.milestones) {
+    if (milestone.reachedAt || milestone.amount > goal.total) continue;
+
+    // Concurrent donations could reach the same milestone, only one of them processes it
+    const { count } = await dbWrite.donationGoalMilestone.updateMany({
+      where: { id: milestone.id, reachedAt: null },
+      data: { reachedAt: now },
+    });
+    if (!count) continue;
+
+    if (milestone.unlock === DonationGoalUnlock.EarlyAccess && goal.modelVersionId)
+      await unlockEarlyAccess(goal.modelVersionId);
+    await notifyDonors({ goal, milestone });
+  }
+
+  if (goal.completedAt || goal.total < goal.goalAmount) return;
+
+  const { count } = await dbWrite.donationGoal.updateMany({
+    where: { id: goal.id, completedAt: null },
+    data: { completedAt: now },
+  });
+  if (!count) return;
+
+  // This goal was completed, early access should be granted.
+  if (goal.isEarlyAccess && goal.modelVersionId) await unlockEarlyAccess(goal.modelVersionId);
+  await notifyDonors({ goal });
+}
+
+export const updateDonationGoal = async ({
+  id,
+  expiresAt,
+  milestones,
+  userId,
+  isModerator,
+}: UpdateDonationGoalInput & { userId: number; isModerator?: boolean }) => {
+  const goal = await dbRead.donationGoal.findUnique({
+    where: { id },
+    select: {
+      userId: true,
+      goalAmount: true,
+      modelVersionId: true,
+      active: true,
+      completedAt: true,
+      milestones: { where: { reachedAt: { not: null } }, select: { amount: true } },
+      _count: { select: { donations: true } },
+    },
+  });
+  if (!goal) throw throwNotFoundError('Goal not found');
+  if (goal.userId !== userId && !isModerator) throw throwAuthorizationError();
+  if (!goal.active) throw throwBadRequestError('Goal is not active');
+  if (goal.completedAt && expiresAt !== undefined)
+    throw throwBadRequestError('Cannot change the deadline of a completed goal');
+  // Donors gave with the deadline they were shown, so it can't be moved afterwards
+  if (goal._count.donations > 0 && expiresAt !== undefined)
+    throw throwBadRequestError('Cannot change the deadline of a goal that has received donations');
+
+  if (milestones) {
+    if (milestones.some((x) => x.amount > goal.goalAmount))
+      throw throwBadRequestError('Milestones cannot exceed the goal amount');
+    if (milestones.some((x) => x.unlock === DonationGoalUnlock.EarlyAccess) && !goal.modelVersionId)
+      throw throwBadRequestError('Only goals for a model version can unlock early access');
+
+    // Milestones that have been reached are kept as they are
+    const reachedAmounts = goal.milestones.map((x) => x.amount);
+    await dbWrite.$transaction([
+      dbWrite.donationGoalMilestone.deleteMany({ where: { donationGoalId: id, reachedAt: null } }),
+      dbWrite.donationGoalMilestone.createMany({
+        data: milestones
+          .filter((x) => !reachedAmounts.includes(x.amount))
+          .map((milestone) => ({ ...milestone, donationGoalId: id })),
+        skipDuplicates: true,
+      }),
+    ]);
+  }
+
+  if (expiresAt !== undefined) {
+    await dbWrite.donationGoal.update({ where: { id }, data: { expiresAt } });
+  }
+
+  const updatedGoal = await donationGoalById({ id, userId, isModerator });
+  // Lowering or adding milestones can make them reached without a new donation
+  await processDonationGoalProgress(updatedGoal);
+
+  return donationGoalById({ id, userId, isModerator });
+};
+
+/**
+ * Refunds the donations made to goals that expired before being reached.
+ * Donations that fail to refund are retried on the next run.
+ */
+export const refundExpiredDonationGoals = async () => {
+  const goals = await dbWrite.donationGoal.findMany({
+    where: { active: true, completedAt: null, refundedAt: null, expiresAt: { lte: new Date() } },
+    select: {
+      id: true,
+      title: true,
+      modelVersionId: true,
+      milestones: {
+        where: { unlock: DonationGoalUnlock.EarlyAccess, reachedAt: { not: null } },
+        select: { id: true },
+      },
+    },
+  });
+
+  let refunded = 0;
+  for (const goal of goals) {
+    // Donors already got early access through a milestone, so the goal is closed without refunds
+    if (goal.milestones.length) {
+      await dbWrite.donationGoal.update({ where: { id: goal.id }, data: { active: false } });
+      continue;
+    }
+
+    const donations = await dbWrite.donation.findMany({
+      where: { donationGoalId: goal.id, refundedAt: null },
+      select: { id: true, userId: true, amount: true, buzzTransactionId: true },
+    });
+    const details = await getNotificationDetails(goal);
+
+    let failed = 0;
+    for (const donation of donations) {
+      try {
+        await refundTransaction(
+          donation.buzzTransactionId,
+          `Refund for expired donation goal: ${goal.title}`,
+          { donationGoalId: goal.id, donationId: donation.id }
+        ).catch((e) => {
+          // A previous run refunded the transaction but failed to record it
+          if (e instanceof TRPCError && e.code === 'CONFLICT') return;
+          throw e;
+        });
+        await dbWrite.donation.update({
+          where: { id: donation.id },
+          data: { refundedAt: new Date() },
+        });
+        refunded++;
+
+        await createNotification({
+          userId: donation.userId,
+          type: 'donation-goal-refunded',
+          category: NotificationCategory.Buzz,
+          key: `donation-goal-refunded:${donation.id}`,
+          details: { ...details, amount: donation.amount },
+        });
+      } catch (e) {
+        failed++;
+        logToAxiom({
+          name: 'donation-goal-refund',
+          type: 'error',
+          donationId: donation.id,
+          message: (e as Error).message,
+        });
+      }
+    }
+
+    if (!failed) {
+      await dbWrite.donationGoal.update({
+        where: { id: goal.id },
+        data: { active: false, refundedAt: new Date() },
+      });
+    }
+  }
+
+  return { goals: goals.length, refunded };
+};
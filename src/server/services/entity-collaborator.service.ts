@@ -7,20 +7,58 @@ import {
   RemoveEntityCollaboratorInput,
   UpsertEntityCollaboratorInput,
   ActionEntityCollaboratorInviteInput,
+  EntityCollaboratorPermission,
+  entityCollaboratorRolePermissions,
+  UpdateEntityCollaboratorRoleInput,
 } from '~/server/schema/entity-collaborator.schema';
 import { userWithCosmeticsSelect } from '~/server/selectors/user.selector';
 import { createMessage, upsertChat } from '~/server/services/chat.service';
 import { throwAuthorizationError, throwBadRequestError } from '~/server/utils/errorHandling';
 
+const supportedEntityTypes: EntityType[] = [EntityType.Post, EntityType.Model];
+
+const assertSupportedEntityType = (entityType: EntityType) => {
+  if (!supportedEntityTypes.includes(entityType)) {
+    throw throwBadRequestError(
+      'Only posts and models are currently supported for entity collaborators'
+    );
+  }
+};
+
+const getCollaboratorEntity = async ({
+  entityType,
+  entityId,
+}: {
+  entityType: EntityType;
+  entityId: number;
+}) => {
+  switch (entityType) {
+    case EntityType.Post:
+      return dbRead.post.findUnique({ where: { id: entityId }, select: { userId: true } });
+    case EntityType.Model:
+      return dbRead.model.findUnique({ where: { id: entityId }, select: { userId: true } });
+    default:
+      return null;
+  }
+};
+
+const entityCollaboratorSelect = Prisma.validator<Prisma.EntityCollaboratorSelect>()({
+  entityId: true,
+  entityType: true,
+  status: true,
+  role: true,
+  user: {
+    select: userWithCosmeticsSelect,
+  },
+});
+
 export const sendEntityCollaboratorInviteMessage = async ({
   entityType,
   entityId,
   targetUserId,
   userId,
-}: Omit<UpsertEntityCollaboratorInput, 'sendMessage'> & { userId: number }) => {
-  if (entityType !== EntityType.Post) {
-    throw throwBadRequestError('Only posts are currently supported for entity collaborators');
-  }
+}: Omit<UpsertEntityCollaboratorInput, 'sendMessage' | 'role'> & { userId: number }) => {
+  assertSupportedEntityType(entityType);
 
   const inviter = await dbRead.user.findUnique({ where: { id: userId } });
   const invitee = await dbRead.user.findUnique({ where: { id: targetUserId } });
@@ -44,21 +82,25 @@ export const sendEntityCollaboratorInviteMessage = async ({
     throw throwBadRequestError('Unable to invite collaborator');
   }
 
+  let message: string | undefined;
   switch (entityType) {
     case EntityType.Post:
-      const targetUrl = `/posts/${entityId}`;
-      const message = `**${inviter.username}** invited **${invitee.username}** to be included as a collaborator on [this](${targetUrl}) post. The invitation can be accepted or rejected via the Post's link.`;
-      // Confirm a chat exists:
-      await createMessage({
-        chatId: chat.id,
-        content: message,
-        userId: -1, // We want this to be a system message.
-        contentType: ChatMessageType.Markdown,
-      });
-
+      message = `**${inviter.username}** invited **${invitee.username}** to be included as a collaborator on [this](/posts/${entityId}) post. The invitation can be accepted or rejected via the Post's link.`;
+      break;
+    case EntityType.Model:
+      message = `**${inviter.username}** invited **${invitee.username}** to be included as a collaborator on [this](/models/${entityId}) model. The invitation can be accepted or rejected via the Model's link.`;
+      break;
     default:
       return;
   }
+
+  // Confirm a chat exists:
+  await createMessage({
+    chatId: chat.id,
+    content: message,
+    userId: -1, // We want this to be a system message.
+    contentType: ChatMessageType.Markdown,
+  });
 };
 
 export const upsertEntityCollaborator = async ({
@@ -66,20 +108,19 @@ export const upsertEntityCollaborator = async ({
   entityId,
   sendMessage,
   targetUserId,
+  role,
   userId,
   isModerator,
 }: UpsertEntityCollaboratorInput & { userId: number; isModerator?: boolean }) => {
-  if (entityType !== EntityType.Post) {
-    throw throwBadRequestError('Only posts are currently supported for entity collaborators');
-  }
+  assertSupportedEntityType(entityType);
 
-  const entity = await dbRead.post.findUnique({ where: { id: entityId } });
+  const entity = await getCollaboratorEntity({ entityType, entityId });
   if (!entity) {
     throw throwBadRequestError('Entity not found');
   }
 
   if (entity.userId !== userId && !isModerator) {
-    throw throwAuthorizationError('Only the owner of the post can add collaborators');
+    throw throwAuthorizationError('Only the owner of the entity can add collaborators');
   }
 
   const existingRecord = await dbRead.entityCollaborator.findFirst({
@@ -129,6 +170,7 @@ export const upsertEntityCollaborator = async ({
       entityType,
       userId: targetUserId,
       createdBy: userId,
+      role,
       lastMessageSentAt: sendMessage ? new Date() : null,
     },
   });
@@ -154,52 +196,102 @@ export const getEntityCollaborators = async ({
   userId?: number;
   isModerator?: boolean;
 }) => {
-  if (entityType !== EntityType.Post) {
+  if (!supportedEntityTypes.includes(entityType)) {
     return []; // Just return empty array in the meantime. As we support more types, we'll be adding more stuff here.
   }
 
-  switch (entityType) {
-    case EntityType.Post:
-      const entity = await dbRead.post.findUnique({ where: { id: entityId } });
-      if (!entity) {
-        return [];
-      }
-
-      const collaborators = await dbRead.entityCollaborator.findMany({
-        where: { entityId, entityType },
-        select: {
-          user: {
-            select: userWithCosmeticsSelect,
-          },
-          entityId: true,
-          entityType: true,
-          status: true,
-        },
-      });
+  const entity = await getCollaboratorEntity({ entityType, entityId });
+  if (!entity) {
+    return [];
+  }
 
-      return collaborators.filter((collaborator) => {
-        if (collaborator.status === EntityCollaboratorStatus.Approved) {
-          return true;
-        }
+  const collaborators = await dbRead.entityCollaborator.findMany({
+    where: { entityId, entityType },
+    select: entityCollaboratorSelect,
+  });
 
-        if (!userId && !isModerator) {
-          return false;
-        }
+  return collaborators.filter((collaborator) => {
+    if (collaborator.status === EntityCollaboratorStatus.Approved) {
+      return true;
+    }
 
-        if (collaborator.status === EntityCollaboratorStatus.Pending) {
-          return entity.userId === userId || collaborator.user.id === userId || isModerator;
-        }
+    if (!userId && !isModerator) {
+      return false;
+    }
 
-        if (collaborator.status === EntityCollaboratorStatus.Rejected) {
-          return entity.userId === userId || isModerator;
-        }
+    if (collaborator.status === EntityCollaboratorStatus.Pending) {
+      return entity.userId === userId || collaborator.user.id === userId || isModerator;
+    }
 
-        return false;
-      });
+    if (collaborator.status === EntityCollaboratorStatus.Rejected) {
+      return entity.userId === userId || isModerator;
+    }
 
-    default:
-      return [];
+    return false;
+  });
+};
+
+export const updateEntityCollaboratorRole = async ({
+  targetUserId,
+  entityId,
+  entityType,
+  role,
+  userId,
+  isModerator,
+}: UpdateEntityCollaboratorRoleInput & { userId: number; isModerator?: boolean }) => {
+  assertSupportedEntityType(entityType);
+
+  const entity = await getCollaboratorEntity({ entityType, entityId });
+  if (!entity) {
+    throw throwBadRequestError('Entity not found');
+  }
+
+  if (entity.userId !== userId && !isModerator) {
+    throw throwAuthorizationError('Only the owner of the entity can change collaborator roles');
   }
+
+  const collaborator = await dbRead.entityCollaborator.findFirst({
+    where: { entityId, entityType, userId: targetUserId },
+  });
+  if (!collaborator) {
+    throw throwBadRequestError('Collaborator not found');
+  }
+
+  return dbWrite.entityCollaborator.update({
+    where: {
+      entityType_entityId_userId: {
+        entityId,
+        entityType,
+        userId: targetUserId,
+      },
+    },
+    data: { role },
+    select: entityCollaboratorSelect,
+  });
+};
+
+/**
+ * Whether the user is an approved collaborator on the entity with a role that grants the permission.
+ * Ownership isn't checked here, callers should check it first.
+ */
+export const hasEntityCollaboratorPermission = async ({
+  entityType,
+  entityId,
+  userId,
+  permission,
+}: {
+  entityType: EntityType;
+  entityId: number;
+  userId: number;
+  permission: EntityCollaboratorPermission;
+}) => {
+  const collaborator = await dbRead.entityCollaborator.findUnique({
+    where: { entityType_entityId_userId: { entityType, entityId, userId } },
+    select: { status: true, role: true },
+  });
+  if (collaborator?.status !== EntityCollaboratorStatus.Approved) return false;
+
+  return entityCollaboratorRolePermissions[collaborator.role].includes(permission);
 };
 
 export const removeEntityCollaborator = async ({
@@ -209,11 +301,9 @@ export const removeEntityCollaborator = async ({
   isModerator,
   userId,
 }: RemoveEntityCollaboratorInput & { userId: number; isModerator?: boolean }) => {
-  if (entityType !== EntityType.Post) {
-    throw throwBadRequestError('Only posts are currently supported for entity collaborators');
-  }
+  assertSupportedEntityType(entityType);
 
-  const entity = await dbRead.post.findUnique({ where: { id: entityId } });
+  const entity = await getCollaboratorEntity({ entityType, entityId });
 
   if (!entity) {
     throw throwBadRequestError('Entity not found');
@@ -228,7 +318,7 @@ export const removeEntityCollaborator = async ({
   }
 
   if (entity.userId !== userId && !isModerator) {
-    throw throwAuthorizationError('Only the owner of the post can remove collaborators');
+    throw throwAuthorizationError('Only the owner of the entity can remove collaborators');
   }
 
   await dbWrite.entityCollaborator.delete({
@@ -273,14 +363,7 @@ export const actionEntityCollaborationInvite = async ({
 
   return dbWrite.entityCollaborator.findFirst({
     where: { entityId, entityType, userId },
-    select: {
-      entityId: true,
-      entityType: true,
-      status: true,
-      user: {
-        select: userWithCosmeticsSelect,
-      },
-    },
+    select: entityCollaboratorSelect,
   });
 };
 
@@ -293,9 +376,7 @@ export const sendMessagesToCollaborators = async ({
   entityType: EntityType;
   userId: number;
 }) => {
-  if (entityType !== EntityType.Post) {
-    throw throwBadRequestError('Only posts are currently supported for entity collaborators');
-  }
+  assertSupportedEntityType(entityType);
 
   const validCollaborators = await dbRead.entityCollaborator.findMany({
     where: {
@@ -3,6 +3,7 @@ import { getHomeBlockData, HomeBlockWithData } from '~/server/services/home-bloc
 import { HomeBlockType } from '@prisma/client';
 import { HomeBlockMetaSchema } from '~/server/schema/home-block.schema';
 import { createLogger } from '~/utils/logging';
+import { SessionUser } from 'next-auth';
 
 const CACHE_EXPIRY = {
   [HomeBlockType.Collection]: 60 * 3, // 3 min
@@ -10,6 +11,9 @@ const CACHE_EXPIRY = {
   [HomeBlockType.Announcement]: 60 * 60, // 1 hr
   [HomeBlockType.Social]: 60 * 3, // 3 min - doesn't actually do anything since this is from metadata
   [HomeBlockType.Event]: 60 * 3, // 3 min - doesn't actually do anything since this is from metadata
+  [HomeBlockType.ModelQuery]: 60 * 10, // 10 min
+  [HomeBlockType.FollowedCreators]: 60 * 3, // 3 min
+  [HomeBlockType.TagSpotlight]: 60 * 30, // 30 min
 };
 
 type HomeBlockForCache = {
@@ -20,18 +24,29 @@ type HomeBlockForCache = {
 
 const log = createLogger('home-block-cache', 'green');
 
-function getHomeBlockIdentifier(homeBlock: HomeBlockForCache) {
+// Blocks cached per user can't be busted key by key, so their keys include a version that busting bumps
+const getCacheVersionKey = (type: HomeBlockType, id: number) => `home-blocks:${type}:${id}:version`;
+
+async function getHomeBlockIdentifier(homeBlock: HomeBlockForCache, user?: SessionUser) {
   switch (homeBlock.type) {
     case HomeBlockType.Collection:
       return homeBlock.metadata.collection?.id;
     case HomeBlockType.Leaderboard:
     case HomeBlockType.Announcement:
+    case HomeBlockType.ModelQuery:
+    case HomeBlockType.TagSpotlight:
       return homeBlock.id;
+    case HomeBlockType.FollowedCreators: {
+      // Contents depend on who is looking
+      if (!user) return undefined;
+      const version = await redis.get(getCacheVersionKey(homeBlock.type, homeBlock.id));
+      return `${homeBlock.id}:v${version ?? 0}:${user.id}`;
+    }
   }
 }
 
-export async function getHomeBlockCached(homeBlock: HomeBlockForCache) {
-  const identifier = getHomeBlockIdentifier(homeBlock);
+export async function getHomeBlockCached(homeBlock: HomeBlockForCache, user?: SessionUser) {
+  const identifier = await getHomeBlockIdentifier(homeBlock, user);
 
   if (!identifier) return null;
 
@@ -44,7 +59,12 @@ export async function getHomeBlockCached(homeBlock: HomeBlockForCache) {
 
   log(`getHomeBlockCached :: getting home block with identifier ${identifier}`);
 
-  const homeBlockWithData = await getHomeBlockData({ homeBlock, input: { limit: 14 * 4 } });
+  const homeBlockWithData = await getHomeBlockData({
+    homeBlock,
+    input: { limit: 14 * 4 },
+    // Only needed by blocks that are cached per user
+    user: homeBlock.type === HomeBlockType.FollowedCreators ? user : undefined,
+  });
   // Important that we combine these. Data might be the same for 2 blocks (i.e, 2 user collection blocks),
   // but other relevant info might differ (i.e, index of the block)
   const parsedHomeBlock = {
@@ -64,6 +84,12 @@ export async function getHomeBlockCached(homeBlock: HomeBlockForCache) {
 }
 
 export async function homeBlockCacheBust(type: HomeBlockType, entityId: number) {
+  if (type === HomeBlockType.FollowedCreators) {
+    log(`Cache version bumped: home-blocks:${type}:${entityId}`);
+    await redis.incr(getCacheVersionKey(type, entityId));
+    return;
+  }
+
   const redisString = `home-blocks:${type}:${entityId}`;
   log(`Cache busted: ${redisString}`);
   await redis.del(redisString);
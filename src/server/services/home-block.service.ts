@@ -1,5 +1,6 @@
-import { HomeBlockType, Prisma } from '@prisma/client';
+import { HomeBlockType, MetricTimeframe, Prisma } from '@prisma/client';
 import { SessionUser } from 'next-auth';
+import { ModelSort } from '~/server/common/enums';
 import { dbRead, dbWrite } from '~/server/db/client';
 import { GetByIdInput } from '~/server/schema/base.schema';
 import {
@@ -10,19 +11,21 @@ import {
   SetHomeBlocksOrderInputSchema,
   UpsertHomeBlockInput,
 } from '~/server/schema/home-block.schema';
+import { getAllModelsSchema, GetAllModelsInput } from '~/server/schema/model.schema';
 import { getAnnouncements } from '~/server/services/announcement.service';
 import {
   getCollectionById,
   getCollectionItemsByCollectionId,
 } from '~/server/services/collection.service';
 import { getLeaderboardsWithResults } from '~/server/services/leaderboard.service';
+import { getModelsWithImagesAndModelVersions } from '~/server/services/model.service';
 import {
   throwAuthorizationError,
   throwBadRequestError,
   throwNotFoundError,
 } from '~/server/utils/errorHandling';
 import { isDefined } from '~/utils/type-guards';
-import { getHomeBlockCached } from '~/server/services/home-block-cache.service';
+import { getHomeBlockCached, homeBlockCacheBust } from '~/server/services/home-block-cache.service';
 import { sfwBrowsingLevelsFlag } from '~/shared/constants/browsingLevel.constants';
 
 export const getHomeBlocks = async <
@@ -95,6 +98,7 @@ export const getSystemHomeBlocks = async ({ input }: { input: GetSystemHomeBlock
 
 export const getHomeBlockById = async ({
   id,
+  user,
 }: GetHomeBlockByIdInputSchema & {
   // SessionUser required because it's passed down to getHomeBlockData
   user?: SessionUser;
@@ -116,10 +120,13 @@ export const getHomeBlockById = async ({
     return null;
   }
 
-  return getHomeBlockCached({
-    ...homeBlock,
-    metadata: homeBlock.metadata as HomeBlockMetaSchema,
-  });
+  return getHomeBlockCached(
+    {
+      ...homeBlock,
+      metadata: homeBlock.metadata as HomeBlockMetaSchema,
+    },
+    user
+  );
 };
 
 type GetLeaderboardsWithResults = AsyncReturnType<typeof getLeaderboardsWithResults>;
@@ -127,6 +134,14 @@ type GetAnnouncements = AsyncReturnType<typeof getAnnouncements>;
 type GetCollectionWithItems = AsyncReturnType<typeof getCollectionById> & {
   items: AsyncReturnType<typeof getCollectionItemsByCollectionId>;
 };
+type GetHomeBlockModels = AsyncReturnType<typeof getHomeBlockModels>['items'];
+type HomeBlockTag = {
+  id: number;
+  name: string;
+  modelCount: number;
+  imageCount: number;
+  followerCount: number;
+};
 
 export type HomeBlockWithData = {
   id: number;
@@ -138,8 +153,16 @@ export type HomeBlockWithData = {
   collection?: GetCollectionWithItems;
   leaderboards?: GetLeaderboardsWithResults;
   announcements?: GetAnnouncements;
+  models?: GetHomeBlockModels;
+  tag?: HomeBlockTag;
 };
 
+const getHomeBlockModels = ({ input, user }: { input: GetAllModelsInput; user?: SessionUser }) =>
+  getModelsWithImagesAndModelVersions({
+    user,
+    input: getAllModelsSchema.parse({ ...input, browsingLevel: sfwBrowsingLevelsFlag }),
+  });
+
 export const getHomeBlockData = async ({
   user,
   input,
@@ -250,6 +273,84 @@ export const getHomeBlockData = async ({
         }),
       };
     }
+    case HomeBlockType.ModelQuery: {
+      if (!metadata.modelQuery) {
+        return null;
+      }
+
+      const models = input.withCoreData
+        ? []
+        : (await getHomeBlockModels({ input: metadata.modelQuery, user })).items;
+
+      return { ...homeBlock, metadata, models };
+    }
+    case HomeBlockType.FollowedCreators: {
+      // This feed is personal, so there is nothing to show when logged out
+      if (!user) {
+        return null;
+      }
+
+      const models = input.withCoreData
+        ? []
+        : (
+            await getHomeBlockModels({
+              input: {
+                followed: true,
+                sort: ModelSort.Newest,
+                period: MetricTimeframe.AllTime,
+                limit: metadata.followedCreators?.limit,
+              },
+              user,
+            })
+          ).items;
+
+      return { ...homeBlock, metadata, models };
+    }
+    case HomeBlockType.TagSpotlight: {
+      if (!metadata.tagSpotlight) {
+        return null;
+      }
+
+      const { tag: tagName, period, limit } = metadata.tagSpotlight;
+      const tag = await dbRead.tag.findFirst({
+        where: { name: tagName },
+        select: {
+          id: true,
+          name: true,
+          metrics: {
+            where: { timeframe: MetricTimeframe.AllTime },
+            select: { modelCount: true, imageCount: true, followerCount: true },
+          },
+        },
+      });
+
+      if (!tag) {
+        return null;
+      }
+
+      const models = input.withCoreData
+        ? []
+        : (
+            await getHomeBlockModels({
+              input: { tagname: tag.name, sort: ModelSort.HighestRated, period, limit },
+              user,
+            })
+          ).items;
+
+      const [metrics] = tag.metrics;
+      return {
+        ...homeBlock,
+        metadata,
+        models,
+        tag: {
+          id: tag.id,
+          name: tag.name,
+          modelCount: metrics?.modelCount ?? 0,
+          imageCount: metrics?.imageCount ?? 0,
+          followerCount: metrics?.followerCount ?? 0,
+        },
+      };
+    }
     default:
       return { ...homeBlock, metadata };
   }
@@ -281,7 +382,7 @@ export const upsertHomeBlock = async ({
 
   if (id) {
     const homeBlock = await dbRead.homeBlock.findUnique({
-      select: { userId: true },
+      select: { userId: true, type: true },
       where: { id },
     });
 
@@ -300,6 +401,7 @@ export const upsertHomeBlock = async ({
         index,
       },
     });
+    await homeBlockCacheBust(homeBlock.type, id);
 
     return updated;
   }
@@ -0,0 +1,105 @@
+import { ImportStatus, Prisma } from '@prisma/client';
+import { dbRead, dbWrite } from '~/server/db/client';
+import { GetByIdInput } from '~/server/schema/base.schema';
+import { throwAuthorizationError, throwNotFoundError } from '~/server/utils/errorHandling';
+
+export type ImportProgress = {
+  total: number;
+  completed: number;
+  failed: number;
+  failures: { id: number; source: string; error?: string }[];
+};
+
+function getImportError(data: Prisma.JsonValue) {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return undefined;
+  return typeof data.error === 'string' ? data.error : undefined;
+}
+
+export async function getImportProgress(parentId: number, { useWrite = false } = {}) {
+  const db = useWrite ? dbWrite : dbRead;
+  const [statusCounts, failures] = await Promise.all([
+    db.import.groupBy({ by: ['status'], where: { parentId }, _count: true }),
+    db.import.findMany({
+      where: { parentId, status: ImportStatus.Failed },
+      select: { id: true, source: true, data: true },
+    }),
+  ]);
+
+  const counts = Object.fromEntries(statusCounts.map((x) => [x.status, x._count]));
+  const progress: ImportProgress = {
+    total: statusCounts.reduce((acc, x) => acc + x._count, 0),
+    completed: counts[ImportStatus.Completed] ?? 0,
+    failed: counts[ImportStatus.Failed] ?? 0,
+    failures: failures.map(({ id, source, data }) => ({ id, source, error: getImportError(data) })),
+  };
+
+  return progress;
+}
+
+/**
+ * Stores the aggregated progress of child imports on the parent. This also bumps the parent's
+ * `updatedAt` so that stale imports can be detected and resumed.
+ */
+export async function updateImportProgress(parentId: number) {
+  const progress = await getImportProgress(parentId, { useWrite: true });
+  const parent = await dbWrite.import.findUnique({
+    where: { id: parentId },
+    select: { data: true },
+  });
+  const data = (parent?.data ?? {}) as Prisma.JsonObject;
+
+  await dbWrite.import.update({
+    where: { id: parentId },
+    data: { data: { ...data, progress } as Prisma.JsonObject },
+  });
+
+  return progress;
+}
+
+export async function getImportProgressById({
+  id,
+  userId,
+  isModerator,
+}: GetByIdInput & { userId: number; isModerator?: boolean }) {
+  const parent = await dbRead.import.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      userId: true,
+      source: true,
+      status: true,
+      startedAt: true,
+      finishedAt: true,
+      data: true,
+    },
+  });
+  if (!parent) throw throwNotFoundError(`No import with id ${id}`);
+  if (!isModerator && parent.userId !== userId) throw throwAuthorizationError();
+
+  const [progress, children] = await Promise.all([
+    getImportProgress(id),
+    dbRead.import.findMany({
+      where: { parentId: id },
+      select: {
+        id: true,
+        source: true,
+        status: true,
+        startedAt: true,
+        finishedAt: true,
+        data: true,
+      },
+      orderBy: { id: 'asc' },
+    }),
+  ]);
+
+  return {
+    id: parent.id,
+    source: parent.source,
+    status: parent.status,
+    startedAt: parent.startedAt,
+    finishedAt: parent.finishedAt,
+    error: getImportError(parent.data),
+    progress,
+    children: children.map(({ data, ...child }) => ({ ...child, error: getImportError(data) })),
+  };
+}
@@ -0,0 +1,111 @@
+import { JobRunStatus, Prisma } from '@prisma/client';
+import { env } from '~/env/server.mjs';
+import { dbRead, dbWrite } from '~/server/db/client';
+import { GetJobRunsInput, RunJobInput } from '~/server/schema/job-run.schema';
+import {
+  handleLogError,
+  throwBadRequestError,
+  throwNotFoundError,
+} from '~/server/utils/errorHandling';
+import { getPagination, getPagingData } from '~/server/utils/pagination-helpers';
+
+// Run history is bookkeeping only: failing to record it must never change the outcome of a job
+export async function startJobRun({
+  name,
+  attempt,
+  triggeredBy,
+}: {
+  name: string;
+  attempt: number;
+  triggeredBy?: number;
+}) {
+  try {
+    const { id } = await dbWrite.jobRun.create({
+      data: { name, attempt, triggeredBy, pod: env.PODNAME },
+      select: { id: true },
+    });
+
+    return id;
+  } catch (e) {
+    handleLogError(e as Error);
+    return undefined;
+  }
+}
+
+export async function endJobRun({
+  id,
+  status,
+  startedAt,
+  result,
+  error,
+}: {
+  id?: number;
+  status: Exclude<JobRunStatus, 'Running'>;
+  startedAt: number;
+  result?: MixedObject | void;
+  error?: unknown;
+}) {
+  if (!id) return;
+
+  const endedAt = new Date();
+  await dbWrite.jobRun
+    .update({
+      where: { id },
+      data: {
+        status,
+        endedAt,
+        duration: endedAt.getTime() - startedAt,
+        result: result ? (result as Prisma.JsonObject) : undefined,
+        error: error ? serializeJobError(error) : undefined,
+      },
+    })
+    .catch(handleLogError);
+}
+
+function serializeJobError(error: unknown): Prisma.JsonObject {
+  if (error instanceof Error)
+    return { name: error.name, message: error.message, stack: error.stack };
+  return { message: String(error) };
+}
+
+export async function getJobRunsPaged({ limit, page, name, status }: GetJobRunsInput) {
+  const { take, skip } = getPagination(limit, page);
+  const where: Prisma.JobRunWhereInput = { name, status };
+
+  const [items, count] = await Promise.all([
+    dbRead.jobRun.findMany({ where, take, skip, orderBy: { startedAt: 'desc' } }),
+    dbRead.jobRun.count({ where }),
+  ]);
+
+  return getPagingData({ items, count }, take, page);
+}
+
+export async function getJobRunNames() {
+  const names = await dbRead.jobRun.findMany({
+    distinct: ['name'],
+    select: { name: true },
+    orderBy: { name: 'asc' },
+  });
+
+  return names.map((x) => x.name);
+}
+
+export async function triggerJobRun({ name, userId }: RunJobInput & { userId: number }) {
+  const url =
+    `${env.NEXTAUTH_URL}/api/webhooks/run-jobs/${encodeURIComponent(name)}?` +
+    new URLSearchParams([
+      ['token', env.WEBHOOK_TOKEN],
+      ['triggeredBy', userId.toString()],
+    ]);
+
+  // Manual runs are answered as soon as the job starts, the outcome is recorded in the job run history
+  const response = await fetch(url, { signal: AbortSignal.timeout(30 * 1000) });
+  const { error } = (await response.json().catch(() => ({}))) as { error?: string };
+  if (response.status === 404) throw throwNotFoundError(`No job named ${name}`);
+  if (!response.ok || error) throw throwBadRequestError(error ?? `Unable to start ${name}`);
+}
+
+export async function deleteOldJobRuns(before: Date) {
+  const { count } = await dbWrite.jobRun.deleteMany({ where: { startedAt: { lt: before } } });
+  return count;
+}
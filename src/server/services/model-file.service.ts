@@ -1,8 +1,13 @@
-import { Prisma } from '@prisma/client';
-import { dbWrite } from '~/server/db/client';
+import { EntityType, ModelHashType, ModelType, Prisma } from '@prisma/client';
+import { dbRead, dbWrite } from '~/server/db/client';
 import { filesForModelVersionCache } from '~/server/redis/caches';
 import { GetByIdInput } from '~/server/schema/base.schema';
-import { ModelFileCreateInput, ModelFileUpdateInput } from '~/server/schema/model-file.schema';
+import {
+  GetFilesByHashesInput,
+  ModelFileCreateInput,
+  ModelFileUpdateInput,
+} from '~/server/schema/model-file.schema';
+import { hasEntityCollaboratorPermission } from '~/server/services/entity-collaborator.service';
 import { throwNotFoundError } from '~/server/utils/errorHandling';
 import { prepareFile } from '~/utils/file-helpers';
 
@@ -25,6 +30,30 @@ export async function deleteFilesForModelVersionCache(modelVersionId: number) {
   await filesForModelVersionCache.bust(modelVersionId);
 }
 
+async function canUploadFiles({
+  modelVersionId,
+  userId,
+  isModerator,
+}: {
+  modelVersionId: number;
+  userId: number;
+  isModerator?: boolean;
+}) {
+  const version = await dbWrite.modelVersion.findUnique({
+    where: { id: modelVersionId },
+    select: { modelId: true, model: { select: { userId: true } } },
+  });
+  if (!version) return false;
+  if (isModerator || version.model.userId === userId) return true;
+
+  return hasEntityCollaboratorPermission({
+    entityType: EntityType.Model,
+    entityId: version.modelId,
+    userId,
+    permission: 'upload',
+  });
+}
+
 export async function createFile<TSelect extends Prisma.ModelFileSelect>({
   select,
   userId,
@@ -33,10 +62,12 @@ export async function createFile<TSelect extends Prisma.ModelFileSelect>({
 }: ModelFileCreateInput & { select: TSelect; userId: number; isModerator?: boolean }) {
   const file = prepareFile(data);
 
-  const ownsVersion = await dbWrite.modelVersion.findFirst({
-    where: { id: data.modelVersionId, model: !isModerator ? { userId } : undefined },
+  const canUpload = await canUploadFiles({
+    modelVersionId: data.modelVersionId,
+    userId,
+    isModerator,
   });
-  if (!ownsVersion) throw throwNotFoundError();
+  if (!canUpload) throw throwNotFoundError();
 
   const result = await dbWrite.modelFile.create({
     data: { ...file, modelVersionId: data.modelVersionId },
@@ -55,11 +86,18 @@ export async function updateFile({
   ...inputData
 }: ModelFileUpdateInput & { userId: number; isModerator?: boolean }) {
   const modelFile = await dbWrite.modelFile.findUnique({
-    where: { id, modelVersion: { model: !isModerator ? { userId } : undefined } },
+    where: { id },
     select: { id: true, metadata: true, modelVersionId: true },
   });
   if (!modelFile) throw throwNotFoundError();
 
+  const canUpload = await canUploadFiles({
+    modelVersionId: modelFile.modelVersionId,
+    userId,
+    isModerator,
+  });
+  if (!canUpload) throw throwNotFoundError();
+
   metadata = metadata ? { ...(modelFile.metadata as Prisma.JsonObject), ...metadata } : undefined;
   await dbWrite.modelFile.updateMany({
     where: { id },
@@ -97,3 +135,53 @@ export async function deleteFile({
 
   return modelVersionId;
 }
+
+export type FileByHash = {
+  hash: string;
+  hashType: ModelHashType;
+  fileId: number;
+  fileName: string;
+  fileType: string;
+  sizeKB: number;
+  modelVersionId: number;
+  modelVersionName: string;
+  baseModel: string;
+  modelId: number;
+  modelName: string;
+  modelType: ModelType;
+};
+/**
+ * Looks up published files by hash. Callers are expected to batch the hashes
+ * so that each query stays within a predictable cost.
+ */
+export async function getFilesByHashes({ hashes, hashTypes }: GetFilesByHashesInput) {
+  if (!hashes.length) return [];
+
+  const AND = [
+    Prisma.sql`mfh.hash IN (${Prisma.join(hashes)})`,
+    Prisma.sql`mv.status = 'Published'`,
+    Prisma.sql`m.status = 'Published'`,
+  ];
+  if (hashTypes?.length) AND.push(Prisma.sql`mfh.type::text IN (${Prisma.join(hashTypes)})`);
+
+  return dbRead.$queryRaw<FileByHash[]>`
+    SELECT
+      UPPER(mfh.hash) "hash",
+      mfh.type "hashType",
+      mf.id "fileId",
+      mf.name "fileName",
+      mf.type "fileType",
+      mf."sizeKB",
+      mv.id "modelVersionId",
+      mv.name "modelVersionName",
+      mv."baseModel",
+      m.id "modelId",
+      m.name "modelName",
+      m.type "modelType"
+    FROM "ModelFileHash" mfh
+    JOIN "ModelFile" mf ON mf.id = mfh."fileId"
+    JOIN "ModelVersion" mv ON mv.id = mf."modelVersionId"
+    JOIN "Model" m ON m.id = mv."modelId"
+    WHERE ${Prisma.join(AND, ' AND ')}
+  `;
+}
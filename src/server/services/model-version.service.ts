@@ -1145,6 +1145,12 @@ export const modelVersionDonationGoals = async ({
       userId: true,
       createdAt: true,
       description: true,
+      expiresAt: true,
+      completedAt: true,
+      milestones: {
+        select: { id: true, amount: true, title: true, unlock: true, reachedAt: true },
+        orderBy: { amount: 'asc' },
+      },
     },
   });
 
@@ -1158,6 +1164,7 @@ export const modelVersionDonationGoals = async ({
       SUM("amount")::int as total
     FROM "Donation"
     WHERE "donationGoalId" IN (${Prisma.join(donationGoals.map((x) => x.id))})
+      AND "refundedAt" IS NULL
     GROUP BY "donationGoalId"
   `;
 
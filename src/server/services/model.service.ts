@@ -1,5 +1,6 @@
 import {
   CommercialUse,
+  EntityType,
   MetricTimeframe,
   ModelModifier,
   ModelStatus,
@@ -46,6 +47,7 @@ import {
   getUserCollectionPermissionsById,
 } from '~/server/services/collection.service';
 import { getCosmeticsForEntity } from '~/server/services/cosmetic.service';
+import { hasEntityCollaboratorPermission } from '~/server/services/entity-collaborator.service';
 import { getUnavailableResources } from '~/server/services/generation/generation.service';
 import {
   getImagesForModelVersion,
@@ -1234,6 +1236,7 @@ export const upsertModel = async (
     for (const key of input.lockedProperties ?? []) delete input[key as keyof typeof input];
   }
 
+  // status is only set on create, updates go through publish/unpublish which require the publish permission
   const { id, tagsOnModels, userId, templateId, bountyId, meta, isModerator, status, ...data } =
     input;
 
@@ -1285,8 +1288,16 @@ export const upsertModel = async (
     });
     if (!beforeUpdate) return null;
 
-    const isOwner = beforeUpdate.userId === userId || isModerator;
-    if (!isOwner) return null;
+    const canEdit =
+      beforeUpdate.userId === userId ||
+      isModerator ||
+      (await hasEntityCollaboratorPermission({
+        entityType: EntityType.Model,
+        entityId: id,
+        userId,
+        permission: 'edit',
+      }));
+    if (!canEdit) return null;
 
     const result = await dbWrite.model.update({
       select: { id: true, nsfwLevel: true, poi: true, minor: true },
@@ -1,21 +1,28 @@
-import { Prisma } from '@prisma/client';
+import { NotificationFrequency, Prisma } from '@prisma/client';
+import { chunk } from 'lodash-es';
 import { NotificationCategory } from '~/server/common/enums';
 import { dbRead, dbWrite } from '~/server/db/client';
 import { notifDbRead, notifDbWrite } from '~/server/db/notifDb';
+import { notificationDigestEmail } from '~/server/email/templates';
 import { NotificationSingleRowFull } from '~/server/jobs/send-notifications';
 import { logToAxiom } from '~/server/logging/client';
 import { populateNotificationDetails } from '~/server/notifications/detail-fetchers';
+import { getNotificationMessage } from '~/server/notifications/utils.notifications';
 import {
   notificationCache,
   NotificationCategoryCount,
 } from '~/server/notifications/notification-cache';
 import {
+  digestNotificationCategories,
+  DigestNotificationCategory,
   GetUserNotificationsSchema,
   MarkReadNotificationInput,
+  SetNotificationFrequencyInput,
   ToggleNotificationSettingInput,
 } from '~/server/schema/notification.schema';
 import { BlockedByUsers, BlockedUsers } from '~/server/services/user-preferences.service';
 import { DEFAULT_PAGE_SIZE } from '~/server/utils/pagination-helpers';
+import { isDefined } from '~/utils/type-guards';
 
 type NotificationsRaw = {
   id: number;
@@ -236,3 +243,160 @@ export const deleteUserNotificationSetting = async ({
 }: ToggleNotificationSettingInput & { userId: number }) => {
   return dbWrite.userNotificationSettings.deleteMany({ where: { type: { in: type }, userId } });
 };
+
+export const getUserNotificationFrequencies = async ({ userId }: { userId: number }) => {
+  return dbRead.userNotificationFrequency.findMany({
+    where: { userId },
+    select: { category: true, frequency: true },
+  });
+};
+
+export const setUserNotificationFrequency = async ({
+  category,
+  frequency,
+  userId,
+}: SetNotificationFrequencyInput & { userId: number }) => {
+  // Instant is the default, so there is nothing to keep around
+  if (frequency === NotificationFrequency.Instant) {
+    await dbWrite.userNotificationFrequency.deleteMany({ where: { userId, category } });
+    return { category, frequency };
+  }
+
+  return dbWrite.userNotificationFrequency.upsert({
+    where: { userId_category: { userId, category } },
+    create: { userId, category, frequency },
+    update: { frequency },
+    select: { category: true, frequency: true },
+  });
+};
+
+const digestUserBatchSize = 500;
+const digestItemsPerCategory = 10;
+
+/**
+ * Emails users a summary of the unread notifications they received since their last digest,
+ * for the categories they set to the given frequency. Notifications after `until` are left for the next digest.
+ */
+export async function sendNotificationDigests({
+  frequency,
+  since,
+  until,
+}: {
+  frequency: NotificationFrequency;
+  since: Date;
+  until: Date;
+}) {
+  const settings = await dbWrite.userNotificationFrequency.findMany({
+    where: {
+      frequency,
+      category: { in: Object.keys(digestNotificationCategories) },
+      user: { email: { not: null }, deletedAt: null, bannedAt: null },
+    },
+    select: { userId: true, category: true, lastSentAt: true },
+  });
+
+  // Users who already got this digest before a failed run continue from where they left off
+  const userSettings: Record<number, { category: string; since: Date }[]> = {};
+  for (const { userId, category, lastSentAt } of settings) {
+    userSettings[userId] ??= [];
+    userSettings[userId].push({
+      category,
+      since: lastSentAt && lastSentAt > since ? lastSentAt : since,
+    });
+  }
+
+  let sent = 0;
+  for (const userIds of chunk(Object.keys(userSettings).map(Number), digestUserBatchSize)) {
+    const windows = userIds.flatMap((userId) =>
+      userSettings[userId].map(
+        ({ category, since }) => Prisma.sql`(${userId}, ${category}, ${since}::timestamp)`
+      )
+    );
+    const query = await notifDbRead.cancellableQuery<NotificationsRaw & { userId: number }>(
+      Prisma.sql`
+        SELECT
+          un.id,
+          un."userId",
+          n.type,
+          n.category,
+          n.details,
+          un."createdAt",
+          un.viewed AS read
+        FROM
+          "UserNotification" un
+            JOIN "Notification" n ON n."id" = un."notificationId"
+            JOIN (VALUES ${Prisma.join(windows)}) w("userId", category, since)
+              ON w."userId" = un."userId" AND w.category = n.category::text
+        WHERE
+          un.viewed IS FALSE
+          AND un."createdAt" > w.since
+          AND un."createdAt" <= ${until}
+        ORDER BY un."createdAt" DESC
+      `
+    );
+    const notifications = await query.result();
+    if (!notifications.length) continue;
+
+    const digests: Record<
+      number,
+      Record<string, { total: number; items: typeof notifications }>
+    > = {};
+    for (const notification of notifications) {
+      digests[notification.userId] ??= {};
+      const section = (digests[notification.userId][notification.category] ??= {
+        total: 0,
+        items: [],
+      });
+      section.total++;
+      if (section.items.length < digestItemsPerCategory) section.items.push(notification);
+    }
+
+    // Only the notifications that make it into an email need their details
+    const toPopulate = Object.values(digests).flatMap((x) =>
+      Object.values(x).flatMap((section) => section.items)
+    );
+    if (!toPopulate.length) continue;
+    await populateNotificationDetails(toPopulate);
+
+    const users = await dbRead.user.findMany({
+      where: { id: { in: Object.keys(digests).map(Number) } },
+      select: { id: true, email: true, username: true },
+    });
+    for (const user of users) {
+      const sections = Object.entries(digests[user.id] ?? {})
+        .map(([category, { total, items }]) => ({
+          label: digestNotificationCategories[category as DigestNotificationCategory],
+          total,
+          notifications: items
+            .map((notification) => getNotificationMessage(notification))
+            .filter(isDefined),
+        }))
+        .filter((section) => section.notifications.length > 0);
+      if (!sections.length) continue;
+
+      try {
+        await notificationDigestEmail.send({ user, frequency, sections });
+        await dbWrite.userNotificationFrequency.updateMany({
+          where: { userId: user.id, frequency },
+          data: { lastSentAt: until },
+        });
+        sent++;
+      } catch (e) {
+        const error = e as Error;
+        logToAxiom(
+          {
+            type: 'warning',
+            name: 'Failed to send notification digest',
+            details: { userId: user.id, frequency },
+            message: error.message,
+            stack: error.stack,
+            cause: error.cause,
+          },
+          'notifications'
+        ).catch();
+      }
+    }
+  }
+
+  return { sent };
+}
@@ -1,8 +1,14 @@
-import { ComfyStepTemplate } from '@civitai/client';
+import {
+  ComfyStep,
+  ComfyStepTemplate,
+  ImageJobNetworkParams,
+  TextToImageStep,
+  WorkflowStep,
+} from '@civitai/client';
 import { SessionUser } from 'next-auth';
 import { z } from 'zod';
 import { env } from '~/env/server.mjs';
-import { generation } from '~/server/common/constants';
+import { Sampler, generation } from '~/server/common/constants';
 import { SignalMessages } from '~/server/common/enums';
 import { generateImageSchema } from '~/server/schema/orchestrator/textToImage.schema';
 import {
@@ -15,8 +21,14 @@ import {
   parseGenerateImageInput,
 } from '~/server/services/orchestrator/common';
 import { TextToImageResponse } from '~/server/services/orchestrator/types';
-import { submitWorkflow } from '~/server/services/orchestrator/workflows';
-import { WORKFLOW_TAGS, samplersToComfySamplers } from '~/shared/constants/generation.constants';
+import { getWorkflow, submitWorkflow } from '~/server/services/orchestrator/workflows';
+import { throwNotFoundError } from '~/server/utils/errorHandling';
+import {
+  WORKFLOW_TAGS,
+  samplersToComfySamplers,
+  samplersToSchedulers,
+} from '~/shared/constants/generation.constants';
+import { ComfyNode } from '~/shared/types/generation.types';
 import { getRandomInt } from '~/utils/number-helpers';
 
 export async function createComfyStep(
@@ -85,3 +97,51 @@ export async function createComfy(
   const [formatted] = await formatGeneratedImageResponses([workflow]);
   return formatted;
 }
+
+/**
+ * Gets the comfy prompt that produced the images of a step so it can be embedded in downloads.
+ * Text to image steps don't run through comfy, so theirs is rebuilt from the txt2img workflow.
+ */
+export async function getStepComfyPrompt({
+  token,
+  workflowId,
+  stepName,
+}: {
+  token: string;
+  workflowId: string;
+  stepName: string;
+}) {
+  const workflow = await getWorkflow({ token, path: { workflowId } });
+  const step = workflow.steps?.find((x: WorkflowStep) => x.name === stepName);
+  if (!step) throw throwNotFoundError(`No step with name ${stepName}`);
+
+  if (step.$type === 'comfy')
+    return (step as ComfyStep).input.comfyWorkflow as Record<string, ComfyNode>;
+  if (step.$type !== 'textToImage') return null;
+
+  const { input } = step as TextToImageStep;
+  const sampler = (Object.entries(samplersToSchedulers).find(
+    ([, scheduler]) => scheduler.toLowerCase() === input.scheduler?.toLowerCase()
+  )?.[0] ?? generation.defaultValues.sampler) as Sampler;
+
+  const comfyWorkflow: Record<string, ComfyNode> = await populateWorkflowDefinition('txt2img', {
+    prompt: input.prompt,
+    negativePrompt: input.negativePrompt ?? '',
+    steps: input.steps ?? generation.defaultValues.steps,
+    cfgScale: input.cfgScale ?? generation.defaultValues.cfgScale,
+    width: input.width,
+    height: input.height,
+    seed: input.seed ?? -1,
+    ...samplersToComfySamplers[sampler],
+  });
+  const networks: Record<string, ImageJobNetworkParams> = input.additionalNetworks ?? {};
+  applyResources(comfyWorkflow, [
+    { air: input.model },
+    ...Object.entries(networks).map(([air, network]) => ({
+      air,
+      strength: network.strength ?? undefined,
+    })),
+  ]);
+
+  return comfyWorkflow;
+}
@@ -40,8 +40,7 @@ import { generation, getGenerationConfig } from '~/server/common/constants';
 import { SessionUser } from 'next-auth';
 import { throwBadRequestError } from '~/server/utils/errorHandling';
 import { z } from 'zod';
-import { extModeration } from '~/server/integrations/moderation';
-import { logToAxiom } from '~/server/logging/client';
+import { moderatePrompt } from '~/server/services/prompt-moderation.service';
 import { ModelType } from '@prisma/client';
 import { queryWorkflows } from '~/server/services/orchestrator/workflows';
 import { NormalizedGeneratedImage } from '~/server/services/orchestrator';
@@ -171,10 +170,7 @@ export async function parseGenerateImageInput({
   // #endregion
 
   // handle moderate prompt
-  const moderationResult = await extModeration.moderatePrompt(params.prompt).catch((error) => {
-    logToAxiom({ name: 'external-moderation-error', type: 'error', message: error.message });
-    return { flagged: false, categories: [] as string[] };
-  });
+  const moderationResult = await moderatePrompt({ prompt: params.prompt, userId: user.id });
 
   if (moderationResult.flagged) {
     throw throwBadRequestError(
@@ -4,6 +4,7 @@ import {
   CollectionMode,
   CollectionReadConfiguration,
   CollectionType,
+  EntityType,
   ImageResource,
   Prisma,
   TagTarget,
@@ -31,6 +32,7 @@ import {
   getUserCollectionPermissionsById,
 } from '~/server/services/collection.service';
 import { getCosmeticsForEntity } from '~/server/services/cosmetic.service';
+import { hasEntityCollaboratorPermission } from '~/server/services/entity-collaborator.service';
 import {
   deleteImageById,
   deleteImagesForModelVersionCache,
@@ -504,7 +506,15 @@ export const getPostDetail = async ({ id, user }: GetByIdInput & { user?: Sessio
 export type PostDetailEditable = AsyncReturnType<typeof getPostEditDetail>;
 export const getPostEditDetail = async ({ id, user }: GetByIdInput & { user: SessionUser }) => {
   const post = await getPostDetail({ id, user });
-  if (post.user.id !== user.id && !user.isModerator) throw throwAuthorizationError();
+  if (post.user.id !== user.id && !user.isModerator) {
+    const canEdit = await hasEntityCollaboratorPermission({
+      entityType: EntityType.Post,
+      entityId: id,
+      userId: user.id,
+      permission: 'edit',
+    });
+    if (!canEdit) throw throwAuthorizationError();
+  }
   const images = await getPostEditImages({ id, user });
 
   let collectionTagId: null | number = null;
@@ -595,8 +605,17 @@ export const updatePost = async ({
   user,
   ...data
 }: PostUpdateInput & { user: SessionUser }) => {
+  const isCollaborator =
+    !user.isModerator &&
+    (await hasEntityCollaboratorPermission({
+      entityType: EntityType.Post,
+      entityId: id,
+      userId: user.id,
+      permission: data.publishedAt ? 'publish' : 'edit',
+    }));
+
   const post = await dbWrite.post.update({
-    where: { id, userId: !user.isModerator ? user.id : undefined },
+    where: { id, userId: !user.isModerator && !isCollaborator ? user.id : undefined },
     data: {
       ...data,
       title: !!data.title ? (data.title.length > 0 ? data.title : null) : undefined,
@@ -0,0 +1,187 @@
+import { Prisma, PromptModerationStage } from '@prisma/client';
+import { dbRead, dbWrite } from '~/server/db/client';
+import { extModeration } from '~/server/integrations/moderation';
+import { logToAxiom } from '~/server/logging/client';
+import { redis, REDIS_KEYS } from '~/server/redis/client';
+import { GetByIdInput } from '~/server/schema/base.schema';
+import {
+  GetPromptModerationLogsInput,
+  ReviewPromptModerationLogInput,
+  TestPromptModerationInput,
+  UpsertPromptModerationRuleInput,
+} from '~/server/schema/prompt-moderation.schema';
+import {
+  getPromptModerationRules,
+  SystemPromptModerationRule,
+} from '~/server/services/system-cache';
+import { throwNotFoundError } from '~/server/utils/errorHandling';
+import { getPagination, getPagingData } from '~/server/utils/pagination-helpers';
+import { getPatternRegex } from '~/server/utils/prompt-moderation';
+
+export function getAllPromptModerationRules() {
+  return dbRead.promptModerationRule.findMany({ orderBy: [{ type: 'asc' }, { id: 'asc' }] });
+}
+
+async function bustPromptModerationRulesCache() {
+  await redis.del(REDIS_KEYS.SYSTEM.PROMPT_MODERATION_RULES);
+}
+
+export async function upsertPromptModerationRule({
+  id,
+  userId,
+  ...data
+}: UpsertPromptModerationRuleInput & { userId: number }) {
+  const rule = id
+    ? await dbWrite.promptModerationRule.update({ where: { id }, data })
+    : await dbWrite.promptModerationRule.create({ data: { ...data, createdById: userId } });
+
+  await bustPromptModerationRulesCache();
+  return rule;
+}
+
+export async function deletePromptModerationRule({ id }: GetByIdInput) {
+  const { count } = await dbWrite.promptModerationRule.deleteMany({ where: { id } });
+  if (!count) throw throwNotFoundError(`No prompt moderation rule with id ${id}`);
+
+  await bustPromptModerationRulesCache();
+}
+
+export type PromptModerationResult = {
+  flagged: boolean;
+  categories: string[];
+  stage?: PromptModerationStage;
+  ruleId?: number;
+  // The prompt after allow rules were applied, as seen by the blocklist and external stages
+  preparedPrompt: string;
+};
+
+type CompiledPromptModerationRule = SystemPromptModerationRule & { regex: RegExp };
+let compiledRules: { key: string; rules: CompiledPromptModerationRule[] } | undefined;
+
+// Patterns are only compiled again when the cached rules change
+async function getCompiledRules() {
+  const rules = await getPromptModerationRules();
+  const key = JSON.stringify(rules);
+  if (compiledRules?.key === key) return compiledRules.rules;
+
+  const compiled: CompiledPromptModerationRule[] = [];
+  for (const rule of rules) {
+    try {
+      compiled.push({ ...rule, regex: getPatternRegex(rule) });
+    } catch (error) {
+      // Rules are validated when saved, this only skips rules saved before a check was added
+      logToAxiom({
+        name: 'prompt-moderation-rule',
+        type: 'error',
+        message: (error as Error).message,
+        ruleId: rule.id,
+      });
+    }
+  }
+
+  compiledRules = { key, rules: compiled };
+  return compiled;
+}
+
+/**
+ * Allow rules rewrite known false positives, then the prompt is checked against the block rules
+ * and finally the external moderation endpoint when it's configured.
+ */
+async function runPromptModeration(prompt: string): Promise<PromptModerationResult> {
+  const rules = await getCompiledRules();
+
+  let preparedPrompt = prompt;
+  for (const rule of rules.filter((x) => x.type === 'Allow')) {
+    preparedPrompt = preparedPrompt.replace(rule.regex, rule.replacement ?? '');
+  }
+
+  for (const rule of rules.filter((x) => x.type === 'Block')) {
+    if (preparedPrompt.search(rule.regex) === -1) continue;
+    return {
+      flagged: true,
+      categories: [rule.category ?? 'blocked term'],
+      stage: PromptModerationStage.Blocklist,
+      ruleId: rule.id,
+      preparedPrompt,
+    };
+  }
+
+  if (extModeration.isConfigured()) {
+    const { flagged, categories } = await extModeration
+      .moderatePrompt(preparedPrompt)
+      .catch((error) => {
+        logToAxiom({ name: 'external-moderation-error', type: 'error', message: error.message });
+        return { flagged: false, categories: [] as string[] };
+      });
+    if (flagged)
+      return { flagged, categories, stage: PromptModerationStage.External, preparedPrompt };
+  }
+
+  return { flagged: false, categories: [], preparedPrompt };
+}
+
+/** Runs the moderation pipeline, recording flagged prompts so that they can be reviewed */
+export async function moderatePrompt({ prompt, userId }: { prompt: string; userId?: number }) {
+  const result = await runPromptModeration(prompt);
+  if (result.flagged && result.stage) {
+    await dbWrite.promptModerationLog
+      .create({
+        data: {
+          userId,
+          prompt,
+          stage: result.stage,
+          categories: result.categories,
+          ruleId: result.ruleId,
+        },
+      })
+      .catch((error) => {
+        logToAxiom({ name: 'prompt-moderation-log', type: 'error', message: error.message });
+      });
+  }
+
+  return result;
+}
+
+/** Runs the moderation pipeline without recording the result */
+export function testPromptModeration({ prompt }: TestPromptModerationInput) {
+  return runPromptModeration(prompt);
+}
+
+export async function getPromptModerationLogsPaged({
+  limit,
+  page,
+  stage,
+  reviewed,
+}: GetPromptModerationLogsInput) {
+  const { take, skip } = getPagination(limit, page);
+  const where: Prisma.PromptModerationLogWhereInput = {
+    stage,
+    reviewedAt: reviewed === undefined ? undefined : reviewed ? { not: null } : null,
+  };
+
+  const [items, count] = await Promise.all([
+    dbRead.promptModerationLog.findMany({ where, take, skip, orderBy: { createdAt: 'desc' } }),
+    dbRead.promptModerationLog.count({ where }),
+  ]);
+
+  return getPagingData({ items, count }, take, page);
+}
+
+export async function reviewPromptModerationLog({
+  id,
+  falsePositive,
+  userId,
+}: ReviewPromptModerationLogInput & { userId: number }) {
+  const { count } = await dbWrite.promptModerationLog.updateMany({
+    where: { id },
+    data: { falsePositive, reviewedById: userId, reviewedAt: new Date() },
+  });
+  if (!count) throw throwNotFoundError(`No prompt moderation log with id ${id}`);
+}
+
+export async function deleteOldPromptModerationLogs(before: Date) {
+  const { count } = await dbWrite.promptModerationLog.deleteMany({
+    where: { createdAt: { lt: before } },
+  });
+  return count;
+}
@@ -0,0 +1,75 @@
+import { Prisma } from '@prisma/client';
+import { dbRead, dbWrite } from '~/server/db/client';
+import { redis, REDIS_KEYS } from '~/server/redis/client';
+import { GetByIdInput } from '~/server/schema/base.schema';
+import {
+  GetRateLimitOverridesInput,
+  UpsertRateLimitOverrideInput,
+} from '~/server/schema/rate-limit.schema';
+import { throwBadRequestError, throwNotFoundError } from '~/server/utils/errorHandling';
+import { getPagination, getPagingData } from '~/server/utils/pagination-helpers';
+import { rateLimitPolicies } from '~/server/utils/rate-limiting';
+
+export function getRateLimitPolicies() {
+  return Object.entries(rateLimitPolicies).map(([name, policy]) => ({ name, ...policy }));
+}
+
+export async function getRateLimitOverridesPaged({
+  limit,
+  page,
+  policy,
+  identityType,
+}: GetRateLimitOverridesInput) {
+  const { take, skip } = getPagination(limit, page);
+  const where: Prisma.RateLimitOverrideWhereInput = { policy, identityType };
+
+  const [items, count] = await Promise.all([
+    dbRead.rateLimitOverride.findMany({ where, take, skip, orderBy: { createdAt: 'desc' } }),
+    dbRead.rateLimitOverride.count({ where }),
+  ]);
+
+  return getPagingData({ items, count }, take, page);
+}
+
+async function bustRateLimitOverridesCache() {
+  await redis.del(REDIS_KEYS.SYSTEM.RATE_LIMIT_OVERRIDES);
+}
+
+export async function upsertRateLimitOverride({
+  id,
+  userId,
+  ...data
+}: UpsertRateLimitOverrideInput & { userId: number }) {
+  if (data.policy !== '*' && !(data.policy in rateLimitPolicies))
+    throw throwBadRequestError(`Unknown rate limit policy: ${data.policy}`);
+  if (data.identityType === 'User' || data.identityType === 'ApiKey') {
+    if (!Number.isInteger(Number(data.identifier)))
+      throw throwBadRequestError(
+        `${data.identityType} overrides must use the ${data.identityType} id`
+      );
+  }
+
+  const override = id
+    ? await dbWrite.rateLimitOverride.update({ where: { id }, data })
+    : await dbWrite.rateLimitOverride.upsert({
+        where: {
+          policy_identityType_identifier: {
+            policy: data.policy,
+            identityType: data.identityType,
+            identifier: data.identifier,
+          },
+        },
+        create: { ...data, createdById: userId },
+        update: data,
+      });
+
+  await bustRateLimitOverridesCache();
+  return override;
+}
+
+export async function deleteRateLimitOverride({ id }: GetByIdInput) {
+  const { count } = await dbWrite.rateLimitOverride.deleteMany({ where: { id } });
+  if (!count) throw throwNotFoundError(`No rate limit override with id ${id}`);
+
+  await bustRateLimitOverridesCache();
+}
@@ -1,14 +1,22 @@
-import { RedeemableCodeType } from '@prisma/client';
+import { Prisma, RedeemableCodeType } from '@prisma/client';
 
-import { dbWrite } from '~/server/db/client';
+import { dbRead, dbWrite } from '~/server/db/client';
 import { TransactionType } from '~/server/schema/buzz.schema';
 import {
   ConsumeRedeemableCodeInput,
+  CreateRedeemableCodeBatchInput,
   CreateRedeemableCodeInput,
   DeleteRedeemableCodeInput,
+  GetRedeemableCodeBatchesInput,
 } from '~/server/schema/redeemableCode.schema';
 import { createBuzzTransaction } from '~/server/services/buzz.service';
-import { throwDbCustomError, withRetries } from '~/server/utils/errorHandling';
+import {
+  throwBadRequestError,
+  throwDbCustomError,
+  throwNotFoundError,
+  withRetries,
+} from '~/server/utils/errorHandling';
+import { getPagination, getPagingData } from '~/server/utils/pagination-helpers';
 import { generateToken } from '~/utils/string-helpers';
 
 export async function createRedeemableCodes({
@@ -16,19 +24,106 @@ export async function createRedeemableCodes({
   type,
   expiresAt,
   quantity = 1,
-}: CreateRedeemableCodeInput) {
+  maxUses = 1,
+  batchId,
+}: CreateRedeemableCodeInput & { batchId?: number }) {
   const codes = Array.from({ length: quantity }, () => {
     const code = `CS-${generateToken(4)}-${generateToken(4)}`.toUpperCase();
-    return { code, unitValue, expiresAt, type };
+    return { code, unitValue, expiresAt, type, maxUses, batchId };
   });
   await dbWrite.redeemableCode.createMany({ data: codes });
   return codes.map((code) => code.code);
 }
 
+export async function createRedeemableCodeBatch({
+  maxUsesPerCode,
+  userId,
+  ...data
+}: CreateRedeemableCodeBatchInput & { userId: number }) {
+  const batch = await dbWrite.redeemableCodeBatch.create({
+    data: { ...data, maxUsesPerCode, createdById: userId },
+  });
+  const codes = await createRedeemableCodes({
+    unitValue: data.unitValue,
+    type: data.type,
+    expiresAt: data.expiresAt,
+    quantity: data.quantity,
+    maxUses: maxUsesPerCode,
+    batchId: batch.id,
+  });
+
+  return { ...batch, codes };
+}
+
+export async function getRedeemableCodeBatchesPaged({
+  limit,
+  page,
+  query,
+}: GetRedeemableCodeBatchesInput) {
+  const { take, skip } = getPagination(limit, page);
+  const where: Prisma.RedeemableCodeBatchWhereInput = query
+    ? { name: { contains: query, mode: 'insensitive' } }
+    : {};
+
+  const [batches, count] = await Promise.all([
+    dbRead.redeemableCodeBatch.findMany({ where, take, skip, orderBy: { createdAt: 'desc' } }),
+    dbRead.redeemableCodeBatch.count({ where }),
+  ]);
+  if (!batches.length) return getPagingData({ items: [], count }, take, page);
+
+  const batchIds = batches.map((x) => x.id);
+  const stats = await dbRead.$queryRaw<
+    { batchId: number; codesRedeemed: number; redemptions: number; users: number }[]
+  >`
+    SELECT
+      c."batchId",
+      COUNT(*) FILTER (WHERE c.uses > 0)::int "codesRedeemed",
+      SUM(c.uses)::int "redemptions",
+      (
+        SELECT COUNT(DISTINCT r."userId")
+        FROM "RedeemableCodeRedemption" r
+        WHERE r."batchId" = c."batchId"
+      )::int "users"
+    FROM "RedeemableCode" c
+    WHERE c."batchId" IN (${Prisma.join(batchIds)})
+    GROUP BY c."batchId"
+  `;
+
+  const items = batches.map((batch) => {
+    const batchStats = stats.find((x) => x.batchId === batch.id);
+    const redemptions = batchStats?.redemptions ?? 0;
+    return {
+      ...batch,
+      codesRedeemed: batchStats?.codesRedeemed ?? 0,
+      redemptions,
+      users: batchStats?.users ?? 0,
+      valueRedeemed: redemptions * batch.unitValue,
+    };
+  });
+
+  return getPagingData({ items, count }, take, page);
+}
+
+export async function getRedeemableCodeBatchCodes({ batchId }: { batchId: number }) {
+  const batch = await dbRead.redeemableCodeBatch.findUnique({
+    where: { id: batchId },
+    select: { id: true, name: true },
+  });
+  if (!batch) throw throwNotFoundError(`No redeemable code batch with id ${batchId}`);
+
+  const codes = await dbRead.redeemableCode.findMany({
+    where: { batchId },
+    select: { code: true, type: true, unitValue: true, maxUses: true, uses: true, expiresAt: true },
+    orderBy: { code: 'asc' },
+  });
+
+  return { ...batch, codes };
+}
+
 export function deleteRedeemableCode({ code }: DeleteRedeemableCodeInput) {
   return dbWrite.redeemableCode
     .delete({
-      where: { code, redeemedAt: null },
+      where: { code, uses: 0 },
     })
     .catch(throwDbCustomError('Code does not exists or has been redeemed'));
 }
@@ -37,25 +132,54 @@ export async function consumeRedeemableCode({
   code,
   userId,
 }: ConsumeRedeemableCodeInput & { userId: number }) {
-  const consumedCode = await dbWrite.redeemableCode
-    .update({
-      where: {
-        code,
-        redeemedAt: null,
-        OR: [{ expiresAt: { gt: new Date() } }, { expiresAt: null }],
-      },
-      data: { redeemedAt: new Date(), userId },
-      select: { code: true, unitValue: true, type: true, userId: true },
-    })
-    .catch(throwDbCustomError('Code does not exists, has been redeemed, or has expired'));
+  const consumedCode = await dbWrite.$transaction(async (tx) => {
+    const [redeemableCode] = await tx.$queryRaw<
+      {
+        code: string;
+        unitValue: number;
+        type: RedeemableCodeType;
+        batchId: number | null;
+        singleUsePerUser: boolean | null;
+      }[]
+    >`
+      UPDATE "RedeemableCode" c
+      SET
+        uses = c.uses + 1,
+        "userId" = ${userId},
+        "redeemedAt" = CASE WHEN c.uses + 1 >= c."maxUses" THEN now() END
+      WHERE c.code = ${code}
+        AND c.uses < c."maxUses"
+        AND (c."expiresAt" IS NULL OR c."expiresAt" > now())
+      RETURNING
+        c.code,
+        c."unitValue",
+        c.type,
+        c."batchId",
+        (SELECT "singleUsePerUser" FROM "RedeemableCodeBatch" WHERE id = c."batchId") "singleUsePerUser"
+    `;
+    if (!redeemableCode)
+      throw throwNotFoundError('Code does not exists, has been redeemed, or has expired');
+
+    // A unique partial index on (batchId, userId) WHERE singleUse enforces one redemption per user
+    const singleUse = !!redeemableCode.batchId && !!redeemableCode.singleUsePerUser;
+    await tx.redeemableCodeRedemption
+      .create({ data: { code, userId, batchId: redeemableCode.batchId, singleUse } })
+      .catch((e: Prisma.PrismaClientKnownRequestError) => {
+        if (singleUse && e.code === 'P2002')
+          throw throwBadRequestError('You have already redeemed a code from this promotion');
+        throw throwDbCustomError('You have already redeemed this code')(e);
+      });
+
+    return { ...redeemableCode, userId };
+  });
 
   if (consumedCode.type === RedeemableCodeType.Buzz) {
-    const transactionId = `redeemable-code-${consumedCode.code}`;
+    const transactionId = `redeemable-code-${consumedCode.code}-${userId}`;
 
     await withRetries(() =>
       createBuzzTransaction({
         fromAccountId: 0,
-        toAccountId: consumedCode.userId as number,
+        toAccountId: userId,
         amount: consumedCode.unitValue,
         description: `Redeemed code ${consumedCode.code}`,
         type: TransactionType.Redeemable,
@@ -63,8 +187,8 @@ export async function consumeRedeemableCode({
       })
     );
 
-    await dbWrite.redeemableCode.update({
-      where: { code },
+    await dbWrite.redeemableCodeRedemption.update({
+      where: { code_userId: { code, userId } },
       data: { transactionId },
     });
   } else if (consumedCode.type === RedeemableCodeType.Membership) {
@@ -0,0 +1,110 @@
+import { searchIndexMap } from '~/components/Search/search.types';
+import { InstantSearchRequest } from '~/server/schema/search.schema';
+import { searchBackend } from '~/server/search-backend';
+import { throwBadRequestError } from '~/server/utils/errorHandling';
+
+const searchIndexes: string[] = Object.values(searchIndexMap);
+
+type AlgoliaFilters = InstantSearchRequest['params']['facetFilters'];
+function toFilterGroups(filters: AlgoliaFilters) {
+  if (!filters) return [];
+  return (typeof filters === 'string' ? [filters] : filters).map((group) =>
+    typeof group === 'string' ? [group] : group
+  );
+}
+
+// Converts facet filters such as `type:LORA` or `type:-LORA` into meilisearch filters
+function toFacetFilter(facetFilter: string) {
+  const separator = facetFilter.indexOf(':');
+  const attribute = facetFilter.slice(0, separator);
+  let value = facetFilter.slice(separator + 1);
+  const negate = value.startsWith('-');
+  if (negate) value = value.slice(1);
+
+  return `${attribute} ${negate ? '!=' : '='} ${JSON.stringify(value)}`;
+}
+
+function getFilter({ params }: InstantSearchRequest) {
+  const filters = [
+    ...toFilterGroups(params.facetFilters).map((group) => group.map(toFacetFilter)),
+    ...toFilterGroups(params.numericFilters),
+  ]
+    .filter((group) => group.length > 0)
+    .map((group) => `(${group.join(' OR ')})`);
+  if (params.filters) filters.push(`(${params.filters})`);
+
+  return filters.join(' AND ') || undefined;
+}
+
+function parseIndexName(indexName: string) {
+  const [index, ...sort] = indexName.split(':');
+  if (!searchIndexes.includes(index)) throw throwBadRequestError(`Unknown index: ${index}`);
+
+  return { index, sort: sort.length ? [sort.join(':')] : undefined };
+}
+
+/**
+ * Runs InstantSearch requests against the configured search backend, returning results in the
+ * format expected by InstantSearch. Used when the client can't query meilisearch directly.
+ */
+export async function instantSearch(requests: InstantSearchRequest[]) {
+  return Promise.all(
+    requests.map(async (request) => {
+      const { indexName, params } = request;
+      const { index, sort } = parseIndexName(indexName);
+      const { page, hitsPerPage } = params;
+      const facets = typeof params.facets === 'string' ? [params.facets] : params.facets;
+
+      const { hits, estimatedTotalHits, facetDistribution, processingTimeMs } =
+        await searchBackend.search({
+          indexName: index,
+          query: params.query,
+          filter: getFilter(request),
+          sort,
+          facets: facets?.filter((facet) => facet !== '*'),
+          limit: hitsPerPage,
+          offset: page * hitsPerPage,
+        });
+
+      return {
+        index: indexName,
+        hits: hits.map((hit) => ({ ...hit, objectID: String(hit.id) })),
+        nbHits: estimatedTotalHits,
+        page,
+        nbPages: hitsPerPage ? Math.ceil(estimatedTotalHits / hitsPerPage) : 0,
+        hitsPerPage,
+        facets: facetDistribution ?? {},
+        exhaustiveNbHits: false,
+        processingTimeMS: processingTimeMs,
+        query: params.query ?? '',
+        params: '',
+      };
+    })
+  );
+}
+
+export async function searchForFacetValues(requests: InstantSearchRequest[]) {
+  return Promise.all(
+    requests.map(async (request) => {
+      const { indexName, params } = request;
+      const { index } = parseIndexName(indexName);
+      if (!params.facetName) throw throwBadRequestError('Missing facetName');
+
+      const { facetDistribution, processingTimeMs } = await searchBackend.search({
+        indexName: index,
+        query: params.query,
+        filter: getFilter(request),
+        facets: [params.facetName],
+        limit: 0,
+      });
+
+      const facetQuery = params.facetQuery?.toLowerCase() ?? '';
+      const facetHits = Object.entries(facetDistribution?.[params.facetName] ?? {})
+        .filter(([value]) => value.toLowerCase().includes(facetQuery))
+        .slice(0, params.maxFacetHits)
+        .map(([value, count]) => ({ value, highlighted: value, count }));
+
+      return { facetHits, exhaustiveFacetsCount: false, processingTimeMS: processingTimeMs };
+    })
+  );
+}
@@ -1,4 +1,9 @@
-import { TagsOnTagsType, TagType } from '@prisma/client';
+import {
+  PromptModerationRuleType,
+  RateLimitIdentityType,
+  TagsOnTagsType,
+  TagType,
+} from '@prisma/client';
 import { tagsNeedingReview } from '~/libs/tags';
 import { dbRead, dbWrite } from '~/server/db/client';
 import { redis, REDIS_KEYS } from '~/server/redis/client';
@@ -7,6 +12,7 @@ import { indexOfOr } from '~/utils/array-helpers';
 import { createLogger } from '~/utils/logging';
 import { NsfwLevel } from '~/server/common/enums';
 import { isDefined } from '~/utils/type-guards';
+import { ComputedTagRuleDefinition } from '~/server/utils/tag-rules';
 
 const log = createLogger('system-cache', 'green');
 
@@ -87,6 +93,69 @@ export async function getTagRules() {
   return rules;
 }
 
+export type SystemComputedTagRule = ComputedTagRuleDefinition & { id: number };
+export async function getComputedTagRules(): Promise<SystemComputedTagRule[]> {
+  const cachedRules = await redis.packed.get<SystemComputedTagRule[]>(
+    REDIS_KEYS.SYSTEM.COMPUTED_TAG_RULES
+  );
+  if (cachedRules) return cachedRules;
+
+  log('getting computed tag rules');
+  const rules = await dbWrite.computedTagRule.findMany({
+    where: { enabled: true },
+    select: {
+      id: true,
+      tag: true,
+      expression: true,
+      sources: true,
+      minConfidence: true,
+      temp: true,
+    },
+    orderBy: [{ priority: 'asc' }, { id: 'asc' }],
+  });
+  await redis.packed.set(REDIS_KEYS.SYSTEM.COMPUTED_TAG_RULES, rules, {
+    EX: SYSTEM_CACHE_EXPIRY,
+  });
+
+  log('got computed tag rules');
+  return rules;
+}
+
+export type SystemPromptModerationRule = {
+  id: number;
+  type: PromptModerationRuleType;
+  pattern: string;
+  isRegex: boolean;
+  replacement: string | null;
+  category: string | null;
+};
+export async function getPromptModerationRules(): Promise<SystemPromptModerationRule[]> {
+  const cachedRules = await redis.packed.get<SystemPromptModerationRule[]>(
+    REDIS_KEYS.SYSTEM.PROMPT_MODERATION_RULES
+  );
+  if (cachedRules) return cachedRules;
+
+  log('getting prompt moderation rules');
+  const rules = await dbWrite.promptModerationRule.findMany({
+    where: { enabled: true },
+    select: {
+      id: true,
+      type: true,
+      pattern: true,
+      isRegex: true,
+      replacement: true,
+      category: true,
+    },
+    orderBy: { id: 'asc' },
+  });
+  await redis.packed.set(REDIS_KEYS.SYSTEM.PROMPT_MODERATION_RULES, rules, {
+    EX: SYSTEM_CACHE_EXPIRY,
+  });
+
+  log('got prompt moderation rules');
+  return rules;
+}
+
 export async function getSystemTags() {
   const cachedTags = await redis.get(REDIS_KEYS.SYSTEM.SYSTEM_TAGS);
   if (cachedTags) return JSON.parse(cachedTags) as { id: number; name: string }[];
@@ -232,3 +301,35 @@ export async function getLiveNow() {
   const cachedLiveNow = await redis.get(REDIS_KEYS.LIVE_NOW);
   return cachedLiveNow === 'true';
 }
+
+export type SystemRateLimitOverride = {
+  policy: string;
+  identityType: RateLimitIdentityType;
+  identifier: string;
+  limit: number | null;
+  expiresAt?: Date;
+};
+export async function getRateLimitOverrides(): Promise<SystemRateLimitOverride[]> {
+  const cachedOverrides = await redis.packed.get<SystemRateLimitOverride[]>(
+    REDIS_KEYS.SYSTEM.RATE_LIMIT_OVERRIDES
+  );
+  if (cachedOverrides) return cachedOverrides;
+
+  log('getting rate limit overrides');
+  const overrides = await dbWrite.rateLimitOverride.findMany({
+    where: { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] },
+    select: { policy: true, identityType: true, identifier: true, limit: true, expiresAt: true },
+  });
+
+  const result = overrides.map(({ expiresAt, ...override }) => ({
+    ...override,
+    expiresAt: expiresAt ?? undefined,
+  }));
+
+  await redis.packed.set(REDIS_KEYS.SYSTEM.RATE_LIMIT_OVERRIDES, result, {
+    EX: SYSTEM_CACHE_EXPIRY,
+  });
+
+  log('got rate limit overrides');
+  return result;
+}
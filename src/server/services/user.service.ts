@@ -352,6 +352,7 @@ export const getCreators = async <TSelect extends Prisma.UserSelect>({
   query,
   take,
   skip,
+  cursor,
   select,
   orderBy,
   excludeIds = [],
@@ -361,6 +362,7 @@ export const getCreators = async <TSelect extends Prisma.UserSelect>({
   query?: string;
   take?: number;
   skip?: number;
+  cursor?: number;
   count?: boolean;
   orderBy?: Prisma.UserFindManyArgs['orderBy'];
   excludeIds?: number[];
@@ -374,6 +376,7 @@ export const getCreators = async <TSelect extends Prisma.UserSelect>({
   const items = await dbRead.user.findMany({
     take,
     skip,
+    cursor: cursor ? { id: cursor } : undefined,
     select,
     where,
     orderBy,
@@ -1,21 +1,27 @@
-import { ModelStatus, Prisma, VaultItemStatus } from '@prisma/client';
+import { ModelStatus, Prisma, VaultItem, VaultItemStatus } from '@prisma/client';
+import { createHash } from 'crypto';
 import { env } from '~/env/server.mjs';
 import { constants } from '~/server/common/constants';
 import { VaultSort } from '~/server/common/enums';
 import { dbRead, dbWrite } from '~/server/db/client';
 import {
   GetPaginatedVaultItemsSchema,
+  GetVaultManifestSchema,
+  SyncVaultManifestSchema,
   VaultItemFilesSchema,
   VaultItemsAddModelVersionSchema,
   VaultItemsRefreshSchema,
   VaultItemsRemoveModelVersionsSchema,
   VaultItemsUpdateNotesSchema,
+  VaultManifest,
+  VaultManifestItem,
 } from '~/server/schema/vault.schema';
 import { getImagesForModelVersion } from '~/server/services/image.service';
 import { getCategoryTags } from '~/server/services/system-cache';
 import { throwBadRequestError, throwNotFoundError } from '~/server/utils/errorHandling';
 import { getFileDisplayName, getPrimaryFile } from '~/server/utils/model-helpers';
 import { DEFAULT_PAGE_SIZE, getPagination, getPagingData } from '~/server/utils/pagination-helpers';
+import { toJson } from '~/utils/json-helpers';
 import { formatKBytes } from '~/utils/number-helpers';
 import { deleteManyObjects, getGetUrlByKey } from '~/utils/s3-utils';
 import { isDefined } from '~/utils/type-guards';
@@ -317,12 +323,9 @@ export const refreshVaultItems = async ({
   });
 };
 
-export const getPaginatedVaultItems = async (
-  input: GetPaginatedVaultItemsSchema & { userId?: number }
+const getVaultItemsQuery = (
+  input: Omit<GetPaginatedVaultItemsSchema, 'limit' | 'page'> & { userId?: number }
 ) => {
-  const { limit = DEFAULT_PAGE_SIZE, page } = input || {};
-  const { take, skip } = getPagination(limit, page);
-
   const where: Prisma.VaultItemFindManyArgs['where'] = {
     vaultId: input.userId,
   };
@@ -389,6 +392,16 @@ export const getPaginatedVaultItems = async (
     where.addedAt = { lte: input.dateAddedTo };
   }
 
+  return { where, orderBy };
+};
+
+export const getPaginatedVaultItems = async (
+  input: GetPaginatedVaultItemsSchema & { userId?: number }
+) => {
+  const { limit = DEFAULT_PAGE_SIZE, page } = input || {};
+  const { take, skip } = getPagination(limit, page);
+  const { where, orderBy } = getVaultItemsQuery(input);
+
   const items = await dbRead.vaultItem.findMany({
     where,
     take,
@@ -456,3 +469,113 @@ export const toggleModelVersionOnVault = async ({
     return await addModelVersionToVault({ userId, modelVersionId });
   }
 };
+
+const getChecksum = (data: MixedObject) => createHash('sha1').update(toJson(data)).digest('hex');
+
+const getVaultManifestItems = async (
+  items: VaultItem[],
+  baseUrl: string
+): Promise<VaultManifestItem[]> => {
+  const fileIds = items.flatMap((item) => (item.files as VaultItemFilesSchema).map((f) => f.id));
+  const hashes = fileIds.length
+    ? await dbRead.modelFileHash.findMany({
+        where: { fileId: { in: fileIds } },
+        select: { fileId: true, type: true, hash: true },
+      })
+    : [];
+  // Versions might have been deleted since they were stored, in which case we have no trained words
+  const versions = items.length
+    ? await dbRead.modelVersion.findMany({
+        where: { id: { in: items.map((item) => item.modelVersionId) } },
+        select: { id: true, trainedWords: true },
+      })
+    : [];
+
+  return items.map((item) => {
+    const downloadUrl = `${baseUrl}/api/download/vault/${item.id}`;
+    const files = (item.files as VaultItemFilesSchema).map((file) => ({
+      id: file.id,
+      name: file.displayName,
+      sizeKB: file.sizeKB,
+      hashes: Object.fromEntries(
+        hashes.filter((x) => x.fileId === file.id).map((x) => [x.type, x.hash])
+      ),
+      downloadUrl: `${downloadUrl}?type=model&fileId=${file.id}`,
+    }));
+    const trainedWords = versions.find((x) => x.id === item.modelVersionId)?.trainedWords ?? [];
+
+    return {
+      modelVersionId: item.modelVersionId,
+      status: item.status,
+      modelId: item.modelId,
+      modelName: item.modelName,
+      versionName: item.versionName,
+      creatorName: item.creatorName,
+      type: item.type,
+      baseModel: item.baseModel,
+      category: item.category,
+      addedAt: item.addedAt,
+      notes: item.notes,
+      trainedWords,
+      files,
+      imagesUrl: `${downloadUrl}?type=images`,
+      detailsUrl: `${downloadUrl}?type=details`,
+      checksum: getChecksum({
+        status: item.status,
+        refreshedAt: item.refreshedAt,
+        notes: item.notes,
+        trainedWords,
+        files: files.map(({ id, hashes }) => ({ id, hashes })),
+      }),
+    };
+  });
+};
+
+export const getVaultManifest = async ({
+  userId,
+  baseUrl,
+  modelVersionIds,
+  ...input
+}: GetVaultManifestSchema & { userId: number; baseUrl: string }): Promise<VaultManifest> => {
+  const { where, orderBy } = getVaultItemsQuery({ ...input, userId });
+  const items = await dbRead.vaultItem.findMany({
+    where: {
+      ...where,
+      modelVersionId: modelVersionIds?.length ? { in: modelVersionIds } : undefined,
+    },
+    orderBy,
+  });
+
+  return {
+    version: 1,
+    exportedAt: new Date(),
+    items: await getVaultManifestItems(items, baseUrl),
+  };
+};
+
+export const syncVaultManifest = async ({
+  userId,
+  baseUrl,
+  items: clientItems,
+}: SyncVaultManifestSchema & { userId: number; baseUrl: string }) => {
+  const { items } = await getVaultManifest({ userId, baseUrl, sort: VaultSort.RecentlyAdded });
+  const clientChecksums = new Map(clientItems.map((x) => [x.modelVersionId, x.checksum]));
+  const vaultVersionIds = new Set(items.map((x) => x.modelVersionId));
+
+  const added = items.filter((x) => !clientChecksums.has(x.modelVersionId));
+  const updated = items.filter((x) => {
+    const checksum = clientChecksums.get(x.modelVersionId);
+    return checksum !== undefined && checksum !== x.checksum;
+  });
+  const removed = clientItems
+    .filter((x) => !vaultVersionIds.has(x.modelVersionId))
+    .map((x) => x.modelVersionId);
+
+  return {
+    syncedAt: new Date(),
+    added,
+    updated,
+    removed,
+    unchangedCount: items.length - added.length - updated.length,
+  };
+};
@@ -0,0 +1,440 @@
+import { Prisma, WebhookDeliveryStatus } from '@prisma/client';
+import { createHmac } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { constants } from '~/server/common/constants';
+import { dbRead, dbWrite } from '~/server/db/client';
+import { GetByIdInput, PaginationInput } from '~/server/schema/base.schema';
+import { GetWebhookDeliveriesInput, UpsertWebhookInput } from '~/server/schema/webhook.schema';
+import { throwBadRequestError, throwNotFoundError } from '~/server/utils/errorHandling';
+import { generateKey } from '~/server/utils/key-generator';
+import { getPagination, getPagingData } from '~/server/utils/pagination-helpers';
+import { decreaseDate } from '~/utils/date-helpers';
+import { WebhookSubscriber } from '~/server/webhooks/base.webhooks';
+import { getWebhookTypes } from '~/server/webhooks/utils.webhooks';
+
+const {
+  deliveryTimeout,
+  maxDeliveryAttempts,
+  retryBaseDelay,
+  autoDisableFailureCount,
+  deliveryRetentionDays,
+  retryBatchSize,
+} = constants.webhooks;
+
+export type DeliverableWebhook = { id: number; url: string; secret: string | null };
+export type WebhookDeliveryData = {
+  id: number;
+  event: string;
+  payload: Prisma.JsonValue;
+  attempts: number;
+};
+
+const webhookSelect = {
+  id: true,
+  url: true,
+  notifyOn: true,
+  active: true,
+  secret: true,
+  failureCount: true,
+  disabledAt: true,
+  approvedAt: true,
+  createdAt: true,
+} satisfies Prisma.WebhookSelect;
+
+// Webhooks are sent from inside our network, so they must not reach private or loopback hosts
+const blockedAddresses = new BlockList();
+(
+  [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+  ] as const
+).forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv4'));
+(
+  [
+    ['::', 127],
+    ['::ffff:0:0', 96],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+  ] as const
+).forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv6'));
+
+async function isAllowedWebhookUrl(webhookUrl: string) {
+  try {
+    const { protocol, hostname } = new URL(webhookUrl);
+    if (protocol !== 'https:' && protocol !== 'http:') return false;
+
+    const host = hostname.replace(/^\[|\]$/g, '');
+    const addresses = isIP(host)
+      ? [{ address: host, family: isIP(host) }]
+      : await lookup(host, { all: true });
+
+    return addresses.every(
+      ({ address, family }) => !blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4')
+    );
+  } catch {
+    return false;
+  }
+}
+
+// #region [management]
+export function getUserWebhooks({ userId }: { userId: number }) {
+  return dbRead.webhook.findMany({
+    where: { userId },
+    select: webhookSelect,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export async function upsertWebhook({
+  id,
+  url,
+  notifyOn,
+  active,
+  userId,
+  isModerator,
+}: UpsertWebhookInput & { userId: number; isModerator?: boolean }) {
+  const webhookTypes = getWebhookTypes({ isModerator });
+  const invalidTypes = notifyOn.filter((type) => !webhookTypes[type]);
+  if (invalidTypes.length) throw throwBadRequestError(`Invalid events: ${invalidTypes.join(', ')}`);
+  if (!(await isAllowedWebhookUrl(url)))
+    throw throwBadRequestError('Webhook url must point to a public address');
+
+  // New webhooks stay inactive until a moderator approves them
+  if (!id)
+    return dbWrite.webhook.create({
+      data: {
+        url,
+        notifyOn,
+        active: isModerator ? active : false,
+        approvedAt: isModerator ? new Date() : null,
+        userId,
+        secret: generateKey(64),
+      },
+      select: webhookSelect,
+    });
+
+  const webhook = await dbWrite.webhook.findFirst({
+    where: { id, userId },
+    select: { id: true, url: true, active: true, approvedAt: true },
+  });
+  if (!webhook) throw throwNotFoundError(`No webhook with id ${id}`);
+
+  // Changing the url requires a new approval
+  let approvedAt = webhook.url === url ? webhook.approvedAt : null;
+  if (isModerator) approvedAt ??= new Date();
+  const data: Prisma.WebhookUpdateInput = {
+    url,
+    notifyOn,
+    approvedAt,
+    active: active && !!approvedAt,
+  };
+  if (data.active) {
+    // Reactivating a webhook gives it a fresh start
+    data.failureCount = 0;
+    data.disabledAt = null;
+  } else if (webhook.active) {
+    data.disabledAt = new Date();
+  }
+
+  return dbWrite.webhook.update({ where: { id }, data, select: webhookSelect });
+}
+
+export async function deleteWebhook({ id, userId }: GetByIdInput & { userId: number }) {
+  const { count } = await dbWrite.webhook.deleteMany({ where: { id, userId } });
+  if (!count) throw throwNotFoundError(`No webhook with id ${id}`);
+}
+
+export async function rotateWebhookSecret({ id, userId }: GetByIdInput & { userId: number }) {
+  const webhook = await dbWrite.webhook.findFirst({ where: { id, userId }, select: { id: true } });
+  if (!webhook) throw throwNotFoundError(`No webhook with id ${id}`);
+
+  return dbWrite.webhook.update({
+    where: { id },
+    data: { secret: generateKey(64) },
+    select: webhookSelect,
+  });
+}
+
+export async function getWebhookDeliveries({
+  id,
+  userId,
+  limit,
+  page,
+}: GetWebhookDeliveriesInput & { userId: number }) {
+  const webhook = await dbRead.webhook.findFirst({ where: { id, userId }, select: { id: true } });
+  if (!webhook) throw throwNotFoundError(`No webhook with id ${id}`);
+
+  const { take, skip } = getPagination(limit, page);
+  const where: Prisma.WebhookDeliveryWhereInput = { webhookId: id };
+  const [items, count] = await Promise.all([
+    dbRead.webhookDelivery.findMany({
+      where,
+      take,
+      skip,
+      select: {
+        id: true,
+        event: true,
+        status: true,
+        attempts: true,
+        responseCode: true,
+        error: true,
+        createdAt: true,
+        lastAttemptAt: true,
+        nextAttemptAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    }),
+    dbRead.webhookDelivery.count({ where }),
+  ]);
+
+  return getPagingData({ items, count }, take, page);
+}
+
+export async function sendTestWebhook({ id, userId }: GetByIdInput & { userId: number }) {
+  const webhook = await dbWrite.webhook.findFirst({
+    where: { id, userId },
+    select: { id: true, url: true, secret: true, approvedAt: true },
+  });
+  if (!webhook) throw throwNotFoundError(`No webhook with id ${id}`);
+  if (!webhook.approvedAt) throw throwBadRequestError('This webhook is awaiting approval');
+
+  const delivery = await dbWrite.webhookDelivery.create({
+    data: {
+      webhookId: webhook.id,
+      event: 'test',
+      payload: { message: 'This is a test event', sentAt: new Date().toISOString() },
+    },
+    select: { id: true, event: true, payload: true, attempts: true },
+  });
+
+  return attemptWebhookDelivery({ webhook, delivery, retry: false });
+}
+// #endregion
+
+// #region [moderation]
+export async function getWebhooksPendingApproval({ limit, page }: PaginationInput) {
+  const { take, skip } = getPagination(limit, page);
+  const where: Prisma.WebhookWhereInput = { approvedAt: null };
+  const [items, count] = await Promise.all([
+    dbRead.webhook.findMany({
+      where,
+      take,
+      skip,
+      select: {
+        ...webhookSelect,
+        secret: false,
+        user: { select: { id: true, username: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    dbRead.webhook.count({ where }),
+  ]);
+
+  return getPagingData({ items, count }, take, page);
+}
+
+export async function approveWebhook({ id }: GetByIdInput) {
+  const webhook = await dbWrite.webhook.findUnique({ where: { id }, select: { approvedAt: true } });
+  if (!webhook) throw throwNotFoundError(`No webhook with id ${id}`);
+  if (webhook.approvedAt) throw throwBadRequestError('This webhook has already been approved');
+
+  return dbWrite.webhook.update({
+    where: { id },
+    data: { approvedAt: new Date(), active: true, failureCount: 0, disabledAt: null },
+    select: webhookSelect,
+  });
+}
+// #endregion
+
+// #region [delivery]
+export function signWebhookPayload({
+  secret,
+  timestamp,
+  body,
+}: {
+  secret: string;
+  timestamp: number;
+  body: string;
+}) {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function getWebhookRequest(webhookUrl: string) {
+  let requestUrl = webhookUrl;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+  const url = new URL(webhookUrl);
+  const { username, password } = url;
+  if (username || password) {
+    requestUrl = requestUrl.replace(`${username}:${password}@`, '');
+    headers['Authorization'] = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+  }
+
+  return { requestUrl, headers };
+}
+
+export async function getWebhookSubscribers(userIds: number[]) {
+  const [users, follows] = await Promise.all([
+    dbWrite.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, browsingLevel: true },
+    }),
+    dbWrite.collectionContributor.findMany({
+      where: { userId: { in: userIds } },
+      select: { userId: true, collectionId: true },
+    }),
+  ]);
+
+  return new Map<number, WebhookSubscriber>(
+    users.map(({ id, browsingLevel }) => [
+      id,
+      {
+        userId: id,
+        browsingLevel,
+        followedCollectionIds: follows
+          .filter((follow) => follow.userId === id)
+          .map((follow) => follow.collectionId),
+      },
+    ])
+  );
+}
+
+export async function queueWebhookDeliveries(
+  deliveries: { webhookId: number; event: string; payload: MixedObject }[]
+) {
+  if (!deliveries.length) return [];
+
+  // Queued deliveries are attempted right away, the next attempt is only picked up by the retries
+  // if that first attempt never gets to record its result
+  const nextAttemptAt = new Date(Date.now() + retryBaseDelay);
+  return dbWrite.webhookDelivery.createManyAndReturn({
+    data: deliveries.map((delivery) => ({
+      ...delivery,
+      payload: delivery.payload as Prisma.JsonObject,
+      nextAttemptAt,
+    })),
+    select: { id: true, webhookId: true, event: true, payload: true, attempts: true },
+  });
+}
+
+export function getDueWebhookDeliveries() {
+  return dbWrite.webhookDelivery.findMany({
+    where: {
+      status: WebhookDeliveryStatus.Pending,
+      nextAttemptAt: { lte: new Date() },
+      webhook: { active: true },
+    },
+    select: {
+      id: true,
+      event: true,
+      payload: true,
+      attempts: true,
+      webhook: { select: { id: true, url: true, secret: true } },
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: retryBatchSize,
+  });
+}
+
+export async function attemptWebhookDelivery({
+  webhook,
+  delivery,
+  retry = true,
+}: {
+  webhook: DeliverableWebhook;
+  delivery: WebhookDeliveryData;
+  retry?: boolean;
+}) {
+  const { requestUrl, headers } = getWebhookRequest(webhook.url);
+  const body = JSON.stringify({ event: delivery.event, data: delivery.payload });
+  const timestamp = Date.now();
+  headers['X-Civitai-Event'] = delivery.event;
+  headers['X-Civitai-Delivery'] = delivery.id.toString();
+  headers['X-Civitai-Timestamp'] = timestamp.toString();
+  if (webhook.secret)
+    headers['X-Civitai-Signature'] = `sha256=${signWebhookPayload({
+      secret: webhook.secret,
+      timestamp,
+      body,
+    })}`;
+
+  // Only generic errors are stored, since they are shown to the webhook owner
+  let responseCode: number | undefined;
+  let error: string | undefined;
+  if (!(await isAllowedWebhookUrl(webhook.url))) {
+    error = 'Destination not allowed';
+  } else {
+    try {
+      const response = await fetch(requestUrl, {
+        method: 'POST',
+        body,
+        headers,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(deliveryTimeout),
+      });
+      responseCode = response.status;
+      if (!response.ok) error = `Received status code ${response.status}`;
+    } catch (e) {
+      error = (e as Error).name === 'TimeoutError' ? 'Request timed out' : 'Request failed';
+    }
+  }
+
+  const attempts = delivery.attempts + 1;
+  let status: WebhookDeliveryStatus = WebhookDeliveryStatus.Succeeded;
+  if (error) {
+    const canRetry = retry && attempts < maxDeliveryAttempts;
+    status = canRetry ? WebhookDeliveryStatus.Pending : WebhookDeliveryStatus.Failed;
+  }
+  const nextAttemptAt =
+    status === WebhookDeliveryStatus.Pending
+      ? new Date(Date.now() + retryBaseDelay * 2 ** (attempts - 1))
+      : null;
+
+  await dbWrite.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: { status, attempts, responseCode, error, lastAttemptAt: new Date(), nextAttemptAt },
+  });
+  await trackWebhookHealth(webhook.id, !error);
+
+  return { id: delivery.id, status, responseCode, error };
+}
+
+async function trackWebhookHealth(webhookId: number, succeeded: boolean) {
+  if (succeeded) {
+    await dbWrite.webhook.updateMany({
+      where: { id: webhookId, failureCount: { gt: 0 } },
+      data: { failureCount: 0 },
+    });
+    return;
+  }
+
+  await dbWrite.webhook.update({
+    where: { id: webhookId },
+    data: { failureCount: { increment: 1 } },
+  });
+  // Stop sending to webhooks that keep failing, the owner can reactivate them once fixed
+  await dbWrite.webhook.updateMany({
+    where: { id: webhookId, active: true, failureCount: { gte: autoDisableFailureCount } },
+    data: { active: false, disabledAt: new Date() },
+  });
+}
+
+export async function deleteOldWebhookDeliveries() {
+  const cutoff = decreaseDate(new Date(), deliveryRetentionDays, 'days');
+  // Deliveries still pending by now belong to webhooks that were deactivated before they could be retried
+  const { count } = await dbWrite.webhookDelivery.deleteMany({
+    where: { createdAt: { lt: cutoff } },
+  });
+  return count;
+}
+// #endregion
@@ -1,3 +1,4 @@
+import { KeyScope } from '@prisma/client';
 import { initTRPC, TRPCError } from '@trpc/server';
 import { SessionUser } from 'next-auth';
 import superjson from 'superjson';
@@ -6,15 +7,24 @@ import type { Context } from './createContext';
 import { Flags } from '~/shared/utils';
 import { OnboardingSteps } from '~/server/common/enums';
 import { REDIS_KEYS, redis } from '~/server/redis/client';
+import { isApiKeyRequestAllowed } from '~/server/utils/api-key-helpers';
 import semver from 'semver';
 import { NextApiRequest } from 'next';
 
-const t = initTRPC.context<Context>().create({
-  transformer: superjson,
-  errorFormatter({ shape }) {
-    return shape;
-  },
-});
+type Meta = {
+  // Scope required when the request is authenticated with an API key
+  apiKeyScope?: KeyScope;
+};
+
+const t = initTRPC
+  .context<Context>()
+  .meta<Meta>()
+  .create({
+    transformer: superjson,
+    errorFormatter({ shape }) {
+      return shape;
+    },
+  });
 
 export const { router, middleware } = t;
 /**
@@ -64,7 +74,26 @@ export const enforceClientVersion = t.middleware(async ({ next, ctx }) => {
   return result;
 });
 
-export const publicProcedure = t.procedure.use(isAcceptableOrigin).use(enforceClientVersion);
+const enforceApiKeyScope = t.middleware(({ ctx, meta, type, next }) => {
+  if (
+    !isApiKeyRequestAllowed({
+      apiKey: ctx.auth.apiKey,
+      scope: meta?.apiKeyScope,
+      isWrite: type === 'mutation',
+    })
+  )
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'This API key does not have the scope required for this action',
+    });
+
+  return next();
+});
+
+export const publicProcedure = t.procedure
+  .use(isAcceptableOrigin)
+  .use(enforceClientVersion)
+  .use(enforceApiKeyScope);
 
 /**
  * Reusable middleware to ensure
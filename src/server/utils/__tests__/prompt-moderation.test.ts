@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { assertSafePattern, getPatternRegex } from '~/server/utils/prompt-moderation';
+
+describe('getPatternRegex', () => {
+  it('matches plain patterns as whole words', () => {
+    const regex = getPatternRegex({ pattern: ' young  girl ', isRegex: false });
+    expect('a Young   Girl smiling'.replace(regex, 'X')).toBe('a X smiling');
+    expect('younger girls'.search(regex)).toBe(-1);
+  });
+
+  it('escapes plain patterns', () => {
+    const regex = getPatternRegex({ pattern: 'a.b', isRegex: false });
+    expect('axb'.search(regex)).toBe(-1);
+    expect('a.b'.search(regex)).toBe(0);
+  });
+
+  it('uses regular expressions as they are', () => {
+    const regex = getPatternRegex({ pattern: '\\b(loli|shota)s?\\b', isRegex: true });
+    expect('some Lolis'.search(regex)).toBe(5);
+  });
+
+  it('rejects invalid and unsafe regular expressions', () => {
+    expect(() => getPatternRegex({ pattern: '(a', isRegex: true })).toThrow();
+    expect(() => getPatternRegex({ pattern: '(a+)+$', isRegex: true })).toThrow();
+    // Plain patterns are escaped, so they are always safe
+    expect(() => getPatternRegex({ pattern: '(a+)+$', isRegex: false })).not.toThrow();
+  });
+});
+
+describe('assertSafePattern', () => {
+  it.each([
+    '\\bnude\\b',
+    '\\b(young|little)\\s+girls?\\b',
+    '(?:ab)+c*',
+    '(a)+',
+    '(a+)?',
+    '[a+]+',
+    '(ab){2}',
+    '(a+){1}',
+    '(a+){0,1}',
+    'a+|b+',
+    '\\(a+\\)+',
+  ])('accepts %s', (pattern) => {
+    expect(() => assertSafePattern(pattern)).not.toThrow();
+  });
+
+  it.each([
+    '(a+)+$',
+    '(a*)*b',
+    '(?:a+b?)*',
+    '((a+)b)+',
+    '(a|ab)*c',
+    '(\\s+x){2,}',
+    '(a+){2,5}',
+    '(a+)+?',
+  ])('rejects nested repetition in %s', (pattern) => {
+    expect(() => assertSafePattern(pattern)).toThrow('Repeated groups');
+  });
+
+  it('rejects backreferences', () => {
+    expect(() => assertSafePattern('(a)\\1')).toThrow('Backreferences');
+    expect(() => assertSafePattern('(?<x>a)\\k<x>')).toThrow('Backreferences');
+  });
+
+  it('rejects long patterns', () => {
+    expect(() => assertSafePattern('a'.repeat(501))).toThrow('longer than 500');
+  });
+});
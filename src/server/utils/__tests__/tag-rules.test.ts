@@ -0,0 +1,139 @@
+import { TagSource } from '@prisma/client';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  ComputedTagRuleDefinition,
+  getComputedTags,
+  parseTagExpression,
+} from '~/server/utils/tag-rules';
+
+// The rules seeded from the combos that used to be hardcoded in this module
+const seededRules: ComputedTagRuleDefinition[] = readFileSync(
+  join(process.cwd(), 'prisma/migrations/20240710093012_computed_tag_rules/migration.sql'),
+  'utf8'
+)
+  .split('\n')
+  .map((line) =>
+    line.match(/^\s*\('([^']+)', '([^']+)', '\{([^}]*)\}', (true|false), (\d+), now\(\)\)/)
+  )
+  .filter((match): match is RegExpMatchArray => !!match)
+  .map(([, tag, expression, sources, temp, priority]) => ({
+    tag,
+    expression,
+    sources: sources ? (sources.split(',') as TagSource[]) : [],
+    minConfidence: 0,
+    temp: temp === 'true',
+    priority: Number(priority),
+  }))
+  .sort((a, b) => a.priority - b.priority);
+
+describe('parseTagExpression', () => {
+  it('joins words into tag names', () => {
+    expect(parseTagExpression('exposed buttocks or anus AND from behind')).toEqual({
+      type: 'and',
+      items: [
+        { type: 'tag', tag: 'exposed buttocks or anus' },
+        { type: 'tag', tag: 'from behind' },
+      ],
+    });
+  });
+
+  it('gives NOT precedence over AND over OR', () => {
+    expect(parseTagExpression('a OR NOT b AND c')).toEqual({
+      type: 'or',
+      items: [
+        { type: 'tag', tag: 'a' },
+        {
+          type: 'and',
+          items: [
+            { type: 'not', item: { type: 'tag', tag: 'b' } },
+            { type: 'tag', tag: 'c' },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('accepts the symbols used by the old combos', () => {
+    expect(parseTagExpression('nipples + (female|!male)')).toEqual(
+      parseTagExpression('nipples AND (female OR NOT male)')
+    );
+  });
+
+  it.each(['', 'a AND', '(a OR b', 'a )', 'AND a', 'NOT'])('rejects "%s"', (expression) => {
+    expect(() => parseTagExpression(expression)).toThrow(expression);
+  });
+
+  it('parses every seeded rule', () => {
+    expect(seededRules).toHaveLength(19);
+    for (const { expression } of seededRules)
+      expect(() => parseTagExpression(expression)).not.toThrow();
+  });
+});
+
+describe('getComputedTags with the seeded rules', () => {
+  it.each<[string[], TagSource, string[]]>([
+    [['nude', '1girl'], 'WD14', ['nudity', 'female', 'graphic female nudity']],
+    [['bottomless', 'ass', 'male focus'], 'WD14', ['nudity', 'male', 'graphic male nudity']],
+    [['bottomless'], 'WD14', []],
+    [['nudity', '1boy'], 'WD14', ['male', 'graphic male nudity']],
+    [['nipples', '1girl'], 'WD14', ['female', 'partial nudity']],
+    [['nude', 'nipples', '1girl'], 'WD14', ['nudity', 'female', 'graphic female nudity']],
+    [['no bra', 'wet clothes', '2girls'], 'WD14', ['female', 'partial nudity']],
+    [['bikini', '1girl'], 'WD14', ['female', 'female swimwear or underwear']],
+    [['bikini'], 'WD14', []],
+    [['pectorals', 'nipples'], 'WD14', ['barechested male']],
+    [['miniskirt'], 'WD14', ['revealing clothes']],
+    [['cleavage', 'huge breasts'], 'WD14', ['revealing clothes']],
+    [['miniskirt', 'bikini'], 'WD14', []],
+    [['kiss', 'nude'], 'WD14', ['nudity', 'sexual activity']],
+    [['undressing'], 'WD14', ['sexual situations']],
+    [['undressing', 'sex'], 'WD14', ['sexual activity']],
+    [['erection under clothes'], 'WD14', ['sexual situations']],
+    [['male child'], 'Rekognition', ['child']],
+    [['nude'], 'Rekognition', []],
+    [['swimwear', 'female'], 'Rekognition', ['female swimwear or underwear']],
+    [['swimwear', 'female', 'dress'], 'Rekognition', []],
+    [['exposed buttocks or anus', 'from behind'], 'Rekognition', ['partial nudity']],
+    [['exposed buttocks or anus', 'from behind', 'nudity'], 'Rekognition', []],
+  ])('computes %j from %s', (tags, source, expected) => {
+    expect(getComputedTags(tags, source, seededRules)).toEqual(expected);
+  });
+
+  it('tags erections that are not under clothes as sexual activity', () => {
+    // The old `erection + !(erection under clothes)` combo could never match, the seeded rule fixes that
+    expect(getComputedTags(['erection'], 'WD14', seededRules)).toEqual(['sexual activity']);
+    expect(getComputedTags(['erection', 'erection under clothes'], 'WD14', seededRules)).toEqual([
+      'sexual situations',
+    ]);
+  });
+});
+
+describe('getComputedTags', () => {
+  const rule = (tag: string, expression: string, minConfidence = 0): ComputedTagRuleDefinition => ({
+    tag,
+    expression,
+    sources: [],
+    minConfidence,
+    temp: false,
+  });
+
+  it('ignores tags below the minimum confidence', () => {
+    const rules = [rule('b', 'a', 50)];
+    expect(getComputedTags([{ tag: 'a', confidence: 40 }], 'WD14', rules)).toEqual([]);
+    expect(getComputedTags([{ tag: 'a', confidence: 60 }], 'WD14', rules)).toEqual(['b']);
+    expect(getComputedTags([{ tag: 'a' }], 'WD14', rules)).toEqual(['b']);
+  });
+
+  it('lets computed tags meet the minimum confidence of later rules', () => {
+    const rules = [rule('b', 'a'), rule('c', 'b', 90)];
+    expect(getComputedTags([{ tag: 'a', confidence: 10 }], 'WD14', rules)).toEqual(['b', 'c']);
+  });
+
+  it('only applies rules for the source', () => {
+    const rules = [{ ...rule('b', 'a'), sources: [TagSource.Rekognition] }];
+    expect(getComputedTags(['a'], 'WD14', rules)).toEqual([]);
+    expect(getComputedTags(['a'], 'Rekognition', rules)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,40 @@
+import { KeyScope } from '@prisma/client';
+import { UploadType } from '~/server/common/enums';
+
+export type SessionApiKey = { id: number; scope: KeyScope[] };
+
+// Keys created before resource scopes existed keep access to everything their broad scope covered
+const legacyScopeGrants: Partial<Record<KeyScope, KeyScope[]>> = {
+  [KeyScope.Read]: [KeyScope.VaultRead],
+  [KeyScope.Write]: [KeyScope.ModelsWrite, KeyScope.ImagesWrite, KeyScope.BuzzSpend],
+  [KeyScope.Generate]: [KeyScope.GenerationSubmit],
+};
+
+export function hasApiKeyScope(scopes: KeyScope[], scope: KeyScope) {
+  return scopes.some((x) => x === scope || legacyScopeGrants[x]?.includes(scope));
+}
+
+export const uploadApiKeyScopes: Partial<Record<UploadType, KeyScope>> = {
+  [UploadType.Model]: KeyScope.ModelsWrite,
+  [UploadType.TrainingImages]: KeyScope.ModelsWrite,
+  [UploadType.TrainingImagesTemp]: KeyScope.ModelsWrite,
+  [UploadType.Image]: KeyScope.ImagesWrite,
+};
+
+/**
+ * Requests authenticated with an API key need the scope the endpoint requires.
+ * Writes to endpoints that don't require a resource scope still need the broad `Write` scope.
+ */
+export function isApiKeyRequestAllowed({
+  apiKey,
+  scope,
+  isWrite,
+}: {
+  apiKey?: SessionApiKey;
+  scope?: KeyScope;
+  isWrite: boolean;
+}) {
+  if (!apiKey) return true;
+  if (scope) return hasApiKeyScope(apiKey.scope, scope);
+  return !isWrite || apiKey.scope.includes(KeyScope.Write);
+}
@@ -0,0 +1,139 @@
+import { TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { SessionUser } from 'next-auth';
+import superjson from 'superjson';
+import { z, ZodFirstPartyTypeKind, ZodTypeAny } from 'zod';
+import { isProd } from '~/env/other';
+import { ApiV2Error, ApiV2Route } from '~/server/schema/api-v2.schema';
+import { MixedAuthEndpoint } from '~/server/utils/endpoint-helpers';
+import { handleLogError, throwBadRequestError } from '~/server/utils/errorHandling';
+import { unwrapZodType } from '~/server/utils/openapi';
+import { QS } from '~/utils/qs';
+
+// #region [cursors]
+/**
+ * Cursors are opaque to consumers so that each resource can paginate however suits it best.
+ * They are decoded by `apiV2CursorSchema` of the resource's query schema.
+ */
+export function encodeCursor(value: unknown) {
+  if (value === undefined || value === null) return undefined;
+  return Buffer.from(superjson.stringify(value)).toString('base64url');
+}
+// #endregion
+
+// #region [fields]
+function getFieldPaths(schema: ZodTypeAny, prefix = ''): string[] {
+  let type = unwrapZodType(schema);
+  if (type._def.typeName === ZodFirstPartyTypeKind.ZodArray) type = unwrapZodType(type._def.type);
+  if (type._def.typeName !== ZodFirstPartyTypeKind.ZodObject) return [];
+
+  const shape = (type as z.AnyZodObject).shape as Record<string, ZodTypeAny>;
+  return Object.entries(shape).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return [path, ...getFieldPaths(value, path)];
+  });
+}
+
+type FieldTree = { [key: string]: FieldTree | true };
+function getFieldTree(schema: z.AnyZodObject, fields: string[]) {
+  const available = new Set(getFieldPaths(schema));
+  const invalid = fields.filter((field) => !available.has(field));
+  if (invalid.length) throw throwBadRequestError(`Unknown fields: ${invalid.join(', ')}`);
+
+  const tree: FieldTree = {};
+  for (const field of fields) {
+    const parts = field.split('.');
+    const leaf = parts.pop() as string;
+    let node: FieldTree | undefined = tree;
+    for (const part of parts) {
+      // The parent field was already requested in full
+      if (node[part] === true) {
+        node = undefined;
+        break;
+      }
+      node = (node[part] ??= {}) as FieldTree;
+    }
+    if (node) node[leaf] = true;
+  }
+  return tree;
+}
+
+function projectFields(value: unknown, tree: FieldTree): unknown {
+  if (Array.isArray(value)) return value.map((x) => projectFields(x, tree));
+  if (!value || typeof value !== 'object') return value;
+
+  const record = value as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.entries(tree).map(([key, subtree]) => [
+      key,
+      subtree === true ? record[key] : projectFields(record[key], subtree),
+    ])
+  );
+}
+// #endregion
+
+// #region [responses]
+export function sendApiV2Error(res: NextApiResponse, status: number, error: ApiV2Error) {
+  return res.status(status).json({ error });
+}
+
+export function getApiV2BaseUrl(req: NextApiRequest) {
+  return new URL(isProd ? `https://${req.headers.host}` : 'http://localhost:3000');
+}
+
+function getNextPage(req: NextApiRequest, nextCursor?: string) {
+  if (!nextCursor) return undefined;
+  const { origin, pathname } = new URL(req.url ?? '/', getApiV2BaseUrl(req));
+  return `${origin}${pathname}?${QS.stringify({ ...req.query, cursor: nextCursor })}`;
+}
+// #endregion
+
+/**
+ * Wraps a v2 list endpoint so that every resource shares the same
+ * query validation, cursor pagination, field projection and error envelope.
+ */
+export function ApiV2Endpoint<TRoute extends ApiV2Route>(
+  route: TRoute,
+  handler: (args: {
+    input: z.infer<TRoute['query']>;
+    user: SessionUser | undefined;
+    req: NextApiRequest;
+  }) => Promise<{ items: z.input<TRoute['item']>[]; nextCursor?: unknown }>
+) {
+  return MixedAuthEndpoint(async (req, res, user) => {
+    const parsed = route.query.safeParse(req.query);
+    if (!parsed.success)
+      return sendApiV2Error(res, 400, {
+        code: 'BAD_REQUEST',
+        message: 'Invalid query parameters',
+        issues: parsed.error.issues.map((issue) => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+      });
+
+    try {
+      const input = parsed.data as z.infer<TRoute['query']>;
+      const fieldTree = input.fields?.length ? getFieldTree(route.item, input.fields) : undefined;
+      const { items, nextCursor: rawCursor } = await handler({ input, user, req });
+      const nextCursor = encodeCursor(rawCursor);
+
+      return res.status(200).json({
+        items: fieldTree ? items.map((item) => projectFields(item, fieldTree)) : items,
+        metadata: { nextCursor, nextPage: getNextPage(req, nextCursor) },
+      });
+    } catch (e) {
+      const status = e instanceof TRPCError ? getHTTPStatusCodeFromError(e) : 500;
+      if (e instanceof TRPCError && status < 500)
+        return sendApiV2Error(res, status, { code: e.code, message: e.message });
+
+      // Server errors can include query details, so those only go to the logs
+      handleLogError(e as Error);
+      return sendApiV2Error(res, status, {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred',
+      });
+    }
+  });
+}
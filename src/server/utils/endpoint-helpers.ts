@@ -1,4 +1,4 @@
-import { Partner } from '@prisma/client';
+import { KeyScope, Partner } from '@prisma/client';
 import { TRPCError } from '@trpc/server';
 import { getHTTPStatusCodeFromError } from '@trpc/server/http';
 import { NextApiRequest, NextApiResponse } from 'next';
@@ -6,8 +6,16 @@ import { Session, SessionUser } from 'next-auth';
 import { AxiomAPIRequest, withAxiom } from 'next-axiom';
 import { env } from '~/env/server.mjs';
 import { dbRead } from '~/server/db/client';
+import { isApiKeyRequestAllowed } from '~/server/utils/api-key-helpers';
 import { getServerAuthSession } from '~/server/utils/get-server-auth-session';
 import { generateSecretHash } from '~/server/utils/key-generator';
+import {
+  consumeRateLimit,
+  getEndpointRateLimitPolicy,
+  getRateLimitIdentity,
+  rateLimitPolicies,
+  setRateLimitHeaders,
+} from '~/server/utils/rate-limiting';
 
 export function TokenSecuredEndpoint(
   token: string,
@@ -59,6 +67,41 @@ const addPublicCacheHeaders = (req: NextApiRequest, res: NextApiResponse) => {
   );
 };
 
+/**
+ * Applies the rate limit policy matching the request path.
+ * Returns true if the request was rejected.
+ */
+const applyRateLimit = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  session?: Session | null
+) => {
+  if (req.query.token === env.WEBHOOK_TOKEN) return false;
+  const name = getEndpointRateLimitPolicy(req.url);
+  if (!name) return false;
+
+  const identity = getRateLimitIdentity({
+    req,
+    userId: session?.user?.id,
+    apiKeyId: session?.apiKey?.id,
+  });
+  const result = await consumeRateLimit({ name, policy: rateLimitPolicies[name], identity });
+  if (!result) return false;
+
+  setRateLimitHeaders(res, result);
+  if (result.allowed) return false;
+
+  // Make sure the rejection doesn't get cached at the edge for everyone else
+  res.setHeader('Cache-Control', 'private, no-store');
+  // v2 endpoints share a single error envelope
+  if (name === 'api:v2')
+    res.status(429).json({ error: { code: 'TOO_MANY_REQUESTS', message: 'Too many requests' } });
+  else res.status(429).json({ error: 'Too many requests', retryAfter: result.reset });
+  return true;
+};
+
+const isWriteMethod = (method?: string) => !['GET', 'HEAD', 'OPTIONS'].includes(method ?? 'GET');
+
 export function PublicEndpoint(
   handler: (req: AxiomAPIRequest, res: NextApiResponse) => Promise<void | NextApiResponse>,
   allowedMethods: string[] = ['GET']
@@ -67,6 +110,7 @@ export function PublicEndpoint(
     const shouldStop = addCorsHeaders(req, res, allowedMethods);
     addPublicCacheHeaders(req, res);
     if (shouldStop) return;
+    if (await applyRateLimit(req, res)) return;
     await handler(req, res);
   });
 }
@@ -77,7 +121,8 @@ export function AuthedEndpoint(
     res: NextApiResponse,
     user: SessionUser
   ) => Promise<void | NextApiResponse>,
-  allowedMethods: string[] = ['GET']
+  allowedMethods: string[] = ['GET'],
+  apiKeyScope?: KeyScope
 ) {
   return withAxiom(async (req: AxiomAPIRequest, res: NextApiResponse) => {
     const shouldStop = addCorsHeaders(req, res, allowedMethods);
@@ -88,6 +133,15 @@ export function AuthedEndpoint(
 
     const session = await getServerAuthSession({ req, res });
     if (!session?.user) return res.status(401).json({ error: 'Unauthorized' });
+    if (
+      !isApiKeyRequestAllowed({
+        apiKey: session.apiKey,
+        scope: apiKeyScope,
+        isWrite: isWriteMethod(req.method),
+      })
+    )
+      return res.status(403).json({ error: 'Forbidden', message: 'Missing API key scope' });
+    if (await applyRateLimit(req, res, session)) return;
     await handler(req, res, session.user);
   });
 }
@@ -98,7 +152,8 @@ export function MixedAuthEndpoint(
     res: NextApiResponse,
     user: Session['user'] | undefined
   ) => Promise<void | NextApiResponse>,
-  allowedMethods: string[] = ['GET']
+  allowedMethods: string[] = ['GET'],
+  apiKeyScope?: KeyScope
 ) {
   return withAxiom(async (req: AxiomAPIRequest, res: NextApiResponse) => {
     if (!req.method || !allowedMethods.includes(req.method))
@@ -108,6 +163,15 @@ export function MixedAuthEndpoint(
     const session = await getServerAuthSession({ req, res });
     if (!session) addPublicCacheHeaders(req, res);
     if (shouldStop) return;
+    if (
+      !isApiKeyRequestAllowed({
+        apiKey: session?.apiKey,
+        scope: apiKeyScope,
+        isWrite: isWriteMethod(req.method),
+      })
+    )
+      return res.status(403).json({ error: 'Forbidden', message: 'Missing API key scope' });
+    if (await applyRateLimit(req, res, session)) return;
 
     await handler(req, res, session?.user);
   });
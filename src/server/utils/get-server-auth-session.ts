@@ -1,6 +1,7 @@
 import type { GetServerSidePropsContext } from 'next';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '~/pages/api/auth/[...nextauth]';
+import { getTrustedClientIp } from '~/server/utils/request-helpers';
 import { getSessionFromBearerToken } from '~/server/utils/session-helpers';
 import { getBaseUrl } from '~/server/utils/url-helpers';
 import { Session } from 'next-auth';
@@ -25,7 +26,8 @@ export const getServerAuthSession = async ({
 
   if (token) {
     if (!req.context) req.context = {};
-    if (!req.context?.session) req.context.session = await getSessionFromBearerToken(token);
+    if (!req.context?.session)
+      req.context.session = await getSessionFromBearerToken(token, getTrustedClientIp(req));
     return req.context.session as Session | null;
   }
   try {
@@ -0,0 +1,158 @@
+import { z, ZodFirstPartyTypeKind, ZodTypeAny } from 'zod';
+
+type JsonSchema = Record<string, unknown>;
+
+/** Strips wrappers that don't change the documented shape of a schema */
+export function unwrapZodType(schema: ZodTypeAny): ZodTypeAny {
+  const def = schema._def;
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodNullable:
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return unwrapZodType(def.innerType);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return unwrapZodType(def.schema);
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return unwrapZodType(def.getter());
+    default:
+      return schema;
+  }
+}
+
+function isOptional(schema: ZodTypeAny) {
+  return schema.isOptional() || schema._def.typeName === ZodFirstPartyTypeKind.ZodDefault;
+}
+
+/** Converts a zod schema to an OpenAPI 3 schema object */
+export function zodToOpenApiSchema(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def;
+  const result = convert(schema);
+  if (def.description) result.description = def.description;
+  return result;
+}
+
+function convert(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def;
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return { type: 'string' };
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return {
+        type: def.checks.some((x: { kind: string }) => x.kind === 'int') ? 'integer' : 'number',
+      };
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer', format: 'int64' };
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { enum: [def.value] };
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: def.values };
+    case ZodFirstPartyTypeKind.ZodNativeEnum:
+      return { type: 'string', enum: Object.values(def.values) };
+    case ZodFirstPartyTypeKind.ZodArray:
+      return { type: 'array', items: zodToOpenApiSchema(def.type) };
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: zodToOpenApiSchema(def.valueType) };
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, ZodTypeAny>;
+      const required = Object.entries(shape)
+        .filter(([, value]) => !isOptional(value))
+        .map(([key]) => key);
+      return {
+        type: 'object',
+        properties: Object.fromEntries(
+          Object.entries(shape).map(([key, value]) => [key, zodToOpenApiSchema(value)])
+        ),
+        required: required.length ? required : undefined,
+      };
+    }
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return { oneOf: (def.options as ZodTypeAny[]).map(zodToOpenApiSchema) };
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return zodToOpenApiSchema(def.innerType);
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return { ...zodToOpenApiSchema(def.innerType), nullable: true };
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToOpenApiSchema(def.innerType), default: def.defaultValue() };
+    case ZodFirstPartyTypeKind.ZodEffects:
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return zodToOpenApiSchema(unwrapZodType(schema));
+    default:
+      return {};
+  }
+}
+
+/** Converts a zod object schema to a list of OpenAPI query parameters */
+export function zodToOpenApiParameters(schema: z.AnyZodObject) {
+  const shape = schema.shape as Record<string, ZodTypeAny>;
+  return Object.entries(shape).map(([name, value]) => {
+    const { description, ...parameterSchema } = zodToOpenApiSchema(value);
+    const isArray = unwrapZodType(value)._def.typeName === ZodFirstPartyTypeKind.ZodArray;
+    return {
+      name,
+      in: 'query',
+      required: !isOptional(value),
+      description,
+      schema: parameterSchema,
+      // Arrays are accepted as comma delimited lists
+      ...(isArray ? { style: 'form', explode: false } : {}),
+    };
+  });
+}
+
+type OpenApiRoute = {
+  path: string;
+  summary: string;
+  query: z.AnyZodObject;
+  response: ZodTypeAny;
+};
+export function createOpenApiDocument({
+  title,
+  version,
+  serverUrl,
+  routes,
+  errorSchema,
+}: {
+  title: string;
+  version: string;
+  serverUrl: string;
+  routes: OpenApiRoute[];
+  errorSchema: ZodTypeAny;
+}) {
+  const errorResponse = {
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+  };
+
+  return {
+    openapi: '3.0.3',
+    info: { title, version },
+    servers: [{ url: serverUrl }],
+    paths: Object.fromEntries(
+      routes.map(({ path, summary, query, response }) => [
+        path,
+        {
+          get: {
+            summary,
+            parameters: zodToOpenApiParameters(query),
+            responses: {
+              200: {
+                description: 'Success',
+                content: { 'application/json': { schema: zodToOpenApiSchema(response) } },
+              },
+              400: { description: 'Invalid request', ...errorResponse },
+              429: { description: 'Rate limit exceeded', ...errorResponse },
+              500: { description: 'Unexpected error', ...errorResponse },
+            },
+          },
+        },
+      ])
+    ),
+    components: {
+      schemas: { Error: zodToOpenApiSchema(errorSchema) },
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+    },
+  };
+}
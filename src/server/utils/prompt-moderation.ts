@@ -0,0 +1,74 @@
+import { escapeRegExp } from 'lodash-es';
+
+export type PromptModerationPattern = { pattern: string; isRegex: boolean };
+
+const MAX_PATTERN_LENGTH = 500;
+
+// Returns the length of the quantifier at `index` when it repeats, eg. `*`, `+` or `{2,}`
+function getRepeatLength(source: string, index: number) {
+  const char = source[index];
+  if (char === '*' || char === '+') return 1;
+  if (char !== '{') return 0;
+
+  const match = source.slice(index).match(/^\{(\d+)(,(\d*))?\}/);
+  if (!match) return 0;
+  const [quantifier, min, range, max] = match;
+  const repeats = range ? !max || Number(max) > 1 : Number(min) > 1;
+  return repeats ? quantifier.length : 0;
+}
+
+/**
+ * Rejects regular expressions that can backtrack catastrophically on long prompts.
+ * Repeated groups can't contain quantifiers or alternatives, eg. `(a+)+` or `(a|ab)*`,
+ * and backreferences aren't allowed.
+ */
+export function assertSafePattern(source: string) {
+  if (source.length > MAX_PATTERN_LENGTH)
+    throw new Error(`Patterns can't be longer than ${MAX_PATTERN_LENGTH} characters`);
+
+  // Whether each open group contains a quantifier or an alternative
+  const groups: boolean[] = [];
+  let inClass = false;
+  let closedGroup: boolean | undefined;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    const previousGroup = closedGroup;
+    closedGroup = undefined;
+
+    if (char === '\\') {
+      if (!inClass && /[1-9k]/.test(source[i + 1] ?? ''))
+        throw new Error('Backreferences are not allowed');
+      i++;
+    } else if (inClass) {
+      if (char === ']') inClass = false;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      closedGroup = groups.pop() ?? false;
+    } else if (char === '|') {
+      groups.fill(true);
+    } else {
+      const repeatLength = getRepeatLength(source, i);
+      if (!repeatLength) continue;
+      if (previousGroup)
+        throw new Error(
+          'Repeated groups can not contain quantifiers or alternatives, use a character class instead'
+        );
+
+      groups.fill(true);
+      i += repeatLength - 1;
+    }
+  }
+}
+
+/** Plain patterns match whole words or phrases, regular expressions are used as they are */
+export function getPatternRegex({ pattern, isRegex }: PromptModerationPattern) {
+  if (isRegex) assertSafePattern(pattern);
+  const source = isRegex
+    ? pattern
+    : `\\b${escapeRegExp(pattern.trim()).replace(/\s+/g, '\\s+')}\\b`;
+  return new RegExp(source, 'gi');
+}
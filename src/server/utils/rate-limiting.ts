@@ -1,4 +1,8 @@
-import { redis } from '~/server/redis/client';
+import { RateLimitIdentityType } from '@prisma/client';
+import { NextApiRequest, NextApiResponse } from 'next';
+import requestIp from 'request-ip';
+import { redis, REDIS_KEYS } from '~/server/redis/client';
+import { getRateLimitOverrides } from '~/server/services/system-cache';
 
 type GetLimiterOptions = {
   counterKey: string;
@@ -73,3 +77,187 @@ export function createLimiter({
     increment,
   };
 }
+
+// #region [policies]
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+export type RateLimitPolicy = {
+  window: number; // in seconds
+  algorithm?: RateLimitAlgorithm;
+  // Requests allowed per window for each kind of requester, omit a requester to leave it unlimited
+  limits: Partial<Record<RateLimitIdentityType, number>>;
+};
+
+export const rateLimitPolicies = {
+  'api:v1': {
+    window: 60,
+    algorithm: 'token-bucket',
+    limits: { ApiKey: 600, User: 300, Ip: 120 },
+  },
+  'api:v2': {
+    window: 60,
+    algorithm: 'token-bucket',
+    limits: { ApiKey: 600, User: 300, Ip: 120 },
+  },
+  'api:v1:by-hash': {
+    window: 60,
+    limits: { ApiKey: 120, User: 60, Ip: 30 },
+  },
+  comments: {
+    window: 60 * 60,
+    limits: { User: 60, ApiKey: 60, Ip: 60 },
+  },
+} satisfies Record<string, RateLimitPolicy>;
+export type RateLimitPolicyName = keyof typeof rateLimitPolicies;
+
+// First matching prefix wins, so keep more specific routes on top
+const endpointRateLimitPolicies: [prefix: string, policy: RateLimitPolicyName][] = [
+  ['/api/v1/model-versions/by-hash', 'api:v1:by-hash'],
+  ['/api/v1/', 'api:v1'],
+  ['/api/v2/', 'api:v2'],
+];
+export function getEndpointRateLimitPolicy(url?: string) {
+  if (!url) return undefined;
+  return endpointRateLimitPolicies.find(([prefix]) => url.startsWith(prefix))?.[1];
+}
+// #endregion
+
+// #region [identity]
+export type RateLimitIdentity = { type: RateLimitIdentityType; id: string };
+// Only use identities that were validated by the session, so made up tokens fall back to the ip limits
+export function getRateLimitIdentity({
+  req,
+  userId,
+  apiKeyId,
+}: {
+  req: NextApiRequest;
+  userId?: number;
+  apiKeyId?: number;
+}): RateLimitIdentity {
+  if (apiKeyId) return { type: RateLimitIdentityType.ApiKey, id: apiKeyId.toString() };
+  if (userId) return { type: RateLimitIdentityType.User, id: userId.toString() };
+  return { type: RateLimitIdentityType.Ip, id: requestIp.getClientIp(req) ?? 'unknown' };
+}
+
+async function getOverrideLimit(name: string, identity: RateLimitIdentity) {
+  const now = new Date();
+  const overrides = (await getRateLimitOverrides()).filter(
+    (x) =>
+      x.identityType === identity.type &&
+      x.identifier === identity.id &&
+      (x.policy === name || x.policy === '*') &&
+      (!x.expiresAt || x.expiresAt > now)
+  );
+  if (!overrides.length) return undefined;
+
+  // Overrides for a specific policy take precedence over global overrides
+  const override = overrides.find((x) => x.policy === name) ?? overrides[0];
+  return override.limit;
+}
+// #endregion
+
+// #region [limiter]
+// Both scripts return [allowed, remaining, resetMs] so that checks stay atomic across pods
+const slidingWindowScript = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', key, 0, now - window)
+local count = redis.call('ZCARD', key)
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', key, window)
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+local reset = window
+if oldest[2] then reset = tonumber(oldest[2]) + window - now end
+return { allowed, limit - count, reset }
+`;
+
+const tokenBucketScript = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local capacity = tonumber(ARGV[3])
+local rate = capacity / window
+local bucket = redis.call('HMGET', key, 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1]) or capacity
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + (now - updatedAt) * rate)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', key, 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', key, window)
+local reset = math.ceil((capacity - tokens) / rate)
+if allowed == 0 then reset = math.ceil((1 - tokens) / rate) end
+return { allowed, math.floor(tokens), reset }
+`;
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset: number; // in seconds
+  window: number; // in seconds
+};
+
+/**
+ * Consumes a request from the given policy for the identity.
+ * Returns undefined when the identity isn't limited by the policy.
+ */
+export async function consumeRateLimit({
+  name,
+  policy,
+  identity,
+}: {
+  name: string;
+  policy: RateLimitPolicy;
+  identity: RateLimitIdentity;
+}): Promise<RateLimitResult | undefined> {
+  const override = await getOverrideLimit(name, identity);
+  if (override === null) return undefined;
+  const limit = override ?? policy.limits[identity.type];
+  if (limit === undefined) return undefined;
+  // A limit of 0 blocks the identity outright
+  if (limit === 0)
+    return { allowed: false, limit, remaining: 0, reset: policy.window, window: policy.window };
+
+  const now = Date.now();
+  const algorithm = policy.algorithm ?? 'sliding-window';
+  const key = `${REDIS_KEYS.RATE_LIMITS}:${name}:${identity.type}:${identity.id}`;
+  const [allowed, remaining, reset] = (await redis.eval(
+    algorithm === 'token-bucket' ? tokenBucketScript : slidingWindowScript,
+    {
+      keys: [key],
+      arguments: [
+        now.toString(),
+        (policy.window * 1000).toString(),
+        limit.toString(),
+        `${now}:${Math.random()}`,
+      ],
+    }
+  )) as [number, number, number];
+
+  return {
+    allowed: allowed === 1,
+    limit,
+    remaining: Math.max(remaining, 0),
+    reset: Math.ceil(reset / 1000),
+    window: policy.window,
+  };
+}
+
+export function setRateLimitHeaders(res: NextApiResponse, result: RateLimitResult) {
+  res.setHeader('RateLimit-Limit', result.limit);
+  res.setHeader('RateLimit-Remaining', result.remaining);
+  res.setHeader('RateLimit-Reset', result.reset);
+  res.setHeader('RateLimit-Policy', `${result.limit};w=${result.window}`);
+  if (!result.allowed) res.setHeader('Retry-After', result.reset);
+}
+// #endregion
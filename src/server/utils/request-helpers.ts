@@ -1,4 +1,6 @@
+import { IncomingMessage } from 'http';
 import { NextApiRequest } from 'next';
+import { env } from '~/env/server.mjs';
 
 // List of common browser user agents
 const browserUserAgents = ['mozilla', 'chrome', 'safari', 'firefox', 'opera', 'edge'];
@@ -8,3 +10,16 @@ export function isRequestFromBrowser(req: NextApiRequest): boolean {
 
   return browserUserAgents.some((browser) => userAgent.includes(browser));
 }
+
+/**
+ * Gets the client address from sources the client can't spoof: the header set by our proxy when
+ * one is configured, otherwise the socket address.
+ */
+export function getTrustedClientIp(req: IncomingMessage) {
+  if (env.TRUSTED_IP_HEADER) {
+    const value = req.headers[env.TRUSTED_IP_HEADER.toLowerCase()];
+    return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+  }
+
+  return req.socket?.remoteAddress;
+}
@@ -41,6 +41,7 @@ export const getServerProxySSGHelpers = async (
     router: appRouter,
     ctx: {
       user: session?.user,
+      auth: { apiKey: session?.apiKey },
       acceptableOrigin: true,
       browsingLevel,
       showNsfw,
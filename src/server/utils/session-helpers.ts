@@ -3,8 +3,11 @@ import { Session } from 'next-auth';
 import { JWT } from 'next-auth/jwt';
 import { v4 as uuid } from 'uuid';
 import { redis } from '~/server/redis/client';
+import { getActiveApiKey, recordApiKeyUsage } from '~/server/services/api-key.service';
 import { getSessionUser } from '~/server/services/user.service';
+import { handleLogError } from '~/server/utils/errorHandling';
 import { generateSecretHash } from '~/server/utils/key-generator';
+import { isIpInRange } from '~/utils/ip-helpers';
 import { createLogger } from '~/utils/logging';
 
 const DEFAULT_EXPIRATION = 60 * 60 * 24 * 30; // 30 days
@@ -98,9 +101,16 @@ export function invalidateAllSessions(asOf: Date | undefined = new Date()) {
   log(`Scheduling session refresh for all users`);
 }
 
-export async function getSessionFromBearerToken(key: string) {
+export async function getSessionFromBearerToken(key: string, ip?: string) {
   const token = generateSecretHash(key.trim());
-  const user = (await getSessionUser({ token })) as Session['user'];
+  const apiKey = await getActiveApiKey(token);
+  if (!apiKey) return null;
+  if (apiKey.allowedIps.length && (!ip || !apiKey.allowedIps.some((x) => isIpInRange(ip, x))))
+    return null;
+
+  const user = (await getSessionUser({ userId: apiKey.userId })) as Session['user'];
   if (!user) return null;
-  return { user } as Session;
+
+  recordApiKeyUsage(apiKey.id).catch(handleLogError);
+  return { user, apiKey: { id: apiKey.id, scope: apiKey.scope } } as Session;
 }
@@ -1,306 +1,180 @@
 import { TagSource } from '@prisma/client';
 
-const tagCombos: ComputedTagCombo[] = [
-  {
-    tag: 'nudity',
-    qualifiers: [
-      'nude',
-      'completely nude',
-      'penis',
-      'pussy',
-      'cleft of venus',
-      'vagina',
-      'testicles',
-      'bottomless + ass',
-      'female pubic hair',
-      'male pubic hair',
-      'colored skin + clothes lift',
-      'anus',
-    ],
-    sources: [TagSource.WD14],
-  },
-  {
-    tag: 'male',
-    qualifiers: [
-      'male focus',
-      '1boy',
-      '2boys',
-      '3boys',
-      '4boys',
-      '5boys',
-      '6+boys',
-      'multiple boys',
-    ],
-    sources: [TagSource.WD14],
-  },
-  {
-    tag: 'graphic male nudity',
-    qualifiers: ['nudity + male'],
-    sources: [TagSource.WD14],
-  },
-  {
-    tag: 'female',
-    qualifiers: [
-      'female focus',
-      '1girl',
-      '2girls',
-      '3girls',
-      '4girls',
-      '5girls',
-      '6+girls',
-      'multiple girls',
-    ],
-    sources: [TagSource.WD14],
-  },
-  {
-    tag: 'child',
-    qualifiers: ['male child', 'female child'],
-  },
-  {
-    tag: 'graphic female nudity',
-    qualifiers: ['nudity + female'],
-    sources: [TagSource.WD14],
-  },
-  // {
-  //   tag: 'illustrated explicit nudity',
-  //   qualifiers: ['nudity + !realistic'],
-  //   sources: [TagSource.WD14],
-  // },
-  {
-    tag: 'adult toys',
-    qualifiers: ['dildo', 'sex toy'],
-    sources: [TagSource.WD14],
-  },
-  {
-    tag: 'partial nudity',
-    qualifiers: [
-      '!nudity',
-      'topless',
-      'nipples + female',
-      'covered nipples + see-through + female',
-      'underboob',
-      'sideboob',
-      'areola slip',
-      'pelvic curtain',
-      'topless male',
-      'no bra + (wet clothes|see-through) + female',
-      'naked towel + wet',
-      'see-through + no panties',
-      'pubic hair',
-      'exposed buttocks or anus + from behind',
-      // 'bulge',
-      // 'cameltoe',
-    ],
-    sources: [TagSource.WD14],
-  },
-  {
-    tag: 'sexual activity',
-    qualifiers: [
-      'sex',
-      'group sex',
-      'clothed sex',
-      'tentacle sex',
-      'restrained + tentacles + blush',
-      'gangbang',
-      'handjob',
-      'double handjob',
-      'footjob',
-      'breast sucking',
-      'anal',
-      'vaginal',
-      'paizuri',
-      'fellatio',
-      'cunnilingus',
-      'oralsex machine',
-      'cum on body',
-      'cum on breasts',
-      'cum in mouth',
-      'cum on tongue',
-      'cum on clothes',
-      'cum',
-      'female masturbation',
-      'masturbation',
-      'fingering',
-      'ejaculation',
-      'erection + !(erection under clothes)',
-      'male mastuerbation',
-      '(kiss|french kiss) + (nudity|partial nudity)',
-      'breast grab',
-      'female ejaculation',
-      'pussy juice',
-    ],
-    sources: [TagSource.WD14],
-  },
-  {
-    tag: 'underwear',
-    qualifiers: [
-      'panties',
-      'bra',
-      'lingerie',
-      'leotard',
-      'bikini',
-      'swimsuit',
-      'underwear only',
-      'fundoshi',
-      'bikini armor',
-      'panties under pantyhose',
-      'pasties',
-      'sports bra',
-      'covered navel + (leotard)',
-    ],
-    sources: [TagSource.WD14],
-    temp: true,
-  },
-  {
-    tag: 'female swimwear or underwear',
-    qualifiers: ['underwear + female'],
-    sources: [TagSource.WD14],
-  },
-  {
-    tag: 'male swimwear or underwear',
-    qualifiers: ['underwear + male'],
-    sources: [TagSource.WD14],
-  },
-  {
-    tag: 'barechested male',
-    qualifiers: ['topless male', 'bare pectorals', 'pectorals + nipples'],
-    sources: [TagSource.WD14],
-  },
-  {
-    tag: 'revealing clothes',
-    qualifiers: [
-      '!nudity',
-      '!partial nudity',
-      '!underwear',
-      'skin tight + navel',
-      'miniskirt',
-      '(cleavage|covered nipples) + (large breasts|huge breasts|large_breasts|huge_breasts)',
-      'navel + midriff',
-      'navel + thighs',
-      'midriff + thighs',
-      'short shorts',
-      'tight pants + (looking back|from behind)',
-      'no bra + (open clothes|covered nipples) + female',
-      'pantylines',
-      'cameltoe',
-      'bulge',
-    ],
-    sources: [TagSource.WD14],
-  },
-  {
-    tag: 'sexual situations',
-    qualifiers: [
-      '!sexual activity',
-      'undressing',
-      'downblouse + tongue out',
-      'ass focus',
-      'pee',
-      'peeing',
-      'boob grab|breast grab',
-      'face to breasts',
-      'ball gag',
-      'bdsm',
-      'ass grab',
-      'breast press',
-      'grabbing own breast',
-      'oral invitation',
-      'erection under clothes',
-      'lying + on back + legs up',
-      '',
-    ],
-    sources: [TagSource.WD14],
-  },
+// Computed tags are stored with this confidence
+export const COMPUTED_TAG_CONFIDENCE = 70;
 
-  // Old rekognition combos
-  {
-    tag: 'underwear',
-    qualifiers: [
-      '!dress',
-      '!nudity',
-      '!illustrated explicit nudity',
-      '!partial nudity',
-      '!sexual activity',
-      '!graphic female nudity',
-      '!graphic male nudity',
-      'swimwear',
-      'lingerie',
-      'bikini',
-    ],
-    temp: true,
-    sources: [TagSource.Rekognition],
-  },
-  {
-    tag: 'female swimwear or underwear',
-    qualifiers: ['female + underwear'],
-    sources: [TagSource.Rekognition],
-  },
-  {
-    tag: 'male swimwear or underwear',
-    qualifiers: ['male + underwear'],
-    sources: [TagSource.Rekognition],
-  },
-  {
-    tag: 'partial nudity',
-    qualifiers: ['!nudity', 'exposed buttocks or anus + from behind'],
-    sources: [TagSource.WD14, TagSource.Rekognition],
-  },
-];
+export type TagExpression =
+  | { type: 'tag'; tag: string }
+  | { type: 'and' | 'or'; items: TagExpression[] }
+  | { type: 'not'; item: TagExpression };
 
-export function getComputedTags(tags: string[], source: TagSource): string[] {
-  const computedTags = new Set(tags);
-  const tempTags = new Set<string>();
-  const permTags = new Set<string>();
+type OperatorToken = { type: 'and' | 'or' | 'not' | '(' | ')' };
+type Token = { type: 'tag'; tag: string } | OperatorToken;
 
-  const applicableCombos = tagCombos.filter((x) => !x.sources || x.sources.includes(source));
+const operatorWords: Record<string, OperatorToken['type']> = {
+  AND: 'and',
+  '+': 'and',
+  OR: 'or',
+  NOT: 'not',
+};
 
-  for (const { tag, qualifiers, temp } of applicableCombos) {
-    temp ? tempTags.add(tag) : permTags.add(tag);
-    if (computedTags.has(tag)) continue;
-    for (const qualifier of qualifiers) {
-      const result = hasQualifiers(computedTags, qualifier);
-      if (result === 'excluded') break;
-      if (result === 'pass') {
-        computedTags.add(tag);
-        break;
-      }
-    }
-  }
+/**
+ * Splits an expression into tokens. Tag names can contain spaces, so consecutive words are joined.
+ * `+`, `|` and `!` can be used in place of AND, OR and NOT, eg. `nipples + (female|!male)`
+ */
+function tokenize(expression: string) {
+  const tokens: Token[] = [];
+  const words: string[] = [];
+  let word = '';
 
-  for (const tag of tempTags) {
-    if (!permTags.has(tag)) computedTags.delete(tag);
+  const endTag = () => {
+    if (!words.length) return;
+    tokens.push({ type: 'tag', tag: words.join(' ') });
+    words.length = 0;
+  };
+  const endWord = () => {
+    if (!word) return;
+    const operator = operatorWords[word];
+    if (operator) {
+      endTag();
+      tokens.push({ type: operator });
+    } else words.push(word);
+    word = '';
+  };
+  const pushOperator = (type: OperatorToken['type']) => {
+    endWord();
+    endTag();
+    tokens.push({ type });
+  };
+
+  for (const char of expression) {
+    if (/\s/.test(char)) endWord();
+    else if (char === '(' || char === ')') pushOperator(char);
+    else if (char === '|') pushOperator('or');
+    else if (char === '!' && !word) pushOperator('not');
+    else word += char;
   }
+  endWord();
+  endTag();
 
-  return [...computedTags].filter((x) => !tags.includes(x));
+  return tokens;
 }
 
-type QualifierResult = 'excluded' | 'fail' | 'pass';
-function hasQualifiers(toCheck: Set<string>, qualifier: string): QualifierResult {
-  const parts = qualifier.split(' + ').map((x) => x.trim());
-  for (const part of parts) {
-    const notHave = part.startsWith('!');
-    const tagGroup = part.replace(/!|\(|\)/g, '');
-    const tags = tagGroup.split('|');
+export function parseTagExpression(expression: string): TagExpression {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const expect = (type: Token['type']) => {
+    const token = tokens[position++];
+    if (token?.type !== type)
+      throw new Error(`Expected ${type} at position ${position} of expression: ${expression}`);
+  };
 
-    let hasPart = false;
-    for (const tag of tags) {
-      if (notHave && toCheck.has(tag)) {
-        if (parts.length === 1) return 'excluded';
-        return 'fail';
-      }
-      if (toCheck.has(tag)) {
-        hasPart = true;
-        break;
-      }
+  function parseUnary(): TagExpression {
+    const token = tokens[position];
+    if (token?.type === 'not') {
+      position++;
+      return { type: 'not', item: parseUnary() };
     }
-    if (!hasPart) return 'fail';
+    if (token?.type === '(') {
+      position++;
+      const item = parseOr();
+      expect(')');
+      return item;
+    }
+
+    position++;
+    if (token?.type !== 'tag')
+      throw new Error(`Expected tag at position ${position} of expression: ${expression}`);
+    return { type: 'tag', tag: token.tag };
+  }
+
+  function parseAnd(): TagExpression {
+    const items = [parseUnary()];
+    while (tokens[position]?.type === 'and') {
+      position++;
+      items.push(parseUnary());
+    }
+    return items.length > 1 ? { type: 'and', items } : items[0];
   }
 
-  return 'pass';
+  function parseOr(): TagExpression {
+    const items = [parseAnd()];
+    while (tokens[position]?.type === 'or') {
+      position++;
+      items.push(parseAnd());
+    }
+    return items.length > 1 ? { type: 'or', items } : items[0];
+  }
+
+  const result = parseOr();
+  if (position < tokens.length)
+    throw new Error(`Unexpected ${tokens[position].type} in expression: ${expression}`);
+
+  return result;
 }
 
-type ComputedTagCombo = {
+export function evaluateTagExpression(expression: TagExpression, tags: Set<string>): boolean {
+  switch (expression.type) {
+    case 'tag':
+      return tags.has(expression.tag);
+    case 'and':
+      return expression.items.every((item) => evaluateTagExpression(item, tags));
+    case 'or':
+      return expression.items.some((item) => evaluateTagExpression(item, tags));
+    case 'not':
+      return !evaluateTagExpression(expression.item, tags);
+  }
+}
+
+export type ComputedTagRuleDefinition = {
   tag: string;
-  qualifiers: string[];
-  temp?: boolean;
-  sources?: TagSource[];
+  expression: string;
+  sources: TagSource[];
+  minConfidence: number;
+  temp: boolean;
 };
+export type ComputedTagInput = { tag: string; confidence?: number | null };
+
+/**
+ * Applies the rules in order, so rules can depend on tags computed by the rules before them.
+ * Returns the computed tags that weren't already part of `tags`.
+ */
+export function getComputedTags(
+  tags: (string | ComputedTagInput)[],
+  source: TagSource,
+  rules: ComputedTagRuleDefinition[]
+): string[] {
+  const inputTags = tags.map((x) => (typeof x === 'string' ? { tag: x } : x));
+  const existingTags = new Set(inputTags.map((x) => x.tag));
+  const computedTags = new Set<string>();
+  const tempTags = new Set<string>();
+  const permTags = new Set<string>();
+
+  const applicableRules = rules.filter((x) => !x.sources.length || x.sources.includes(source));
+  const expressions = new Map<string, TagExpression>();
+
+  for (const { tag, expression, minConfidence, temp } of applicableRules) {
+    temp ? tempTags.add(tag) : permTags.add(tag);
+    if (existingTags.has(tag) || computedTags.has(tag)) continue;
+
+    // Computed tags always meet the confidence threshold
+    const toCheck = new Set(computedTags);
+    for (const x of inputTags) {
+      if ((x.confidence ?? 100) >= minConfidence) toCheck.add(x.tag);
+    }
+
+    let parsed = expressions.get(expression);
+    if (!parsed) {
+      parsed = parseTagExpression(expression);
+      expressions.set(expression, parsed);
+    }
+    if (evaluateTagExpression(parsed, toCheck)) computedTags.add(tag);
+  }
+
+  for (const tag of tempTags) {
+    if (!permTags.has(tag)) computedTags.delete(tag);
+  }
+
+  return [...computedTags];
+}
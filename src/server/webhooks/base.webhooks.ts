@@ -1,9 +1,12 @@
 import { PrismaClient } from '@prisma/client';
+import { Flags } from '~/shared/utils';
 
 type WebhookProcessor = {
   displayName: string;
   moderatorOnly?: boolean;
   getData: (context: WebhookProcessorRunContext) => Promise<MixedObject[]>;
+  /** Decides whether an item returned by `getData` should be sent to a given subscriber */
+  filter?: (item: MixedObject, subscriber: WebhookSubscriber) => boolean;
 };
 
 export type WebhookProcessorRunContext = {
@@ -11,6 +14,16 @@ export type WebhookProcessorRunContext = {
   prisma: PrismaClient;
 };
 
+export type WebhookSubscriber = {
+  userId: number;
+  browsingLevel: number;
+  followedCollectionIds: number[];
+};
+
 export function createWebhookProcessor(processor: Record<string, WebhookProcessor>) {
   return processor;
 }
+
+export function matchesBrowsingLevel(nsfwLevel: number, { browsingLevel }: WebhookSubscriber) {
+  return Flags.intersects(nsfwLevel, browsingLevel);
+}
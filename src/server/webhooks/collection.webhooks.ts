@@ -0,0 +1,88 @@
+import { getEdgeUrl } from '~/client-utils/cf-images-utils';
+import { getBaseUrl } from '~/server/utils/url-helpers';
+import { createWebhookProcessor, matchesBrowsingLevel } from '~/server/webhooks/base.webhooks';
+
+const baseUrl = getBaseUrl();
+export const collectionWebhooks = createWebhookProcessor({
+  'collection-item-added': {
+    displayName: 'Items Added to Followed Collections',
+    getData: async ({ lastSent, prisma }) => {
+      const now = new Date();
+      const items = await prisma.collectionItem.findMany({
+        where: {
+          createdAt: {
+            gt: lastSent,
+            lte: now,
+          },
+          status: 'ACCEPTED',
+        },
+        select: {
+          id: true,
+          createdAt: true,
+          collection: { select: { id: true, name: true } },
+          addedBy: { select: { username: true, image: true } },
+          image: { select: { id: true, url: true, name: true, nsfwLevel: true } },
+          post: { select: { id: true, title: true, nsfwLevel: true } },
+          model: { select: { id: true, name: true, nsfwLevel: true } },
+          article: { select: { id: true, title: true, nsfwLevel: true } },
+        },
+      });
+      if (!items.length) return [];
+
+      return items.map(({ collection, addedBy, image, post, model, article, ...item }) => {
+        let entity: { type: string; id: number; name: string | null; link: string } | null = null;
+        let nsfwLevel = 0;
+        if (image) {
+          entity = {
+            type: 'image',
+            id: image.id,
+            name: image.name,
+            link: `${baseUrl}/images/${image.id}`,
+          };
+          nsfwLevel = image.nsfwLevel;
+        } else if (post) {
+          entity = {
+            type: 'post',
+            id: post.id,
+            name: post.title,
+            link: `${baseUrl}/posts/${post.id}`,
+          };
+          nsfwLevel = post.nsfwLevel;
+        } else if (model) {
+          entity = {
+            type: 'model',
+            id: model.id,
+            name: model.name,
+            link: `${baseUrl}/models/${model.id}`,
+          };
+          nsfwLevel = model.nsfwLevel;
+        } else if (article) {
+          entity = {
+            type: 'article',
+            id: article.id,
+            name: article.title,
+            link: `${baseUrl}/articles/${article.id}`,
+          };
+          nsfwLevel = article.nsfwLevel;
+        }
+
+        return {
+          ...item,
+          nsfwLevel,
+          collection: { ...collection, link: `${baseUrl}/collections/${collection.id}` },
+          item: entity,
+          image: image ? getEdgeUrl(image.url, { width: 450, name: image.name }) : null,
+          addedBy: addedBy
+            ? {
+                username: addedBy.username,
+                image: addedBy.image ? getEdgeUrl(addedBy.image, { width: 96 }) : null,
+              }
+            : null,
+        };
+      });
+    },
+    filter: (item, subscriber) =>
+      subscriber.followedCollectionIds.includes(item.collection.id) &&
+      matchesBrowsingLevel(item.nsfwLevel, subscriber),
+  },
+});
@@ -0,0 +1,111 @@
+import { Prisma } from '@prisma/client';
+import { getBaseUrl } from '~/server/utils/url-helpers';
+import { createWebhookProcessor } from '~/server/webhooks/base.webhooks';
+
+const baseUrl = getBaseUrl();
+function getGoalLink(modelVersion: { id: number; modelId: number } | null) {
+  return modelVersion
+    ? `${baseUrl}/models/${modelVersion.modelId}?modelVersionId=${modelVersion.id}`
+    : null;
+}
+
+export const donationGoalWebhooks = createWebhookProcessor({
+  'donation-goal-progress': {
+    displayName: 'Donations to My Goals',
+    getData: async ({ lastSent, prisma }) => {
+      const now = new Date();
+      const donations = await prisma.$queryRaw<
+        { donationGoalId: number; donations: number; amount: number }[]
+      >`
+        SELECT "donationGoalId", COUNT(*)::int "donations", SUM("amount")::int "amount"
+        FROM "Donation"
+        WHERE "createdAt" > ${lastSent} AND "createdAt" <= ${now}
+        GROUP BY "donationGoalId"
+      `;
+      if (!donations.length) return [];
+
+      const goalIds = donations.map((x) => x.donationGoalId);
+      const [goals, totals] = await Promise.all([
+        prisma.donationGoal.findMany({
+          where: { id: { in: goalIds } },
+          select: {
+            id: true,
+            title: true,
+            userId: true,
+            goalAmount: true,
+            expiresAt: true,
+            completedAt: true,
+            modelVersion: { select: { id: true, modelId: true } },
+          },
+        }),
+        prisma.$queryRaw<{ donationGoalId: number; total: number }[]>`
+          SELECT "donationGoalId", SUM("amount")::int "total"
+          FROM "Donation"
+          WHERE "donationGoalId" IN (${Prisma.join(goalIds)}) AND "refundedAt" IS NULL
+          GROUP BY "donationGoalId"
+        `,
+      ]);
+
+      return goals.map(({ modelVersion, ...goal }) => {
+        const recent = donations.find((x) => x.donationGoalId === goal.id);
+        return {
+          ...goal,
+          modelVersionId: modelVersion?.id ?? null,
+          total: totals.find((x) => x.donationGoalId === goal.id)?.total ?? 0,
+          recentDonations: recent?.donations ?? 0,
+          recentAmount: recent?.amount ?? 0,
+          link: getGoalLink(modelVersion),
+        };
+      });
+    },
+    filter: (goal, subscriber) => goal.userId === subscriber.userId,
+  },
+  'donation-goal-milestone': {
+    displayName: 'Milestones Reached by My Goals',
+    getData: async ({ lastSent, prisma }) => {
+      const now = new Date();
+      const goalSelect = {
+        id: true,
+        title: true,
+        userId: true,
+        goalAmount: true,
+        modelVersion: { select: { id: true, modelId: true } },
+      } satisfies Prisma.DonationGoalSelect;
+
+      const [milestones, completedGoals] = await Promise.all([
+        prisma.donationGoalMilestone.findMany({
+          where: { reachedAt: { gt: lastSent, lte: now } },
+          select: {
+            id: true,
+            amount: true,
+            title: true,
+            unlock: true,
+            reachedAt: true,
+            donationGoal: { select: goalSelect },
+          },
+        }),
+        prisma.donationGoal.findMany({
+          where: { completedAt: { gt: lastSent, lte: now } },
+          select: { ...goalSelect, completedAt: true },
+        }),
+      ]);
+
+      return [
+        ...milestones.map(({ donationGoal: { modelVersion, ...goal }, ...milestone }) => ({
+          milestone,
+          goal: { ...goal, modelVersionId: modelVersion?.id ?? null },
+          userId: goal.userId,
+          link: getGoalLink(modelVersion),
+        })),
+        // Reaching the goal itself is sent with a null milestone
+        ...completedGoals.map(({ modelVersion, ...goal }) => ({
+          milestone: null,
+          goal: { ...goal, modelVersionId: modelVersion?.id ?? null },
+          userId: goal.userId,
+          link: getGoalLink(modelVersion),
+        })),
+      ];
+    },
+    filter: (item, subscriber) => item.userId === subscriber.userId,
+  },
+});
@@ -0,0 +1,72 @@
+import { getEdgeUrl } from '~/client-utils/cf-images-utils';
+import { imageMetaOutput } from '~/server/schema/image.schema';
+import { getBaseUrl } from '~/server/utils/url-helpers';
+import { createWebhookProcessor, matchesBrowsingLevel } from '~/server/webhooks/base.webhooks';
+import { removeEmpty } from '~/utils/object-helpers';
+
+const baseUrl = getBaseUrl();
+export const imageWebhooks = createWebhookProcessor({
+  'new-image': {
+    displayName: 'New Images',
+    getData: async ({ lastSent, prisma }) => {
+      const now = new Date();
+      // Images become available once they've been scanned and their public post has been published,
+      // so whichever happens last decides when they are sent.
+      const images = await prisma.image.findMany({
+        where: {
+          ingestion: 'Scanned',
+          nsfwLevel: { not: 0 },
+          tosViolation: false,
+          needsReview: null,
+          post: { availability: 'Public' },
+          OR: [
+            {
+              scannedAt: { gt: lastSent, lte: now },
+              post: { publishedAt: { lte: now } },
+            },
+            {
+              scannedAt: { lte: lastSent },
+              post: { publishedAt: { gt: lastSent, lte: now } },
+            },
+          ],
+        },
+        select: {
+          id: true,
+          url: true,
+          name: true,
+          type: true,
+          width: true,
+          height: true,
+          hash: true,
+          nsfwLevel: true,
+          createdAt: true,
+          postId: true,
+          meta: true,
+          hideMeta: true,
+          user: { select: { username: true, image: true } },
+        },
+      });
+      if (!images.length) return [];
+
+      return images.map(({ user, meta: rawMeta, hideMeta, url, ...image }) => {
+        const parsedMeta = imageMetaOutput.safeParse(rawMeta);
+        const meta =
+          parsedMeta.success && !hideMeta
+            ? removeEmpty({ ...parsedMeta.data, external: undefined })
+            : null;
+
+        return {
+          ...image,
+          url: getEdgeUrl(url, { original: true, name: image.name }),
+          meta,
+          creator: {
+            username: user.username,
+            image: user.image ? getEdgeUrl(user.image, { width: 96 }) : null,
+          },
+          link: `${baseUrl}/images/${image.id}`,
+        };
+      });
+    },
+    filter: (image, subscriber) => matchesBrowsingLevel(image.nsfwLevel, subscriber),
+  },
+});
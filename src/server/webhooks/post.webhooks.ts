@@ -0,0 +1,56 @@
+import { getEdgeUrl } from '~/client-utils/cf-images-utils';
+import { getBaseUrl } from '~/server/utils/url-helpers';
+import { createWebhookProcessor, matchesBrowsingLevel } from '~/server/webhooks/base.webhooks';
+
+const baseUrl = getBaseUrl();
+export const postWebhooks = createWebhookProcessor({
+  'new-post': {
+    displayName: 'New Posts',
+    getData: async ({ lastSent, prisma }) => {
+      const now = new Date();
+      const posts = await prisma.post.findMany({
+        where: {
+          publishedAt: {
+            gt: lastSent,
+            lte: now,
+          },
+          availability: 'Public',
+          tosViolation: false,
+          nsfwLevel: { not: 0 },
+        },
+        select: {
+          id: true,
+          title: true,
+          detail: true,
+          nsfwLevel: true,
+          publishedAt: true,
+          modelVersionId: true,
+          user: { select: { username: true, image: true } },
+          images: {
+            select: { url: true, name: true },
+            orderBy: { index: 'asc' },
+            take: 1,
+          },
+          _count: { select: { images: true } },
+        },
+      });
+      if (!posts.length) return [];
+
+      return posts.map(({ user, images, _count, ...post }) => {
+        const [cover] = images;
+
+        return {
+          ...post,
+          cover: cover ? getEdgeUrl(cover.url, { width: 450, name: cover.name }) : null,
+          imageCount: _count.images,
+          creator: {
+            username: user.username,
+            image: user.image ? getEdgeUrl(user.image, { width: 96 }) : null,
+          },
+          link: `${baseUrl}/posts/${post.id}`,
+        };
+      });
+    },
+    filter: (post, subscriber) => matchesBrowsingLevel(post.nsfwLevel, subscriber),
+  },
+});
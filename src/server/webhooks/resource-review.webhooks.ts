@@ -0,0 +1,49 @@
+import { getEdgeUrl } from '~/client-utils/cf-images-utils';
+import { getBaseUrl } from '~/server/utils/url-helpers';
+import { createWebhookProcessor, matchesBrowsingLevel } from '~/server/webhooks/base.webhooks';
+
+const baseUrl = getBaseUrl();
+export const resourceReviewWebhooks = createWebhookProcessor({
+  'new-resource-review': {
+    displayName: 'New Reviews on My Resources',
+    getData: async ({ lastSent, prisma }) => {
+      const now = new Date();
+      const reviews = await prisma.resourceReview.findMany({
+        where: {
+          createdAt: {
+            gt: lastSent,
+            lte: now,
+          },
+          exclude: false,
+          tosViolation: false,
+        },
+        select: {
+          id: true,
+          rating: true,
+          recommended: true,
+          details: true,
+          createdAt: true,
+          model: { select: { id: true, name: true, userId: true, nsfwLevel: true } },
+          modelVersion: { select: { id: true, name: true } },
+          user: { select: { username: true, image: true } },
+        },
+      });
+      if (!reviews.length) return [];
+
+      return reviews.map(({ user, model: { nsfwLevel, ...model }, modelVersion, ...review }) => ({
+        ...review,
+        nsfwLevel,
+        model,
+        modelVersion,
+        reviewer: {
+          username: user.username,
+          image: user.image ? getEdgeUrl(user.image, { width: 96 }) : null,
+        },
+        link: `${baseUrl}/reviews/${review.id}`,
+      }));
+    },
+    filter: (review, subscriber) =>
+      review.model.userId === subscriber.userId &&
+      matchesBrowsingLevel(review.nsfwLevel, subscriber),
+  },
+});
@@ -1,8 +1,13 @@
 import { articleWebhooks } from '~/server/webhooks/article.webhooks';
 import { bountyWebhooks } from '~/server/webhooks/bounty.webhooks';
+import { collectionWebhooks } from '~/server/webhooks/collection.webhooks';
+import { donationGoalWebhooks } from '~/server/webhooks/donation-goal.webhooks';
+import { imageWebhooks } from '~/server/webhooks/image.webhooks';
 import { modelWebhooks } from '~/server/webhooks/model.webooks';
 import { moderatorWebhooks } from '~/server/webhooks/moderator.webhooks';
+import { postWebhooks } from '~/server/webhooks/post.webhooks';
 import { researchWebhooks } from '~/server/webhooks/research.webhooks';
+import { resourceReviewWebhooks } from '~/server/webhooks/resource-review.webhooks';
 import { trainingModerationWebhooks } from '~/server/webhooks/training-moderation.webhooks';
 
 export const webhookProcessors = {
@@ -12,11 +17,17 @@ export const webhookProcessors = {
   ...bountyWebhooks,
   ...researchWebhooks,
   ...trainingModerationWebhooks,
+  ...imageWebhooks,
+  ...postWebhooks,
+  ...collectionWebhooks,
+  ...resourceReviewWebhooks,
+  ...donationGoalWebhooks,
 };
 
-export function getWebhookTypes() {
+export function getWebhookTypes({ isModerator }: { isModerator?: boolean } = {}) {
   const webhookTypes: Record<string, string> = {};
-  for (const [type, { displayName }] of Object.entries(webhookProcessors)) {
+  for (const [type, { displayName, moderatorOnly }] of Object.entries(webhookProcessors)) {
+    if (moderatorOnly && !isModerator) continue;
     webhookTypes[type] = displayName;
   }
   return webhookTypes;
@@ -1,4 +1,4 @@
-import type { User as PrismaUser } from '@prisma/client';
+import type { KeyScope, User as PrismaUser } from '@prisma/client';
 import { DefaultSession, DefaultUser } from 'next-auth';
 import { UserTier } from '~/server/schema/user.schema';
 
@@ -45,6 +45,7 @@ declare module 'next-auth' {
    */
   interface Session {
     user?: ExtendedUser & DefaultSession['user'];
+    apiKey?: { id: number; scope: KeyScope[] }; // set when authenticated with an API key
     error?: string;
   }
 }
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { isIpInRange, isValidIpRange } from '~/utils/ip-helpers';
+
+describe('isValidIpRange', () => {
+  it.each(['1.2.3.4', '10.0.0.0/8', '0.0.0.0/0', '1.2.3.4/32', '::1', '2001:db8::/32', '::/128'])(
+    'accepts %s',
+    (range) => {
+      expect(isValidIpRange(range)).toBe(true);
+    }
+  );
+
+  it.each([
+    '1.2.3.4/',
+    '1.2.3.4/33',
+    '1.2.3.4/-1',
+    '1.2.3.4/1.5',
+    '1.2.3.4/ 8',
+    '1.2.3.4/0x8',
+    '1.2.3.4/8/8',
+    '::/129',
+    '256.0.0.1',
+    '1:2:3:4:5:6:7:8:9',
+    'localhost',
+  ])('rejects %s', (range) => {
+    expect(isValidIpRange(range)).toBe(false);
+  });
+});
+
+describe('isIpInRange', () => {
+  it('matches addresses within an IPv4 range', () => {
+    expect(isIpInRange('10.1.2.3', '10.0.0.0/8')).toBe(true);
+    expect(isIpInRange('11.0.0.1', '10.0.0.0/8')).toBe(false);
+    expect(isIpInRange('192.168.1.130', '192.168.1.128/25')).toBe(true);
+    expect(isIpInRange('192.168.1.127', '192.168.1.128/25')).toBe(false);
+  });
+
+  it('matches a bare address exactly', () => {
+    expect(isIpInRange('1.2.3.4', '1.2.3.4')).toBe(true);
+    expect(isIpInRange('1.2.3.5', '1.2.3.4')).toBe(false);
+  });
+
+  it('matches addresses within an IPv6 range', () => {
+    expect(isIpInRange('2001:db8:1::5', '2001:db8::/32')).toBe(true);
+    expect(isIpInRange('2001:db9::5', '2001:db8::/32')).toBe(false);
+  });
+
+  it('treats IPv4-mapped IPv6 addresses as IPv4', () => {
+    expect(isIpInRange('::ffff:10.1.2.3', '10.0.0.0/8')).toBe(true);
+  });
+
+  it('does not match across address families', () => {
+    expect(isIpInRange('::1', '0.0.0.0/0')).toBe(false);
+    expect(isIpInRange('1.2.3.4', '::/0')).toBe(false);
+  });
+
+  it('does not match against malformed ranges', () => {
+    expect(isIpInRange('1.2.3.4', '1.2.3.4/')).toBe(false);
+    expect(isIpInRange('1.2.3.4', 'nope')).toBe(false);
+  });
+});
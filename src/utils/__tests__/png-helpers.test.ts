@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { addPngTextChunks, isPng } from '~/utils/png-helpers';
+
+// 1x1 transparent png
+const png = Uint8Array.from(
+  atob(
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='
+  ),
+  (x) => x.charCodeAt(0)
+);
+
+function readChunks(data: Uint8Array) {
+  const view = new DataView(data.buffer);
+  const chunks: { type: string; data: Uint8Array; crc: number }[] = [];
+  for (let offset = 8; offset < data.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    const crc = view.getUint32(offset + 8 + length);
+    chunks.push({ type, data: data.subarray(offset + 8, offset + 8 + length), crc });
+    offset += length + 12;
+  }
+  return chunks;
+}
+
+describe('addPngTextChunks', () => {
+  it('inserts text chunks before the end of the image', () => {
+    const result = addPngTextChunks(png, { prompt: '{"3":{}}', workflow: 'cat 🐱' });
+    const chunks = readChunks(result);
+
+    expect(isPng(result)).toBe(true);
+    expect(chunks.map((x) => x.type)).toEqual(['IHDR', 'IDAT', 'tEXt', 'tEXt', 'IEND']);
+    const decoder = new TextDecoder();
+    expect(decoder.decode(chunks[2].data)).toBe('prompt\0{"3":{}}');
+    expect(decoder.decode(chunks[3].data)).toBe('workflow\0cat 🐱');
+  });
+
+  it('writes the chunk crc', () => {
+    const [, , text] = readChunks(addPngTextChunks(png, { prompt: 'a' }));
+    // The crc of "tEXtprompt\0a"
+    expect(text.crc).toBe(0xb1dff213);
+  });
+
+  it('rejects other formats', () => {
+    expect(() => addPngTextChunks(new Uint8Array([0xff, 0xd8, 0xff]), { prompt: 'a' })).toThrow();
+  });
+});
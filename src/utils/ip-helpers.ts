@@ -0,0 +1,72 @@
+/**
+ * Parses an IPv4 or IPv6 address into its bytes.
+ * IPv4-mapped IPv6 addresses (`::ffff:1.2.3.4`) are treated as IPv4.
+ */
+function parseIp(ip: string): number[] | undefined {
+  ip = ip.trim().toLowerCase();
+  if (ip.startsWith('::ffff:') && ip.includes('.')) ip = ip.slice(7);
+
+  if (ip.includes('.')) {
+    const parts = ip.split('.');
+    if (parts.length !== 4 || parts.some((x) => !/^\d{1,3}$/.test(x) || Number(x) > 255)) return;
+    return parts.map(Number);
+  }
+
+  if (!ip.includes(':')) return;
+  const [head, tail, ...rest] = ip.split('::');
+  if (rest.length) return;
+
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  // `::` has to stand in for at least one group
+  if (tail === undefined ? missing !== 0 : missing < 1) return;
+
+  const groups = [
+    ...headGroups,
+    ...Array<string>(tail === undefined ? 0 : missing).fill('0'),
+    ...tailGroups,
+  ];
+  if (groups.some((x) => !/^[0-9a-f]{1,4}$/.test(x))) return;
+
+  return groups.flatMap((x) => {
+    const value = parseInt(x, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+function parseIpRange(range: string) {
+  const [address, prefix, ...rest] = range.trim().split('/');
+  if (rest.length) return;
+
+  if (prefix !== undefined && !/^\d{1,3}$/.test(prefix)) return;
+
+  const bytes = parseIp(address);
+  if (!bytes) return;
+
+  const maxBits = bytes.length * 8;
+  const bits = prefix === undefined ? maxBits : Number(prefix);
+  if (bits > maxBits) return;
+
+  return { bytes, bits };
+}
+
+export function isValidIpRange(range: string) {
+  return !!parseIpRange(range);
+}
+
+/** Matches an address against an IP or CIDR range, eg. `10.0.0.0/8` or `2001:db8::/32` */
+export function isIpInRange(ip: string, range: string) {
+  const bytes = parseIp(ip);
+  const parsedRange = parseIpRange(range);
+  if (!bytes || !parsedRange || bytes.length !== parsedRange.bytes.length) return false;
+
+  let remaining = parsedRange.bits;
+  for (let i = 0; i < bytes.length && remaining > 0; i++) {
+    const mask = (0xff << (8 - Math.min(8, remaining))) & 0xff;
+    if ((bytes[i] & mask) !== (parsedRange.bytes[i] & mask)) return false;
+    remaining -= 8;
+  }
+
+  return true;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { automaticJsonMetadataProcessor } from '~/utils/metadata/automatic-json.metadata';
+import {
+  automaticExif,
+  automaticJsonExif,
+  automaticJsonWithoutInfotextExif,
+} from './fixtures/automatic';
+import { swarmuiExif } from './fixtures/swarmui';
+
+describe('automaticJsonMetadataProcessor', () => {
+  it('only accepts the automatic1111 api json', () => {
+    expect(automaticJsonMetadataProcessor.canParse({ ...automaticJsonExif })).toBe(true);
+    expect(automaticJsonMetadataProcessor.canParse({ ...automaticExif })).toBe(false);
+    expect(automaticJsonMetadataProcessor.canParse({ ...swarmuiExif })).toBe(false);
+  });
+
+  it('parses the json and keeps the extra networks from the infotext', () => {
+    const meta = automaticJsonMetadataProcessor.parse({ ...automaticJsonExif });
+
+    expect(meta).toMatchObject({
+      prompt: 'a portrait of a knight in ornate armor, <lora:epiNoiseoffset_v2:0.8>',
+      negativePrompt: 'lowres, bad anatomy',
+      seed: 3216549870,
+      steps: 20,
+      sampler: 'DPM++ 2M Karras',
+      cfgScale: 7,
+      width: 512,
+      height: 768,
+      clipSkip: 2,
+      'Denoising strength': 0.45,
+      Model: 'dreamshaper_8',
+      'Model hash': '879db523c3',
+      Version: 'v1.9.4',
+    });
+    expect(meta.hashes).toMatchObject({ model: '879db523c3' });
+    expect(meta.resources).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ type: 'model', name: 'dreamshaper_8', hash: '879db523c3' }),
+        expect.objectContaining({ type: 'lora', name: 'epiNoiseoffset_v2', weight: 0.8 }),
+      ])
+    );
+  });
+
+  it('parses the json without an infotext', () => {
+    const meta = automaticJsonMetadataProcessor.parse({ ...automaticJsonWithoutInfotextExif });
+
+    expect(meta).toMatchObject({
+      prompt: 'a red fox in the forest',
+      seed: 99,
+      steps: 30,
+      sampler: 'Euler a',
+      Model: 'v1-5-pruned-emaonly',
+      hashes: { model: '6ce0161689' },
+    });
+    expect(meta.clipSkip).toBeUndefined();
+    expect(meta.resources).toEqual([
+      { type: 'model', name: 'v1-5-pruned-emaonly', hash: '6ce0161689' },
+    ]);
+  });
+
+  it('round trips through encode', () => {
+    const meta = automaticJsonMetadataProcessor.parse({ ...automaticJsonExif });
+    const encoded = automaticJsonMetadataProcessor.encode(meta);
+    const reparsed = automaticJsonMetadataProcessor.parse({ parameters: encoded });
+
+    expect(reparsed).toMatchObject({
+      prompt: meta.prompt,
+      negativePrompt: meta.negativePrompt,
+      seed: meta.seed,
+      steps: meta.steps,
+      sampler: meta.sampler,
+      cfgScale: meta.cfgScale,
+      Model: meta.Model,
+    });
+  });
+});
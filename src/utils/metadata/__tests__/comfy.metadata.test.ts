@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  comfyMetadataProcessor,
+  getComfyMetadataChunks,
+  promptToWorkflow,
+  setComfyPromptSeed,
+} from '~/utils/metadata/comfy.metadata';
+import { comfyPrompt } from './fixtures/comfy';
+
+type Workflow = ReturnType<typeof promptToWorkflow>;
+const getNode = (workflow: Workflow, type: string) => workflow.nodes.find((x) => x.type === type);
+
+describe('promptToWorkflow', () => {
+  it('stores widget values in the order ComfyUI declares them', () => {
+    // Same sampler with its inputs in a different order than the node declares them
+    const { seed, steps, cfg, sampler_name, scheduler, denoise, ...links } =
+      comfyPrompt['3'].inputs;
+    const workflow = promptToWorkflow({
+      ...comfyPrompt,
+      '3': {
+        class_type: 'KSampler',
+        inputs: { ...links, denoise, scheduler, sampler_name, cfg, steps, seed },
+      },
+    });
+
+    expect(getNode(workflow, 'KSampler')?.widgets_values).toEqual([
+      156680208700286,
+      'fixed',
+      20,
+      8,
+      'euler',
+      'normal',
+      1,
+    ]);
+    expect(getNode(workflow, 'EmptyLatentImage')?.widgets_values).toEqual([512, 512, 1]);
+  });
+
+  it('types the slots and links', () => {
+    const workflow = promptToWorkflow(comfyPrompt);
+    const checkpoint = getNode(workflow, 'CheckpointLoaderSimple');
+    const sampler = getNode(workflow, 'KSampler');
+
+    expect(checkpoint?.outputs.map((x) => [x.name, x.type, x.links.length])).toEqual([
+      ['MODEL', 'MODEL', 1],
+      ['CLIP', 'CLIP', 2],
+      ['VAE', 'VAE', 1],
+    ]);
+    expect(sampler?.inputs.map((x) => [x.name, x.type])).toEqual([
+      ['model', 'MODEL'],
+      ['positive', 'CONDITIONING'],
+      ['negative', 'CONDITIONING'],
+      ['latent_image', 'LATENT'],
+    ]);
+    expect(workflow.links).toHaveLength(9);
+    expect(workflow.links.some(([, , , , , type]) => type === '*')).toBe(false);
+
+    for (const [id, originId, originSlot, targetId, targetSlot, type] of workflow.links) {
+      const origin = workflow.nodes.find((x) => x.id === originId);
+      const target = workflow.nodes.find((x) => x.id === targetId);
+      expect(origin?.outputs[originSlot].links).toContain(id);
+      expect(origin?.outputs[originSlot].type).toBe(type);
+      expect(target?.inputs[targetSlot]).toMatchObject({ link: id, type });
+    }
+  });
+
+  it('orders nodes after the nodes feeding into them', () => {
+    const workflow = promptToWorkflow(comfyPrompt);
+    const order = (type: string) => getNode(workflow, type)?.order ?? -1;
+
+    expect(order('CheckpointLoaderSimple')).toBeLessThan(order('CLIPTextEncode'));
+    expect(order('KSampler')).toBeLessThan(order('VAEDecode'));
+    expect(order('VAEDecode')).toBeLessThan(order('SaveImage'));
+  });
+
+  it('keeps unknown nodes in prompt order', () => {
+    const workflow = promptToWorkflow({
+      ...comfyPrompt,
+      '10': { class_type: 'CustomNode', inputs: { strength: 0.5, image: ['8', 0] } },
+    });
+    const custom = getNode(workflow, 'CustomNode');
+
+    expect(custom?.widgets_values).toEqual([0.5]);
+    expect(custom?.inputs).toEqual([{ name: 'image', type: 'IMAGE', link: 10 }]);
+  });
+});
+
+describe('getComfyMetadataChunks', () => {
+  it('rebuilds the workflow when only the prompt is known', () => {
+    const chunks = getComfyMetadataChunks({ comfy: JSON.stringify({ prompt: comfyPrompt }) });
+
+    expect(JSON.parse(chunks?.prompt ?? '')).toEqual(comfyPrompt);
+    expect(JSON.parse(chunks?.workflow ?? '')).toEqual(promptToWorkflow(comfyPrompt));
+  });
+
+  it('keeps the original workflow', () => {
+    const workflow = { nodes: [{ id: 1 }] };
+    const chunks = getComfyMetadataChunks({ comfy: { prompt: comfyPrompt, workflow } });
+
+    expect(JSON.parse(chunks?.workflow ?? '')).toEqual(workflow);
+  });
+
+  it('skips images without a prompt', () => {
+    expect(getComfyMetadataChunks({ prompt: 'a cat' })).toBeUndefined();
+  });
+
+  it('writes chunks the comfy parser reads back', () => {
+    const chunks = getComfyMetadataChunks({ comfy: { prompt: comfyPrompt } });
+    const meta = comfyMetadataProcessor.parse({ ...chunks });
+
+    expect(meta).toMatchObject({
+      prompt: 'beautiful scenery nature glass bottle landscape',
+      negativePrompt: 'text, watermark',
+      seed: 156680208700286,
+      steps: 20,
+      width: 512,
+    });
+  });
+});
+
+describe('setComfyPromptSeed', () => {
+  it('replaces the seeds without changing the original prompt', () => {
+    const prompt = setComfyPromptSeed(comfyPrompt, 42);
+
+    expect(prompt['3'].inputs.seed).toBe(42);
+    expect(comfyPrompt['3'].inputs.seed).toBe(156680208700286);
+  });
+});
@@ -0,0 +1,52 @@
+// automatic1111 writes a plain text infotext, or the `info` json returned by its api
+
+const infotext = [
+  'a portrait of a knight in ornate armor, <lora:epiNoiseoffset_v2:0.8>',
+  'Negative prompt: lowres, bad anatomy',
+  'Steps: 20, Sampler: DPM++ 2M Karras, CFG scale: 7, Seed: 3216549870, Size: 512x768, Model hash: 879db523c3, Model: dreamshaper_8, Clip skip: 2, Lora hashes: "epiNoiseoffset_v2: d1d5f2e1a1b5", Version: v1.9.4',
+].join('\n');
+
+export const automaticExif = { parameters: infotext };
+
+export const automaticJsonExif = {
+  parameters: JSON.stringify({
+    prompt: 'a portrait of a knight in ornate armor, <lora:epiNoiseoffset_v2:0.8>',
+    all_prompts: ['a portrait of a knight in ornate armor, <lora:epiNoiseoffset_v2:0.8>'],
+    negative_prompt: 'lowres, bad anatomy',
+    seed: 3216549870,
+    subseed: 1234,
+    width: 512,
+    height: 768,
+    sampler_name: 'DPM++ 2M Karras',
+    cfg_scale: 7,
+    steps: 20,
+    batch_size: 1,
+    restore_faces: false,
+    sd_model_name: 'dreamshaper_8',
+    sd_model_hash: '879db523c3',
+    sd_vae_name: null,
+    sd_vae_hash: null,
+    clip_skip: 2,
+    denoising_strength: 0.45,
+    extra_generation_params: { 'Lora hashes': 'epiNoiseoffset_v2: d1d5f2e1a1b5' },
+    infotexts: [infotext],
+    version: 'v1.9.4',
+  }),
+};
+
+/** The api json without infotexts, eg. when saved by older extensions */
+export const automaticJsonWithoutInfotextExif = {
+  parameters: JSON.stringify({
+    prompt: 'a red fox in the forest',
+    negative_prompt: '',
+    seed: 99,
+    width: 512,
+    height: 512,
+    sampler_name: 'Euler a',
+    cfg_scale: 7,
+    steps: 30,
+    sd_model_name: 'v1-5-pruned-emaonly',
+    sd_model_hash: '6ce0161689',
+    clip_skip: 1,
+  }),
+};
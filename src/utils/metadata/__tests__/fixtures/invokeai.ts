@@ -0,0 +1,65 @@
+// InvokeAI stores its metadata as JSON in the `invokeai_metadata` PNG chunk
+
+/** InvokeAI 4.x, models are identified by key and hash */
+export const invokeaiV4Exif = {
+  invokeai_metadata: JSON.stringify({
+    generation_mode: 'sdxl_txt2img',
+    positive_prompt: 'a lighthouse on a cliff at sunset, dramatic clouds, highly detailed',
+    negative_prompt: 'blurry, lowres, watermark',
+    width: 832,
+    height: 1216,
+    seed: 2948175302,
+    rand_device: 'cpu',
+    cfg_scale: 6.5,
+    cfg_rescale_multiplier: 0,
+    steps: 30,
+    scheduler: 'dpmpp_2m_k',
+    clip_skip: 0,
+    model: {
+      key: '1b4d6a04-4d3b-4a36-9a4c-2c0e3a5f1e2d',
+      hash: 'blake3:8c3b2e4f0a9d71c6e5b4a3f2d1c0b9a8e7f6d5c4b3a2f1e0d9c8b7a6f5e4d3c2',
+      name: 'Juggernaut XL v9',
+      base: 'sdxl',
+      type: 'main',
+    },
+    vae: {
+      key: 'f3a1c2d4-5b6e-4f70-8a9b-0c1d2e3f4a5b',
+      hash: 'blake3:63aeecb90ff7a5c4bf7cc3a1b1f4e4a1b2c3d4e5f60718293a4b5c6d7e8f9a0b',
+      name: 'sdxl-vae-fp16-fix',
+      base: 'sdxl',
+      type: 'vae',
+    },
+    loras: [
+      {
+        model: {
+          key: '9e8d7c6b-5a4f-4e3d-2c1b-0a9f8e7d6c5b',
+          hash: 'blake3:0d1f2e3c4b5a69788796a5b4c3d2e1f00f1e2d3c4b5a69788796a5b4c3d2e1f0',
+          name: 'add-detail-xl',
+          base: 'sdxl',
+          type: 'lora',
+        },
+        weight: 0.75,
+      },
+    ],
+    app_version: '4.2.6',
+  }),
+};
+
+/** InvokeAI 3.x, models are only identified by name */
+export const invokeaiV3Exif = {
+  invokeai_metadata: JSON.stringify({
+    generation_mode: 'txt2img',
+    positive_prompt: 'portrait of an old fisherman, film grain',
+    negative_prompt: '',
+    width: 512,
+    height: 768,
+    seed: 1337,
+    cfg_scale: 7.5,
+    steps: 25,
+    scheduler: 'euler_a',
+    clip_skip: 2,
+    model: { model_name: 'dreamshaper_8', base_model: 'sd-1', model_type: 'main' },
+    loras: [{ lora: { model_name: 'film_grain_v1', base_model: 'sd-1' }, weight: 0.6 }],
+    app_version: '3.6.2',
+  }),
+};
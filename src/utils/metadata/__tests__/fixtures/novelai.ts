@@ -0,0 +1,42 @@
+// NovelAI keeps the prompt in the Description and the generation settings as JSON in the Comment
+
+export const novelaiExif = {
+  Title: 'AI generated image',
+  Software: 'NovelAI',
+  Source: 'NovelAI Diffusion V3 4BDE2A90',
+  Description: '1girl, silver hair, library, reading, soft lighting',
+  Comment: JSON.stringify({
+    prompt: '1girl, silver hair, library, reading, soft lighting',
+    steps: 28,
+    height: 1216,
+    width: 832,
+    scale: 5,
+    uncond_scale: 1,
+    cfg_rescale: 0,
+    seed: 3905471186,
+    n_samples: 1,
+    noise_schedule: 'karras',
+    sampler: 'k_dpmpp_2m',
+    sm: false,
+    sm_dyn: false,
+    uc: 'lowres, bad anatomy, bad hands, text, error',
+  }),
+};
+
+/** Images generated with the default schedule and the v3 DDIM sampler */
+export const novelaiNativeScheduleExif = {
+  Software: 'NovelAI',
+  Source: 'NovelAI Diffusion V3 4BDE2A90',
+  Description: 'a cozy cabin in the snow',
+  Comment: JSON.stringify({
+    prompt: 'a cozy cabin in the snow',
+    steps: 28,
+    height: 1024,
+    width: 1024,
+    scale: 6,
+    seed: 42,
+    noise_schedule: 'native',
+    sampler: 'ddim_v3',
+    uc: 'lowres',
+  }),
+};
@@ -0,0 +1,43 @@
+// SwarmUI writes its parameters as JSON in the `parameters` chunk, with model hashes under `sui_models`
+
+export const swarmuiExif = {
+  parameters: JSON.stringify({
+    sui_image_params: {
+      prompt: 'an astronaut riding a horse on mars, cinematic',
+      negativeprompt: 'cartoon, lowres',
+      model: 'OfficialStableDiffusion/sd_xl_base_1.0',
+      seed: 1850377296,
+      steps: 25,
+      cfgscale: 6,
+      aspectratio: 'Custom',
+      width: 1024,
+      height: 1024,
+      sampler: 'dpmpp_2m',
+      scheduler: 'karras',
+      clipstopatlayer: -2,
+      loras: ['Lora/detail-tweaker-xl'],
+      loraweights: ['0.8'],
+      vae: 'sdxl_vae',
+      swarm_version: '0.9.1.0',
+      date: '2024-07-29',
+      generation_time: '0.02 (prep) and 7.84 (gen) seconds',
+    },
+    sui_models: [
+      {
+        name: 'OfficialStableDiffusion/sd_xl_base_1.0.safetensors',
+        param: 'model',
+        hash: '0x31e35c80fc4829d14f90153f4c74cd59c90b779f6afe05a74cd6120b893f7e5b',
+      },
+      {
+        name: 'Lora/detail-tweaker-xl.safetensors',
+        param: 'loras',
+        hash: '0x0d9bd1b873a7863e128b4672e3e245838858f71469a3cec58123c16c06f83bd7',
+      },
+      {
+        name: 'sdxl_vae.safetensors',
+        param: 'vae',
+        hash: '0x63aeecb90ff7a5c4bf7cc3a1b1f4e4a1b2c3d4e5f60718293a4b5c6d7e8f9a0b',
+      },
+    ],
+  }),
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { getMetadataParserType } from '~/utils/metadata';
+import { automaticMetadataProcessor } from '~/utils/metadata/automatic.metadata';
+import { comfyMetadataProcessor } from '~/utils/metadata/comfy.metadata';
+import { automaticExif, automaticJsonExif } from './fixtures/automatic';
+import { comfyExif } from './fixtures/comfy';
+import { invokeaiV3Exif, invokeaiV4Exif } from './fixtures/invokeai';
+import { novelaiExif } from './fixtures/novelai';
+import { swarmuiExif } from './fixtures/swarmui';
+
+describe('getMetadataParserType', () => {
+  it('keeps existing automatic1111 and comfy images on their parsers', () => {
+    expect(getMetadataParserType({ ...automaticExif })).toBe('automatic');
+    expect(getMetadataParserType({ ...comfyExif })).toBe('comfy');
+  });
+
+  it('picks the matching parser for each new format', () => {
+    expect(getMetadataParserType({ ...invokeaiV4Exif })).toBe('invokeai');
+    expect(getMetadataParserType({ ...invokeaiV3Exif })).toBe('invokeai');
+    expect(getMetadataParserType({ ...novelaiExif })).toBe('novelai');
+    expect(getMetadataParserType({ ...swarmuiExif })).toBe('swarmui');
+    expect(getMetadataParserType({ ...automaticJsonExif })).toBe('automaticJson');
+  });
+
+  it('checks the json formats before the catch-all parsers', () => {
+    // automatic finds the "Steps: " of the infotext and comfy accepts any json,
+    // so these would be misparsed if the new parsers weren't tried first
+    expect(automaticMetadataProcessor.canParse({ ...automaticJsonExif })).toBe(true);
+    expect(comfyMetadataProcessor.canParse({ ...automaticJsonExif })).toBe(true);
+    expect(comfyMetadataProcessor.canParse({ ...swarmuiExif })).toBe(true);
+  });
+
+  it('returns nothing for images without generation data', () => {
+    expect(getMetadataParserType({})).toBeUndefined();
+    expect(getMetadataParserType({ Software: 'GIMP' })).toBeUndefined();
+  });
+});
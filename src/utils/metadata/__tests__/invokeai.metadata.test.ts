@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { invokeaiMetadataProcessor } from '~/utils/metadata/invokeai.metadata';
+import { automaticExif } from './fixtures/automatic';
+import { invokeaiV3Exif, invokeaiV4Exif } from './fixtures/invokeai';
+
+describe('invokeaiMetadataProcessor', () => {
+  it('only accepts images with invokeai metadata', () => {
+    expect(invokeaiMetadataProcessor.canParse({ ...invokeaiV4Exif })).toBe(true);
+    expect(invokeaiMetadataProcessor.canParse({ ...automaticExif })).toBe(false);
+  });
+
+  it('parses v4 metadata with model hashes', () => {
+    const meta = invokeaiMetadataProcessor.parse({ ...invokeaiV4Exif });
+
+    expect(meta).toMatchObject({
+      prompt: 'a lighthouse on a cliff at sunset, dramatic clouds, highly detailed',
+      negativePrompt: 'blurry, lowres, watermark',
+      cfgScale: 6.5,
+      steps: 30,
+      seed: 2948175302,
+      sampler: 'DPM++ 2M Karras',
+      width: 832,
+      height: 1216,
+      Model: 'Juggernaut XL v9',
+      software: 'InvokeAI 4.2.6',
+      hashes: {
+        model: '8c3b2e4f0a9d71c6e5b4a3f2d1c0b9a8e7f6d5c4b3a2f1e0d9c8b7a6f5e4d3c2',
+        vae: '63aeecb90ff7a5c4bf7cc3a1b1f4e4a1b2c3d4e5f60718293a4b5c6d7e8f9a0b',
+        'lora:add-detail-xl': '0d1f2e3c4b5a69788796a5b4c3d2e1f00f1e2d3c4b5a69788796a5b4c3d2e1f0',
+      },
+    });
+    expect(meta.clipSkip).toBeUndefined();
+    expect(meta.resources).toEqual([
+      {
+        type: 'model',
+        name: 'Juggernaut XL v9',
+        hash: '8c3b2e4f0a9d71c6e5b4a3f2d1c0b9a8e7f6d5c4b3a2f1e0d9c8b7a6f5e4d3c2',
+      },
+      {
+        type: 'vae',
+        name: 'sdxl-vae-fp16-fix',
+        hash: '63aeecb90ff7a5c4bf7cc3a1b1f4e4a1b2c3d4e5f60718293a4b5c6d7e8f9a0b',
+      },
+      {
+        type: 'lora',
+        name: 'add-detail-xl',
+        hash: '0d1f2e3c4b5a69788796a5b4c3d2e1f00f1e2d3c4b5a69788796a5b4c3d2e1f0',
+        weight: 0.75,
+      },
+    ]);
+  });
+
+  it('parses v3 metadata with named models', () => {
+    const meta = invokeaiMetadataProcessor.parse({ ...invokeaiV3Exif });
+
+    expect(meta).toMatchObject({
+      prompt: 'portrait of an old fisherman, film grain',
+      seed: 1337,
+      sampler: 'Euler a',
+      clipSkip: 2,
+      Model: 'dreamshaper_8',
+      software: 'InvokeAI 3.6.2',
+    });
+    expect(meta.hashes).toBeUndefined();
+    expect(meta.resources).toEqual([
+      { type: 'model', name: 'dreamshaper_8' },
+      { type: 'lora', name: 'film_grain_v1', weight: 0.6 },
+    ]);
+  });
+
+  it('round trips through encode', () => {
+    const meta = invokeaiMetadataProcessor.parse({ ...invokeaiV4Exif });
+    const encoded = invokeaiMetadataProcessor.encode(meta);
+    const reparsed = invokeaiMetadataProcessor.parse({ invokeai_metadata: encoded });
+
+    expect(reparsed).toMatchObject({
+      prompt: meta.prompt,
+      negativePrompt: meta.negativePrompt,
+      cfgScale: meta.cfgScale,
+      steps: meta.steps,
+      seed: meta.seed,
+      sampler: meta.sampler,
+      Model: meta.Model,
+    });
+  });
+});
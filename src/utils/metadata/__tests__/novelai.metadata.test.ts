@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { novelaiMetadataProcessor } from '~/utils/metadata/novelai.metadata';
+import { novelaiExif, novelaiNativeScheduleExif } from './fixtures/novelai';
+
+describe('novelaiMetadataProcessor', () => {
+  it('only accepts images made by NovelAI', () => {
+    expect(novelaiMetadataProcessor.canParse({ ...novelaiExif })).toBe(true);
+    expect(novelaiMetadataProcessor.canParse({ ...novelaiExif, Software: 'GIMP' })).toBe(false);
+    expect(novelaiMetadataProcessor.canParse({ Software: 'NovelAI' })).toBe(false);
+  });
+
+  it('parses the comment and maps the sampler', () => {
+    const meta = novelaiMetadataProcessor.parse({ ...novelaiExif });
+
+    expect(meta).toMatchObject({
+      prompt: '1girl, silver hair, library, reading, soft lighting',
+      negativePrompt: 'lowres, bad anatomy, bad hands, text, error',
+      cfgScale: 5,
+      steps: 28,
+      seed: 3905471186,
+      sampler: 'DPM++ 2M Karras',
+      scheduler: 'karras',
+      width: 832,
+      height: 1216,
+      Model: 'NovelAI Diffusion V3 4BDE2A90',
+      software: 'NovelAI',
+    });
+  });
+
+  it('leaves out the default noise schedule', () => {
+    const meta = novelaiMetadataProcessor.parse({ ...novelaiNativeScheduleExif });
+
+    expect(meta.sampler).toBe('DDIM');
+    expect(meta.scheduler).toBeUndefined();
+  });
+
+  it('round trips through encode', () => {
+    const meta = novelaiMetadataProcessor.parse({ ...novelaiExif });
+    const encoded = novelaiMetadataProcessor.encode(meta);
+    const reparsed = novelaiMetadataProcessor.parse({ Software: 'NovelAI', Comment: encoded });
+
+    expect(reparsed).toMatchObject({
+      prompt: meta.prompt,
+      negativePrompt: meta.negativePrompt,
+      cfgScale: meta.cfgScale,
+      steps: meta.steps,
+      seed: meta.seed,
+      sampler: meta.sampler,
+      scheduler: meta.scheduler,
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { swarmuiMetadataProcessor } from '~/utils/metadata/swarmui.metadata';
+import { automaticExif, automaticJsonExif } from './fixtures/automatic';
+import { swarmuiExif } from './fixtures/swarmui';
+
+describe('swarmuiMetadataProcessor', () => {
+  it('only accepts swarm image params', () => {
+    expect(swarmuiMetadataProcessor.canParse({ ...swarmuiExif })).toBe(true);
+    expect(swarmuiMetadataProcessor.canParse({ ...automaticExif })).toBe(false);
+    expect(swarmuiMetadataProcessor.canParse({ ...automaticJsonExif })).toBe(false);
+  });
+
+  it('parses the params and resolves model hashes', () => {
+    const meta = swarmuiMetadataProcessor.parse({ ...swarmuiExif });
+
+    expect(meta).toMatchObject({
+      prompt: 'an astronaut riding a horse on mars, cinematic',
+      negativePrompt: 'cartoon, lowres',
+      cfgScale: 6,
+      steps: 25,
+      seed: 1850377296,
+      sampler: 'DPM++ 2M Karras',
+      scheduler: 'karras',
+      clipSkip: 2,
+      width: 1024,
+      height: 1024,
+      Model: 'sd_xl_base_1.0',
+      software: 'SwarmUI 0.9.1.0',
+      hashes: {
+        model: '31e35c80fc4829d14f90153f4c74cd59c90b779f6afe05a74cd6120b893f7e5b',
+        vae: '63aeecb90ff7a5c4bf7cc3a1b1f4e4a1b2c3d4e5f60718293a4b5c6d7e8f9a0b',
+        'lora:detail-tweaker-xl':
+          '0d9bd1b873a7863e128b4672e3e245838858f71469a3cec58123c16c06f83bd7',
+      },
+    });
+    expect(meta.resources).toEqual([
+      {
+        type: 'model',
+        name: 'sd_xl_base_1.0',
+        hash: '31e35c80fc4829d14f90153f4c74cd59c90b779f6afe05a74cd6120b893f7e5b',
+      },
+      {
+        type: 'vae',
+        name: 'sdxl_vae',
+        hash: '63aeecb90ff7a5c4bf7cc3a1b1f4e4a1b2c3d4e5f60718293a4b5c6d7e8f9a0b',
+      },
+      {
+        type: 'lora',
+        name: 'detail-tweaker-xl',
+        hash: '0d9bd1b873a7863e128b4672e3e245838858f71469a3cec58123c16c06f83bd7',
+        weight: 0.8,
+      },
+    ]);
+  });
+
+  it('round trips through encode', () => {
+    const meta = swarmuiMetadataProcessor.parse({ ...swarmuiExif });
+    const encoded = swarmuiMetadataProcessor.encode(meta);
+    const reparsed = swarmuiMetadataProcessor.parse({ parameters: encoded });
+
+    expect(reparsed).toMatchObject({
+      prompt: meta.prompt,
+      negativePrompt: meta.negativePrompt,
+      cfgScale: meta.cfgScale,
+      steps: meta.steps,
+      seed: meta.seed,
+      clipSkip: meta.clipSkip,
+      Model: meta.Model,
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { ImageMetaProps } from '~/server/schema/image.schema';
+import { automaticMetadataProcessor } from '~/utils/metadata/automatic.metadata';
+import {
+  createMetadataProcessor,
+  getGenerationDetails,
+  SDResource,
+} from '~/utils/metadata/base.metadata';
+
+// Matches the `info` returned by the automatic1111 txt2img/img2img api
+type AutomaticJson = {
+  prompt?: string;
+  negative_prompt?: string;
+  seed?: number;
+  steps?: number;
+  sampler_name?: string;
+  cfg_scale?: number;
+  width?: number;
+  height?: number;
+  sd_model_name?: string;
+  sd_model_hash?: string;
+  sd_vae_name?: string;
+  sd_vae_hash?: string;
+  clip_skip?: number;
+  denoising_strength?: number;
+  extra_generation_params?: Record<string, unknown>;
+  infotexts?: string[];
+  version?: string;
+};
+
+function parseAutomaticJson(exif: Record<string, any>) {
+  const details = getGenerationDetails(exif);
+  if (!details?.trimStart().startsWith('{')) return undefined;
+  try {
+    const json = JSON.parse(details);
+    if (typeof json.prompt !== 'string' || !('sampler_name' in json)) return undefined;
+    return json as AutomaticJson;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+export const automaticJsonMetadataProcessor = createMetadataProcessor({
+  canParse(exif) {
+    const json = parseAutomaticJson(exif);
+    if (json) exif.automaticJson = json;
+    return !!json;
+  },
+  parse(exif) {
+    const json = (exif.automaticJson ?? parseAutomaticJson(exif)) as AutomaticJson;
+
+    // The infotext holds the extra network details, so start from it when it's available
+    const [infotext] = json.infotexts ?? [];
+    const metadata: ImageMetaProps = infotext
+      ? automaticMetadataProcessor.parse({ generationDetails: infotext })
+      : {};
+
+    metadata.prompt = json.prompt;
+    metadata.negativePrompt = json.negative_prompt;
+    metadata.seed = json.seed;
+    metadata.steps = json.steps;
+    metadata.sampler = json.sampler_name;
+    metadata.cfgScale = json.cfg_scale;
+    metadata.width = json.width;
+    metadata.height = json.height;
+    if (json.clip_skip && json.clip_skip > 1) metadata.clipSkip = json.clip_skip;
+    if (json.denoising_strength) metadata['Denoising strength'] = json.denoising_strength;
+    if (json.version) metadata.Version = json.version;
+
+    const resources = (metadata.resources ?? []) as SDResource[];
+    const hashes = metadata.hashes ?? {};
+    if (json.sd_model_name) {
+      metadata.Model = json.sd_model_name;
+      metadata['Model hash'] = json.sd_model_hash;
+      if (json.sd_model_hash && !hashes.model) {
+        hashes.model = json.sd_model_hash;
+        resources.push({ type: 'model', name: json.sd_model_name, hash: json.sd_model_hash });
+      }
+    }
+    if (json.sd_vae_hash && !hashes.vae) hashes.vae = json.sd_vae_hash;
+
+    if (Object.keys(hashes).length) metadata.hashes = hashes;
+    metadata.resources = resources;
+
+    return metadata;
+  },
+  encode(meta) {
+    return JSON.stringify({
+      prompt: meta.prompt,
+      negative_prompt: meta.negativePrompt,
+      seed: meta.seed,
+      steps: meta.steps,
+      sampler_name: meta.sampler,
+      cfg_scale: meta.cfgScale,
+      width: meta.width,
+      height: meta.height,
+      sd_model_name: meta.Model,
+      sd_model_hash: meta['Model hash'],
+      clip_skip: meta.clipSkip,
+      denoising_strength: meta['Denoising strength'],
+      infotexts: [automaticMetadataProcessor.encode(meta)],
+    });
+  },
+});
@@ -1,4 +1,7 @@
+import { samplerMap } from '~/server/common/constants';
 import { ImageMetaProps } from '~/server/schema/image.schema';
+import { decodeBigEndianUTF16 } from '~/utils/encoding-helpers';
+import { findKeyForValue } from '~/utils/map-helpers';
 
 type MetadataProcessor = {
   canParse: (exif: Record<string, any>) => boolean;
@@ -16,3 +19,19 @@ export type SDResource = {
   weight?: number;
   hash?: string;
 };
+
+/** A1111 style tools store their details in the `parameters` chunk, or the UserComment for JPEGs */
+export function getGenerationDetails(exif: Record<string, any>): string | undefined {
+  if (exif?.parameters) return exif.parameters;
+  if (exif?.userComment) return decodeBigEndianUTF16(exif.userComment);
+  return undefined;
+}
+
+/** Maps comfy style sampler/scheduler names to their automatic1111 equivalent */
+export function getA1111Sampler(sampler?: string, scheduler?: string) {
+  if (!sampler) return sampler;
+  let a1111sampler: string | undefined;
+  if (scheduler === 'karras') a1111sampler = findKeyForValue(samplerMap, sampler + '_karras');
+  if (!a1111sampler) a1111sampler = findKeyForValue(samplerMap, sampler);
+  return a1111sampler ?? sampler;
+}
@@ -163,13 +163,24 @@ export const comfyMetadataProcessor = createMetadataProcessor({
     return metadata;
   },
   encode: (meta) => {
-    const comfy =
-      typeof meta.comfy === 'string' ? fromJson<ComfyMetaSchema>(meta.comfy) : meta.comfy;
-
-    return comfy && comfy.workflow ? JSON.stringify(comfy.workflow) : '';
+    return getComfyMetadataChunks(meta)?.workflow ?? '';
   },
 });
 
+/**
+ * Builds the `prompt` and `workflow` PNG text chunks that ComfyUI reads when an image is dropped onto it.
+ * When only the prompt is known, the workflow graph is rebuilt from it.
+ */
+export function getComfyMetadataChunks(meta: ImageMetaProps) {
+  const comfy = typeof meta.comfy === 'string' ? fromJson<ComfyMetaSchema>(meta.comfy) : meta.comfy;
+
+  const prompt = comfy?.prompt as ComfyPrompt | undefined;
+  if (!prompt) return undefined;
+  const workflow = comfy?.workflow ?? promptToWorkflow(prompt);
+
+  return { prompt: JSON.stringify(prompt), workflow: JSON.stringify(workflow) };
+}
+
 function a1111Compatability(metadata: ImageMetaProps) {
   // Sampler name
   const samplerName = metadata.sampler;
@@ -208,6 +219,287 @@ function getPromptText(node: ComfyNode, target: 'positive' | 'negative' = 'posit
   return '';
 }
 
+// #region [encode]
+const conditioning = { clip: 'CLIP' };
+const promptWidgets = ['text'];
+// The nodes used by our workflows. ComfyUI matches links to slots and widget values to widgets by
+// position, so these need to follow the order the nodes declare them in
+const comfyNodeDefinitions: Record<string, ComfyNodeDefinition> = {
+  CheckpointLoaderSimple: {
+    widgets: ['ckpt_name'],
+    outputs: { MODEL: 'MODEL', CLIP: 'CLIP', VAE: 'VAE' },
+  },
+  LoraLoader: {
+    inputs: { model: 'MODEL', clip: 'CLIP' },
+    widgets: ['lora_name', 'strength_model', 'strength_clip'],
+    outputs: { MODEL: 'MODEL', CLIP: 'CLIP' },
+  },
+  CLIPSetLastLayer: {
+    inputs: { clip: 'CLIP' },
+    widgets: ['stop_at_clip_layer'],
+    outputs: { CLIP: 'CLIP' },
+  },
+  CLIPTextEncode: {
+    inputs: conditioning,
+    widgets: promptWidgets,
+    outputs: { CONDITIONING: 'CONDITIONING' },
+  },
+  'smZ CLIPTextEncode': {
+    inputs: conditioning,
+    widgets: [
+      ...promptWidgets,
+      'parser',
+      'mean_normalization',
+      'multi_conditioning',
+      'use_old_emphasis_implementation',
+      'with_SDXL',
+      'ascore',
+      'width',
+      'height',
+      'crop_w',
+      'crop_h',
+      'target_width',
+      'target_height',
+      'text_g',
+      'text_l',
+      'smZ_steps',
+    ],
+    outputs: { CONDITIONING: 'CONDITIONING' },
+  },
+  EmptyLatentImage: {
+    widgets: ['width', 'height', 'batch_size'],
+    outputs: { LATENT: 'LATENT' },
+  },
+  KSampler: {
+    inputs: {
+      model: 'MODEL',
+      positive: 'CONDITIONING',
+      negative: 'CONDITIONING',
+      latent_image: 'LATENT',
+    },
+    widgets: ['seed', 'steps', 'cfg', 'sampler_name', 'scheduler', 'denoise'],
+    outputs: { LATENT: 'LATENT' },
+  },
+  VAEDecode: {
+    inputs: { samples: 'LATENT', vae: 'VAE' },
+    outputs: { IMAGE: 'IMAGE' },
+  },
+  VAEEncode: {
+    inputs: { pixels: 'IMAGE', vae: 'VAE' },
+    outputs: { LATENT: 'LATENT' },
+  },
+  LoadImage: {
+    widgets: ['image', 'upload'],
+    outputs: { IMAGE: 'IMAGE', MASK: 'MASK' },
+  },
+  SaveImage: {
+    inputs: { images: 'IMAGE' },
+    widgets: ['filename_prefix'],
+  },
+  PreviewImage: {
+    inputs: { images: 'IMAGE' },
+  },
+  UpscaleModelLoader: {
+    widgets: ['model_name'],
+    outputs: { UPSCALE_MODEL: 'UPSCALE_MODEL' },
+  },
+  ImageUpscaleWithModel: {
+    inputs: { upscale_model: 'UPSCALE_MODEL', image: 'IMAGE' },
+    outputs: { IMAGE: 'IMAGE' },
+  },
+  ImageScale: {
+    inputs: { image: 'IMAGE' },
+    widgets: ['upscale_method', 'width', 'height', 'crop'],
+    outputs: { IMAGE: 'IMAGE' },
+  },
+  SAMLoader: {
+    widgets: ['model_name', 'device_mode'],
+    outputs: { SAM_MODEL: 'SAM_MODEL' },
+  },
+  UltralyticsDetectorProvider: {
+    widgets: ['model_name'],
+    outputs: { BBOX_DETECTOR: 'BBOX_DETECTOR', SEGM_DETECTOR: 'SEGM_DETECTOR' },
+  },
+  FaceDetailer: {
+    inputs: {
+      image: 'IMAGE',
+      model: 'MODEL',
+      clip: 'CLIP',
+      vae: 'VAE',
+      positive: 'CONDITIONING',
+      negative: 'CONDITIONING',
+      bbox_detector: 'BBOX_DETECTOR',
+      sam_model_opt: 'SAM_MODEL',
+      segm_detector_opt: 'SEGM_DETECTOR',
+      detailer_hook: 'DETAILER_HOOK',
+    },
+    widgets: [
+      'guide_size',
+      'guide_size_for',
+      'max_size',
+      'seed',
+      'steps',
+      'cfg',
+      'sampler_name',
+      'scheduler',
+      'denoise',
+      'feather',
+      'noise_mask',
+      'force_inpaint',
+      'bbox_threshold',
+      'bbox_dilation',
+      'bbox_crop_factor',
+      'sam_detection_hint',
+      'sam_dilation',
+      'sam_threshold',
+      'sam_bbox_expansion',
+      'sam_mask_hint_threshold',
+      'sam_mask_hint_use_negative',
+      'drop_size',
+      'wildcard',
+      'cycle',
+      'inpaint_model',
+      'noise_mask_feather',
+    ],
+    outputs: {
+      image: 'IMAGE',
+      cropped_refined: 'IMAGE',
+      cropped_enhanced_alpha: 'IMAGE',
+      mask: 'MASK',
+      detailer_pipe: 'DETAILER_PIPE',
+      cnet_images: 'IMAGE',
+    },
+  },
+};
+// ComfyUI follows these widgets with a "control after generate" widget
+const seedWidgets = ['seed', 'noise_seed'];
+
+function getLinkOrigin(value: unknown) {
+  if (Array.isArray(value) && value.length === 2)
+    return [String(value[0]), Number(value[1])] as const;
+}
+
+/**
+ * Rebuilds the litegraph workflow that ComfyUI loads from an api format prompt.
+ * Nodes we don't have a definition for keep their inputs in prompt order with untyped links.
+ */
+export function promptToWorkflow(prompt: ComfyPrompt) {
+  const keys = Object.keys(prompt).filter((key) => !!prompt[key]?.class_type);
+  const ids = new Map(keys.map((key, i) => [key, i + 1]));
+
+  // Each node goes one column after the deepest node feeding into it
+  const depths = new Map<string, number>();
+  const getDepth = (key: string, visiting = new Set<string>()): number => {
+    const known = depths.get(key);
+    if (known !== undefined) return known;
+    visiting.add(key);
+    let depth = 0;
+    for (const value of Object.values(prompt[key].inputs)) {
+      const [origin] = getLinkOrigin(value) ?? [];
+      if (origin && ids.has(origin) && !visiting.has(origin))
+        depth = Math.max(depth, getDepth(origin, visiting) + 1);
+    }
+    visiting.delete(key);
+    depths.set(key, depth);
+    return depth;
+  };
+  const executionOrder = [...keys].sort((a, b) => getDepth(a) - getDepth(b));
+  const rows = new Map<number, number>();
+
+  const nodes = keys.map((key) => {
+    const { class_type, inputs, _meta } = prompt[key];
+    const definition = comfyNodeDefinitions[class_type];
+    const depth = getDepth(key);
+    const row = rows.get(depth) ?? 0;
+    rows.set(depth, row + 1);
+
+    const widgetNames =
+      definition?.widgets ?? Object.keys(inputs).filter((name) => !getLinkOrigin(inputs[name]));
+    const widgets_values: unknown[] = [];
+    for (const name of widgetNames) {
+      // Widgets missing from the prompt can only be left off the end, or the rest would shift
+      if (!(name in inputs)) break;
+      widgets_values.push(inputs[name]);
+      if (seedWidgets.includes(name)) widgets_values.push('fixed');
+    }
+
+    return {
+      id: ids.get(key) as number,
+      type: class_type,
+      ...(_meta?.title ? { title: _meta.title } : {}),
+      pos: [depth * 400, row * 300],
+      size: [315, 200],
+      flags: {},
+      order: executionOrder.indexOf(key),
+      mode: 0,
+      inputs: Object.entries(definition?.inputs ?? {}).map(
+        ([name, type]): ComfyWorkflowInput => ({ name, type, link: null })
+      ),
+      outputs: Object.entries(definition?.outputs ?? {}).map(
+        ([name, type], slot_index): ComfyWorkflowOutput => ({ name, type, links: [], slot_index })
+      ),
+      properties: { 'Node name for S&R': class_type },
+      widgets_values,
+    };
+  });
+
+  const links: ComfyWorkflowLink[] = [];
+  keys.forEach((key, i) => {
+    const target = nodes[i];
+    for (const [name, value] of Object.entries(prompt[key].inputs)) {
+      const [originKey, originSlot] = getLinkOrigin(value) ?? [];
+      const originId = originKey ? ids.get(originKey) : undefined;
+      if (!originId || originSlot === undefined) continue;
+      const origin = nodes[originId - 1];
+
+      let input = target.inputs.find((x) => x.name === name);
+      while (origin.outputs.length <= originSlot) {
+        const slot_index = origin.outputs.length;
+        origin.outputs.push({
+          name: `output_${slot_index}`,
+          type: slot_index === originSlot ? input?.type ?? '*' : '*',
+          links: [],
+          slot_index,
+        });
+      }
+      const output = origin.outputs[originSlot];
+      if (!input) {
+        input = { name, type: output.type, link: null };
+        target.inputs.push(input);
+      }
+
+      const id = links.length + 1;
+      const type = output.type !== '*' ? output.type : input.type;
+      links.push([id, originId, originSlot, target.id, target.inputs.indexOf(input), type]);
+      input.link = id;
+      output.links.push(id);
+    }
+  });
+
+  return {
+    last_node_id: nodes.length,
+    last_link_id: links.length,
+    nodes,
+    links,
+    groups: [],
+    config: {},
+    extra: {},
+    version: 0.4,
+  };
+}
+
+/** Sets the seed of every sampler in the prompt, eg. for the later images of a batch */
+export function setComfyPromptSeed(prompt: ComfyPrompt, seed: number) {
+  const result: ComfyPrompt = {};
+  for (const [key, node] of Object.entries(prompt)) {
+    const inputs = { ...node.inputs };
+    for (const name of seedWidgets) if (typeof inputs[name] === 'number') inputs[name] = seed;
+    result[key] = { ...node, inputs };
+  }
+  return result;
+}
+// #endregion
+
 type ComfyNumber = ComfyNode | number;
 function getNumberValue(input: ComfyNumber, valueNames = ['Value']) {
   if (typeof input === 'number') return input;
@@ -237,6 +529,24 @@ type SamplerNode = {
   latent_image: ComfyNode;
 };
 
+export type ComfyPrompt = Record<
+  string,
+  { inputs: Record<string, unknown>; class_type: string; _meta?: { title?: string } }
+>;
+
+type ComfyNodeDefinition = {
+  /** Inputs that take a link, by name and type */
+  inputs?: Record<string, string>;
+  /** Inputs edited with widgets, in the order ComfyUI stores their values */
+  widgets?: string[];
+  outputs?: Record<string, string>;
+};
+
+type ComfyWorkflowInput = { name: string; type: string; link: number | null };
+type ComfyWorkflowOutput = { name: string; type: string; links: number[]; slot_index: number };
+// [id, originId, originSlot, targetId, targetSlot, type]
+type ComfyWorkflowLink = [number, number, number, number, number, string];
+
 type AdditionalResource = {
   name: string;
   type: string;
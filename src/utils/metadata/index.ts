@@ -2,7 +2,7 @@ import ExifReader from 'exifreader';
 import { v4 as uuidv4 } from 'uuid';
 import { ImageMetaProps, imageMetaSchema } from '~/server/schema/image.schema';
 import { automaticMetadataProcessor } from '~/utils/metadata/automatic.metadata';
-import { comfyMetadataProcessor } from '~/utils/metadata/comfy.metadata';
+import { comfyMetadataProcessor, getComfyMetadataChunks } from '~/utils/metadata/comfy.metadata';
 import { isDefined } from '~/utils/type-guards';
 import { auditImageMeta, preprocessFile } from '~/utils/media-preprocessors';
 import { MediaType } from '@prisma/client';
@@ -10,12 +10,31 @@ import { showErrorNotification } from '~/utils/notifications';
 import { calculateSizeInMegabytes } from '~/utils/json-helpers';
 import { constants } from '~/server/common/constants';
 import { rfooocusMetadataProcessor } from '~/utils/metadata/rfooocus.metadata';
+import { invokeaiMetadataProcessor } from '~/utils/metadata/invokeai.metadata';
+import { novelaiMetadataProcessor } from '~/utils/metadata/novelai.metadata';
+import { swarmuiMetadataProcessor } from '~/utils/metadata/swarmui.metadata';
+import { automaticJsonMetadataProcessor } from '~/utils/metadata/automatic-json.metadata';
+import { addPngTextChunks, convertToPng, isPng } from '~/utils/png-helpers';
 
+// Parsers are tried in order. The newer formats only accept their own markers and go first,
+// since automatic matches any JSON containing "Steps: " and comfy accepts any JSON at all
 const parsers = {
+  invokeai: invokeaiMetadataProcessor,
+  novelai: novelaiMetadataProcessor,
+  swarmui: swarmuiMetadataProcessor,
+  automaticJson: automaticJsonMetadataProcessor,
   automatic: automaticMetadataProcessor,
   comfy: comfyMetadataProcessor,
   rfooocus: rfooocusMetadataProcessor,
 };
+export type MetadataParserType = keyof typeof parsers;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function getMetadataParserType(exif: Record<string, any>) {
+  return (Object.keys(parsers) as MetadataParserType[]).find((type) =>
+    parsers[type].canParse(exif)
+  );
+}
 
 export async function getMetadata(file: File) {
   try {
@@ -33,8 +52,8 @@ export async function getMetadata(file: File) {
 
     let metadata = {};
     try {
-      const { parse } = Object.values(parsers).find((x) => x.canParse(exif)) ?? {};
-      if (parse) metadata = parse(exif);
+      const type = getMetadataParserType(exif);
+      if (type) metadata = parsers[type].parse(exif);
     } catch (e: any) { //eslint-disable-line
       console.error('Error parsing metadata', e);
     }
@@ -45,10 +64,20 @@ export async function getMetadata(file: File) {
   }
 }
 
-export function encodeMetadata(meta: ImageMetaProps, type: keyof typeof parsers = 'automatic') {
+export function encodeMetadata(meta: ImageMetaProps, type: MetadataParserType = 'automatic') {
   return parsers[type]?.encode(meta);
 }
 
+/** Embeds the comfy prompt and workflow as png chunks so the image can be dropped into ComfyUI */
+export async function addComfyMetadataToImage(blob: Blob, meta: ImageMetaProps) {
+  const chunks = getComfyMetadataChunks(meta);
+  if (!chunks) return blob;
+
+  let data = new Uint8Array(await blob.arrayBuffer());
+  if (!isPng(data)) data = new Uint8Array(await (await convertToPng(blob)).arrayBuffer());
+  return new Blob([addPngTextChunks(data, chunks)], { type: 'image/png' });
+}
+
 export const parsePromptMetadata = (generationDetails: string) => {
   return automaticMetadataProcessor.parse({ generationDetails });
 };
@@ -0,0 +1,149 @@
+import { ImageMetaProps } from '~/server/schema/image.schema';
+import { createMetadataProcessor, SDResource } from '~/utils/metadata/base.metadata';
+
+// v4 identifies models by key/hash, v3 only by name
+type InvokeAIModel = {
+  key?: string;
+  hash?: string;
+  name?: string;
+  model_name?: string;
+  base?: string;
+  base_model?: string;
+};
+type InvokeAIMetadata = {
+  positive_prompt?: string;
+  negative_prompt?: string;
+  positive_style_prompt?: string;
+  negative_style_prompt?: string;
+  width?: number;
+  height?: number;
+  seed?: number;
+  cfg_scale?: number;
+  steps?: number;
+  scheduler?: string;
+  clip_skip?: number;
+  strength?: number;
+  model?: InvokeAIModel;
+  vae?: InvokeAIModel;
+  loras?: { model?: InvokeAIModel; lora?: InvokeAIModel; weight?: number }[];
+  app_version?: string;
+  [key: string]: unknown;
+};
+
+const schedulerMap = new Map<string, string>([
+  ['euler', 'Euler'],
+  ['euler_a', 'Euler a'],
+  ['euler_k', 'Euler Karras'],
+  ['heun', 'Heun'],
+  ['heun_k', 'Heun Karras'],
+  ['lms', 'LMS'],
+  ['lms_k', 'LMS Karras'],
+  ['kdpm_2', 'DPM2'],
+  ['kdpm_2_a', 'DPM2 a'],
+  ['kdpm_2_k', 'DPM2 Karras'],
+  ['dpmpp_2s', 'DPM++ 2S a'],
+  ['dpmpp_2s_k', 'DPM++ 2S a Karras'],
+  ['dpmpp_2m', 'DPM++ 2M'],
+  ['dpmpp_2m_k', 'DPM++ 2M Karras'],
+  ['dpmpp_2m_sde', 'DPM++ 2M SDE'],
+  ['dpmpp_2m_sde_k', 'DPM++ 2M SDE Karras'],
+  ['dpmpp_sde', 'DPM++ SDE'],
+  ['dpmpp_sde_k', 'DPM++ SDE Karras'],
+  ['ddim', 'DDIM'],
+  ['pndm', 'PLMS'],
+  ['unipc', 'UniPC'],
+  ['lcm', 'LCM'],
+]);
+const samplerEncodeMap = new Map(Array.from(schedulerMap, ([k, v]) => [v, k]));
+
+function getModelName(model: InvokeAIModel) {
+  return model.name ?? model.model_name ?? '';
+}
+
+// Hashes are prefixed with the algorithm, eg. `blake3:...`
+function getModelHash(model: InvokeAIModel) {
+  return model.hash?.split(':').pop();
+}
+
+export const invokeaiMetadataProcessor = createMetadataProcessor({
+  canParse(exif) {
+    return !!exif?.invokeai_metadata;
+  },
+  parse(exif) {
+    const {
+      positive_prompt: prompt,
+      negative_prompt: negativePrompt,
+      cfg_scale: cfgScale,
+      steps,
+      seed,
+      scheduler,
+      width,
+      height,
+      clip_skip,
+      strength: denoise,
+      model,
+      vae,
+      loras = [],
+      app_version,
+      ...other
+    } = JSON.parse(exif.invokeai_metadata) as InvokeAIMetadata;
+
+    const metadata: ImageMetaProps = {
+      prompt,
+      negativePrompt,
+      cfgScale,
+      steps,
+      seed,
+      sampler: scheduler ? schedulerMap.get(scheduler) ?? scheduler : undefined,
+      width,
+      height,
+      denoise,
+      software: app_version ? `InvokeAI ${app_version}` : 'InvokeAI',
+      other,
+    };
+    if (clip_skip) metadata.clipSkip = clip_skip;
+
+    const hashes: Record<string, string> = {};
+    const resources: SDResource[] = [];
+    if (model) {
+      const hash = getModelHash(model);
+      metadata.Model = getModelName(model);
+      if (hash) hashes.model = hash;
+      resources.push({ type: 'model', name: getModelName(model), hash });
+    }
+    if (vae) {
+      const hash = getModelHash(vae);
+      if (hash) hashes.vae = hash;
+      resources.push({ type: 'vae', name: getModelName(vae), hash });
+    }
+    for (const { model, lora, weight } of loras) {
+      const resource = model ?? lora;
+      if (!resource) continue;
+      const name = getModelName(resource);
+      const hash = getModelHash(resource);
+      if (hash) hashes[`lora:${name}`] = hash;
+      resources.push({ type: 'lora', name, hash, weight });
+    }
+
+    if (Object.keys(hashes).length) metadata.hashes = hashes;
+    metadata.resources = resources;
+
+    return metadata;
+  },
+  encode(meta) {
+    return JSON.stringify({
+      positive_prompt: meta.prompt,
+      negative_prompt: meta.negativePrompt,
+      cfg_scale: meta.cfgScale,
+      steps: meta.steps,
+      seed: meta.seed,
+      scheduler: meta.sampler ? samplerEncodeMap.get(meta.sampler) ?? meta.sampler : undefined,
+      width: meta.width,
+      height: meta.height,
+      clip_skip: meta.clipSkip,
+      strength: meta.denoise,
+      model: meta.Model ? { name: meta.Model } : undefined,
+      ...((meta.other as Record<string, unknown>) ?? {}),
+    });
+  },
+});
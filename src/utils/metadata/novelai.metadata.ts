@@ -0,0 +1,82 @@
+import { Sampler, samplerMap } from '~/server/common/constants';
+import { ImageMetaProps } from '~/server/schema/image.schema';
+import { createMetadataProcessor, getA1111Sampler } from '~/utils/metadata/base.metadata';
+
+type NovelAIComment = {
+  prompt?: string;
+  uc?: string;
+  steps?: number;
+  scale?: number;
+  seed?: number;
+  sampler?: string;
+  noise_schedule?: string;
+  width?: number;
+  height?: number;
+  strength?: number;
+  [key: string]: unknown;
+};
+
+// NovelAI prefixes k-diffusion samplers and versions ddim, eg. `k_euler_ancestral`, `ddim_v3`
+function toComfySampler(sampler: string) {
+  return sampler.replace(/^k_/, '').replace(/_v\d+$/, '');
+}
+
+function toNovelAISampler(sampler: string) {
+  const comfySampler = samplerMap.get(sampler as Sampler)?.[0]?.replace(/_karras$/, '') ?? sampler;
+  return comfySampler === 'ddim' ? comfySampler : `k_${comfySampler}`;
+}
+
+export const novelaiMetadataProcessor = createMetadataProcessor({
+  canParse(exif) {
+    return exif?.Software === 'NovelAI' && !!exif?.Comment;
+  },
+  parse(exif) {
+    const {
+      prompt,
+      uc: negativePrompt,
+      scale: cfgScale,
+      steps,
+      seed,
+      sampler,
+      noise_schedule,
+      width,
+      height,
+      strength: denoise,
+      ...other
+    } = JSON.parse(exif.Comment) as NovelAIComment;
+
+    const metadata: ImageMetaProps = {
+      prompt: prompt ?? exif.Description,
+      negativePrompt,
+      cfgScale,
+      steps,
+      seed,
+      sampler: sampler ? getA1111Sampler(toComfySampler(sampler), noise_schedule) : undefined,
+      width,
+      height,
+      denoise,
+      software: 'NovelAI',
+      other,
+    };
+    if (noise_schedule && noise_schedule !== 'native') metadata.scheduler = noise_schedule;
+    // The source holds the model name and a short hash, eg. `NovelAI Diffusion V3 4BDE2A90`
+    if (exif.Source) metadata.Model = exif.Source;
+
+    return metadata;
+  },
+  encode(meta) {
+    return JSON.stringify({
+      prompt: meta.prompt,
+      uc: meta.negativePrompt,
+      scale: meta.cfgScale,
+      steps: meta.steps,
+      seed: meta.seed,
+      sampler: meta.sampler ? toNovelAISampler(meta.sampler) : undefined,
+      noise_schedule: meta.scheduler ?? (meta.sampler?.endsWith('Karras') ? 'karras' : 'native'),
+      width: meta.width,
+      height: meta.height,
+      strength: meta.denoise,
+      ...((meta.other as Record<string, unknown>) ?? {}),
+    });
+  },
+});
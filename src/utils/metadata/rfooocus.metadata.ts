@@ -1,7 +1,5 @@
-import { samplerMap } from '~/server/common/constants';
 import { ImageMetaProps } from '~/server/schema/image.schema';
-import { findKeyForValue } from '~/utils/map-helpers';
-import { createMetadataProcessor } from '~/utils/metadata/base.metadata';
+import { createMetadataProcessor, getA1111Sampler } from '~/utils/metadata/base.metadata';
 
 const AIR_KEYS = ['ckpt_airs', 'lora_airs', 'embedding_airs'];
 
@@ -49,7 +47,7 @@ export const rfooocusMetadataProcessor = createMetadataProcessor({
     if (scheduler !== 'simple') metadata.scheduler = scheduler;
 
     // Map to automatic1111 terms for compatibility
-    a1111Compatability(metadata);
+    metadata.sampler = getA1111Sampler(metadata.sampler, scheduler);
 
     return metadata;
   },
@@ -70,14 +68,3 @@ export const rfooocusMetadataProcessor = createMetadataProcessor({
     });
   },
 });
-
-function a1111Compatability(metadata: ImageMetaProps) {
-  // Sampler name
-  const samplerName = metadata.sampler;
-  let a1111sampler: string | undefined;
-  if (metadata.scheduler == 'karras') {
-    a1111sampler = findKeyForValue(samplerMap, samplerName + '_karras');
-  }
-  if (!a1111sampler) a1111sampler = findKeyForValue(samplerMap, samplerName);
-  if (a1111sampler) metadata.sampler = a1111sampler;
-}
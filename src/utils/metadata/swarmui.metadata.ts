@@ -0,0 +1,134 @@
+import { ImageMetaProps } from '~/server/schema/image.schema';
+import {
+  createMetadataProcessor,
+  getA1111Sampler,
+  getGenerationDetails,
+  SDResource,
+} from '~/utils/metadata/base.metadata';
+
+type SwarmUIParams = {
+  prompt?: string;
+  negativeprompt?: string;
+  model?: string;
+  seed?: number;
+  steps?: number;
+  cfgscale?: number;
+  width?: number;
+  height?: number;
+  sampler?: string;
+  scheduler?: string;
+  clipstopatlayer?: number;
+  initimagecreativity?: number;
+  loras?: string[];
+  loraweights?: (string | number)[];
+  vae?: string;
+  swarm_version?: string;
+  [key: string]: unknown;
+};
+type SwarmUIModel = { name: string; param: string; hash?: string };
+
+// Hashes are hex encoded sha256, eg. `0xabc...`
+function getModelHash(model?: SwarmUIModel) {
+  return model?.hash?.replace(/^0x/, '');
+}
+
+// Model names may include the folder and extension, eg. `Lora/detailer.safetensors`
+function getModelName(name: string) {
+  return name
+    .split('/')
+    .pop()
+    ?.replace(/\.(safetensors|ckpt|pt|bin)$/, '') as string;
+}
+
+export const swarmuiMetadataProcessor = createMetadataProcessor({
+  canParse(exif) {
+    return !!getGenerationDetails(exif)?.includes('"sui_image_params"');
+  },
+  parse(exif) {
+    const details = JSON.parse(getGenerationDetails(exif) as string);
+    const models = (details.sui_models ?? []) as SwarmUIModel[];
+    const {
+      prompt,
+      negativeprompt: negativePrompt,
+      cfgscale: cfgScale,
+      steps,
+      seed,
+      sampler,
+      scheduler,
+      width,
+      height,
+      clipstopatlayer,
+      initimagecreativity: denoise,
+      model,
+      loras = [],
+      loraweights = [],
+      vae,
+      swarm_version,
+      ...other
+    } = details.sui_image_params as SwarmUIParams;
+
+    const metadata: ImageMetaProps = {
+      prompt,
+      negativePrompt,
+      cfgScale,
+      steps,
+      seed,
+      sampler: getA1111Sampler(sampler, scheduler),
+      width,
+      height,
+      denoise,
+      software: swarm_version ? `SwarmUI ${swarm_version}` : 'SwarmUI',
+      other,
+    };
+    if (scheduler && scheduler !== 'normal') metadata.scheduler = scheduler;
+    if (clipstopatlayer) metadata.clipSkip = Math.abs(clipstopatlayer);
+
+    const hashes: Record<string, string> = {};
+    const resources: SDResource[] = [];
+    if (model) {
+      const name = getModelName(model);
+      const hash = getModelHash(models.find((x) => x.param === 'model'));
+      metadata.Model = name;
+      if (hash) hashes.model = hash;
+      resources.push({ type: 'model', name, hash });
+    }
+    if (vae) {
+      const name = getModelName(vae);
+      const hash = getModelHash(models.find((x) => x.param === 'vae'));
+      if (hash) hashes.vae = hash;
+      resources.push({ type: 'vae', name, hash });
+    }
+    const loraModels = models.filter((x) => x.param === 'loras');
+    loras.forEach((lora, i) => {
+      const name = getModelName(lora);
+      const hash = getModelHash(loraModels.find((x) => getModelName(x.name) === name));
+      const weight = loraweights[i] !== undefined ? Number(loraweights[i]) : undefined;
+      if (hash) hashes[`lora:${name}`] = hash;
+      resources.push({ type: 'lora', name, hash, weight });
+    });
+
+    if (Object.keys(hashes).length) metadata.hashes = hashes;
+    metadata.resources = resources;
+
+    return metadata;
+  },
+  encode(meta) {
+    return JSON.stringify({
+      sui_image_params: {
+        prompt: meta.prompt,
+        negativeprompt: meta.negativePrompt,
+        cfgscale: meta.cfgScale,
+        steps: meta.steps,
+        seed: meta.seed,
+        sampler: meta.sampler,
+        scheduler: meta.scheduler,
+        width: meta.width,
+        height: meta.height,
+        model: meta.Model,
+        clipstopatlayer: meta.clipSkip ? -meta.clipSkip : undefined,
+        initimagecreativity: meta.denoise,
+        ...((meta.other as Record<string, unknown>) ?? {}),
+      },
+    });
+  },
+});
@@ -0,0 +1,82 @@
+const pngSignature = [137, 80, 78, 71, 13, 10, 26, 10];
+
+export function isPng(data: Uint8Array) {
+  return pngSignature.every((byte, i) => data[i] === byte);
+}
+
+let crcTable: number[] | undefined;
+function crc32(data: Uint8Array) {
+  if (!crcTable) {
+    crcTable = Array.from({ length: 256 }, (_, n) => {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      return c >>> 0;
+    });
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createTextChunk(keyword: string, text: string) {
+  // ComfyUI decodes tEXt chunks as utf-8, so unicode prompts survive even though the spec says latin-1
+  const encoder = new TextEncoder();
+  const body = new Uint8Array([
+    ...encoder.encode('tEXt'),
+    ...encoder.encode(keyword),
+    0,
+    ...encoder.encode(text),
+  ]);
+
+  const chunk = new Uint8Array(body.length + 8);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, body.length - 4);
+  chunk.set(body, 4);
+  view.setUint32(chunk.length - 4, crc32(body));
+  return chunk;
+}
+
+/** Returns a copy of the png with the text chunks inserted before its end chunk */
+export function addPngTextChunks(data: Uint8Array, chunks: Record<string, string>) {
+  if (!isPng(data)) throw new Error('Not a png');
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = pngSignature.length;
+  while (offset < data.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    if (type === 'IEND') break;
+    offset += length + 12;
+  }
+  if (offset >= data.length) throw new Error('Invalid png');
+
+  const textChunks = Object.entries(chunks).map(([keyword, text]) =>
+    createTextChunk(keyword, text)
+  );
+  const result = new Uint8Array(
+    data.length + textChunks.reduce((total, chunk) => total + chunk.length, 0)
+  );
+  result.set(data.subarray(0, offset));
+  let position = offset;
+  for (const chunk of textChunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  result.set(data.subarray(offset), position);
+  return result;
+}
+
+/** Draws the image onto a canvas to get it as a png */
+export async function convertToPng(blob: Blob) {
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((png) => (png ? resolve(png) : reject(new Error('Failed to convert image'))))
+  );
+}
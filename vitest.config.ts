@@ -0,0 +1,20 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '~': fileURLToPath(new URL('./src', import.meta.url)) },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Shared modules validate the client env on import
+    env: {
+      NEXT_PUBLIC_IMAGE_LOCATION: '',
+      NEXT_PUBLIC_CONTENT_DECTECTION_LOCATION:
+        'https://publicstore.civitai.com/content_detection/model.json',
+      NEXT_PUBLIC_CIVITAI_LINK: 'https://link.civitai.com',
+      NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY: '',
+      NEXT_PUBLIC_RECAPTCHA_KEY: 'aSampleKey',
+    },
+  },
+});